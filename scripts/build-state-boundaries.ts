@@ -0,0 +1,76 @@
+/**
+ * Build the bundled US state-boundaries GeoJSON used by the schools map.
+ *
+ * Usage:
+ *   npx tsx scripts/build-state-boundaries.ts
+ *
+ * Reads:  node_modules/us-atlas/states-10m.json (TopoJSON, lon/lat)
+ * Writes: src/lib/us-states.json
+ *
+ * Territories are dropped because the Albers USA projection only places the
+ * 50 states and DC. Coordinates are rounded to 0.01° (~1 km), which is finer
+ * than a pixel at the map's size and keeps the file small enough to ship with
+ * the client.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { feature } from 'topojson-client';
+import type { Topology, GeometryCollection } from 'topojson-specification';
+import type { FeatureCollection, Geometry, Position } from 'geojson';
+
+const ROOT = path.join(__dirname, '..');
+const IN_FILE = path.join(ROOT, 'node_modules', 'us-atlas', 'states-10m.json');
+const OUT_FILE = path.join(ROOT, 'src', 'lib', 'us-states.json');
+
+const PRECISION = 100;
+
+// State FIPS codes run 01-56; territories (PR, GU, VI, AS, MP) start at 60
+const MAX_STATE_FIPS = 56;
+
+function roundRing(ring: Position[]): Position[] {
+  const out: Position[] = [];
+  for (const [lon, lat] of ring) {
+    const point = [Math.round(lon * PRECISION) / PRECISION, Math.round(lat * PRECISION) / PRECISION];
+    const prev = out[out.length - 1];
+    if (!prev || prev[0] !== point[0] || prev[1] !== point[1]) out.push(point);
+  }
+  return out;
+}
+
+function roundGeometry(geometry: Geometry): Geometry {
+  if (geometry.type === 'Polygon') {
+    return { type: 'Polygon', coordinates: geometry.coordinates.map(roundRing).filter((r) => r.length >= 4) };
+  }
+  if (geometry.type === 'MultiPolygon') {
+    return {
+      type: 'MultiPolygon',
+      coordinates: geometry.coordinates
+        .map((polygon) => polygon.map(roundRing).filter((r) => r.length >= 4))
+        .filter((polygon) => polygon.length > 0),
+    };
+  }
+  return geometry;
+}
+
+function main() {
+  const topology = JSON.parse(readFileSync(IN_FILE, 'utf-8')) as Topology<{ states: GeometryCollection<{ name: string }> }>;
+  const states = feature(topology, topology.objects.states) as FeatureCollection<Geometry, { name: string }>;
+
+  const output: FeatureCollection<Geometry, { name: string }> = {
+    type: 'FeatureCollection',
+    features: states.features
+      .filter((f) => Number(f.id) <= MAX_STATE_FIPS)
+      .map((f) => ({
+        type: 'Feature',
+        id: f.id,
+        properties: { name: f.properties.name },
+        geometry: roundGeometry(f.geometry),
+      })),
+  };
+
+  writeFileSync(OUT_FILE, JSON.stringify(output) + '\n');
+  console.log(`Wrote ${output.features.length} states to ${path.relative(ROOT, OUT_FILE)}`);
+}
+
+main();
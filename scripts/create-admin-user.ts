@@ -0,0 +1,64 @@
+/**
+ * Create or update a user for the admin area (/analytics, /admin, /api/admin).
+ *
+ * Usage:
+ *   npx tsx scripts/create-admin-user.ts <username> [viewer|admin]
+ *
+ * The password is read from ADMIN_PASSWORD, or prompted for when unset.
+ * Running again for an existing username replaces its password and role.
+ * Sessions are signed with AUTH_SECRET (32+ characters), which must be set
+ * in the app's environment for sign-in to work.
+ */
+
+import { createInterface } from 'readline/promises';
+import { createClient } from '@libsql/client';
+import { hashPassword } from '../src/lib/password';
+import { databaseConfig } from '../src/lib/db/config';
+import { assertSchemaCurrent } from '../src/lib/db/migrate';
+
+const ROLES = ['viewer', 'admin'];
+const MIN_PASSWORD_LENGTH = 12;
+
+const client = createClient(databaseConfig());
+
+async function readPassword(): Promise<string> {
+  if (process.env.ADMIN_PASSWORD) return process.env.ADMIN_PASSWORD;
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const password = await rl.question('Password: ');
+  rl.close();
+  return password;
+}
+
+async function main() {
+  const [usernameArg, role = 'viewer'] = process.argv.slice(2);
+  const username = usernameArg?.trim().toLowerCase();
+  if (!username || !ROLES.includes(role)) {
+    console.error('Usage: npx tsx scripts/create-admin-user.ts <username> [viewer|admin]');
+    process.exit(1);
+  }
+
+  const password = await readPassword();
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    console.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    process.exit(1);
+  }
+
+  // admin_users comes from the migrations and is not touched by re-ingest
+  await assertSchemaCurrent(client);
+
+  await client.execute({
+    sql: `
+      INSERT INTO admin_users (username, password_hash, role, created_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(username) DO UPDATE SET password_hash = excluded.password_hash, role = excluded.role
+    `,
+    args: [username, hashPassword(password), role, Math.floor(Date.now() / 1000)],
+  });
+
+  console.log(`Saved ${role} user '${username}'`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -2,13 +2,28 @@
  * Fetch College Scorecard data from the Department of Education API.
  *
  * Usage:
- *   npx tsx scripts/fetch-scorecard.ts
+ *   npx tsx scripts/fetch-scorecard.ts [--year=2021] [--resume]
  *
  * Requires SCORECARD_API_KEY in .env.local (get one free at https://api.data.gov/signup/)
  * Outputs raw JSON to data/raw-institutions.json and data/raw-programs.json
+ *
+ * With --year the fields of that Scorecard release are fetched instead of
+ * latest.*, and the output goes to data/releases/<year>/. Fetch each release
+ * year (including the current one) to build earnings trends.
+ *
+ * Each page is checkpointed under <output dir>/cache/ as it arrives, and
+ * failed requests are retried with backoff. After an interrupted run,
+ * --resume picks up from the last saved page; the cache is discarded if the
+ * requested fields have changed since. SCORECARD_API_URL points the script
+ * at another server, such as a local mock, and SCORECARD_DATA_DIR writes to
+ * another directory than data/.
+ *
+ * Without network access, import-scorecard-csv.ts builds the same files from
+ * the bulk CSV downloads.
  */
 
-import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync, rmSync } from 'fs';
+import { createHash } from 'crypto';
 import path from 'path';
 
 // Load .env.local
@@ -28,17 +43,29 @@ if (existsSync(envPath)) {
 }
 
 const API_KEY = process.env.SCORECARD_API_KEY || 'DEMO_KEY';
-const BASE_URL = 'https://api.data.gov/ed/collegescorecard/v1/schools';
+const BASE_URL = process.env.SCORECARD_API_URL || 'https://api.data.gov/ed/collegescorecard/v1/schools';
 const PER_PAGE = 100;
-const DATA_DIR = path.join(__dirname, '..', 'data');
+const MAX_RETRIES = 6;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60_000;
+const RESUME = process.argv.includes('--resume');
+
+const yearArg = process.argv.find((a) => a.startsWith('--year='));
+const RELEASE_YEAR = yearArg ? Number(yearArg.slice('--year='.length)) : null;
+if (RELEASE_YEAR != null && !(Number.isInteger(RELEASE_YEAR) && RELEASE_YEAR >= 1996 && RELEASE_YEAR <= 2100)) {
+  throw new Error(`Invalid ${yearArg}`);
+}
+const PREFIX = RELEASE_YEAR != null ? String(RELEASE_YEAR) : 'latest';
+const ROOT_DATA_DIR = process.env.SCORECARD_DATA_DIR || path.join(__dirname, '..', 'data');
+const DATA_DIR = RELEASE_YEAR != null
+  ? path.join(ROOT_DATA_DIR, 'releases', String(RELEASE_YEAR))
+  : ROOT_DATA_DIR;
+const CACHE_DIR = path.join(DATA_DIR, 'cache');
 
 // --- Institution fields ---
-const INSTITUTION_FIELDS = [
-  'id',
-  'school.name',
-  'school.city',
-  'school.state',
-  'school.ownership',
+// Year-specific fields are requested under their release prefix and stored
+// under the latest.* names process-scorecard reads.
+const LATEST_INSTITUTION_FIELDS = [
   'latest.admissions.admission_rate.overall',
   'latest.admissions.sat_scores.75th_percentile.critical_reading',
   'latest.admissions.sat_scores.75th_percentile.math',
@@ -48,7 +75,40 @@ const INSTITUTION_FIELDS = [
   'latest.cost.tuition.out_of_state',
   'latest.cost.avg_net_price.public',
   'latest.cost.avg_net_price.private',
+  'latest.cost.net_price.public.by_income_level.0-30000',
+  'latest.cost.net_price.public.by_income_level.30001-48000',
+  'latest.cost.net_price.public.by_income_level.48001-75000',
+  'latest.cost.net_price.public.by_income_level.75001-110000',
+  'latest.cost.net_price.public.by_income_level.110001-plus',
+  'latest.cost.net_price.private.by_income_level.0-30000',
+  'latest.cost.net_price.private.by_income_level.30001-48000',
+  'latest.cost.net_price.private.by_income_level.48001-75000',
+  'latest.cost.net_price.private.by_income_level.75001-110000',
+  'latest.cost.net_price.private.by_income_level.110001-plus',
   'latest.completion.rate_suppressed.four_year',
+  'latest.completion.completion_rate_4yr_150nt',
+  'latest.completion.completion_rate_less_than_4yr_150nt',
+  'latest.student.retention_rate.four_year.full_time',
+  'latest.student.retention_rate.lt_four_year.full_time',
+  'latest.repayment.3_yr_repayment.overall',
+  'latest.aid.pell_grant_rate',
+  'latest.student.share_firstgeneration',
+];
+
+const INSTITUTION_FIELDS = [
+  'id',
+  'school.name',
+  'school.city',
+  'school.state',
+  'school.ownership',
+  'school.minority_serving.historically_black',
+  'school.minority_serving.hispanic',
+  'school.minority_serving.tribal',
+  'school.women_only',
+  'school.religious_affiliation',
+  'school.locale',
+  'school.carnegie_basic',
+  ...LATEST_INSTITUTION_FIELDS.map((f) => f.replace(/^latest\./, `${PREFIX}.`)),
   'location.lat',
   'location.lon',
 ].join(',');
@@ -59,16 +119,17 @@ const FOS_FIELDS = [
   'school.name',
   'school.state',
   'school.ownership',
-  'latest.programs.cip_4_digit.code',
-  'latest.programs.cip_4_digit.title',
-  'latest.programs.cip_4_digit.credential.level',
-  'latest.programs.cip_4_digit.credential.title',
-  'latest.programs.cip_4_digit.earnings.1_yr.overall_median_earnings',
-  'latest.programs.cip_4_digit.earnings.1_yr.working_not_enrolled.overall_count',
-  'latest.programs.cip_4_digit.earnings.4_yr.overall_median_earnings',
-  'latest.programs.cip_4_digit.earnings.4_yr.working_not_enrolled.overall_count',
-  'latest.programs.cip_4_digit.earnings.5_yr.overall_median_earnings',
-  'latest.programs.cip_4_digit.earnings.5_yr.working_not_enrolled.overall_count',
+  `${PREFIX}.programs.cip_4_digit.code`,
+  `${PREFIX}.programs.cip_4_digit.title`,
+  `${PREFIX}.programs.cip_4_digit.credential.level`,
+  `${PREFIX}.programs.cip_4_digit.credential.title`,
+  `${PREFIX}.programs.cip_4_digit.earnings.1_yr.overall_median_earnings`,
+  `${PREFIX}.programs.cip_4_digit.earnings.1_yr.working_not_enrolled.overall_count`,
+  `${PREFIX}.programs.cip_4_digit.earnings.4_yr.overall_median_earnings`,
+  `${PREFIX}.programs.cip_4_digit.earnings.4_yr.working_not_enrolled.overall_count`,
+  `${PREFIX}.programs.cip_4_digit.earnings.5_yr.overall_median_earnings`,
+  `${PREFIX}.programs.cip_4_digit.earnings.5_yr.working_not_enrolled.overall_count`,
+  `${PREFIX}.programs.cip_4_digit.debt.staff_grad_plus.all.eval_inst.median`,
 ].join(',');
 
 interface ApiResponse {
@@ -76,55 +137,155 @@ interface ApiResponse {
   results: Record<string, unknown>[];
 }
 
+// Thrown for responses worth retrying: rate limiting and server errors
+class RetryableError extends Error {
+  constructor(message: string, readonly retryAfterMs: number | null = null) {
+    super(message);
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
 async function fetchPage(url: string): Promise<ApiResponse> {
-  const res = await fetch(url);
+  let res: Response;
+  try {
+    res = await fetch(url);
+  } catch (err) {
+    throw new RetryableError(`Network error: ${(err as Error).message}`);
+  }
   if (!res.ok) {
     const text = await res.text();
-    throw new Error(`API error ${res.status}: ${text}`);
+    const message = `API error ${res.status}: ${text}`;
+    if (res.status === 429 || res.status >= 500) {
+      throw new RetryableError(message, parseRetryAfter(res.headers.get('retry-after')));
+    }
+    throw new Error(message);
   }
   return res.json() as Promise<ApiResponse>;
 }
 
-async function fetchAllPages(
-  baseParams: string,
-  label: string,
-): Promise<Record<string, unknown>[]> {
-  const allResults: Record<string, unknown>[] = [];
+// Exponential backoff with jitter, or the server's Retry-After when given
+async function fetchPageWithRetry(url: string): Promise<ApiResponse> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchPage(url);
+    } catch (err) {
+      if (!(err instanceof RetryableError) || attempt >= MAX_RETRIES) throw err;
+      const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+      const delay = err.retryAfterMs ?? backoff;
+      console.log(`\n  ${err.message.slice(0, 200)}; retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${MAX_RETRIES})`);
+      await sleep(delay);
+    }
+  }
+}
+
+// --- Page checkpoints ---
+// Each page is saved as cache/<label>/page-NNNNN.json. The manifest records a
+// hash of the request so a cache built for other fields or filters is never
+// resumed.
+
+interface CacheManifest {
+  requestHash: string;
+  total: number;
+}
+
+function requestHash(baseParams: string): string {
+  return createHash('sha256').update(`${BASE_URL}?per_page=${PER_PAGE}&${baseParams}`).digest('hex').slice(0, 16);
+}
+
+function pagePath(dir: string, page: number): string {
+  return path.join(dir, `page-${String(page).padStart(5, '0')}.json`);
+}
+
+// Write-then-rename, so an interrupted write never leaves a truncated page
+function writeAtomic(file: string, data: string) {
+  writeFileSync(`${file}.tmp`, data);
+  renameSync(`${file}.tmp`, file);
+}
+
+// Opens the label's cache, keeping it only when resuming the same request
+function openCache(label: string, hash: string): { dir: string; manifest: CacheManifest | null } {
+  const dir = path.join(CACHE_DIR, label);
+  const manifestPath = path.join(dir, 'manifest.json');
+  if (RESUME && existsSync(manifestPath)) {
+    const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as CacheManifest;
+    if (manifest.requestHash === hash) return { dir, manifest };
+    console.log(`  Cached ${label} pages were fetched with different fields; starting over`);
+  }
+  rmSync(dir, { recursive: true, force: true });
+  mkdirSync(dir, { recursive: true });
+  return { dir, manifest: null };
+}
+
+// Fetches every page not already checkpointed and returns the page count
+async function fetchAllPages(baseParams: string, label: string): Promise<number> {
+  const hash = requestHash(baseParams);
+  const { dir, manifest } = openCache(label, hash);
+  let total = manifest?.total ?? Infinity;
   let page = 0;
-  let total = Infinity;
+  let cached = 0;
 
   while (page * PER_PAGE < total) {
+    const file = pagePath(dir, page);
+    if (existsSync(file)) {
+      cached++;
+      page++;
+      continue;
+    }
     const url = `${BASE_URL}?api_key=${API_KEY}&per_page=${PER_PAGE}&page=${page}&${baseParams}`;
     process.stdout.write(`\r  Fetching ${label} page ${page + 1}...`);
 
-    const data = await fetchPage(url);
-    total = data.metadata.total;
-    allResults.push(...data.results);
-    page++;
-
-    if (page === 1) {
+    const data = await fetchPageWithRetry(url);
+    if (total === Infinity) {
+      total = data.metadata.total;
+      writeAtomic(path.join(dir, 'manifest.json'), JSON.stringify({ requestHash: hash, total } satisfies CacheManifest));
       console.log(` (${total.toLocaleString()} total records)`);
     }
+    writeAtomic(file, JSON.stringify(data.results));
+    page++;
 
     // Rate limit: DEMO_KEY allows 30 req / 10s window
-    if (API_KEY === 'DEMO_KEY') {
-      await new Promise((r) => setTimeout(r, 350));
-    } else {
-      await new Promise((r) => setTimeout(r, 50));
-    }
+    await sleep(API_KEY === 'DEMO_KEY' ? 350 : 50);
   }
 
-  console.log(`\n  Done: ${allResults.length.toLocaleString()} records fetched.`);
-  return allResults;
+  const resumed = cached > 0 ? ` (${cached.toLocaleString()} from an earlier run)` : '';
+  console.log(`\n  Done: ${page.toLocaleString()} pages of ${label} saved${resumed}.`);
+  return page;
+}
+
+// Reads checkpointed records back one page at a time
+function* cachedRecords(label: string, pages: number): Generator<Record<string, unknown>> {
+  const dir = path.join(CACHE_DIR, label);
+  for (let page = 0; page < pages; page++) {
+    yield* JSON.parse(readFileSync(pagePath(dir, page), 'utf-8')) as Record<string, unknown>[];
+  }
 }
 
 async function main() {
-  console.log(`Using API key: ${API_KEY === 'DEMO_KEY' ? 'DEMO_KEY (rate-limited)' : 'custom key'}\n`);
+  console.log(`Using API key: ${API_KEY === 'DEMO_KEY' ? 'DEMO_KEY (rate-limited)' : 'custom key'}`);
+  console.log(`Release: ${RELEASE_YEAR ?? 'latest'}\n`);
+  mkdirSync(DATA_DIR, { recursive: true });
 
   // 1. Fetch institutions (degree-granting, currently operating)
   console.log('=== Fetching Institution Data ===');
   const instParams = `fields=${INSTITUTION_FIELDS}&school.operating=1&school.degrees_awarded.predominant__range=1..4`;
-  const institutions = await fetchAllPages(instParams, 'institutions');
+  const instPages = await fetchAllPages(instParams, 'institutions');
+  const institutions = Array.from(cachedRecords('institutions', instPages), (inst) => {
+    const renamed: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(inst)) {
+      renamed[key.startsWith(`${PREFIX}.`) ? `latest.${key.slice(PREFIX.length + 1)}` : key] = value;
+    }
+    return renamed;
+  });
   const instPath = path.join(DATA_DIR, 'raw-institutions.json');
   writeFileSync(instPath, JSON.stringify(institutions, null, 2));
   console.log(`  Saved to ${instPath}\n`);
@@ -134,7 +295,7 @@ async function main() {
   // with program data included. We filter to degree-granting schools.
   console.log('=== Fetching Field of Study Data ===');
   const fosParams = `fields=${FOS_FIELDS}&school.operating=1&school.degrees_awarded.predominant__range=1..4`;
-  const fosSchools = await fetchAllPages(fosParams, 'field-of-study');
+  const fosPages = await fetchAllPages(fosParams, 'field-of-study');
 
   // Flatten: each school has an array of programs, extract each as its own record
   interface Program {
@@ -152,16 +313,17 @@ async function main() {
     earn4yrCount: number | null;
     earn5yr: number | null;
     earn5yrCount: number | null;
+    medianDebt: number | null;
   }
 
   const programs: Program[] = [];
-  for (const school of fosSchools) {
+  for (const school of cachedRecords('field-of-study', fosPages)) {
     const unitId = school['id'] as number;
     const schoolName = (school['school.name'] as string) || '';
     const state = (school['school.state'] as string) || '';
     const ownership = (school['school.ownership'] as number) || 0;
 
-    const cip4 = school['latest.programs.cip_4_digit'] as Record<string, unknown>[] | undefined;
+    const cip4 = school[`${PREFIX}.programs.cip_4_digit`] as Record<string, unknown>[] | undefined;
     if (!Array.isArray(cip4)) continue;
 
     for (const prog of cip4) {
@@ -171,6 +333,7 @@ async function main() {
       const e1 = p.earnings?.['1_yr'] || {};
       const e4 = p.earnings?.['4_yr'] || {};
       const e5 = p.earnings?.['5_yr'] || {};
+      const debt = p.debt?.staff_grad_plus?.all?.eval_inst || {};
 
       programs.push({
         unitId,
@@ -187,6 +350,7 @@ async function main() {
         earn4yrCount: e4.working_not_enrolled?.overall_count ?? null,
         earn5yr: e5.overall_median_earnings ?? null,
         earn5yrCount: e5.working_not_enrolled?.overall_count ?? null,
+        medianDebt: debt.median ?? null,
       });
     }
   }
@@ -196,6 +360,9 @@ async function main() {
   console.log(`  Flattened ${programs.length.toLocaleString()} program records`);
   console.log(`  Saved to ${fosPath}\n`);
 
+  // Both outputs are written, so the checkpoints are no longer needed
+  rmSync(CACHE_DIR, { recursive: true, force: true });
+
   // Quick stats
   const bachelors = programs.filter((p) => p.credLevel === 3);
   const withEarnings = bachelors.filter((p) => p.earn1yr != null);
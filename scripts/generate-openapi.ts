@@ -0,0 +1,127 @@
+/**
+ * Generate OpenAPI component schemas from the interfaces in src/types.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-openapi.ts
+ *
+ * Reads:  src/types/index.ts
+ * Writes: src/lib/api/openapi-schemas.json
+ *
+ * Re-run whenever an exported interface in src/types changes.
+ */
+
+import { writeFileSync } from 'fs';
+import path from 'path';
+import ts from 'typescript';
+
+const ROOT = path.join(__dirname, '..');
+const TYPES_FILE = path.join(ROOT, 'src', 'types', 'index.ts');
+const OUT_FILE = path.join(ROOT, 'src', 'lib', 'api', 'openapi-schemas.json');
+
+type JsonSchema = Record<string, unknown>;
+
+// Exported type aliases (string unions and the like) are inlined where used
+const aliases = new Map<string, ts.TypeNode>();
+
+function toSchema(node: ts.TypeNode, interfaces: Set<string>): JsonSchema {
+  switch (node.kind) {
+    case ts.SyntaxKind.NumberKeyword:
+      return { type: 'number' };
+    case ts.SyntaxKind.StringKeyword:
+      return { type: 'string' };
+    case ts.SyntaxKind.BooleanKeyword:
+      return { type: 'boolean' };
+  }
+
+  if (ts.isLiteralTypeNode(node)) {
+    if (node.literal.kind === ts.SyntaxKind.NullKeyword) return { nullable: true };
+    if (ts.isStringLiteral(node.literal)) return { type: 'string', enum: [node.literal.text] };
+    if (ts.isNumericLiteral(node.literal)) return { type: 'number', enum: [Number(node.literal.text)] };
+  }
+
+  if (ts.isArrayTypeNode(node)) {
+    return { type: 'array', items: toSchema(node.elementType, interfaces) };
+  }
+
+  if (ts.isTypeReferenceNode(node)) {
+    const name = node.typeName.getText();
+    if (interfaces.has(name)) return { $ref: `#/components/schemas/${name}` };
+    const alias = aliases.get(name);
+    if (alias) return toSchema(alias, interfaces);
+    throw new Error(`Unsupported type reference: ${name}`);
+  }
+
+  if (ts.isUnionTypeNode(node)) {
+    const nullable = node.types.some(
+      (t) => ts.isLiteralTypeNode(t) && t.literal.kind === ts.SyntaxKind.NullKeyword,
+    );
+    const members = node.types
+      .filter((t) => !(ts.isLiteralTypeNode(t) && t.literal.kind === ts.SyntaxKind.NullKeyword))
+      .map((t) => toSchema(t, interfaces));
+
+    // Collapse unions of string literals into a single enum
+    const schema: JsonSchema = members.every((m) => m.type === 'string' && m.enum)
+      ? { type: 'string', enum: members.flatMap((m) => m.enum as string[]) }
+      : members.length === 1
+        ? members[0]
+        : { oneOf: members };
+    return nullable ? { ...schema, nullable: true } : schema;
+  }
+
+  throw new Error(`Unsupported type: ${node.getText()}`);
+}
+
+function trailingComment(node: ts.Node, source: ts.SourceFile): string | undefined {
+  const trailing = ts.getTrailingCommentRanges(source.text, node.getEnd()) ?? [];
+  const range = trailing[0];
+  if (!range) return undefined;
+  return source.text.slice(range.pos, range.end).replace(/^\/\/\s*/, '').trim();
+}
+
+function main() {
+  const source = ts.createSourceFile(
+    TYPES_FILE,
+    ts.sys.readFile(TYPES_FILE) ?? '',
+    ts.ScriptTarget.Latest,
+    true,
+  );
+
+  const declarations = source.statements.filter(
+    (s): s is ts.InterfaceDeclaration =>
+      ts.isInterfaceDeclaration(s) && !!s.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword),
+  );
+  const interfaces = new Set(declarations.map((d) => d.name.text));
+  for (const s of source.statements) {
+    if (ts.isTypeAliasDeclaration(s)) aliases.set(s.name.text, s.type);
+  }
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const decl of declarations) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const member of decl.members) {
+      if (!ts.isPropertySignature(member) || !member.type) continue;
+      const name = member.name.getText(source);
+      const schema = toSchema(member.type, interfaces);
+      const description = trailingComment(member, source);
+      properties[name] = description ? { ...schema, description } : schema;
+      if (!member.questionToken) required.push(name);
+    }
+    const schema: JsonSchema = { type: 'object', properties, required };
+
+    // An interface that extends others is the parents' schemas plus its own members
+    const parents = (decl.heritageClauses ?? []).flatMap((clause) =>
+      clause.types.map((t) => {
+        const name = t.expression.getText(source);
+        if (!interfaces.has(name)) throw new Error(`Unsupported base interface: ${name}`);
+        return { $ref: `#/components/schemas/${name}` };
+      }),
+    );
+    schemas[decl.name.text] = parents.length > 0 ? { allOf: [...parents, schema] } : schema;
+  }
+
+  writeFileSync(OUT_FILE, JSON.stringify(schemas, null, 2) + '\n');
+  console.log(`Wrote ${Object.keys(schemas).length} schemas to ${path.relative(ROOT, OUT_FILE)}`);
+}
+
+main();
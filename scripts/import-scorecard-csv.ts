@@ -0,0 +1,299 @@
+/**
+ * Import College Scorecard bulk CSV downloads instead of calling the API.
+ *
+ * Usage:
+ *   npx tsx scripts/import-scorecard-csv.ts [--institutions=<csv>] [--programs=<csv>] [--year=2021]
+ *
+ * Reads Most-Recent-Cohorts-Institution.csv and
+ * Most-Recent-Cohorts-Field-of-Study.csv (https://collegescorecard.ed.gov/data/)
+ * from data/csv/ unless other paths are given, and writes
+ * data/raw-institutions.json and data/raw-programs.json in the shape
+ * fetch-scorecard.ts produces, so process-scorecard.ts runs on either source.
+ *
+ * With --year the output goes to data/releases/<year>/; pass that release's
+ * institution and field-of-study files from the full data download.
+ * SCORECARD_DATA_DIR replaces data/ as the root directory.
+ */
+
+import { createReadStream, existsSync, mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import readline from 'readline';
+
+function argValue(name: string): string | null {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : null;
+}
+
+const yearArg = argValue('year');
+const RELEASE_YEAR = yearArg != null ? Number(yearArg) : null;
+if (RELEASE_YEAR != null && !(Number.isInteger(RELEASE_YEAR) && RELEASE_YEAR >= 1996 && RELEASE_YEAR <= 2100)) {
+  throw new Error(`Invalid --year=${yearArg}`);
+}
+const ROOT_DATA_DIR = process.env.SCORECARD_DATA_DIR || path.join(__dirname, '..', 'data');
+const DATA_DIR = RELEASE_YEAR != null
+  ? path.join(ROOT_DATA_DIR, 'releases', String(RELEASE_YEAR))
+  : ROOT_DATA_DIR;
+const CSV_DIR = path.join(ROOT_DATA_DIR, 'csv');
+const INSTITUTIONS_CSV = argValue('institutions') ?? path.join(CSV_DIR, 'Most-Recent-Cohorts-Institution.csv');
+const PROGRAMS_CSV = argValue('programs') ?? path.join(CSV_DIR, 'Most-Recent-Cohorts-Field-of-Study.csv');
+
+// --- Column mapping ---
+// Raw JSON key (the API field name fetch-scorecard stores) to the bulk-file
+// columns that carry it, in order of preference. Column names follow the
+// Scorecard data dictionary; older releases use some of the fallbacks.
+const INSTITUTION_COLUMNS: Record<string, string[]> = {
+  'id': ['UNITID'],
+  'school.name': ['INSTNM'],
+  'school.city': ['CITY'],
+  'school.state': ['STABBR'],
+  'school.ownership': ['CONTROL'],
+  'school.minority_serving.historically_black': ['HBCU'],
+  'school.minority_serving.hispanic': ['HSI'],
+  'school.minority_serving.tribal': ['TRIBAL'],
+  'school.women_only': ['WOMENONLY'],
+  'school.religious_affiliation': ['RELAFFIL'],
+  'school.locale': ['LOCALE'],
+  'school.carnegie_basic': ['CCBASIC'],
+  'latest.admissions.admission_rate.overall': ['ADM_RATE'],
+  'latest.admissions.sat_scores.75th_percentile.critical_reading': ['SATVR75'],
+  'latest.admissions.sat_scores.75th_percentile.math': ['SATMT75'],
+  'latest.student.size': ['UGDS'],
+  'latest.cost.attendance.academic_year': ['COSTT4_A'],
+  'latest.cost.tuition.in_state': ['TUITIONFEE_IN'],
+  'latest.cost.tuition.out_of_state': ['TUITIONFEE_OUT'],
+  'latest.cost.avg_net_price.public': ['NPT4_PUB'],
+  'latest.cost.avg_net_price.private': ['NPT4_PRIV'],
+  'latest.cost.net_price.public.by_income_level.0-30000': ['NPT41_PUB'],
+  'latest.cost.net_price.public.by_income_level.30001-48000': ['NPT42_PUB'],
+  'latest.cost.net_price.public.by_income_level.48001-75000': ['NPT43_PUB'],
+  'latest.cost.net_price.public.by_income_level.75001-110000': ['NPT44_PUB'],
+  'latest.cost.net_price.public.by_income_level.110001-plus': ['NPT45_PUB'],
+  'latest.cost.net_price.private.by_income_level.0-30000': ['NPT41_PRIV'],
+  'latest.cost.net_price.private.by_income_level.30001-48000': ['NPT42_PRIV'],
+  'latest.cost.net_price.private.by_income_level.48001-75000': ['NPT43_PRIV'],
+  'latest.cost.net_price.private.by_income_level.75001-110000': ['NPT44_PRIV'],
+  'latest.cost.net_price.private.by_income_level.110001-plus': ['NPT45_PRIV'],
+  'latest.completion.rate_suppressed.four_year': ['C150_4_POOLED_SUPP'],
+  'latest.completion.completion_rate_4yr_150nt': ['C150_4'],
+  'latest.completion.completion_rate_less_than_4yr_150nt': ['C150_L4'],
+  'latest.student.retention_rate.four_year.full_time': ['RET_FT4'],
+  'latest.student.retention_rate.lt_four_year.full_time': ['RET_FTL4'],
+  'latest.repayment.3_yr_repayment.overall': ['RPY_3YR_RT', 'RPY_3YR_RT_SUPP'],
+  'latest.aid.pell_grant_rate': ['PCTPELL'],
+  'latest.student.share_firstgeneration': ['FIRST_GEN', 'PAR_ED_PCT_1STGEN'],
+  'location.lat': ['LATITUDE'],
+  'location.lon': ['LONGITUDE'],
+};
+
+const TEXT_FIELDS = new Set(['school.name', 'school.city', 'school.state']);
+
+const PROGRAM_COLUMNS = {
+  unitId: ['UNITID'],
+  schoolName: ['INSTNM'],
+  cipCode: ['CIPCODE'],
+  cipTitle: ['CIPDESC'],
+  credLevel: ['CREDLEV'],
+  credTitle: ['CREDDESC'],
+  earn1yr: ['EARN_MDN_1YR', 'EARN_MDN_HI_1YR'],
+  earn1yrCount: ['EARN_COUNT_WNE_1YR', 'EARN_COUNT_WNE_HI_1YR'],
+  earn4yr: ['EARN_MDN_4YR'],
+  earn4yrCount: ['EARN_COUNT_WNE_4YR'],
+  earn5yr: ['EARN_MDN_5YR'],
+  earn5yrCount: ['EARN_COUNT_WNE_5YR'],
+  medianDebt: ['DEBT_ALL_STGP_EVAL_MDN'],
+};
+
+// Same shape as the records fetch-scorecard.ts flattens from the API
+interface Program {
+  unitId: number;
+  schoolName: string;
+  state: string;
+  ownership: number;
+  cipCode: string;
+  cipTitle: string;
+  credLevel: number;
+  credTitle: string;
+  earn1yr: number | null;
+  earn1yrCount: number | null;
+  earn4yr: number | null;
+  earn4yrCount: number | null;
+  earn5yr: number | null;
+  earn5yrCount: number | null;
+  medianDebt: number | null;
+}
+
+// --- CSV reading ---
+
+// Splits one CSV record, honoring quoted fields and doubled quotes
+function parseCsvRecord(record: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < record.length; i++) {
+    const ch = record[i];
+    if (quoted) {
+      if (ch === '"' && record[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+// Streams records so the multi-thousand-column institution file never has to
+// be held in memory. A quoted field may span lines.
+async function* readCsv(file: string): AsyncGenerator<string[]> {
+  const lines = readline.createInterface({ input: createReadStream(file, 'utf-8'), crlfDelay: Infinity });
+  let pending = '';
+  for await (const line of lines) {
+    pending = pending ? `${pending}\n${line}` : line.replace(/^\uFEFF/, '');
+    if ((pending.match(/"/g)?.length ?? 0) % 2 === 1) continue;
+    if (pending) yield parseCsvRecord(pending);
+    pending = '';
+  }
+  if (pending) throw new Error(`${file}: unterminated quoted field at end of file`);
+}
+
+// Resolves each key's preferred column to an index in the header row,
+// warning about keys no column in this file provides
+function resolveColumns<K extends string>(
+  header: string[],
+  columns: Record<K, string[]>,
+  label: string,
+): Record<K, number> {
+  const index = new Map(header.map((name, i) => [name, i]));
+  const resolved = {} as Record<K, number>;
+  const missing: string[] = [];
+  for (const key of Object.keys(columns) as K[]) {
+    const name = columns[key].find((c) => index.has(c));
+    resolved[key] = name != null ? index.get(name)! : -1;
+    if (name == null) missing.push(columns[key][0]);
+  }
+  if (missing.length > 0) {
+    console.warn(`  Warning: ${label} has no ${missing.join(', ')} column; those fields will be null`);
+  }
+  return resolved;
+}
+
+function cell(row: string[], i: number): string | null {
+  if (i < 0) return null;
+  const v = row[i]?.trim();
+  // The bulk files mark missing and privacy-suppressed values in-band
+  return v == null || v === '' || v === 'NULL' || v === 'PrivacySuppressed' ? null : v;
+}
+
+function numberCell(row: string[], i: number): number | null {
+  const v = cell(row, i);
+  if (v == null) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+// Field-of-study files store CIP codes without the dot and drop the leading
+// zero ("101" for 01.01); the API returns four digits
+function normalizeCip(code: string): string {
+  return code.replace('.', '').padStart(4, '0');
+}
+
+async function main() {
+  for (const file of [INSTITUTIONS_CSV, PROGRAMS_CSV]) {
+    if (!existsSync(file)) throw new Error(`${file} not found`);
+  }
+  console.log(`Release: ${RELEASE_YEAR ?? 'latest'}\n`);
+  mkdirSync(DATA_DIR, { recursive: true });
+
+  // 1. Institutions (degree-granting, currently operating, as the API fetch filters)
+  console.log('=== Importing Institution Data ===');
+  console.log(`  Reading ${INSTITUTIONS_CSV}`);
+  const institutions: Record<string, unknown>[] = [];
+  let instColumns: Record<string, number> | null = null;
+  let operatingCol = -1;
+  let predDegCol = -1;
+  let skipped = 0;
+  for await (const row of readCsv(INSTITUTIONS_CSV)) {
+    if (!instColumns) {
+      instColumns = resolveColumns(row, INSTITUTION_COLUMNS, 'institution file');
+      operatingCol = row.indexOf('CURROPER');
+      predDegCol = row.indexOf('PREDDEG');
+      continue;
+    }
+    const predDeg = numberCell(row, predDegCol);
+    if ((operatingCol >= 0 && numberCell(row, operatingCol) !== 1) || predDeg == null || predDeg < 1 || predDeg > 4) {
+      skipped++;
+      continue;
+    }
+    const inst: Record<string, unknown> = {};
+    for (const [key, i] of Object.entries(instColumns)) {
+      inst[key] = TEXT_FIELDS.has(key) ? cell(row, i) : numberCell(row, i);
+    }
+    if (inst['id'] == null) continue;
+    institutions.push(inst);
+  }
+  console.log(`  ${institutions.length.toLocaleString()} institutions kept, ${skipped.toLocaleString()} closed or non-degree skipped`);
+  const instPath = path.join(DATA_DIR, 'raw-institutions.json');
+  writeFileSync(instPath, JSON.stringify(institutions, null, 2));
+  console.log(`  Saved to ${instPath}\n`);
+
+  // 2. Field-of-study records for those institutions. State and ownership
+  // come from the institution file, as the API nests programs under schools.
+  console.log('=== Importing Field of Study Data ===');
+  console.log(`  Reading ${PROGRAMS_CSV}`);
+  const schoolsById = new Map(institutions.map((inst) => [inst['id'] as number, inst]));
+  const programs: Program[] = [];
+  let progColumns: Record<keyof typeof PROGRAM_COLUMNS, number> | null = null;
+  for await (const row of readCsv(PROGRAMS_CSV)) {
+    if (!progColumns) {
+      progColumns = resolveColumns(row, PROGRAM_COLUMNS, 'field-of-study file');
+      continue;
+    }
+    const unitId = numberCell(row, progColumns.unitId);
+    const school = unitId != null ? schoolsById.get(unitId) : undefined;
+    if (unitId == null || !school) continue;
+    programs.push({
+      unitId,
+      schoolName: cell(row, progColumns.schoolName) ?? ((school['school.name'] as string | null) || ''),
+      state: (school['school.state'] as string | null) || '',
+      ownership: (school['school.ownership'] as number | null) || 0,
+      cipCode: normalizeCip(cell(row, progColumns.cipCode) ?? ''),
+      cipTitle: cell(row, progColumns.cipTitle) ?? '',
+      credLevel: numberCell(row, progColumns.credLevel) ?? 0,
+      credTitle: cell(row, progColumns.credTitle) ?? '',
+      earn1yr: numberCell(row, progColumns.earn1yr),
+      earn1yrCount: numberCell(row, progColumns.earn1yrCount),
+      earn4yr: numberCell(row, progColumns.earn4yr),
+      earn4yrCount: numberCell(row, progColumns.earn4yrCount),
+      earn5yr: numberCell(row, progColumns.earn5yr),
+      earn5yrCount: numberCell(row, progColumns.earn5yrCount),
+      medianDebt: numberCell(row, progColumns.medianDebt),
+    });
+  }
+
+  const fosPath = path.join(DATA_DIR, 'raw-programs.json');
+  writeFileSync(fosPath, JSON.stringify(programs, null, 2));
+  console.log(`  Imported ${programs.length.toLocaleString()} program records`);
+  console.log(`  Saved to ${fosPath}\n`);
+
+  const bachelors = programs.filter((p) => p.credLevel === 3);
+  console.log('=== Quick Stats ===');
+  console.log(`  Total programs: ${programs.length.toLocaleString()}`);
+  console.log(`  Bachelor's programs: ${bachelors.length.toLocaleString()}`);
+  console.log(`  Bachelor's with 1yr earnings: ${bachelors.filter((p) => p.earn1yr != null).length.toLocaleString()}`);
+}
+
+main().catch((err) => {
+  console.error('\nFatal error:', err);
+  process.exit(1);
+});
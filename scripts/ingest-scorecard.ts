@@ -2,20 +2,45 @@
  * Ingest processed Scorecard data into Turso database.
  *
  * Usage:
- *   npx tsx scripts/ingest-scorecard.ts
+ *   npx tsx scripts/ingest-scorecard.ts [--upsert] [--dry-run] [--force]
  *
- * Reads:  data/schools.json, data/programs.json, data/majors-summary.json
- * Writes: Turso database tables (schools, programs, majors_summary)
+ * Modes:
+ *   (default)  Load every table into <table>_staging, validate row counts and
+ *              key integrity, then swap staging for live in one transaction.
+ *              The site keeps serving the previous data until the swap, and a
+ *              failure at any point leaves the live tables untouched.
+ *   --upsert   Insert new and update changed rows in place, never deleting.
+ *              Rows missing from the new data are listed in the report only.
+ *   --dry-run  Validate and write the diff report without changing live data.
+ *   --force    Proceed despite integrity warnings or a large drop in row counts.
  *
- * Requires TURSO_DATABASE_URL and TURSO_AUTH_TOKEN in .env.local
+ * The data must first pass validate-scorecard.ts: ingest refuses to run when
+ * data/validation-report.json is missing, failed, or was built from other
+ * files. Releases with a failed or stale report are refused too; releases
+ * with no report count as a warning.
+ *
+ * Reads:  data/schools.json, data/programs.json, data/majors-summary.json,
+ *         data/school-rankings.json, data/baseline-earnings.json,
+ *         data/graduate-uplift.json, and the programs, majors-summary and
+ *         school-rankings JSON of every release in data/releases/<year>/
+ * Writes: Turso database tables (schools, programs, majors_summary, school_rankings,
+ *         baseline_earnings, graduate_uplift, graduate_uplift_national,
+ *         program_history, major_history, school_ranking_history),
+ *         data/ingest-report.json
+ *
+ * Connects with TURSO_DATABASE_URL and TURSO_AUTH_TOKEN from .env.local, or to
+ * the local SQLite database (data/local.db) when they are unset. Tables come
+ * from the migrations in src/lib/db/migrations: run scripts/migrate.ts up
+ * first, and staging tables copy the live table definitions.
+ * SCORECARD_DATA_DIR reads the JSON from another directory instead of data/.
  */
 
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, readdirSync, writeFileSync, existsSync } from 'fs';
+import { createHash } from 'crypto';
 import path from 'path';
-import { drizzle } from 'drizzle-orm/libsql';
-import { createClient } from '@libsql/client';
-import { sql } from 'drizzle-orm';
-import * as schema from '../src/lib/db/schema';
+import { createClient, type Client, type InStatement, type InValue } from '@libsql/client';
+import { databaseConfig } from '../src/lib/db/config';
+import { assertSchemaCurrent } from '../src/lib/db/migrate';
 
 // Load .env.local
 const envPath = path.join(__dirname, '..', '.env.local');
@@ -33,315 +58,761 @@ if (existsSync(envPath)) {
   }
 }
 
-const DATA_DIR = path.join(__dirname, '..', 'data');
+const DATA_DIR = process.env.SCORECARD_DATA_DIR || path.join(__dirname, '..', 'data');
+const RELEASES_DIR = path.join(DATA_DIR, 'releases');
+const REPORT_FILE = path.join(DATA_DIR, 'ingest-report.json');
+const VALIDATION_REPORT = 'validation-report.json';
+// The files loaded from data/ and from each release; a report must cover every one present
+const DATA_FILES = [
+  'schools.json',
+  'programs.json',
+  'majors-summary.json',
+  'school-rankings.json',
+  'baseline-earnings.json',
+  'graduate-uplift.json',
+];
+const RELEASE_FILES = ['programs.json', 'majors-summary.json', 'school-rankings.json'];
+
+const BATCH_SIZE = 50;
+const STAGING_SUFFIX = '_staging';
+// Refuse to replace a table with one this much smaller unless --force is given
+const MAX_SHRINK = 0.1;
+const REPORT_SAMPLE = 10;
 
-function loadJson<T>(filename: string): T {
-  const filepath = path.join(DATA_DIR, filename);
+const args = new Set(process.argv.slice(2));
+const UPSERT = args.has('--upsert');
+const DRY_RUN = args.has('--dry-run');
+const FORCE = args.has('--force');
+
+function loadJson<T>(filename: string, dir = DATA_DIR): T {
+  const filepath = path.join(dir, filename);
   if (!existsSync(filepath)) {
     throw new Error(`File not found: ${filepath}. Run fetch + process scripts first.`);
   }
   return JSON.parse(readFileSync(filepath, 'utf-8'));
 }
 
-async function main() {
-  console.log('Connecting to Turso...');
-  const client = createClient({
-    url: process.env.TURSO_DATABASE_URL!,
-    authToken: process.env.TURSO_AUTH_TOKEN!,
-  });
-  const db = drizzle(client, { schema });
-
-  // Drop and recreate tables to ensure schema is up to date
-  console.log('\nCreating tables...');
-  await db.run(sql`DROP TABLE IF EXISTS school_rankings`);
-  await db.run(sql`DROP TABLE IF EXISTS programs`);
-  await db.run(sql`DROP TABLE IF EXISTS majors_summary`);
-  await db.run(sql`DROP TABLE IF EXISTS schools`);
-  await db.run(sql`
-    CREATE TABLE IF NOT EXISTS schools (
-      unit_id INTEGER PRIMARY KEY,
-      name TEXT NOT NULL,
-      city TEXT,
-      state TEXT,
-      ownership INTEGER,
-      ownership_label TEXT,
-      admission_rate REAL,
-      sat_read_75 REAL,
-      sat_math_75 REAL,
-      size INTEGER,
-      cost_attendance REAL,
-      tuition_in_state REAL,
-      tuition_out_state REAL,
-      net_price_public REAL,
-      net_price_private REAL,
-      completion_rate REAL,
-      selectivity_tier TEXT,
-      lat REAL,
-      lon REAL
-    )
-  `);
-  await db.run(sql`
-    CREATE TABLE IF NOT EXISTS programs (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      unit_id INTEGER NOT NULL REFERENCES schools(unit_id),
-      school_name TEXT,
-      state TEXT,
-      cip_code TEXT NOT NULL,
-      cip_title TEXT,
-      cred_level INTEGER,
-      cred_title TEXT,
-      earn_1yr REAL,
-      earn_4yr REAL,
-      earn_5yr REAL,
-      earn_1yr_count INTEGER,
-      earn_5yr_count INTEGER,
-      cost_attendance REAL,
-      selectivity_tier TEXT
-    )
-  `);
-  await db.run(sql`
-    CREATE TABLE IF NOT EXISTS majors_summary (
-      cip_code TEXT PRIMARY KEY,
-      cip_title TEXT NOT NULL,
-      school_count INTEGER,
-      median_earn_1yr REAL,
-      median_earn_4yr REAL,
-      median_earn_5yr REAL,
-      p25_earn_1yr REAL,
-      p75_earn_1yr REAL,
-      p25_earn_5yr REAL,
-      p75_earn_5yr REAL,
-      growth_rate REAL
-    )
-  `);
-
-  await db.run(sql`
-    CREATE TABLE IF NOT EXISTS school_rankings (
-      unit_id INTEGER PRIMARY KEY,
-      name TEXT NOT NULL,
-      city TEXT NOT NULL,
-      state TEXT NOT NULL,
-      ownership INTEGER NOT NULL,
-      ownership_label TEXT NOT NULL,
-      admission_rate REAL,
-      sat_combined REAL,
-      size INTEGER,
-      cost_attendance REAL,
-      net_price REAL,
-      completion_rate REAL,
-      selectivity_tier TEXT NOT NULL,
-      program_count INTEGER NOT NULL,
-      median_earn_1yr REAL,
-      weighted_earn_1yr REAL,
-      weighted_earn_5yr REAL,
-      roi REAL,
-      max_earn_1yr REAL,
-      top_program TEXT
-    )
-  `);
-
-  // Newsletter signups table (persistent — NOT dropped on re-ingest)
-  await db.run(sql`
-    CREATE TABLE IF NOT EXISTS newsletter_signups (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      email TEXT NOT NULL UNIQUE,
-      source TEXT,
-      created_at INTEGER NOT NULL
-    )
-  `);
-
-  // Create indexes
-  await db.run(sql`CREATE INDEX IF NOT EXISTS idx_schools_name ON schools(name)`);
-  await db.run(sql`CREATE INDEX IF NOT EXISTS idx_schools_state ON schools(state)`);
-  await db.run(sql`CREATE INDEX IF NOT EXISTS idx_programs_cip ON programs(cip_code)`);
-  await db.run(sql`CREATE INDEX IF NOT EXISTS idx_programs_unit ON programs(unit_id)`);
-  await db.run(sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_newsletter_email ON newsletter_signups(email)`);
-
-  // Load data
-  console.log('\nLoading JSON data...');
+// --- Input shapes (data/*.json) ---
 
-  interface SchoolJson {
-    unitId: number; name: string; city: string; state: string;
-    ownership: number; ownershipLabel: string; admissionRate: number | null;
-    satRead75: number | null; satMath75: number | null; size: number | null;
-    costAttendance: number | null; tuitionInState: number | null;
-    tuitionOutState: number | null; netPricePublic: number | null;
-    netPricePrivate: number | null; completionRate: number | null;
-    selectivityTier: string; lat: number | null; lon: number | null;
-  }
+// Absent from data processed before net price by income was fetched
+interface IncomeNetPriceJson {
+  netPrice0to30k?: number | null; netPrice30to48k?: number | null;
+  netPrice48to75k?: number | null; netPrice75to110k?: number | null;
+  netPrice110kPlus?: number | null;
+}
 
-  interface ProgramJson {
-    unitId: number; schoolName: string; state: string;
-    cipCode: string; cipTitle: string; credLevel: number; credTitle: string;
-    earn1yr: number | null; earn4yr: number | null; earn5yr: number | null;
-    earn1yrCount: number | null; earn5yrCount: number | null; costAttendance: number | null;
-    selectivityTier: string;
-  }
+// Absent from data processed before institution outcomes were fetched
+interface OutcomesJson {
+  retentionRate?: number | null; completionRate150?: number | null;
+  repaymentRate3yr?: number | null; pellShare?: number | null;
+  firstGenShare?: number | null;
+}
 
-  interface MajorJson {
-    cipCode: string; cipTitle: string; schoolCount: number;
-    medianEarn1yr: number | null; medianEarn4yr: number | null;
-    medianEarn5yr: number | null; p25Earn1yr: number | null;
-    p75Earn1yr: number | null; p25Earn5yr: number | null;
-    p75Earn5yr: number | null; growthRate1to5: number | null;
-  }
+// Absent from data processed before institution characteristics were fetched
+interface CharacteristicsJson {
+  hbcu?: boolean | null; hsi?: boolean | null; tribal?: boolean | null;
+  womensCollege?: boolean | null; religiousAffiliation?: number | null;
+  locale?: number | null; carnegieBasic?: number | null;
+}
 
-  interface SchoolRankingJson {
-    unitId: number; name: string; city: string; state: string;
-    ownership: number; ownershipLabel: string; admissionRate: number | null;
-    satCombined: number | null; size: number | null;
-    costAttendance: number | null; netPrice: number | null;
-    completionRate: number | null; selectivityTier: string;
-    programCount: number; medianEarn1yr: number | null;
-    weightedEarn1yr: number | null; weightedEarn5yr: number | null;
-    roi: number | null; maxEarn1yr: number | null; topProgram: string | null;
-  }
+interface SchoolJson extends IncomeNetPriceJson, OutcomesJson, CharacteristicsJson {
+  unitId: number; name: string; city: string; state: string;
+  ownership: number; ownershipLabel: string; admissionRate: number | null;
+  satRead75: number | null; satMath75: number | null; size: number | null;
+  costAttendance: number | null; tuitionInState: number | null;
+  tuitionOutState: number | null; netPricePublic: number | null;
+  netPricePrivate: number | null; completionRate: number | null;
+  selectivityTier: string; lat: number | null; lon: number | null;
+}
+
+interface ProgramJson {
+  unitId: number; schoolName: string; state: string;
+  cipCode: string; cipTitle: string; credLevel: number; credTitle: string;
+  earn1yr: number | null; earn4yr: number | null; earn5yr: number | null;
+  earn1yrCount: number | null; earn5yrCount: number | null; costAttendance: number | null;
+  netPrice: number | null; totalCost: number | null; cumulativeEarnings: number | null;
+  npv: number | null; breakEvenYear: number | null;
+  valueAddedEarn1yr: number | null; netPremium: number | null; selectivityTier: string;
+  // Absent from releases processed before program debt was fetched
+  medianDebt?: number | null; debtToEarnings?: number | null; monthlyPayment?: number | null;
+  // Absent from releases processed before the accountability tests
+  accountabilityStatus?: string | null; accountabilityNotes?: string | null;
+  // Absent from releases processed before earnings were adjusted
+  adjustedEarn1yr?: number | null; adjustedEarn5yr?: number | null;
+}
+
+interface MajorJson {
+  cipCode: string; cipTitle: string;
+  // Absent from releases processed before other credential levels were kept
+  credLevel?: number; credTitle?: string;
+  schoolCount: number;
+  medianEarn1yr: number | null; medianEarn4yr: number | null;
+  medianEarn5yr: number | null; p25Earn1yr: number | null;
+  p75Earn1yr: number | null; p25Earn5yr: number | null;
+  p75Earn5yr: number | null; growthRate1to5: number | null;
+  valueAddedEarn1yr: number | null; netPremium: number | null;
+  // Absent from releases processed before the 10th and 90th percentiles were kept
+  p10Earn1yr?: number | null; p90Earn1yr?: number | null;
+  p10Earn5yr?: number | null; p90Earn5yr?: number | null;
+}
+
+interface SchoolRankingJson extends IncomeNetPriceJson, OutcomesJson, CharacteristicsJson {
+  unitId: number; name: string; city: string; state: string;
+  ownership: number; ownershipLabel: string; admissionRate: number | null;
+  satCombined: number | null; size: number | null;
+  costAttendance: number | null; netPrice: number | null;
+  completionRate: number | null; selectivityTier: string;
+  programCount: number; medianEarn1yr: number | null;
+  weightedEarn1yr: number | null; weightedEarn5yr: number | null;
+  totalCost: number | null; cumulativeEarnings: number | null;
+  npv: number | null; breakEvenYear: number | null;
+  valueAddedEarn1yr: number | null; netPremium: number | null;
+  maxEarn1yr: number | null; topProgram: string | null;
+}
+
+interface BaselineJson {
+  state: string; earnings: number;
+}
+
+interface GraduateUpliftJson {
+  cipCode: string; credLevel: number; credTitle: string;
+  unitId: number | null; schoolName: string | null;
+  bachelorEarn1yr: number; bachelorEarn5yr: number | null;
+  graduateEarn1yr: number; graduateEarn5yr: number | null;
+  upliftEarn1yr: number; upliftPct: number; extraYears: number;
+  incrementalCost: number | null; breakEvenYear: number | null;
+}
+
+// --- Table definitions ---
+
+type Row = Record<string, InValue>;
+
+interface TableSpec {
+  name: string;
+  /** Natural key used for upserts, duplicate checks and the diff report. */
+  key: string[];
+  rows: Row[];
+  /** Whether the table may legitimately be empty. */
+  optional?: boolean;
+}
+
+function incomeNetPriceRow(r: IncomeNetPriceJson): Row {
+  return {
+    net_price_0_30k: r.netPrice0to30k ?? null,
+    net_price_30_48k: r.netPrice30to48k ?? null,
+    net_price_48_75k: r.netPrice48to75k ?? null,
+    net_price_75_110k: r.netPrice75to110k ?? null,
+    net_price_110k_plus: r.netPrice110kPlus ?? null,
+  };
+}
+
+function outcomeRow(r: OutcomesJson): Row {
+  return {
+    retention_rate: r.retentionRate ?? null,
+    completion_rate_150: r.completionRate150 ?? null,
+    repayment_rate_3yr: r.repaymentRate3yr ?? null,
+    pell_share: r.pellShare ?? null,
+    first_gen_share: r.firstGenShare ?? null,
+  };
+}
 
+// SQLite has no boolean type; flags are stored as 0/1
+function characteristicRow(r: CharacteristicsJson): Row {
+  const flag = (v: boolean | null | undefined) => (v == null ? null : v ? 1 : 0);
+  return {
+    hbcu: flag(r.hbcu),
+    hsi: flag(r.hsi),
+    tribal: flag(r.tribal),
+    womens_college: flag(r.womensCollege),
+    religious_affiliation: r.religiousAffiliation ?? null,
+    locale: r.locale ?? null,
+    carnegie_basic: r.carnegieBasic ?? null,
+  };
+}
+
+function programRow(p: ProgramJson): Row {
+  return {
+    unit_id: p.unitId,
+    school_name: p.schoolName,
+    state: p.state,
+    cip_code: p.cipCode,
+    cip_title: p.cipTitle,
+    cred_level: p.credLevel,
+    cred_title: p.credTitle,
+    earn_1yr: p.earn1yr,
+    earn_4yr: p.earn4yr,
+    earn_5yr: p.earn5yr,
+    earn_1yr_count: p.earn1yrCount,
+    earn_5yr_count: p.earn5yrCount,
+    adjusted_earn_1yr: p.adjustedEarn1yr ?? null,
+    adjusted_earn_5yr: p.adjustedEarn5yr ?? null,
+    cost_attendance: p.costAttendance,
+    net_price: p.netPrice,
+    total_cost: p.totalCost,
+    cumulative_earnings: p.cumulativeEarnings,
+    npv: p.npv,
+    break_even_year: p.breakEvenYear,
+    value_added_earn_1yr: p.valueAddedEarn1yr,
+    net_premium: p.netPremium,
+    median_debt: p.medianDebt ?? null,
+    debt_to_earnings: p.debtToEarnings ?? null,
+    monthly_payment: p.monthlyPayment ?? null,
+    accountability_status: p.accountabilityStatus ?? null,
+    accountability_notes: p.accountabilityNotes ?? null,
+    selectivity_tier: p.selectivityTier,
+  };
+}
+
+function majorRow(m: MajorJson): Row {
+  return {
+    cip_code: m.cipCode,
+    cip_title: m.cipTitle,
+    cred_level: m.credLevel ?? 3,
+    cred_title: m.credTitle ?? "Bachelor's Degree",
+    school_count: m.schoolCount,
+    median_earn_1yr: m.medianEarn1yr,
+    median_earn_4yr: m.medianEarn4yr,
+    median_earn_5yr: m.medianEarn5yr,
+    p10_earn_1yr: m.p10Earn1yr ?? null,
+    p25_earn_1yr: m.p25Earn1yr,
+    p75_earn_1yr: m.p75Earn1yr,
+    p90_earn_1yr: m.p90Earn1yr ?? null,
+    p10_earn_5yr: m.p10Earn5yr ?? null,
+    p25_earn_5yr: m.p25Earn5yr,
+    p75_earn_5yr: m.p75Earn5yr,
+    p90_earn_5yr: m.p90Earn5yr ?? null,
+    growth_rate: m.growthRate1to5,
+    value_added_earn_1yr: m.valueAddedEarn1yr,
+    net_premium: m.netPremium,
+  };
+}
+
+function upliftRow(u: GraduateUpliftJson): Row {
+  return {
+    cip_code: u.cipCode,
+    cred_level: u.credLevel,
+    cred_title: u.credTitle,
+    bachelor_earn_1yr: u.bachelorEarn1yr,
+    bachelor_earn_5yr: u.bachelorEarn5yr,
+    graduate_earn_1yr: u.graduateEarn1yr,
+    graduate_earn_5yr: u.graduateEarn5yr,
+    uplift_earn_1yr: u.upliftEarn1yr,
+    uplift_pct: u.upliftPct,
+    extra_years: u.extraYears,
+    incremental_cost: u.incrementalCost,
+    break_even_year: u.breakEvenYear,
+  };
+}
+
+function schoolRankingRow(r: SchoolRankingJson): Row {
+  return {
+    unit_id: r.unitId,
+    name: r.name,
+    city: r.city,
+    state: r.state,
+    ownership: r.ownership,
+    ownership_label: r.ownershipLabel,
+    admission_rate: r.admissionRate,
+    sat_combined: r.satCombined,
+    size: r.size,
+    cost_attendance: r.costAttendance,
+    net_price: r.netPrice,
+    ...incomeNetPriceRow(r),
+    completion_rate: r.completionRate,
+    ...outcomeRow(r),
+    ...characteristicRow(r),
+    selectivity_tier: r.selectivityTier,
+    program_count: r.programCount,
+    median_earn_1yr: r.medianEarn1yr,
+    weighted_earn_1yr: r.weightedEarn1yr,
+    weighted_earn_5yr: r.weightedEarn5yr,
+    total_cost: r.totalCost,
+    cumulative_earnings: r.cumulativeEarnings,
+    npv: r.npv,
+    break_even_year: r.breakEvenYear,
+    value_added_earn_1yr: r.valueAddedEarn1yr,
+    net_premium: r.netPremium,
+    max_earn_1yr: r.maxEarn1yr,
+    top_program: r.topProgram,
+  };
+}
+
+/** Release years with processed output in data/releases/<year>/, oldest first. */
+function releaseYears(): number[] {
+  if (!existsSync(RELEASES_DIR)) return [];
+  return readdirSync(RELEASES_DIR)
+    .filter((dir) => /^\d{4}$/.test(dir) && existsSync(path.join(RELEASES_DIR, dir, 'programs.json')))
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+function buildTables(): TableSpec[] {
   const schoolsData = loadJson<SchoolJson[]>('schools.json');
   const programsData = loadJson<ProgramJson[]>('programs.json');
   const majorsData = loadJson<MajorJson[]>('majors-summary.json');
   const schoolRankingsData = loadJson<SchoolRankingJson[]>('school-rankings.json');
+  const baselineData = loadJson<BaselineJson[]>('baseline-earnings.json');
+  // Absent when the data was processed before graduate comparisons existed
+  const upliftData = existsSync(path.join(DATA_DIR, 'graduate-uplift.json'))
+    ? loadJson<GraduateUpliftJson[]>('graduate-uplift.json')
+    : [];
+
+  // Release history holds every year's earnings side by side
+  const programHistory: Row[] = [];
+  const majorHistory: Row[] = [];
+  const schoolRankingHistory: Row[] = [];
+  for (const year of releaseYears()) {
+    const dir = path.join(RELEASES_DIR, String(year));
+    for (const p of loadJson<ProgramJson[]>('programs.json', dir)) {
+      programHistory.push({
+        release_year: year,
+        unit_id: p.unitId,
+        cip_code: p.cipCode,
+        cred_level: p.credLevel,
+        earn_1yr: p.earn1yr,
+        earn_4yr: p.earn4yr,
+        earn_5yr: p.earn5yr,
+        earn_1yr_count: p.earn1yrCount,
+        earn_5yr_count: p.earn5yrCount,
+      });
+    }
+    for (const m of loadJson<MajorJson[]>('majors-summary.json', dir)) {
+      majorHistory.push({ release_year: year, ...majorRow(m) });
+    }
+    for (const r of loadJson<SchoolRankingJson[]>('school-rankings.json', dir)) {
+      schoolRankingHistory.push({ release_year: year, ...schoolRankingRow(r) });
+    }
+  }
 
-  console.log(`  ${schoolsData.length.toLocaleString()} schools`);
-  console.log(`  ${programsData.length.toLocaleString()} programs`);
-  console.log(`  ${majorsData.length} majors`);
-  console.log(`  ${schoolRankingsData.length.toLocaleString()} school rankings`);
-
-  // Clear existing data
-  console.log('\nClearing existing data...');
-  await db.run(sql`DELETE FROM programs`);
-  await db.run(sql`DELETE FROM majors_summary`);
-  await db.run(sql`DELETE FROM schools`);
-
-  // Insert schools
-  console.log('\nInserting schools...');
-  const BATCH_SIZE = 50;
-  for (let i = 0; i < schoolsData.length; i += BATCH_SIZE) {
-    const batch = schoolsData.slice(i, i + BATCH_SIZE);
-    await db.insert(schema.schools).values(
-      batch.map((s) => ({
-        unitId: s.unitId,
+  // Parents before children: staging loads and upserts run in this order
+  return [
+    {
+      name: 'schools',
+      key: ['unit_id'],
+      rows: schoolsData.map((s) => ({
+        unit_id: s.unitId,
         name: s.name,
         city: s.city,
         state: s.state,
         ownership: s.ownership,
-        ownershipLabel: s.ownershipLabel,
-        admissionRate: s.admissionRate,
-        satRead75: s.satRead75,
-        satMath75: s.satMath75,
+        ownership_label: s.ownershipLabel,
+        admission_rate: s.admissionRate,
+        sat_read_75: s.satRead75,
+        sat_math_75: s.satMath75,
         size: s.size,
-        costAttendance: s.costAttendance,
-        tuitionInState: s.tuitionInState,
-        tuitionOutState: s.tuitionOutState,
-        netPricePublic: s.netPricePublic,
-        netPricePrivate: s.netPricePrivate,
-        completionRate: s.completionRate,
-        selectivityTier: s.selectivityTier,
+        cost_attendance: s.costAttendance,
+        tuition_in_state: s.tuitionInState,
+        tuition_out_state: s.tuitionOutState,
+        net_price_public: s.netPricePublic,
+        net_price_private: s.netPricePrivate,
+        ...incomeNetPriceRow(s),
+        completion_rate: s.completionRate,
+        ...outcomeRow(s),
+        ...characteristicRow(s),
+        selectivity_tier: s.selectivityTier,
         lat: s.lat,
         lon: s.lon,
       })),
-    );
-    if ((i + BATCH_SIZE) % 500 === 0 || i + BATCH_SIZE >= schoolsData.length) {
-      process.stdout.write(`\r  ${Math.min(i + BATCH_SIZE, schoolsData.length).toLocaleString()} / ${schoolsData.length.toLocaleString()}`);
+    },
+    {
+      name: 'programs',
+      key: ['unit_id', 'cip_code', 'cred_level'],
+      rows: programsData.map(programRow),
+    },
+    {
+      name: 'majors_summary',
+      key: ['cip_code', 'cred_level'],
+      rows: majorsData.map(majorRow),
+    },
+    {
+      name: 'school_rankings',
+      key: ['unit_id'],
+      rows: schoolRankingsData.map(schoolRankingRow),
+    },
+    {
+      name: 'baseline_earnings',
+      key: ['state'],
+      rows: baselineData.map((b) => ({ state: b.state, earnings: b.earnings })),
+      optional: true,
+    },
+    {
+      name: 'graduate_uplift',
+      key: ['unit_id', 'cip_code', 'cred_level'],
+      rows: upliftData
+        .filter((u) => u.unitId != null)
+        .map((u) => ({ unit_id: u.unitId, school_name: u.schoolName, ...upliftRow(u) })),
+      optional: true,
+    },
+    {
+      name: 'graduate_uplift_national',
+      key: ['cip_code', 'cred_level'],
+      rows: upliftData.filter((u) => u.unitId == null).map(upliftRow),
+      optional: true,
+    },
+    {
+      name: 'program_history',
+      key: ['release_year', 'unit_id', 'cip_code', 'cred_level'],
+      rows: programHistory,
+      optional: true,
+    },
+    {
+      name: 'major_history',
+      key: ['release_year', 'cip_code', 'cred_level'],
+      rows: majorHistory,
+      optional: true,
+    },
+    {
+      name: 'school_ranking_history',
+      key: ['release_year', 'unit_id'],
+      rows: schoolRankingHistory,
+      optional: true,
+    },
+  ];
+}
+
+// --- SQL helpers ---
+
+/** CREATE statements of a live table or its indexes, as the migrations left them. */
+async function schemaSql(client: Client, type: 'table' | 'index', table: string): Promise<string[]> {
+  const result = await client.execute({
+    sql: `SELECT sql FROM sqlite_master WHERE type = ? AND tbl_name = ? AND sql IS NOT NULL`,
+    args: [type, table],
+  });
+  return result.rows.map((r) => String(r.sql));
+}
+
+const TABLE_NAME_SQL = /\b(CREATE TABLE(?: IF NOT EXISTS)?|REFERENCES)\s+(["`]?)(\w+)\2/gi;
+
+/** The live definition renamed to <table>_staging, with references to other staged tables. */
+async function createStagingSql(client: Client, table: TableSpec, staged: Set<string>): Promise<string> {
+  const [sql] = await schemaSql(client, 'table', table.name);
+  if (!sql) throw new Error(`Table ${table.name} does not exist; run scripts/migrate.ts up`);
+  return sql.replace(TABLE_NAME_SQL, (match, keyword: string, quote: string, name: string) =>
+    staged.has(name) ? `${keyword} ${quote}${name}${STAGING_SUFFIX}${quote}` : match,
+  );
+}
+
+/** Multi-row INSERTs, optionally upserting on the table's natural key. */
+function insertStatements(table: TableSpec, target: string, upsert: boolean): InStatement[] {
+  if (table.rows.length === 0) return [];
+  const columns = Object.keys(table.rows[0]);
+  const placeholders = `(${columns.map(() => '?').join(', ')})`;
+  const conflict = upsert
+    ? ` ON CONFLICT(${table.key.join(', ')}) DO UPDATE SET ${columns
+        .filter((c) => !table.key.includes(c))
+        .map((c) => `${c} = excluded.${c}`)
+        .join(', ')}`
+    : '';
+
+  const statements: InStatement[] = [];
+  for (let i = 0; i < table.rows.length; i += BATCH_SIZE) {
+    const batch = table.rows.slice(i, i + BATCH_SIZE);
+    statements.push({
+      sql: `INSERT INTO ${target} (${columns.join(', ')}) VALUES ${batch.map(() => placeholders).join(', ')}${conflict}`,
+      args: batch.flatMap((row) => columns.map((c) => row[c] ?? null)),
+    });
+  }
+  return statements;
+}
+
+async function tableExists(client: Client, name: string): Promise<boolean> {
+  const result = await client.execute({
+    sql: `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    args: [name],
+  });
+  return result.rows.length > 0;
+}
+
+async function countRows(client: Client, name: string): Promise<number> {
+  const result = await client.execute(`SELECT COUNT(*) AS count FROM ${name}`);
+  return Number(result.rows[0].count);
+}
+
+async function loadLiveRows(client: Client, table: TableSpec): Promise<Row[]> {
+  if (!(await tableExists(client, table.name))) return [];
+  const result = await client.execute(`SELECT * FROM ${table.name}`);
+  return result.rows.map((r) => ({ ...r }) as Row);
+}
+
+// --- Validation ---
+
+function rowKey(table: TableSpec, row: Row): string {
+  return table.key.map((k) => String(row[k])).join('|');
+}
+
+/** Checks the incoming data before anything is written. */
+function validateInput(tables: TableSpec[], liveSchoolIds: Set<number>): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const byName = new Map(tables.map((t) => [t.name, t]));
+
+  for (const table of tables) {
+    const seen = new Set<string>();
+    let duplicates = 0;
+    for (const row of table.rows) {
+      const key = rowKey(table, row);
+      if (seen.has(key)) duplicates++;
+      seen.add(key);
     }
+    if (duplicates > 0) errors.push(`${table.name}: ${duplicates} duplicate ${table.key.join('/')} keys`);
+    if (!table.optional && table.rows.length === 0) errors.push(`${table.name}: no rows`);
   }
-  console.log(' done');
-
-  // Insert programs
-  console.log('\nInserting programs...');
-  for (let i = 0; i < programsData.length; i += BATCH_SIZE) {
-    const batch = programsData.slice(i, i + BATCH_SIZE);
-    await db.insert(schema.programs).values(
-      batch.map((p) => ({
-        unitId: p.unitId,
-        schoolName: p.schoolName,
-        state: p.state,
-        cipCode: p.cipCode,
-        cipTitle: p.cipTitle,
-        credLevel: p.credLevel,
-        credTitle: p.credTitle,
-        earn1yr: p.earn1yr,
-        earn4yr: p.earn4yr,
-        earn5yr: p.earn5yr,
-        earn1yrCount: p.earn1yrCount,
-        earn5yrCount: p.earn5yrCount,
-        costAttendance: p.costAttendance,
-        selectivityTier: p.selectivityTier,
-      })),
-    );
-    if ((i + BATCH_SIZE) % 1000 === 0 || i + BATCH_SIZE >= programsData.length) {
-      process.stdout.write(`\r  ${Math.min(i + BATCH_SIZE, programsData.length).toLocaleString()} / ${programsData.length.toLocaleString()}`);
+
+  // In upsert mode schools already live stay valid parents
+  const schoolIds = new Set(byName.get('schools')!.rows.map((r) => Number(r.unit_id)));
+  if (UPSERT) liveSchoolIds.forEach((id) => schoolIds.add(id));
+  for (const name of ['programs', 'school_rankings']) {
+    const orphans = byName.get(name)!.rows.filter((r) => !schoolIds.has(Number(r.unit_id))).length;
+    if (orphans > 0) warnings.push(`${name}: ${orphans} rows reference a unit_id missing from schools`);
+  }
+
+  const programMajors = new Set(byName.get('programs')!.rows.map((r) => `${r.cip_code}-${r.cred_level}`));
+  const emptyMajors = byName
+    .get('majors_summary')!
+    .rows.filter((r) => !programMajors.has(`${r.cip_code}-${r.cred_level}`)).length;
+  if (emptyMajors > 0) warnings.push(`majors_summary: ${emptyMajors} majors have no programs`);
+
+  return { errors, warnings };
+}
+
+interface ValidationReportJson {
+  passed: boolean;
+  inputs: Record<string, string>; // file name -> sha256
+}
+
+/** Requires a passing validate-scorecard report for the files about to be loaded. */
+function checkValidationReports(): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const dirs = [
+    { label: 'data', dir: DATA_DIR, required: true, files: DATA_FILES },
+    ...releaseYears().map((year) => ({
+      label: `release ${year}`,
+      dir: path.join(RELEASES_DIR, String(year)),
+      required: false,
+      files: RELEASE_FILES,
+    })),
+  ];
+  for (const { label, dir, required, files } of dirs) {
+    const reportPath = path.join(dir, VALIDATION_REPORT);
+    if (!existsSync(reportPath)) {
+      (required ? errors : warnings).push(`${label}: not validated; run scripts/validate-scorecard.ts first`);
+      continue;
+    }
+    const report = JSON.parse(readFileSync(reportPath, 'utf-8')) as ValidationReportJson;
+    const stale = Object.entries(report.inputs).filter(([file, hash]) => {
+      const filepath = path.join(dir, file);
+      return !existsSync(filepath) || createHash('sha256').update(readFileSync(filepath)).digest('hex') !== hash;
+    });
+    const unchecked = files.filter((file) => existsSync(path.join(dir, file)) && !(file in report.inputs));
+    if (stale.length > 0) {
+      errors.push(`${label}: ${stale.map(([file]) => file).join(', ')} changed since validation; re-run validate-scorecard.ts`);
+    } else if (unchecked.length > 0) {
+      errors.push(`${label}: ${unchecked.join(', ')} not covered by validation; re-run validate-scorecard.ts`);
+    } else if (!report.passed) {
+      errors.push(`${label}: validation failed; see ${path.relative(process.cwd(), reportPath.replace(/\.json$/, '.md'))}`);
     }
   }
-  console.log(' done');
-
-  // Insert majors summary
-  console.log('\nInserting majors summary...');
-  for (let i = 0; i < majorsData.length; i += BATCH_SIZE) {
-    const batch = majorsData.slice(i, i + BATCH_SIZE);
-    await db.insert(schema.majorsSummary).values(
-      batch.map((m) => ({
-        cipCode: m.cipCode,
-        cipTitle: m.cipTitle,
-        schoolCount: m.schoolCount,
-        medianEarn1yr: m.medianEarn1yr,
-        medianEarn4yr: m.medianEarn4yr,
-        medianEarn5yr: m.medianEarn5yr,
-        p25Earn1yr: m.p25Earn1yr,
-        p75Earn1yr: m.p75Earn1yr,
-        p25Earn5yr: m.p25Earn5yr,
-        p75Earn5yr: m.p75Earn5yr,
-        growthRate: m.growthRate1to5,
-      })),
-    );
+  return { errors, warnings };
+}
+
+/** Confirms what landed in staging matches the input and the live tables. */
+async function validateStaging(client: Client, tables: TableSpec[]): Promise<{ errors: string[]; warnings: string[] }> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const table of tables) {
+    const staged = await countRows(client, `${table.name}${STAGING_SUFFIX}`);
+    if (staged !== table.rows.length) {
+      errors.push(`${table.name}: staged ${staged} rows, expected ${table.rows.length}`);
+    }
+    if (await tableExists(client, table.name)) {
+      const live = await countRows(client, table.name);
+      if (live > 0 && staged < live * (1 - MAX_SHRINK)) {
+        warnings.push(`${table.name}: ${live} -> ${staged} rows (more than ${MAX_SHRINK * 100}% fewer)`);
+      }
+    }
   }
-  console.log(`  ${majorsData.length} majors inserted`);
-
-  // Insert school rankings
-  console.log('\nInserting school rankings...');
-  await db.run(sql`DELETE FROM school_rankings`);
-  for (let i = 0; i < schoolRankingsData.length; i += BATCH_SIZE) {
-    const batch = schoolRankingsData.slice(i, i + BATCH_SIZE);
-    await db.insert(schema.schoolRankings).values(
-      batch.map((r) => ({
-        unitId: r.unitId,
-        name: r.name,
-        city: r.city,
-        state: r.state,
-        ownership: r.ownership,
-        ownershipLabel: r.ownershipLabel,
-        admissionRate: r.admissionRate,
-        satCombined: r.satCombined,
-        size: r.size,
-        costAttendance: r.costAttendance,
-        netPrice: r.netPrice,
-        completionRate: r.completionRate,
-        selectivityTier: r.selectivityTier,
-        programCount: r.programCount,
-        medianEarn1yr: r.medianEarn1yr,
-        weightedEarn1yr: r.weightedEarn1yr,
-        weightedEarn5yr: r.weightedEarn5yr,
-        roi: r.roi,
-        maxEarn1yr: r.maxEarn1yr,
-        topProgram: r.topProgram,
-      })),
-    );
-    if ((i + BATCH_SIZE) % 500 === 0 || i + BATCH_SIZE >= schoolRankingsData.length) {
-      process.stdout.write(`\r  ${Math.min(i + BATCH_SIZE, schoolRankingsData.length).toLocaleString()} / ${schoolRankingsData.length.toLocaleString()}`);
+
+  for (const child of ['programs', 'school_rankings']) {
+    const result = await client.execute(`
+      SELECT COUNT(*) AS count FROM ${child}${STAGING_SUFFIX} c
+      LEFT JOIN schools${STAGING_SUFFIX} s ON s.unit_id = c.unit_id
+      WHERE s.unit_id IS NULL
+    `);
+    const orphans = Number(result.rows[0].count);
+    if (orphans > 0) warnings.push(`${child}: ${orphans} staged rows without a staged school`);
+  }
+
+  return { errors, warnings };
+}
+
+// --- Diff report ---
+
+interface TableDiff {
+  added: string[];
+  removed: string[];
+  changed: { key: string; fields: string[] }[];
+  unchanged: number;
+}
+
+function valuesEqual(a: InValue | undefined, b: InValue | undefined): boolean {
+  if (a == null || b == null) return a == null && b == null;
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a));
+  }
+  return String(a) === String(b);
+}
+
+function diffTable(table: TableSpec, liveRows: Row[]): TableDiff {
+  const live = new Map(liveRows.map((r) => [rowKey(table, r), r]));
+  const incoming = new Map(table.rows.map((r) => [rowKey(table, r), r]));
+  const diff: TableDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  for (const [key, row] of incoming) {
+    const current = live.get(key);
+    if (!current) {
+      diff.added.push(key);
+      continue;
+    }
+    const fields = Object.keys(row).filter((c) => !valuesEqual(row[c], current[c]));
+    if (fields.length > 0) diff.changed.push({ key, fields });
+    else diff.unchanged++;
+  }
+  for (const key of live.keys()) {
+    if (!incoming.has(key)) diff.removed.push(key);
+  }
+  return diff;
+}
+
+function printDiff(name: string, diff: TableDiff) {
+  console.log(
+    `  ${name}: +${diff.added.length} added, -${diff.removed.length} removed, ` +
+      `~${diff.changed.length} changed, ${diff.unchanged.toLocaleString()} unchanged`,
+  );
+  for (const key of diff.added.slice(0, REPORT_SAMPLE)) console.log(`    + ${key}`);
+  for (const key of diff.removed.slice(0, REPORT_SAMPLE)) console.log(`    - ${key}`);
+  for (const c of diff.changed.slice(0, REPORT_SAMPLE)) console.log(`    ~ ${c.key}: ${c.fields.join(', ')}`);
+}
+
+// --- Main ---
+
+function report(label: string, messages: string[]) {
+  for (const m of messages) console.log(`  ${label}: ${m}`);
+}
+
+async function main() {
+  console.log('Checking validation reports...');
+  const validation = checkValidationReports();
+  report('ERROR', validation.errors);
+  report('WARNING', validation.warnings);
+  if (validation.errors.length > 0) throw new Error('Data has not passed validation; live data unchanged');
+  if (validation.warnings.length > 0 && !FORCE) {
+    throw new Error('Some releases are unvalidated; re-run with --force to ingest anyway');
+  }
+
+  const config = databaseConfig();
+  console.log(`\nConnecting to ${config.url.startsWith('file:') ? config.url : 'Turso'}...`);
+  const client = createClient(config);
+  await assertSchemaCurrent(client);
+
+  console.log(`\nMode: ${UPSERT ? 'upsert' : 'staging swap'}${DRY_RUN ? ' (dry run)' : ''}`);
+
+  console.log('\nLoading JSON data...');
+  const tables = buildTables();
+  for (const t of tables) console.log(`  ${t.rows.length.toLocaleString()} ${t.name}`);
+
+  // Diff against live data before anything changes
+  console.log('\nComparing with live data...');
+  const [schoolsTable, programsTable] = tables;
+  const liveSchools = await loadLiveRows(client, schoolsTable);
+  const livePrograms = await loadLiveRows(client, programsTable);
+  const diff = {
+    schools: diffTable(schoolsTable, liveSchools),
+    programs: diffTable(programsTable, livePrograms),
+  };
+  printDiff('schools', diff.schools);
+  printDiff('programs', diff.programs);
+
+  writeFileSync(
+    REPORT_FILE,
+    JSON.stringify({ generatedAt: new Date().toISOString(), mode: UPSERT ? 'upsert' : 'swap', dryRun: DRY_RUN, ...diff }, null, 2),
+  );
+  console.log(`  Report written to ${path.relative(process.cwd(), REPORT_FILE)}`);
+
+  console.log('\nValidating input...');
+  const input = validateInput(tables, new Set(liveSchools.map((r) => Number(r.unit_id))));
+  report('ERROR', input.errors);
+  report('WARNING', input.warnings);
+  if (input.errors.length > 0) throw new Error('Input validation failed; live data unchanged');
+  if (input.warnings.length > 0 && !FORCE) {
+    throw new Error('Input has integrity warnings; re-run with --force to ingest anyway');
+  }
+
+  if (UPSERT) {
+    if (DRY_RUN) {
+      console.log('\nDry run: no changes written.');
+      return;
+    }
+    console.log('\nUpserting...');
+    // ON CONFLICT relies on the natural-key indexes the migrations create
+    const statements = tables.flatMap((table) => insertStatements(table, table.name, true));
+    await client.batch(statements, 'write');
+    console.log(`  ${statements.length} statements committed`);
+  } else {
+    console.log('\nLoading staging tables...');
+    // Staging tables are invisible to the site, so they load outside the swap transaction
+    for (const table of [...tables].reverse()) {
+      await client.execute(`DROP TABLE IF EXISTS ${table.name}${STAGING_SUFFIX}`);
+    }
+    const staged = new Set(tables.map((t) => t.name));
+    for (const table of tables) {
+      await client.execute(await createStagingSql(client, table, staged));
+      const statements = insertStatements(table, `${table.name}${STAGING_SUFFIX}`, false);
+      for (let i = 0; i < statements.length; i += 20) {
+        await client.batch(statements.slice(i, i + 20), 'write');
+      }
+      console.log(`  ${table.name}${STAGING_SUFFIX}: ${table.rows.length.toLocaleString()} rows`);
+    }
+
+    console.log('\nValidating staging tables...');
+    const staging = await validateStaging(client, tables);
+    report('ERROR', staging.errors);
+    report('WARNING', staging.warnings);
+    const blocked = staging.errors.length > 0 || (staging.warnings.length > 0 && !FORCE);
+
+    if (DRY_RUN || blocked) {
+      for (const table of [...tables].reverse()) {
+        await client.execute(`DROP TABLE IF EXISTS ${table.name}${STAGING_SUFFIX}`);
+      }
+      if (blocked) {
+        throw new Error(
+          staging.errors.length > 0
+            ? 'Staging validation failed; live data unchanged'
+            : 'Staging has warnings; re-run with --force to swap anyway',
+        );
+      }
+      console.log('\nDry run: staging tables dropped, live data unchanged.');
+      return;
     }
+
+    console.log('\nSwapping staging tables into place...');
+    // Children are dropped first; renaming schools_staging also repoints the
+    // programs foreign key, and the live indexes are recreated as they were.
+    const indexes = (await Promise.all(tables.map((t) => schemaSql(client, 'index', t.name)))).flat();
+    const swap: InStatement[] = [];
+    for (const table of [...tables].reverse()) swap.push(`DROP TABLE IF EXISTS ${table.name}`);
+    for (const table of tables) swap.push(`ALTER TABLE ${table.name}${STAGING_SUFFIX} RENAME TO ${table.name}`);
+    swap.push(...indexes);
+    await client.batch(swap, 'write');
+    console.log('  done');
   }
-  console.log(' done');
 
   // Verify counts
   console.log('\n=== Verification ===');
-  const [schoolCount] = await db.all(sql`SELECT COUNT(*) as count FROM schools`);
-  const [programCount] = await db.all(sql`SELECT COUNT(*) as count FROM programs`);
-  const [majorCount] = await db.all(sql`SELECT COUNT(*) as count FROM majors_summary`);
-  const [rankingCount] = await db.all(sql`SELECT COUNT(*) as count FROM school_rankings`);
-  console.log(`  Schools: ${(schoolCount as { count: number }).count}`);
-  console.log(`  Programs: ${(programCount as { count: number }).count}`);
-  console.log(`  Majors: ${(majorCount as { count: number }).count}`);
-  console.log(`  School Rankings: ${(rankingCount as { count: number }).count}`);
+  for (const table of tables) {
+    console.log(`  ${table.name}: ${(await countRows(client, table.name)).toLocaleString()}`);
+  }
 
   console.log('\nDone!');
 }
@@ -0,0 +1,259 @@
+/**
+ * Versioned schema migrations for the database, generated from schema.ts.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate.ts status
+ *   npx tsx scripts/migrate.ts up [--to=<id>]
+ *   npx tsx scripts/migrate.ts down [--steps=1] [--force]
+ *   npx tsx scripts/migrate.ts generate <name>
+ *   npx tsx scripts/migrate.ts baseline
+ *
+ * Commands:
+ *   status    List applied and pending migrations, flag applied migrations
+ *             whose SQL has since been edited, and whether schema.ts has
+ *             changes that no migration covers yet.
+ *   up        Apply pending migrations in order (or up to and including --to),
+ *             each in its own transaction together with its ledger row.
+ *   down      Revert the most recently applied migrations, one by default.
+ *             Reverting on a remote database requires --force.
+ *   generate  Diff schema.ts against the snapshot of the last migration and
+ *             write src/lib/db/migrations/<nnnn>_<name>.up.sql and .down.sql.
+ *   baseline  Adopt a database created before migrations existed. The data
+ *             tables ingest-scorecard.ts rebuilds (schools, programs,
+ *             majors_summary, school_rankings) are dropped and recreated
+ *             empty in the current shape; analytics_events,
+ *             newsletter_signups and any other existing tables are kept, and
+ *             missing ones are created. Run up and then ingest afterwards.
+ *
+ * Applied migrations are recorded in the schema_migrations table. The app
+ * refuses to start, and ingest-scorecard.ts to run, while any are pending.
+ * Connects like the other scripts: TURSO_DATABASE_URL from .env.local, or the
+ * local SQLite database when unset.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { createClient, type Client, type InStatement } from '@libsql/client';
+import { databaseConfig } from '../src/lib/db/config';
+import {
+  appliedMigrations,
+  MIGRATION_IDS,
+  MIGRATIONS_DIR,
+  MIGRATIONS_TABLE,
+  pendingMigrations,
+  predatesMigrations,
+  STATEMENT_BREAKPOINT,
+} from '../src/lib/db/migrate';
+import * as schema from '../src/lib/db/schema';
+
+// Load .env.local
+const envPath = path.join(__dirname, '..', '.env.local');
+if (existsSync(envPath)) {
+  const envContent = readFileSync(envPath, 'utf-8');
+  for (const line of envContent.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const eqIdx = trimmed.indexOf('=');
+    if (eqIdx > 0) {
+      const key = trimmed.slice(0, eqIdx).trim();
+      const val = trimmed.slice(eqIdx + 1).trim();
+      if (!process.env[key]) process.env[key] = val;
+    }
+  }
+}
+
+const DIR = path.join(__dirname, '..', MIGRATIONS_DIR);
+const JOURNAL_FILE = path.join(DIR, 'journal.json');
+const SNAPSHOT_FILE = path.join(DIR, 'snapshot.json');
+// Tables ingest-scorecard.ts fills from data/, which baseline recreates;
+// tables that reference schools come first
+const INGESTED_TABLES = ['school_rankings', 'programs', 'majors_summary', 'schools'];
+
+function argValue(name: string): string | null {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : null;
+}
+
+const [command, ...positional] = process.argv.slice(2).filter((a) => !a.startsWith('--'));
+const FORCE = process.argv.includes('--force');
+
+// --- Migration files ---
+
+function migrationFile(id: string, direction: 'up' | 'down'): string {
+  return path.join(DIR, `${id}.${direction}.sql`);
+}
+
+function readStatements(id: string, direction: 'up' | 'down'): string[] {
+  return readFileSync(migrationFile(id, direction), 'utf-8')
+    .split(STATEMENT_BREAKPOINT)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function checksum(id: string): string {
+  return createHash('sha256').update(readFileSync(migrationFile(id, 'up'))).digest('hex');
+}
+
+function ledgerStatement(): string {
+  return `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+    id TEXT PRIMARY KEY,
+    checksum TEXT NOT NULL,
+    applied_at INTEGER NOT NULL
+  )`;
+}
+
+function recordStatement(id: string): InStatement {
+  return {
+    sql: `INSERT INTO ${MIGRATIONS_TABLE} (id, checksum, applied_at) VALUES (?, ?, ?)`,
+    args: [id, checksum(id), Math.floor(Date.now() / 1000)],
+  };
+}
+
+// --- Snapshots ---
+
+type DrizzleKit = typeof import('drizzle-kit/api');
+type Snapshot = Awaited<ReturnType<DrizzleKit['generateSQLiteDrizzleJson']>>;
+
+// drizzle-kit is a dev dependency, so only generate and status load it
+async function schemaDiff(): Promise<{ kit: DrizzleKit; previous: Snapshot; current: Snapshot; up: string[] }> {
+  const kit = await import('drizzle-kit/api');
+  const previous: Snapshot = existsSync(SNAPSHOT_FILE)
+    ? JSON.parse(readFileSync(SNAPSHOT_FILE, 'utf-8'))
+    : await kit.generateSQLiteDrizzleJson({});
+  const current = await kit.generateSQLiteDrizzleJson(schema, previous.id);
+  return { kit, previous, current, up: await kit.generateSQLiteMigration(previous, current) };
+}
+
+// --- Commands ---
+
+async function status(client: Client) {
+  if (await predatesMigrations(client)) {
+    console.log('Database predates versioned migrations; run baseline, then up, then ingest.');
+    return;
+  }
+  const applied = await appliedMigrations(client);
+  const appliedIds = new Set(applied.map((m) => m.id));
+  for (const m of applied) {
+    const known = MIGRATION_IDS.includes(m.id);
+    const edited = known && m.checksum !== checksum(m.id);
+    const note = !known ? '  (not in this checkout)' : edited ? '  (edited since it was applied)' : '';
+    console.log(`  applied  ${m.id}  ${new Date(m.appliedAt * 1000).toISOString()}${note}`);
+  }
+  for (const id of MIGRATION_IDS.filter((id) => !appliedIds.has(id))) console.log(`  pending  ${id}`);
+
+  try {
+    const { up } = await schemaDiff();
+    if (up.length > 0) console.log(`\nschema.ts has ${up.length} change(s) with no migration; run generate`);
+  } catch {
+    // drizzle-kit is not installed in production
+  }
+}
+
+async function migrateUp(client: Client) {
+  const to = argValue('to');
+  if (to && !MIGRATION_IDS.includes(to)) throw new Error(`Unknown migration: ${to}`);
+  if (await predatesMigrations(client)) {
+    throw new Error('Database predates versioned migrations; run baseline first');
+  }
+  const pending = await pendingMigrations(client);
+  const targets = to ? pending.filter((id) => id <= to) : pending;
+  if (targets.length === 0) {
+    console.log('Schema is up to date.');
+    return;
+  }
+  await client.execute(ledgerStatement());
+  for (const id of targets) {
+    console.log(`  up    ${id}`);
+    await client.batch([...readStatements(id, 'up'), recordStatement(id)], 'write');
+  }
+  console.log(`${targets.length} migration(s) applied.`);
+}
+
+async function migrateDown(client: Client, url: string) {
+  const steps = Number(argValue('steps') ?? 1);
+  if (!(Number.isInteger(steps) && steps > 0)) throw new Error(`Invalid --steps=${argValue('steps')}`);
+  if (!url.startsWith('file:') && url !== ':memory:' && !FORCE) {
+    throw new Error('Reverting migrations on a remote database drops data; re-run with --force');
+  }
+  const applied = (await appliedMigrations(client)).map((m) => m.id).reverse().slice(0, steps);
+  if (applied.length === 0) {
+    console.log('No applied migrations.');
+    return;
+  }
+  for (const id of applied) {
+    if (!MIGRATION_IDS.includes(id)) throw new Error(`No down migration for ${id} in this checkout`);
+    console.log(`  down  ${id}`);
+    await client.batch(
+      [...readStatements(id, 'down'), { sql: `DELETE FROM ${MIGRATIONS_TABLE} WHERE id = ?`, args: [id] }],
+      'write',
+    );
+  }
+  console.log(`${applied.length} migration(s) reverted.`);
+}
+
+async function generate(name: string | undefined) {
+  const slug = (name ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  if (!slug) throw new Error('Usage: npx tsx scripts/migrate.ts generate <name>');
+
+  const { kit, previous, current, up } = await schemaDiff();
+  if (up.length === 0) {
+    console.log('schema.ts matches the last migration; nothing to generate.');
+    return;
+  }
+  const down = await kit.generateSQLiteMigration(current, previous);
+  const id = `${String(MIGRATION_IDS.length).padStart(4, '0')}_${slug}`;
+  const join = (statements: string[]) => `${statements.join(`\n${STATEMENT_BREAKPOINT}\n`)}\n`;
+
+  writeFileSync(migrationFile(id, 'up'), join(up));
+  writeFileSync(migrationFile(id, 'down'), join(down));
+  writeFileSync(SNAPSHOT_FILE, JSON.stringify(current, null, 2) + '\n');
+  writeFileSync(JOURNAL_FILE, JSON.stringify({ migrations: [...MIGRATION_IDS, id] }, null, 2) + '\n');
+  console.log(`Wrote ${path.relative(process.cwd(), migrationFile(id, 'up'))} (${up.length} statements)`);
+  console.log(`Wrote ${path.relative(process.cwd(), migrationFile(id, 'down'))} (${down.length} statements)`);
+}
+
+async function baseline(client: Client) {
+  if ((await appliedMigrations(client)).length > 0) throw new Error('Database already has applied migrations');
+  const [initial] = MIGRATION_IDS;
+  // The pre-migration data tables have an older shape (majors_summary keyed by
+  // cip_code alone, a roi column on school_rankings), so they are recreated
+  // rather than adopted; ingest refills them. Other existing tables and
+  // indexes are kept and missing ones created.
+  const drops = INGESTED_TABLES.map((t) => `DROP TABLE IF EXISTS \`${t}\``);
+  const statements = readStatements(initial, 'up').map((s) =>
+    s.replace(/^CREATE (TABLE|INDEX|UNIQUE INDEX) /, 'CREATE $1 IF NOT EXISTS '),
+  );
+  await client.execute(ledgerStatement());
+  await client.batch([...drops, ...statements, recordStatement(initial)], 'write');
+  console.log(`Baselined at ${initial}; ${INGESTED_TABLES.join(', ')} are empty.`);
+  console.log('Run up for later migrations, then ingest-scorecard.ts to reload the data.');
+}
+
+async function main() {
+  if (command === 'generate') return generate(positional[0]);
+
+  const config = databaseConfig();
+  const client = createClient(config);
+  try {
+    switch (command) {
+      case 'status':
+        return await status(client);
+      case 'up':
+        return await migrateUp(client);
+      case 'down':
+        return await migrateDown(client, config.url);
+      case 'baseline':
+        return await baseline(client);
+      default:
+        throw new Error('Usage: npx tsx scripts/migrate.ts <status|up|down|generate|baseline>');
+    }
+  } finally {
+    client.close();
+  }
+}
+
+main().catch((err) => {
+  console.error('\nFatal error:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
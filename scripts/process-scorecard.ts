@@ -2,16 +2,65 @@
  * Process raw Scorecard data into app-ready JSON files.
  *
  * Usage:
- *   npx tsx scripts/process-scorecard.ts
+ *   npx tsx scripts/process-scorecard.ts [--degree-years=4] [--horizon=10] [--year=2021]
  *
- * Reads:  data/raw-institutions.json, data/raw-programs.json
- * Writes: data/programs.json, data/majors-summary.json, data/schools.json
+ * Reads:  data/raw-institutions.json, data/raw-programs.json (written by
+ *         fetch-scorecard.ts or import-scorecard-csv.ts)
+ * Writes: data/programs.json, data/majors-summary.json, data/schools.json,
+ *         data/school-rankings.json, data/baseline-earnings.json,
+ *         data/graduate-uplift.json
+ *
+ * With --year both reads and writes use data/releases/<year>/ instead.
+ * SCORECARD_DATA_DIR replaces data/ as the root directory.
  */
 
 import { readFileSync, writeFileSync } from 'fs';
 import path from 'path';
+import {
+  computeGraduateUplift,
+  computeNetPremium,
+  computeRoi,
+  DEFAULT_ROI_OPTIONS,
+  type EarningsPoints,
+  type RoiOptions,
+} from '../src/lib/roi';
+import { getBaselineEarnings, STATE_HS_BASELINE } from '../src/lib/baseline-earnings';
+import { getCredential, isGraduateLevel } from '../src/lib/credentials';
+import type { NetPriceByIncome } from '../src/lib/net-price';
+import type { SchoolOutcomes } from '../src/lib/outcomes';
+import type { SchoolCharacteristics } from '../src/lib/characteristics';
+import { programDebt } from '../src/lib/loans';
+import { evaluateAccountability } from '../src/lib/accountability';
+import { shrinkEarnings } from '../src/lib/shrinkage';
+import type { AccountabilityStatus } from '../src/types';
+
+function numericFlag(name: string, fallback: number): number {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  if (!arg) return fallback;
+  const val = Number(arg.slice(name.length + 3));
+  if (!Number.isFinite(val) || val <= 0) {
+    throw new Error(`Invalid --${name}: ${arg}`);
+  }
+  return val;
+}
 
-const DATA_DIR = path.join(__dirname, '..', 'data');
+const RELEASE_YEAR = numericFlag('year', 0) || null;
+const ROOT_DATA_DIR = process.env.SCORECARD_DATA_DIR || path.join(__dirname, '..', 'data');
+const DATA_DIR = RELEASE_YEAR
+  ? path.join(ROOT_DATA_DIR, 'releases', String(RELEASE_YEAR))
+  : ROOT_DATA_DIR;
+
+const ROI_OPTIONS: RoiOptions = {
+  ...DEFAULT_ROI_OPTIONS,
+  degreeYears: numericFlag('degree-years', DEFAULT_ROI_OPTIONS.degreeYears),
+  horizonYears: numericFlag('horizon', DEFAULT_ROI_OPTIONS.horizonYears),
+};
+
+// --degree-years sets the bachelor's length; other credentials use their typical length
+function roiOptionsFor(credLevel: number): RoiOptions {
+  if (credLevel === 3) return ROI_OPTIONS;
+  return { ...ROI_OPTIONS, degreeYears: getCredential(credLevel)?.years ?? ROI_OPTIONS.degreeYears };
+}
 
 // --- Types ---
 
@@ -21,6 +70,14 @@ interface RawInstitution {
   'school.city': string;
   'school.state': string;
   'school.ownership': number;
+  // Characteristic fields are absent from raw data fetched before they were added
+  'school.minority_serving.historically_black'?: number | null;
+  'school.minority_serving.hispanic'?: number | null;
+  'school.minority_serving.tribal'?: number | null;
+  'school.women_only'?: number | null;
+  'school.religious_affiliation'?: number | null;
+  'school.locale'?: number | null;
+  'school.carnegie_basic'?: number | null;
   'latest.admissions.admission_rate.overall': number | null;
   'latest.admissions.sat_scores.75th_percentile.critical_reading': number | null;
   'latest.admissions.sat_scores.75th_percentile.math': number | null;
@@ -30,7 +87,25 @@ interface RawInstitution {
   'latest.cost.tuition.out_of_state': number | null;
   'latest.cost.avg_net_price.public': number | null;
   'latest.cost.avg_net_price.private': number | null;
+  'latest.cost.net_price.public.by_income_level.0-30000': number | null;
+  'latest.cost.net_price.public.by_income_level.30001-48000': number | null;
+  'latest.cost.net_price.public.by_income_level.48001-75000': number | null;
+  'latest.cost.net_price.public.by_income_level.75001-110000': number | null;
+  'latest.cost.net_price.public.by_income_level.110001-plus': number | null;
+  'latest.cost.net_price.private.by_income_level.0-30000': number | null;
+  'latest.cost.net_price.private.by_income_level.30001-48000': number | null;
+  'latest.cost.net_price.private.by_income_level.48001-75000': number | null;
+  'latest.cost.net_price.private.by_income_level.75001-110000': number | null;
+  'latest.cost.net_price.private.by_income_level.110001-plus': number | null;
   'latest.completion.rate_suppressed.four_year': number | null;
+  // Outcome fields are absent from raw data fetched before they were added
+  'latest.completion.completion_rate_4yr_150nt'?: number | null;
+  'latest.completion.completion_rate_less_than_4yr_150nt'?: number | null;
+  'latest.student.retention_rate.four_year.full_time'?: number | null;
+  'latest.student.retention_rate.lt_four_year.full_time'?: number | null;
+  'latest.repayment.3_yr_repayment.overall'?: number | null;
+  'latest.aid.pell_grant_rate'?: number | null;
+  'latest.student.share_firstgeneration'?: number | null;
   'location.lat': number | null;
   'location.lon': number | null;
 }
@@ -50,11 +125,12 @@ interface RawProgram {
   earn4yrCount: number | null;
   earn5yr: number | null;
   earn5yrCount: number | null;
+  medianDebt?: number | null; // absent from raw data fetched before debt was added
 }
 
 // --- Output types ---
 
-interface School {
+interface School extends NetPriceByIncome, SchoolOutcomes, SchoolCharacteristics {
   unitId: number;
   name: string;
   city: string;
@@ -89,22 +165,61 @@ interface ProgramRecord {
   earn5yr: number | null;
   earn1yrCount: number | null;
   earn5yrCount: number | null;
+  adjustedEarn1yr: number | null; // earn1yr shrunk toward the field and tier mean
+  adjustedEarn5yr: number | null;
   costAttendance: number | null;
+  netPrice: number | null;
+  totalCost: number | null;
+  cumulativeEarnings: number | null;
+  npv: number | null;
+  breakEvenYear: number | null;
+  valueAddedEarn1yr: number | null; // earn1yr minus state high-school baseline
+  netPremium: number | null; // discounted lifetime premium over the baseline
+  medianDebt: number | null;
+  debtToEarnings: number | null;
+  monthlyPayment: number | null; // standard 10-year plan on the median debt
+  accountabilityStatus: AccountabilityStatus | null;
+  accountabilityNotes: string | null;
   selectivityTier: string;
 }
 
 interface MajorSummary {
   cipCode: string;
   cipTitle: string;
+  credLevel: number;
+  credTitle: string;
   schoolCount: number;
   medianEarn1yr: number | null;
   medianEarn4yr: number | null;
   medianEarn5yr: number | null;
+  p10Earn1yr: number | null;
   p25Earn1yr: number | null;
   p75Earn1yr: number | null;
+  p90Earn1yr: number | null;
+  p10Earn5yr: number | null;
   p25Earn5yr: number | null;
   p75Earn5yr: number | null;
+  p90Earn5yr: number | null;
   growthRate1to5: number | null; // percentage growth from 1yr to 5yr
+  valueAddedEarn1yr: number | null;
+  netPremium: number | null;
+}
+
+interface GraduateUplift {
+  cipCode: string;
+  credLevel: number;
+  credTitle: string;
+  unitId: number | null; // null for the national comparison
+  schoolName: string | null;
+  bachelorEarn1yr: number;
+  bachelorEarn5yr: number | null;
+  graduateEarn1yr: number;
+  graduateEarn5yr: number | null;
+  upliftEarn1yr: number;
+  upliftPct: number;
+  extraYears: number;
+  incrementalCost: number | null;
+  breakEvenYear: number | null;
 }
 
 // --- Helpers ---
@@ -125,6 +240,73 @@ function selectivityTier(admRate: number | null): string {
   return 'Open';
 }
 
+// Public schools report net price under .public, private under .private;
+// fall back to sticker cost when neither is published.
+function schoolNetPrice(school: School): number | null {
+  return school.ownership === 1
+    ? (school.netPricePublic ?? school.costAttendance)
+    : (school.netPricePrivate ?? school.costAttendance);
+}
+
+function schoolOutcomes(inst: RawInstitution): SchoolOutcomes {
+  return {
+    retentionRate:
+      inst['latest.student.retention_rate.four_year.full_time']
+      ?? inst['latest.student.retention_rate.lt_four_year.full_time']
+      ?? null,
+    completionRate150:
+      inst['latest.completion.completion_rate_4yr_150nt']
+      ?? inst['latest.completion.completion_rate_less_than_4yr_150nt']
+      ?? null,
+    repaymentRate3yr: inst['latest.repayment.3_yr_repayment.overall'] ?? null,
+    pellShare: inst['latest.aid.pell_grant_rate'] ?? null,
+    firstGenShare: inst['latest.student.share_firstgeneration'] ?? null,
+  };
+}
+
+function flag(value: number | null | undefined): boolean | null {
+  return value == null ? null : value === 1;
+}
+
+// Negative IPEDS codes mean "not applicable" or "not reported"
+function code(value: number | null | undefined): number | null {
+  return value == null || value < 0 ? null : value;
+}
+
+function schoolCharacteristics(inst: RawInstitution): SchoolCharacteristics {
+  return {
+    hbcu: flag(inst['school.minority_serving.historically_black']),
+    hsi: flag(inst['school.minority_serving.hispanic']),
+    tribal: flag(inst['school.minority_serving.tribal']),
+    womensCollege: flag(inst['school.women_only']),
+    religiousAffiliation: code(inst['school.religious_affiliation']),
+    locale: code(inst['school.locale']),
+    carnegieBasic: code(inst['school.carnegie_basic']),
+  };
+}
+
+// Net price by family income, from the public or private series to match the school
+function netPriceByIncome(inst: RawInstitution): NetPriceByIncome {
+  const isPublic = inst['school.ownership'] === 1;
+  return {
+    netPrice0to30k: isPublic
+      ? inst['latest.cost.net_price.public.by_income_level.0-30000']
+      : inst['latest.cost.net_price.private.by_income_level.0-30000'],
+    netPrice30to48k: isPublic
+      ? inst['latest.cost.net_price.public.by_income_level.30001-48000']
+      : inst['latest.cost.net_price.private.by_income_level.30001-48000'],
+    netPrice48to75k: isPublic
+      ? inst['latest.cost.net_price.public.by_income_level.48001-75000']
+      : inst['latest.cost.net_price.private.by_income_level.48001-75000'],
+    netPrice75to110k: isPublic
+      ? inst['latest.cost.net_price.public.by_income_level.75001-110000']
+      : inst['latest.cost.net_price.private.by_income_level.75001-110000'],
+    netPrice110kPlus: isPublic
+      ? inst['latest.cost.net_price.public.by_income_level.110001-plus']
+      : inst['latest.cost.net_price.private.by_income_level.110001-plus'],
+  };
+}
+
 function median(arr: number[]): number | null {
   if (arr.length === 0) return null;
   const sorted = [...arr].sort((a, b) => a - b);
@@ -132,11 +314,29 @@ function median(arr: number[]): number | null {
   return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
 }
 
-function percentile(arr: number[], pct: number): number | null {
-  if (arr.length === 0) return null;
-  const sorted = [...arr].sort((a, b) => a - b);
-  const idx = Math.ceil((pct / 100) * sorted.length) - 1;
-  return sorted[Math.max(0, idx)];
+// Percentile of program medians weighted by graduate count. Each program
+// spans a share of the total weight and sits at the midpoint of that share;
+// between midpoints the value is interpolated, and beyond the outermost ones it
+// is clamped to the lowest or highest program. With equal weights this reduces
+// to the usual interpolated percentile.
+function weightedPercentile(items: { earn: number; count: number }[], pct: number): number | null {
+  const sorted = items.filter((i) => i.count > 0).sort((a, b) => a.earn - b.earn);
+  if (sorted.length === 0) return null;
+  const total = sorted.reduce((sum, i) => sum + i.count, 0);
+  const target = (pct / 100) * total;
+  let cumulative = 0;
+  let prev: { earn: number; position: number } | null = null;
+  for (const { earn, count } of sorted) {
+    const position = cumulative + count / 2;
+    if (target <= position) {
+      if (!prev) return Math.round(earn);
+      const t = (target - prev.position) / (position - prev.position);
+      return Math.round(prev.earn + t * (earn - prev.earn));
+    }
+    prev = { earn, position };
+    cumulative += count;
+  }
+  return Math.round(sorted[sorted.length - 1].earn);
 }
 
 function weightedAvg(items: { earn: number; count: number }[]): number | null {
@@ -154,7 +354,7 @@ function weightedAvg(items: { earn: number; count: number }[]): number | null {
 
 function main() {
   // 1. Load raw data
-  console.log('Loading raw data...');
+  console.log(`Loading raw data${RELEASE_YEAR ? ` for the ${RELEASE_YEAR} release` : ''}...`);
   const rawInstitutions: RawInstitution[] = JSON.parse(
     readFileSync(path.join(DATA_DIR, 'raw-institutions.json'), 'utf-8'),
   );
@@ -185,7 +385,10 @@ function main() {
       tuitionOutState: inst['latest.cost.tuition.out_of_state'],
       netPricePublic: inst['latest.cost.avg_net_price.public'],
       netPricePrivate: inst['latest.cost.avg_net_price.private'],
+      ...netPriceByIncome(inst),
       completionRate: inst['latest.completion.rate_suppressed.four_year'],
+      ...schoolOutcomes(inst),
+      ...schoolCharacteristics(inst),
       selectivityTier: selectivityTier(admRate),
       lat: inst['location.lat'],
       lon: inst['location.lon'],
@@ -193,16 +396,23 @@ function main() {
   }
   console.log(`  ${schoolMap.size.toLocaleString()} schools indexed`);
 
-  // 3. Build program records (Bachelor's only, with at least 1yr earnings)
+  // 3. Build program records (every credential level, with at least one earnings figure)
   console.log('\nProcessing programs...');
-  const bachelors = rawPrograms.filter((p) => p.credLevel === 3);
-  console.log(`  ${bachelors.length.toLocaleString()} bachelor's programs`);
+  const levelCounts = new Map<number, number>();
+  for (const p of rawPrograms) levelCounts.set(p.credLevel, (levelCounts.get(p.credLevel) ?? 0) + 1);
+  for (const [level, count] of [...levelCounts].sort((a, b) => a[0] - b[0])) {
+    console.log(`  ${count.toLocaleString()} programs at credential level ${level}`);
+  }
 
   const programs: ProgramRecord[] = [];
-  for (const p of bachelors) {
+  for (const p of rawPrograms) {
     if (p.earn1yr == null && p.earn4yr == null && p.earn5yr == null) continue;
 
     const school = schoolMap.get(p.unitId);
+    const netPrice = school ? schoolNetPrice(school) : null;
+    const roiOptions = roiOptionsFor(p.credLevel);
+    const roi = computeRoi(netPrice, p, roiOptions);
+    const baseline = getBaselineEarnings(p.state);
     programs.push({
       unitId: p.unitId,
       schoolName: p.schoolName,
@@ -216,60 +426,118 @@ function main() {
       earn5yr: p.earn5yr,
       earn1yrCount: p.earn1yrCount,
       earn5yrCount: p.earn5yrCount,
+      adjustedEarn1yr: null, // set in step 3b, once every program is known
+      adjustedEarn5yr: null,
       costAttendance: school?.costAttendance ?? null,
+      netPrice,
+      totalCost: roi?.totalCost ?? null,
+      cumulativeEarnings: roi?.cumulativeEarnings ?? null,
+      npv: roi?.npv ?? null,
+      breakEvenYear: roi?.breakEvenYear ?? null,
+      valueAddedEarn1yr: p.earn1yr != null ? p.earn1yr - baseline : null,
+      netPremium: computeNetPremium(netPrice, p, baseline, roiOptions),
+      ...programDebt(p.medianDebt ?? null, p.earn1yr),
+      accountabilityStatus: null, // set in step 4d, once bachelor's medians are known
+      accountabilityNotes: null,
       selectivityTier: school?.selectivityTier ?? 'Unknown',
     });
   }
   console.log(`  ${programs.length.toLocaleString()} programs with earnings data`);
 
-  // 4. Compute major-level summaries (weighted by completer count)
+  // 3b. Empirical-Bayes adjusted earnings: small programs are pulled toward
+  // the mean of their field, credential level and selectivity tier
+  console.log('\nAdjusting small-program earnings...');
+  const adjusted1yr = shrinkEarnings(programs.map((p) => ({ ...p, earnings: p.earn1yr, count: p.earn1yrCount })));
+  const adjusted5yr = shrinkEarnings(programs.map((p) => ({ ...p, earnings: p.earn5yr, count: p.earn5yrCount })));
+  const shifts: number[] = [];
+  programs.forEach((p, i) => {
+    p.adjustedEarn1yr = adjusted1yr[i];
+    p.adjustedEarn5yr = adjusted5yr[i];
+    if (p.earn1yr != null && p.adjustedEarn1yr != null && p.earn1yr > 0) {
+      shifts.push(Math.abs(p.adjustedEarn1yr - p.earn1yr) / p.earn1yr);
+    }
+  });
+  const moved = shifts.filter((s) => s >= 0.05).length;
+  console.log(
+    `  median 1yr adjustment ${((median(shifts) ?? 0) * 100).toFixed(1)}%, ${moved.toLocaleString()} programs moved 5% or more`,
+  );
+
+  // 4. Compute major-level summaries per credential level (weighted by completer count)
   console.log('\nComputing major summaries (weighted by completer count)...');
   interface MajorEntry {
+    cipCode: string;
     title: string;
+    credLevel: number;
+    credTitle: string;
     earn1yr: { earn: number; count: number }[];
     earn4yr: { earn: number; count: number }[];
     earn5yr: { earn: number; count: number }[];
+    valueAdded: { earn: number; count: number }[];
+    netPremium: { earn: number; count: number }[];
   }
   const majorMap = new Map<string, MajorEntry>();
 
   for (const p of programs) {
-    let entry = majorMap.get(p.cipCode);
+    const key = `${p.cipCode}-${p.credLevel}`;
+    let entry = majorMap.get(key);
     if (!entry) {
-      entry = { title: p.cipTitle, earn1yr: [], earn4yr: [], earn5yr: [] };
-      majorMap.set(p.cipCode, entry);
+      entry = {
+        cipCode: p.cipCode,
+        title: p.cipTitle,
+        credLevel: p.credLevel,
+        credTitle: p.credTitle,
+        earn1yr: [],
+        earn4yr: [],
+        earn5yr: [],
+        valueAdded: [],
+        netPremium: [],
+      };
+      majorMap.set(key, entry);
     }
     // Use completer count as weight; default to 1 if count is missing
     if (p.earn1yr != null) entry.earn1yr.push({ earn: p.earn1yr, count: p.earn1yrCount ?? 1 });
     if (p.earn4yr != null) entry.earn4yr.push({ earn: p.earn4yr, count: 1 }); // no count field for 4yr
     if (p.earn5yr != null) entry.earn5yr.push({ earn: p.earn5yr, count: p.earn5yrCount ?? 1 });
+    if (p.valueAddedEarn1yr != null) {
+      entry.valueAdded.push({ earn: p.valueAddedEarn1yr, count: p.earn1yrCount ?? 1 });
+    }
+    if (p.netPremium != null) entry.netPremium.push({ earn: p.netPremium, count: p.earn1yrCount ?? 1 });
   }
 
   const majorsSummary: MajorSummary[] = [];
-  for (const [cipCode, entry] of majorMap) {
-    const avg1 = weightedAvg(entry.earn1yr);
-    const avg5 = weightedAvg(entry.earn5yr);
-    // Raw values for percentiles (unweighted — shows school-level distribution)
-    const raw1yr = entry.earn1yr.map((e) => e.earn);
-    const raw5yr = entry.earn5yr.map((e) => e.earn);
+  for (const entry of majorMap.values()) {
+    // Every figure in the distribution is weighted by graduate count, so the
+    // median sits inside its percentile bands and describes graduates rather
+    // than schools
+    const med1 = weightedPercentile(entry.earn1yr, 50);
+    const med5 = weightedPercentile(entry.earn5yr, 50);
     majorsSummary.push({
-      cipCode,
+      cipCode: entry.cipCode,
       cipTitle: entry.title,
+      credLevel: entry.credLevel,
+      credTitle: entry.credTitle,
       schoolCount: entry.earn1yr.length,
-      medianEarn1yr: avg1,
-      medianEarn4yr: weightedAvg(entry.earn4yr),
-      medianEarn5yr: avg5,
-      p25Earn1yr: percentile(raw1yr, 25),
-      p75Earn1yr: percentile(raw1yr, 75),
-      p25Earn5yr: percentile(raw5yr, 25),
-      p75Earn5yr: percentile(raw5yr, 75),
-      growthRate1to5: avg1 && avg5 ? Math.round(((avg5 - avg1) / avg1) * 100) : null,
+      medianEarn1yr: med1,
+      medianEarn4yr: weightedPercentile(entry.earn4yr, 50),
+      medianEarn5yr: med5,
+      p10Earn1yr: weightedPercentile(entry.earn1yr, 10),
+      p25Earn1yr: weightedPercentile(entry.earn1yr, 25),
+      p75Earn1yr: weightedPercentile(entry.earn1yr, 75),
+      p90Earn1yr: weightedPercentile(entry.earn1yr, 90),
+      p10Earn5yr: weightedPercentile(entry.earn5yr, 10),
+      p25Earn5yr: weightedPercentile(entry.earn5yr, 25),
+      p75Earn5yr: weightedPercentile(entry.earn5yr, 75),
+      p90Earn5yr: weightedPercentile(entry.earn5yr, 90),
+      growthRate1to5: med1 && med5 ? Math.round(((med5 - med1) / med1) * 100) : null,
+      valueAddedEarn1yr: weightedAvg(entry.valueAdded),
+      netPremium: weightedAvg(entry.netPremium),
     });
   }
 
   // Sort by median 1yr earnings descending
   majorsSummary.sort((a, b) => (b.medianEarn1yr ?? 0) - (a.medianEarn1yr ?? 0));
 
-  console.log(`  ${majorsSummary.length} unique majors`);
+  console.log(`  ${majorsSummary.length} major summaries across credential levels`);
 
   // 4b. Compute school-level rankings (pre-aggregated for homepage)
   console.log('\nComputing school rankings...');
@@ -283,8 +551,10 @@ function main() {
   }
 
   const schoolEarningsMap = new Map<number, SchoolEarnings>();
-  // Programs are already sorted by earn1yr desc (from step 3 processing)
+  // Programs are already sorted by earn1yr desc (from step 3 processing).
+  // Schools are ranked on their bachelor's programs so levels are not mixed.
   for (const p of programs) {
+    if (p.credLevel !== 3) continue;
     let entry = schoolEarningsMap.get(p.unitId);
     if (!entry) {
       entry = { earn1yr: [], earn5yr: [], maxEarn1yr: 0, topProgram: null, programCount: 0 };
@@ -305,7 +575,7 @@ function main() {
     }
   }
 
-  interface SchoolRankingRecord {
+  interface SchoolRankingRecord extends NetPriceByIncome, SchoolOutcomes, SchoolCharacteristics {
     unitId: number;
     name: string;
     city: string;
@@ -323,7 +593,12 @@ function main() {
     medianEarn1yr: number | null;
     weightedEarn1yr: number | null;
     weightedEarn5yr: number | null;
-    roi: number | null;
+    totalCost: number | null;
+    cumulativeEarnings: number | null;
+    npv: number | null;
+    breakEvenYear: number | null;
+    valueAddedEarn1yr: number | null;
+    netPremium: number | null;
     maxEarn1yr: number | null;
     topProgram: string | null;
   }
@@ -343,14 +618,12 @@ function main() {
       school.satMath75 != null && school.satRead75 != null
         ? school.satMath75 + school.satRead75
         : null;
-    const netPrice =
-      school.ownership === 1
-        ? (school.netPricePublic ?? cost)
-        : (school.netPricePrivate ?? cost);
-    const roi =
-      w1yr != null && cost != null && cost > 0
-        ? Math.round((w1yr / cost) * 100) / 100
-        : null;
+    const netPrice = schoolNetPrice(school);
+    // No graduate counts are published for 4yr earnings, so the school-level
+    // trajectory interpolates between the weighted 1yr and 5yr points.
+    const points = { earn1yr: w1yr, earn4yr: null, earn5yr: w5yr };
+    const roi = computeRoi(netPrice, points, ROI_OPTIONS);
+    const baseline = getBaselineEarnings(school.state);
 
     schoolRankings.push({
       unitId,
@@ -364,13 +637,35 @@ function main() {
       size: school.size,
       costAttendance: cost,
       netPrice,
+      netPrice0to30k: school.netPrice0to30k,
+      netPrice30to48k: school.netPrice30to48k,
+      netPrice48to75k: school.netPrice48to75k,
+      netPrice75to110k: school.netPrice75to110k,
+      netPrice110kPlus: school.netPrice110kPlus,
       completionRate: school.completionRate,
+      retentionRate: school.retentionRate,
+      completionRate150: school.completionRate150,
+      repaymentRate3yr: school.repaymentRate3yr,
+      pellShare: school.pellShare,
+      firstGenShare: school.firstGenShare,
+      hbcu: school.hbcu,
+      hsi: school.hsi,
+      tribal: school.tribal,
+      womensCollege: school.womensCollege,
+      religiousAffiliation: school.religiousAffiliation,
+      locale: school.locale,
+      carnegieBasic: school.carnegieBasic,
       selectivityTier: school.selectivityTier,
       programCount: earnings.programCount,
       medianEarn1yr: med1yr,
       weightedEarn1yr: w1yr,
       weightedEarn5yr: w5yr,
-      roi,
+      totalCost: roi?.totalCost ?? null,
+      cumulativeEarnings: roi?.cumulativeEarnings ?? null,
+      npv: roi?.npv ?? null,
+      breakEvenYear: roi?.breakEvenYear ?? null,
+      valueAddedEarn1yr: w1yr != null ? w1yr - baseline : null,
+      netPremium: computeNetPremium(netPrice, points, baseline, ROI_OPTIONS),
       maxEarn1yr: earnings.maxEarn1yr,
       topProgram: earnings.topProgram,
     });
@@ -378,6 +673,104 @@ function main() {
 
   schoolRankings.sort((a, b) => (b.weightedEarn1yr ?? 0) - (a.weightedEarn1yr ?? 0));
   console.log(`  ${schoolRankings.length.toLocaleString()} school rankings`);
+  console.log(
+    `  ROI model: ${ROI_OPTIONS.degreeYears}-year degree, ${ROI_OPTIONS.horizonYears}-year horizon, ${ROI_OPTIONS.discountRate * 100}% discount rate`,
+  );
+
+  // 4c. Compare graduate credentials with the bachelor's in the same field,
+  // first at each school offering both, then nationally
+  console.log('\nComputing graduate earnings uplift...');
+  function upliftFor(
+    bachelor: EarningsPoints & { earn1yr: number },
+    graduate: EarningsPoints & { earn1yr: number; cipCode: string; credLevel: number; credTitle: string },
+    netPrice: number | null,
+  ): Omit<GraduateUplift, 'unitId' | 'schoolName'> {
+    const extraYears = roiOptionsFor(graduate.credLevel).degreeYears;
+    const uplift = computeGraduateUplift(netPrice, bachelor, graduate, extraYears, ROI_OPTIONS);
+    return {
+      cipCode: graduate.cipCode,
+      credLevel: graduate.credLevel,
+      credTitle: graduate.credTitle,
+      bachelorEarn1yr: bachelor.earn1yr,
+      bachelorEarn5yr: bachelor.earn5yr,
+      graduateEarn1yr: graduate.earn1yr,
+      graduateEarn5yr: graduate.earn5yr,
+      upliftEarn1yr: graduate.earn1yr - bachelor.earn1yr,
+      upliftPct: Math.round(((graduate.earn1yr - bachelor.earn1yr) / bachelor.earn1yr) * 100),
+      extraYears,
+      incrementalCost: uplift?.incrementalCost ?? null,
+      breakEvenYear: uplift?.breakEvenYear ?? null,
+    };
+  }
+
+  const bachelorPrograms = new Map<string, ProgramRecord>();
+  for (const p of programs) {
+    if (p.credLevel === 3) bachelorPrograms.set(`${p.unitId}-${p.cipCode}`, p);
+  }
+  const graduateUplift: GraduateUplift[] = [];
+  const graduateNetPrices = new Map<string, number[]>();
+  for (const p of programs) {
+    if (!isGraduateLevel(p.credLevel) || p.earn1yr == null) continue;
+    const bachelor = bachelorPrograms.get(`${p.unitId}-${p.cipCode}`);
+    if (bachelor?.earn1yr == null) continue;
+    graduateUplift.push({
+      unitId: p.unitId,
+      schoolName: p.schoolName,
+      ...upliftFor({ ...bachelor, earn1yr: bachelor.earn1yr }, { ...p, earn1yr: p.earn1yr }, p.netPrice),
+    });
+    if (p.netPrice != null) {
+      const key = `${p.cipCode}-${p.credLevel}`;
+      graduateNetPrices.set(key, [...(graduateNetPrices.get(key) ?? []), p.netPrice]);
+    }
+  }
+  const schoolUpliftCount = graduateUplift.length;
+
+  // National: weighted averages from the major summaries, costed at the
+  // median net price of the schools offering both credentials
+  const bachelorMajors = new Map(
+    majorsSummary.filter((m) => m.credLevel === 3).map((m) => [m.cipCode, m]),
+  );
+  for (const m of majorsSummary) {
+    if (!isGraduateLevel(m.credLevel) || m.medianEarn1yr == null) continue;
+    const bachelor = bachelorMajors.get(m.cipCode);
+    if (bachelor?.medianEarn1yr == null) continue;
+    graduateUplift.push({
+      unitId: null,
+      schoolName: null,
+      ...upliftFor(
+        { earn1yr: bachelor.medianEarn1yr, earn4yr: bachelor.medianEarn4yr, earn5yr: bachelor.medianEarn5yr },
+        {
+          cipCode: m.cipCode,
+          credLevel: m.credLevel,
+          credTitle: m.credTitle,
+          earn1yr: m.medianEarn1yr,
+          earn4yr: m.medianEarn4yr,
+          earn5yr: m.medianEarn5yr,
+        },
+        median(graduateNetPrices.get(`${m.cipCode}-${m.credLevel}`) ?? []),
+      ),
+    });
+  }
+  console.log(
+    `  ${schoolUpliftCount.toLocaleString()} school comparisons, ${(graduateUplift.length - schoolUpliftCount).toLocaleString()} national`,
+  );
+
+  // 4d. Accountability tests; graduate programs are compared with the
+  // national bachelor's median in their field
+  console.log('\nRunning accountability tests...');
+  const statusCounts = new Map<string, number>();
+  for (const p of programs) {
+    const bachelor = bachelorMajors.get(p.cipCode);
+    Object.assign(p, evaluateAccountability(p, {
+      bachelorEarn1yr: bachelor?.medianEarn1yr ?? null,
+      bachelorEarn4yr: bachelor?.medianEarn4yr ?? null,
+    }));
+    const status = p.accountabilityStatus ?? 'untested';
+    statusCounts.set(status, (statusCounts.get(status) ?? 0) + 1);
+  }
+  console.log(
+    `  ${['pass', 'warn', 'fail', 'untested'].map((s) => `${(statusCounts.get(s) ?? 0).toLocaleString()} ${s}`).join(', ')}`,
+  );
 
   // 5. Write output files
   console.log('\nWriting output files...');
@@ -395,12 +788,20 @@ function main() {
   writeFileSync(path.join(DATA_DIR, 'school-rankings.json'), JSON.stringify(schoolRankings));
   console.log(`  school-rankings.json: ${schoolRankings.length.toLocaleString()} school rankings`);
 
-  // 6. Print top 20 majors
-  console.log('\n=== Top 20 Majors by Median 1-Year Earnings ===');
+  const baselineEarnings = Object.entries(STATE_HS_BASELINE).map(([state, earnings]) => ({ state, earnings }));
+  writeFileSync(path.join(DATA_DIR, 'baseline-earnings.json'), JSON.stringify(baselineEarnings, null, 2));
+  console.log(`  baseline-earnings.json: ${baselineEarnings.length} states`);
+
+  writeFileSync(path.join(DATA_DIR, 'graduate-uplift.json'), JSON.stringify(graduateUplift));
+  console.log(`  graduate-uplift.json: ${graduateUplift.length.toLocaleString()} comparisons`);
+
+  // 6. Print top 20 bachelor's majors
+  const topMajors = majorsSummary.filter((m) => m.credLevel === 3);
+  console.log("\n=== Top 20 Bachelor's Majors by Median 1-Year Earnings ===");
   console.log(`${'Rank'.padStart(4)} ${'Major'.padEnd(50)} ${'1yr Med'.padStart(10)} ${'5yr Med'.padStart(10)} ${'Growth'.padStart(8)} ${'Schools'.padStart(8)}`);
   console.log('-'.repeat(94));
-  for (let i = 0; i < Math.min(20, majorsSummary.length); i++) {
-    const m = majorsSummary[i];
+  for (let i = 0; i < Math.min(20, topMajors.length); i++) {
+    const m = topMajors[i];
     const earn1 = m.medianEarn1yr ? `$${m.medianEarn1yr.toLocaleString()}` : 'N/A';
     const earn5 = m.medianEarn5yr ? `$${m.medianEarn5yr.toLocaleString()}` : 'N/A';
     const growth = m.growthRate1to5 != null ? `${m.growthRate1to5}%` : 'N/A';
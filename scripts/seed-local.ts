@@ -0,0 +1,398 @@
+/**
+ * Seed a local SQLite database with a small fixture dataset for offline work.
+ *
+ * Usage:
+ *   npx tsx scripts/seed-local.ts [--db=data/local.db]
+ *
+ * Writes raw Scorecard JSON for a few dozen fictional schools to
+ * data/fixture/ (the latest data plus releases for the earnings trends), then
+ * runs the real pipeline over it with SCORECARD_DATA_DIR pointing there:
+ * migrate.ts up, process-scorecard.ts, validate-scorecard.ts and
+ * ingest-scorecard.ts. Analytics events and newsletter signups dated over the
+ * past 30 days are added last so /analytics has something to show.
+ *
+ * The fixture data is generated from a fixed seed, so every run produces the
+ * same schools and programs. Re-running replaces the fixture tables and the
+ * seeded analytics, and keeps admin users.
+ *
+ * Only file: databases are seeded. With TURSO_DATABASE_URL unset the app and
+ * the data scripts use data/local.db; create-admin-user.ts adds a login for
+ * /analytics there. TURSO_DATABASE_URL=:memory: gives scripts an empty
+ * throwaway database instead.
+ */
+
+import { execFileSync } from 'child_process';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import path from 'path';
+import { createClient, type InStatement } from '@libsql/client';
+import { LOCAL_DATABASE_PATH } from '../src/lib/db/config';
+
+const dbArg = process.argv.find((a) => a.startsWith('--db='));
+const DB_PATH = path.resolve(dbArg ? dbArg.slice('--db='.length) : LOCAL_DATABASE_PATH);
+if (dbArg && /^[a-z]{2,}:/i.test(dbArg.slice('--db='.length))) throw new Error(`--db takes a file path, not a URL: ${dbArg}`);
+const DB_URL = `file:${DB_PATH}`;
+
+const FIXTURE_DIR = path.join(__dirname, '..', 'data', 'fixture');
+const RELEASE_YEARS = [2022, 2023, 2024];
+const LATEST_YEAR = RELEASE_YEARS[RELEASE_YEARS.length - 1];
+const ANALYTICS_DAYS = 30;
+const SESSION_PREFIX = 'seed-';
+
+// --- Deterministic random numbers ---
+
+// mulberry32: small, fast and good enough for fixture noise
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function between(random: () => number, min: number, max: number): number {
+  return min + (max - min) * random();
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+const round = (v: number, step: number) => Math.round(v / step) * step;
+const rate = (v: number) => Math.round(Math.min(Math.max(v, 0.01), 0.99) * 10000) / 10000;
+
+// --- Fixture schools ---
+
+type SchoolKind = 'research' | 'regional' | 'liberal-arts' | 'community' | 'for-profit';
+
+interface FixtureSchool {
+  unitId: number;
+  name: string;
+  city: string;
+  state: string;
+  ownership: 1 | 2 | 3;
+  kind: SchoolKind;
+  quality: number; // earnings multiplier, around 1
+  lat: number;
+  lon: number;
+  locale: number;
+  carnegie: number;
+  hbcu?: boolean;
+  hsi?: boolean;
+  tribal?: boolean;
+  womens?: boolean;
+  religious?: number; // IPEDS religious affiliation code
+}
+
+// Fictional institutions; unit IDs sit outside the range IPEDS assigns
+const SCHOOLS: FixtureSchool[] = [
+  { unitId: 900001, name: 'Pacific Coast University', city: 'Los Angeles', state: 'CA', ownership: 1, kind: 'research', quality: 1.25, lat: 34.07, lon: -118.44, locale: 11, carnegie: 15, hsi: true },
+  { unitId: 900002, name: 'Golden Bay Institute of Technology', city: 'San Jose', state: 'CA', ownership: 2, kind: 'research', quality: 1.45, lat: 37.34, lon: -121.89, locale: 11, carnegie: 15 },
+  { unitId: 900003, name: 'Central Valley State University', city: 'Fresno', state: 'CA', ownership: 1, kind: 'regional', quality: 0.95, lat: 36.81, lon: -119.75, locale: 12, carnegie: 18, hsi: true },
+  { unitId: 900004, name: 'Sierra Foothills Community College', city: 'Auburn', state: 'CA', ownership: 1, kind: 'community', quality: 0.9, lat: 38.9, lon: -121.07, locale: 22, carnegie: 2 },
+  { unitId: 900005, name: 'Lone Star Polytechnic University', city: 'Austin', state: 'TX', ownership: 1, kind: 'research', quality: 1.2, lat: 30.28, lon: -97.73, locale: 11, carnegie: 15, hsi: true },
+  { unitId: 900006, name: 'Gulf Plains University', city: 'Corpus Christi', state: 'TX', ownership: 1, kind: 'regional', quality: 0.92, lat: 27.71, lon: -97.33, locale: 12, carnegie: 18, hsi: true },
+  { unitId: 900007, name: 'Prairie View Heights College', city: 'Houston', state: 'TX', ownership: 2, kind: 'liberal-arts', quality: 0.88, lat: 29.72, lon: -95.36, locale: 11, carnegie: 21, hbcu: true, religious: 71 },
+  { unitId: 900008, name: 'Hill Country Career Institute', city: 'San Antonio', state: 'TX', ownership: 3, kind: 'for-profit', quality: 0.75, lat: 29.42, lon: -98.49, locale: 11, carnegie: 3 },
+  { unitId: 900009, name: 'Hudson Metropolitan University', city: 'New York', state: 'NY', ownership: 2, kind: 'research', quality: 1.35, lat: 40.73, lon: -73.99, locale: 11, carnegie: 15 },
+  { unitId: 900010, name: 'Finger Lakes College', city: 'Geneva', state: 'NY', ownership: 2, kind: 'liberal-arts', quality: 1.05, lat: 42.87, lon: -76.98, locale: 32, carnegie: 21 },
+  { unitId: 900011, name: 'Saint Brendan University', city: 'Buffalo', state: 'NY', ownership: 2, kind: 'regional', quality: 0.98, lat: 42.89, lon: -78.88, locale: 11, carnegie: 18, religious: 30 },
+  { unitId: 900012, name: 'Adirondack Community College', city: 'Plattsburgh', state: 'NY', ownership: 1, kind: 'community', quality: 0.85, lat: 44.7, lon: -73.45, locale: 33, carnegie: 1 },
+  { unitId: 900013, name: 'Buckeye State University', city: 'Columbus', state: 'OH', ownership: 1, kind: 'research', quality: 1.1, lat: 40.0, lon: -83.03, locale: 11, carnegie: 15 },
+  { unitId: 900014, name: 'Western Reserve College for Women', city: 'Cleveland', state: 'OH', ownership: 2, kind: 'liberal-arts', quality: 0.97, lat: 41.5, lon: -81.6, locale: 11, carnegie: 21, womens: true, religious: 30 },
+  { unitId: 900015, name: 'Ohio River Valley University', city: 'Athens', state: 'OH', ownership: 1, kind: 'regional', quality: 0.9, lat: 39.33, lon: -82.1, locale: 32, carnegie: 16 },
+  { unitId: 900016, name: 'Peachtree University', city: 'Atlanta', state: 'GA', ownership: 2, kind: 'research', quality: 1.3, lat: 33.79, lon: -84.32, locale: 11, carnegie: 15, religious: 71 },
+  { unitId: 900017, name: 'Magnolia College', city: 'Atlanta', state: 'GA', ownership: 2, kind: 'liberal-arts', quality: 0.93, lat: 33.75, lon: -84.41, locale: 11, carnegie: 21, hbcu: true, womens: true },
+  { unitId: 900018, name: 'Savannah Coastal State University', city: 'Savannah', state: 'GA', ownership: 1, kind: 'regional', quality: 0.86, lat: 32.02, lon: -81.13, locale: 12, carnegie: 18, hbcu: true },
+  { unitId: 900019, name: 'Black Belt State University', city: 'Montgomery', state: 'AL', ownership: 1, kind: 'regional', quality: 0.82, lat: 32.36, lon: -86.3, locale: 12, carnegie: 18, hbcu: true },
+  { unitId: 900020, name: 'Tuscaloosa Valley Technical College', city: 'Tuscaloosa', state: 'AL', ownership: 1, kind: 'community', quality: 0.8, lat: 33.2, lon: -87.57, locale: 13, carnegie: 3 },
+  { unitId: 900021, name: 'Commonwealth Institute of Science', city: 'Cambridge', state: 'MA', ownership: 2, kind: 'research', quality: 1.55, lat: 42.36, lon: -71.09, locale: 12, carnegie: 15 },
+  { unitId: 900022, name: 'Berkshire College', city: 'Williamstown', state: 'MA', ownership: 2, kind: 'liberal-arts', quality: 1.15, lat: 42.71, lon: -73.2, locale: 41, carnegie: 21 },
+  { unitId: 900023, name: 'Cascadia State University', city: 'Seattle', state: 'WA', ownership: 1, kind: 'research', quality: 1.3, lat: 47.66, lon: -122.31, locale: 11, carnegie: 15 },
+  { unitId: 900024, name: 'Columbia Plateau Tribal College', city: 'Toppenish', state: 'WA', ownership: 1, kind: 'community', quality: 0.78, lat: 46.38, lon: -120.31, locale: 42, carnegie: 2, tribal: true },
+  { unitId: 900025, name: 'Puget Sound Online University', city: 'Tacoma', state: 'WA', ownership: 3, kind: 'for-profit', quality: 0.8, lat: 47.25, lon: -122.44, locale: 12, carnegie: 18 },
+];
+
+// --- Fixture majors ---
+
+interface FixtureMajor {
+  cipCode: string;
+  cipTitle: string;
+  earn1yr: number; // typical bachelor's median
+  debt: number;
+}
+
+const MAJORS: FixtureMajor[] = [
+  { cipCode: '5202', cipTitle: 'Business Administration, Management and Operations.', earn1yr: 52000, debt: 25000 },
+  { cipCode: '1107', cipTitle: 'Computer Science.', earn1yr: 78000, debt: 24000 },
+  { cipCode: '5138', cipTitle: 'Registered Nursing, Nursing Administration, Nursing Research and Clinical Nursing.', earn1yr: 68000, debt: 26000 },
+  { cipCode: '2301', cipTitle: 'English Language and Literature, General.', earn1yr: 36000, debt: 23000 },
+  { cipCode: '4201', cipTitle: 'Psychology, General.', earn1yr: 37000, debt: 24000 },
+  { cipCode: '1409', cipTitle: 'Computer Engineering.', earn1yr: 80000, debt: 25000 },
+  { cipCode: '1419', cipTitle: 'Mechanical Engineering.', earn1yr: 72000, debt: 25000 },
+  { cipCode: '2601', cipTitle: 'Biology, General.', earn1yr: 38000, debt: 24000 },
+  { cipCode: '4506', cipTitle: 'Economics.', earn1yr: 60000, debt: 23000 },
+  { cipCode: '1313', cipTitle: 'Teacher Education and Professional Development, Specific Subject Areas.', earn1yr: 41000, debt: 24000 },
+  { cipCode: '5009', cipTitle: 'Music.', earn1yr: 30000, debt: 25000 },
+  { cipCode: '4510', cipTitle: 'Political Science and Government.', earn1yr: 45000, debt: 24000 },
+];
+
+// Majors offered at sub-baccalaureate schools, as associate's degrees
+const ASSOCIATE_MAJORS = ['5202', '1107', '5138', '2601', '1313', '4201'];
+// Majors offered as master's degrees at research universities
+const MASTERS_MAJORS = ['5202', '1107', '1409', '4506', '1313'];
+
+const CRED_TITLES: Record<number, string> = {
+  2: "Associate's Degree",
+  3: "Bachelor's Degree",
+  5: "Master's Degree",
+};
+
+// Earnings relative to the bachelor's median, by credential level
+const LEVEL_EARNINGS: Record<number, number> = { 2: 0.72, 3: 1, 5: 1.3 };
+
+const MAJORS_BY_KIND: Record<SchoolKind, { count: number; levels: number[] }> = {
+  research: { count: 12, levels: [3, 5] },
+  regional: { count: 9, levels: [3] },
+  'liberal-arts': { count: 7, levels: [3] },
+  community: { count: 6, levels: [2] },
+  'for-profit': { count: 6, levels: [2, 3] },
+};
+
+// --- Raw records ---
+
+type RawInstitution = Record<string, string | number | null>;
+
+interface RawProgram {
+  unitId: number;
+  schoolName: string;
+  state: string;
+  ownership: number;
+  cipCode: string;
+  cipTitle: string;
+  credLevel: number;
+  credTitle: string;
+  earn1yr: number | null;
+  earn1yrCount: number | null;
+  earn4yr: number | null;
+  earn4yrCount: number | null;
+  earn5yr: number | null;
+  earn5yrCount: number | null;
+  medianDebt: number | null;
+}
+
+const INCOME_LEVELS = ['0-30000', '30001-48000', '48001-75000', '75001-110000', '110001-plus'];
+
+// Share of the average net price paid at each income level
+const INCOME_NET_PRICE = [0.55, 0.7, 0.95, 1.2, 1.45];
+
+function institutionRecord(s: FixtureSchool, random: () => number, drift: number): RawInstitution {
+  const fourYear = s.kind !== 'community';
+  const selective = s.kind === 'research' || s.kind === 'liberal-arts';
+  const admissionRate = s.kind === 'community' ? null : rate(selective ? between(random, 0.08, 0.55) / s.quality : between(random, 0.6, 0.95));
+  const size = round(
+    s.kind === 'research' ? between(random, 20000, 45000)
+      : s.kind === 'liberal-arts' ? between(random, 1200, 3000)
+        : between(random, 3000, 15000),
+    10,
+  );
+  const tuitionInState = round(
+    (s.ownership === 1 ? (fourYear ? between(random, 8000, 13000) : between(random, 1200, 4500))
+      : s.ownership === 2 ? between(random, 38000, 62000)
+        : between(random, 14000, 22000)) * drift,
+    10,
+  );
+  const tuitionOutState = s.ownership === 1 ? round(tuitionInState * (fourYear ? 2.6 : 2.1), 10) : tuitionInState;
+  const costAttendance = round(tuitionInState + between(random, 14000, 22000) * drift, 10);
+  const avgNetPrice = round((s.ownership === 2 ? costAttendance * 0.45 : costAttendance * 0.6) * drift, 10);
+  const completion = selective ? between(random, 0.7, 0.95) : fourYear ? between(random, 0.4, 0.65) : between(random, 0.18, 0.35);
+  const sat = selective ? round(between(random, 640, 790), 10) : null;
+  const control = s.ownership === 1 ? 'public' : 'private';
+  const codeOrNa = (v: number | undefined) => v ?? -2;
+
+  const record: RawInstitution = {
+    id: s.unitId,
+    'school.name': s.name,
+    'school.city': s.city,
+    'school.state': s.state,
+    'school.ownership': s.ownership,
+    'school.minority_serving.historically_black': s.hbcu ? 1 : 0,
+    'school.minority_serving.hispanic': s.hsi ? 1 : 0,
+    'school.minority_serving.tribal': s.tribal ? 1 : 0,
+    'school.women_only': s.womens ? 1 : 0,
+    'school.religious_affiliation': codeOrNa(s.religious),
+    'school.locale': s.locale,
+    'school.carnegie_basic': s.carnegie,
+    'latest.admissions.admission_rate.overall': admissionRate,
+    'latest.admissions.sat_scores.75th_percentile.critical_reading': sat,
+    'latest.admissions.sat_scores.75th_percentile.math': sat != null ? Math.min(800, sat + 10) : null,
+    'latest.student.size': size,
+    'latest.cost.attendance.academic_year': costAttendance,
+    'latest.cost.tuition.in_state': tuitionInState,
+    'latest.cost.tuition.out_of_state': tuitionOutState,
+    'latest.cost.avg_net_price.public': s.ownership === 1 ? avgNetPrice : null,
+    'latest.cost.avg_net_price.private': s.ownership === 1 ? null : avgNetPrice,
+    'latest.completion.rate_suppressed.four_year': fourYear ? rate(completion) : null,
+    'latest.completion.completion_rate_4yr_150nt': fourYear ? rate(completion) : null,
+    'latest.completion.completion_rate_less_than_4yr_150nt': fourYear ? null : rate(completion),
+    'latest.student.retention_rate.four_year.full_time': fourYear ? rate(completion + 0.15) : null,
+    'latest.student.retention_rate.lt_four_year.full_time': fourYear ? null : rate(completion + 0.3),
+    'latest.repayment.3_yr_repayment.overall': rate(completion * between(random, 0.8, 1.1)),
+    'latest.aid.pell_grant_rate': rate((s.hbcu || s.tribal ? 0.65 : s.hsi ? 0.45 : 0.3) / s.quality + between(random, -0.05, 0.05)),
+    'latest.student.share_firstgeneration': rate((s.hbcu || s.tribal || s.hsi ? 0.45 : 0.25) / s.quality + between(random, -0.05, 0.05)),
+    'location.lat': s.lat,
+    'location.lon': s.lon,
+  };
+  for (const c of ['public', 'private']) {
+    INCOME_LEVELS.forEach((level, i) => {
+      record[`latest.cost.net_price.${c}.by_income_level.${level}`] =
+        c === control ? round(avgNetPrice * INCOME_NET_PRICE[i], 10) : null;
+    });
+  }
+  return record;
+}
+
+function programRecords(s: FixtureSchool, random: () => number, drift: number): RawProgram[] {
+  const { count, levels } = MAJORS_BY_KIND[s.kind];
+  const programs: RawProgram[] = [];
+  for (const level of levels) {
+    const offered = level === 2 ? ASSOCIATE_MAJORS : level === 5 ? MASTERS_MAJORS : MAJORS.slice(0, count).map((m) => m.cipCode);
+    for (const cipCode of offered) {
+      const major = MAJORS.find((m) => m.cipCode === cipCode)!;
+      const earn1yr = round(major.earn1yr * LEVEL_EARNINGS[level] * s.quality * drift * between(random, 0.85, 1.15), 100);
+      const earn1yrCount = Math.round(between(random, 12, s.kind === 'research' ? 320 : 120));
+      const longRun = level !== 2 || random() > 0.3;
+      programs.push({
+        unitId: s.unitId,
+        schoolName: s.name,
+        state: s.state,
+        ownership: s.ownership,
+        cipCode,
+        cipTitle: major.cipTitle,
+        credLevel: level,
+        credTitle: CRED_TITLES[level],
+        earn1yr,
+        earn1yrCount,
+        earn4yr: longRun ? round(earn1yr * between(random, 1.2, 1.4), 100) : null,
+        earn4yrCount: longRun ? Math.round(earn1yrCount * 0.85) : null,
+        earn5yr: longRun ? round(earn1yr * between(random, 1.3, 1.55), 100) : null,
+        earn5yrCount: longRun ? Math.round(earn1yrCount * 0.8) : null,
+        medianDebt: round(major.debt * (level === 2 ? 0.45 : level === 5 ? 1.6 : 1) * (s.ownership === 3 ? 1.3 : 1) * between(random, 0.8, 1.2), 100),
+      });
+    }
+  }
+  return programs;
+}
+
+// Raw files for one release; older releases have lower prices and earnings
+function writeRawFiles(dir: string, year: number) {
+  const random = createRandom(year);
+  const drift = Math.pow(0.96, LATEST_YEAR - year);
+  mkdirSync(dir, { recursive: true });
+  const institutions = SCHOOLS.map((s) => institutionRecord(s, random, drift));
+  const programs = SCHOOLS.flatMap((s) => programRecords(s, random, drift));
+  writeFileSync(path.join(dir, 'raw-institutions.json'), JSON.stringify(institutions, null, 2));
+  writeFileSync(path.join(dir, 'raw-programs.json'), JSON.stringify(programs, null, 2));
+  return { institutions: institutions.length, programs: programs.length };
+}
+
+// --- Pipeline ---
+
+function runScript(script: string, args: string[] = []) {
+  console.log(`\n$ ${script} ${args.join(' ')}`.trimEnd());
+  execFileSync('npx', ['tsx', path.join(__dirname, script), ...args], {
+    stdio: 'inherit',
+    env: { ...process.env, SCORECARD_DATA_DIR: FIXTURE_DIR, TURSO_DATABASE_URL: DB_URL, TURSO_AUTH_TOKEN: '' },
+  });
+}
+
+// --- Analytics ---
+
+const PAGES = ['/', '/about', '/calculator', '/at-risk', ...MAJORS.slice(0, 6).map((m) => `/majors/${m.cipCode}`), ...SCHOOLS.slice(0, 6).map((s) => `/schools/${s.unitId}`)];
+const TABS = ['majors', 'schools', 'map'];
+const SEARCHES = ['computer science', 'nursing', 'business', 'engineering', 'psychology', 'cheap colleges', 'texas', 'hbcu'];
+
+function analyticsStatements(now: number): InStatement[] {
+  const random = createRandom(LATEST_YEAR * 31);
+  const statements: InStatement[] = [];
+  const event = (sessionId: string, type: string, timestamp: number, page: string, data?: object) =>
+    statements.push({
+      sql: 'INSERT INTO analytics_events (session_id, event_type, event_data, page, timestamp) VALUES (?, ?, ?, ?, ?)',
+      args: [sessionId, type, data ? JSON.stringify(data) : null, page, timestamp],
+    });
+
+  for (let day = ANALYTICS_DAYS - 1; day >= 0; day--) {
+    const sessions = Math.round(between(random, 4, 14));
+    for (let n = 0; n < sessions; n++) {
+      const sessionId = `${SESSION_PREFIX}${day}-${n}`;
+      let timestamp = now - day * 86400 - Math.floor(random() * 80000);
+      const page = pick(random, PAGES);
+      event(sessionId, 'page_view', timestamp, page);
+      const actions = Math.round(between(random, 1, 6));
+      for (let a = 0; a < actions; a++) {
+        timestamp += Math.round(between(random, 5, 120));
+        const roll = random();
+        if (roll < 0.25) event(sessionId, 'tab_switch', timestamp, page, { tab: pick(random, TABS) });
+        else if (roll < 0.45) event(sessionId, 'search_query', timestamp, page, { query: pick(random, SEARCHES) });
+        else if (roll < 0.65) event(sessionId, 'major_click', timestamp, page, { cipCode: pick(random, MAJORS).cipCode });
+        else if (roll < 0.85) event(sessionId, 'school_click', timestamp, page, { unitId: pick(random, SCHOOLS).unitId });
+        else event(sessionId, 'page_view', timestamp, pick(random, PAGES));
+      }
+      if (day === 0 && n === 0) event(sessionId, 'tour_complete', timestamp, page);
+      if (random() < 0.1) event(sessionId, 'newsletter_dismiss', timestamp, page);
+      event(sessionId, 'page_exit', timestamp + 30, page, { dwellMs: Math.round(between(random, 5000, 300000)) });
+    }
+  }
+  return statements;
+}
+
+async function seedAnalytics() {
+  const client = createClient({ url: DB_URL });
+  const now = Math.floor(Date.now() / 1000);
+  const events = analyticsStatements(now);
+  await client.batch(
+    [
+      { sql: 'DELETE FROM analytics_events WHERE session_id LIKE ?', args: [`${SESSION_PREFIX}%`] },
+      ...events,
+      ...['alex', 'sam', 'jordan', 'taylor', 'casey'].map((name, i) => ({
+        sql: 'INSERT OR IGNORE INTO newsletter_signups (email, source, created_at) VALUES (?, ?, ?)',
+        args: [`${name}@example.com`, i % 2 ? 'banner' : 'popup', now - i * 86400 * 5],
+      })),
+    ],
+    'write',
+  );
+  client.close();
+  console.log(`  ${events.length} analytics events, 5 newsletter signups`);
+}
+
+async function main() {
+  console.log(`Seeding ${DB_URL}`);
+  rmSync(FIXTURE_DIR, { recursive: true, force: true });
+  mkdirSync(path.dirname(DB_PATH), { recursive: true });
+
+  console.log('\n=== Writing fixture data ===');
+  for (const year of RELEASE_YEARS) {
+    const counts = writeRawFiles(path.join(FIXTURE_DIR, 'releases', String(year)), year);
+    console.log(`  release ${year}: ${counts.institutions} schools, ${counts.programs} programs`);
+  }
+  writeRawFiles(FIXTURE_DIR, LATEST_YEAR);
+
+  runScript('migrate.ts', ['up']);
+  for (const year of RELEASE_YEARS) runScript('process-scorecard.ts', [`--year=${year}`]);
+  runScript('process-scorecard.ts');
+  for (const year of RELEASE_YEARS) runScript('validate-scorecard.ts', [`--year=${year}`]);
+  runScript('validate-scorecard.ts');
+  runScript('ingest-scorecard.ts');
+
+  console.log('\n=== Seeding analytics ===');
+  await seedAnalytics();
+
+  console.log(`\nDone! Leave TURSO_DATABASE_URL unset (or set it to ${DB_URL}) and run the app.`);
+}
+
+main().catch((err) => {
+  console.error('\nFatal error:', err);
+  process.exit(1);
+});
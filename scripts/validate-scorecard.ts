@@ -0,0 +1,452 @@
+/**
+ * Validate processed Scorecard data before it is ingested.
+ *
+ * Usage:
+ *   npx tsx scripts/validate-scorecard.ts [--year=2021] [--previous=2020] [--config=rules.json]
+ *
+ * Reads:  data/schools.json, data/programs.json, data/majors-summary.json,
+ *         data/school-rankings.json, data/baseline-earnings.json,
+ *         data/graduate-uplift.json (when present), and the same files of the
+ *         previous release in data/releases/<year>/ for the delta checks
+ * Writes: data/validation-report.json, data/validation-report.md
+ *
+ * With --year the release in data/releases/<year>/ is validated and the
+ * reports are written there. The previous release defaults to the newest
+ * earlier one; for the latest data, the newest release with different files.
+ * SCORECARD_DATA_DIR replaces data/ as the root directory.
+ *
+ * Every rule has a severity and parameters that --config can override, e.g.
+ *   { "earnings-range": { "max": 600000 }, "null-rate": { "severity": "off" } }
+ * A rule fails when its violations exceed maxViolations. Any failed
+ * error-severity rule exits non-zero, and ingest-scorecard.ts refuses to load
+ * data whose report failed or was built from different files.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+function argValue(name: string): string | null {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : null;
+}
+
+function yearValue(name: string): number | null {
+  const raw = argValue(name);
+  if (raw == null) return null;
+  const year = Number(raw);
+  if (!(Number.isInteger(year) && year >= 1996 && year <= 2100)) throw new Error(`Invalid --${name}=${raw}`);
+  return year;
+}
+
+const ROOT_DATA_DIR = process.env.SCORECARD_DATA_DIR || path.join(__dirname, '..', 'data');
+const RELEASES_DIR = path.join(ROOT_DATA_DIR, 'releases');
+const RELEASE_YEAR = yearValue('year');
+const PREVIOUS_YEAR = yearValue('previous');
+const CONFIG_PATH = argValue('config');
+const DATA_DIR = RELEASE_YEAR != null ? path.join(RELEASES_DIR, String(RELEASE_YEAR)) : ROOT_DATA_DIR;
+
+// The files ingest loads from each directory; the report records their hashes
+const INPUT_FILES = [
+  'schools.json',
+  'programs.json',
+  'majors-summary.json',
+  'school-rankings.json',
+  'baseline-earnings.json',
+];
+// Absent from data processed before graduate comparisons existed
+const OPTIONAL_INPUT_FILES = ['graduate-uplift.json'];
+const SAMPLE_SIZE = 10;
+
+// --- Input shapes (the fields the rules read) ---
+
+interface SchoolJson {
+  unitId: number; name: string; costAttendance: number | null;
+  tuitionInState: number | null; tuitionOutState: number | null;
+  admissionRate: number | null; completionRate: number | null;
+  retentionRate?: number | null; completionRate150?: number | null;
+  repaymentRate3yr?: number | null; pellShare?: number | null;
+  firstGenShare?: number | null;
+}
+
+interface ProgramJson {
+  unitId: number; schoolName: string; cipCode: string; cipTitle: string;
+  credLevel?: number; earn1yr: number | null; earn4yr?: number | null;
+  earn5yr: number | null; costAttendance: number | null;
+}
+
+interface MajorJson {
+  cipCode: string; cipTitle: string; credLevel?: number;
+  schoolCount: number; medianEarn1yr: number | null;
+}
+
+interface SchoolRankingJson {
+  unitId: number; weightedEarn1yr: number | null;
+}
+
+interface BaselineJson {
+  state: string; earnings: number | null;
+}
+
+interface GraduateUpliftJson {
+  cipCode: string; credLevel: number; unitId: number | null;
+  bachelorEarn1yr: number; bachelorEarn5yr: number | null;
+  graduateEarn1yr: number; graduateEarn5yr: number | null;
+}
+
+interface Dataset {
+  schools: SchoolJson[];
+  programs: ProgramJson[];
+  majors: MajorJson[];
+  schoolRankings: SchoolRankingJson[];
+  baselineEarnings: BaselineJson[];
+  graduateUplift: GraduateUpliftJson[];
+}
+
+function loadDataset(dir: string): Dataset {
+  const load = <T>(file: string): T => {
+    const filepath = path.join(dir, file);
+    if (!existsSync(filepath)) throw new Error(`File not found: ${filepath}. Run the process script first.`);
+    return JSON.parse(readFileSync(filepath, 'utf-8'));
+  };
+  return {
+    schools: load('schools.json'),
+    programs: load('programs.json'),
+    majors: load('majors-summary.json'),
+    schoolRankings: load('school-rankings.json'),
+    baselineEarnings: load('baseline-earnings.json'),
+    graduateUplift: existsSync(path.join(dir, 'graduate-uplift.json')) ? load('graduate-uplift.json') : [],
+  };
+}
+
+function fileHash(filepath: string): string {
+  return createHash('sha256').update(readFileSync(filepath)).digest('hex');
+}
+
+function inputHashes(dir: string): Record<string, string> {
+  const files = [...INPUT_FILES, ...OPTIONAL_INPUT_FILES.filter((f) => existsSync(path.join(dir, f)))];
+  return Object.fromEntries(files.map((f) => [f, fileHash(path.join(dir, f))]));
+}
+
+// --- Rules ---
+
+type Severity = 'error' | 'warning';
+
+interface RuleParams {
+  severity: Severity | 'off';
+  maxViolations: number;
+  [param: string]: unknown;
+}
+
+interface RuleContext {
+  data: Dataset;
+  previous: Dataset | null;
+}
+
+interface ValidationRule {
+  key: string;
+  label: string;
+  defaults: RuleParams;
+  // One message per violation
+  check: (context: RuleContext, params: RuleParams) => string[];
+}
+
+const programLabel = (p: ProgramJson) => `${p.unitId} ${p.schoolName} / ${p.cipCode} (level ${p.credLevel ?? 3})`;
+const programKey = (p: { cipCode: string; credLevel?: number }) => `${p.cipCode}-${p.credLevel ?? 3}`;
+
+// Values of the named fields outside [min, max]
+function rangeViolations<T>(
+  rows: T[],
+  fields: (keyof T & string)[],
+  min: number,
+  max: number,
+  label: (row: T) => string,
+): string[] {
+  const messages: string[] = [];
+  for (const row of rows) {
+    for (const field of fields) {
+      const v = row[field] as number | null | undefined;
+      if (v != null && (v < min || v > max)) messages.push(`${label(row)}: ${field} ${v}`);
+    }
+  }
+  return messages;
+}
+
+const RULES: ValidationRule[] = [
+  {
+    key: 'earnings-range',
+    label: 'Program earnings within a plausible range',
+    defaults: { severity: 'error', maxViolations: 0, min: 1000, max: 400_000 },
+    check: ({ data }, p) =>
+      rangeViolations(data.programs, ['earn1yr', 'earn4yr', 'earn5yr'], p.min as number, p.max as number, programLabel),
+  },
+  {
+    key: 'rate-range',
+    label: 'School rates between 0 and 1',
+    defaults: { severity: 'error', maxViolations: 0 },
+    check: ({ data }) =>
+      rangeViolations(
+        data.schools,
+        ['admissionRate', 'completionRate', 'retentionRate', 'completionRate150', 'repaymentRate3yr', 'pellShare', 'firstGenShare'],
+        0,
+        1,
+        (s) => `${s.unitId} ${s.name}`,
+      ),
+  },
+  {
+    key: 'cost-range',
+    label: 'School cost and tuition within a plausible range',
+    defaults: { severity: 'error', maxViolations: 0, min: 1, max: 150_000 },
+    check: ({ data }, p) =>
+      rangeViolations(
+        data.schools,
+        ['costAttendance', 'tuitionInState', 'tuitionOutState'],
+        p.min as number,
+        p.max as number,
+        (s) => `${s.unitId} ${s.name}`,
+      ),
+  },
+  {
+    key: 'baseline-range',
+    label: 'State high school baseline earnings within a plausible range',
+    defaults: { severity: 'error', maxViolations: 0, min: 10_000, max: 100_000 },
+    check: ({ data }, p) =>
+      rangeViolations(data.baselineEarnings, ['earnings'], p.min as number, p.max as number, (b) => b.state),
+  },
+  {
+    key: 'uplift-range',
+    label: 'Graduate comparison earnings within a plausible range',
+    defaults: { severity: 'error', maxViolations: 0, min: 1000, max: 400_000 },
+    check: ({ data }, p) =>
+      rangeViolations(
+        data.graduateUplift,
+        ['bachelorEarn1yr', 'bachelorEarn5yr', 'graduateEarn1yr', 'graduateEarn5yr'],
+        p.min as number,
+        p.max as number,
+        (u) => `${u.unitId ?? 'national'} / ${programKey(u)}`,
+      ),
+  },
+  {
+    key: 'null-rate',
+    label: 'Share of missing values within limits',
+    defaults: {
+      severity: 'warning',
+      maxViolations: 0,
+      limits: {
+        'schools.costAttendance': 0.5,
+        'programs.earn1yr': 0.5,
+        'programs.costAttendance': 0.5,
+        'schoolRankings.weightedEarn1yr': 0.5,
+        'baselineEarnings.earnings': 0,
+        'graduateUplift.graduateEarn5yr': 0.5,
+      },
+    },
+    check: ({ data }, p) => {
+      const messages: string[] = [];
+      for (const [target, limit] of Object.entries(p.limits as Record<string, number>)) {
+        const [datasetName, field] = target.split('.');
+        const rows = data[datasetName as keyof Dataset] as unknown as Record<string, unknown>[] | undefined;
+        if (!rows) throw new Error(`null-rate: unknown dataset in "${target}"`);
+        if (rows.length === 0) continue;
+        const rate = rows.filter((r) => r[field] == null).length / rows.length;
+        if (rate > limit) messages.push(`${target}: ${(rate * 100).toFixed(1)}% missing (limit ${(limit * 100).toFixed(0)}%)`);
+      }
+      return messages;
+    },
+  },
+  {
+    key: 'cip-title',
+    label: 'Every CIP code has a title',
+    defaults: { severity: 'error', maxViolations: 0 },
+    check: ({ data }) => [
+      ...data.programs.filter((p) => !p.cipTitle?.trim()).map((p) => `program ${programLabel(p)}`),
+      ...data.majors.filter((m) => !m.cipTitle?.trim()).map((m) => `major ${programKey(m)}`),
+    ],
+  },
+  {
+    key: 'duplicate-programs',
+    label: 'No duplicate unitId + cipCode + credLevel',
+    defaults: { severity: 'error', maxViolations: 0 },
+    check: ({ data }) => {
+      const seen = new Set<string>();
+      const messages: string[] = [];
+      for (const p of data.programs) {
+        const key = `${p.unitId}-${programKey(p)}`;
+        if (seen.has(key)) messages.push(programLabel(p));
+        seen.add(key);
+      }
+      return messages;
+    },
+  },
+  {
+    key: 'orphaned-programs',
+    label: 'Every program and ranking belongs to a known school',
+    defaults: { severity: 'error', maxViolations: 0 },
+    check: ({ data }) => {
+      const schoolIds = new Set(data.schools.map((s) => s.unitId));
+      return [
+        ...data.programs.filter((p) => !schoolIds.has(p.unitId)).map((p) => `program ${programLabel(p)}`),
+        ...data.schoolRankings.filter((r) => !schoolIds.has(r.unitId)).map((r) => `ranking ${r.unitId}`),
+      ];
+    },
+  },
+  {
+    key: 'release-delta',
+    label: 'No large changes from the previous release',
+    defaults: { severity: 'warning', maxViolations: 0, maxCountChange: 0.2, maxEarningsChange: 0.5, minSchools: 5 },
+    check: ({ data, previous }, p) => {
+      if (!previous) return [];
+      const messages: string[] = [];
+      for (const name of Object.keys(data) as (keyof Dataset)[]) {
+        const before = previous[name].length;
+        const after = data[name].length;
+        if (before > 0 && Math.abs(after - before) / before > (p.maxCountChange as number)) {
+          messages.push(`${name}: ${before.toLocaleString()} -> ${after.toLocaleString()} rows`);
+        }
+      }
+      // Major medians only, and only for majors offered widely enough to be stable
+      const prior = new Map(previous.majors.map((m) => [programKey(m), m]));
+      for (const m of data.majors) {
+        const old = prior.get(programKey(m));
+        if (!old || m.medianEarn1yr == null || old.medianEarn1yr == null || old.medianEarn1yr <= 0) continue;
+        if (m.schoolCount < (p.minSchools as number) || old.schoolCount < (p.minSchools as number)) continue;
+        const change = (m.medianEarn1yr - old.medianEarn1yr) / old.medianEarn1yr;
+        if (Math.abs(change) > (p.maxEarningsChange as number)) {
+          messages.push(`major ${programKey(m)} ${m.cipTitle}: median 1yr ${old.medianEarn1yr} -> ${m.medianEarn1yr} (${(change * 100).toFixed(0)}%)`);
+        }
+      }
+      return messages;
+    },
+  },
+];
+
+function loadConfig(): Record<string, Partial<RuleParams>> {
+  if (!CONFIG_PATH) return {};
+  const config = JSON.parse(readFileSync(CONFIG_PATH, 'utf-8')) as Record<string, Partial<RuleParams>>;
+  for (const key of Object.keys(config)) {
+    if (!RULES.some((r) => r.key === key)) throw new Error(`${CONFIG_PATH}: unknown rule "${key}"`);
+  }
+  return config;
+}
+
+// --- Previous release ---
+
+function releaseYears(): number[] {
+  if (!existsSync(RELEASES_DIR)) return [];
+  return readdirSync(RELEASES_DIR)
+    .filter((dir) => /^\d{4}$/.test(dir) && existsSync(path.join(RELEASES_DIR, dir, 'programs.json')))
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+// The latest data is usually also fetched as a release, so a release whose
+// files match it byte for byte is skipped
+function previousRelease(current: Record<string, string>): number | null {
+  if (PREVIOUS_YEAR != null) return PREVIOUS_YEAR;
+  const candidates = releaseYears().filter((y) => RELEASE_YEAR == null || y < RELEASE_YEAR).reverse();
+  for (const year of candidates) {
+    const dir = path.join(RELEASES_DIR, String(year));
+    if (!INPUT_FILES.every((f) => existsSync(path.join(dir, f)))) continue;
+    const hashes = inputHashes(dir);
+    const files = new Set([...Object.keys(hashes), ...Object.keys(current)]);
+    if ([...files].some((f) => hashes[f] !== current[f])) return year;
+  }
+  return null;
+}
+
+// --- Report ---
+
+interface RuleResult {
+  key: string;
+  label: string;
+  severity: Severity;
+  passed: boolean;
+  violations: number;
+  maxViolations: number;
+  samples: string[];
+}
+
+interface ValidationReport {
+  generatedAt: string;
+  release: number | null;
+  previousRelease: number | null;
+  inputs: Record<string, string>;
+  passed: boolean;
+  rules: RuleResult[];
+}
+
+function markdownReport(report: ValidationReport): string {
+  const lines = [
+    `# Scorecard validation report`,
+    '',
+    `- Data: ${report.release ?? 'latest'}`,
+    `- Compared with release: ${report.previousRelease ?? 'none'}`,
+    `- Generated: ${report.generatedAt}`,
+    `- Result: **${report.passed ? 'passed' : 'failed'}**`,
+    '',
+    '| Rule | Severity | Violations | Result |',
+    '| --- | --- | ---: | --- |',
+    ...report.rules.map((r) =>
+      `| ${r.label} (\`${r.key}\`) | ${r.severity} | ${r.violations.toLocaleString()} | ${r.passed ? 'pass' : 'FAIL'} |`,
+    ),
+  ];
+  for (const r of report.rules.filter((r) => r.samples.length > 0)) {
+    lines.push('', `## ${r.label}`, '');
+    if (r.violations > r.samples.length) lines.push(`First ${r.samples.length} of ${r.violations.toLocaleString()}:`, '');
+    lines.push(...r.samples.map((s) => `- ${s}`));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function main() {
+  console.log(`Validating ${RELEASE_YEAR ?? 'latest'} data in ${path.relative(process.cwd(), DATA_DIR) || '.'}`);
+  const config = loadConfig();
+  const data = loadDataset(DATA_DIR);
+  const inputs = inputHashes(DATA_DIR);
+
+  const previousYear = previousRelease(inputs);
+  const previous = previousYear != null ? loadDataset(path.join(RELEASES_DIR, String(previousYear))) : null;
+  console.log(`Comparing with release: ${previousYear ?? 'none'}\n`);
+
+  const results: RuleResult[] = [];
+  for (const rule of RULES) {
+    const params = { ...rule.defaults, ...config[rule.key] } as RuleParams;
+    if (params.severity === 'off') continue;
+    const violations = rule.check({ data, previous }, params);
+    const result: RuleResult = {
+      key: rule.key,
+      label: rule.label,
+      severity: params.severity,
+      passed: violations.length <= params.maxViolations,
+      violations: violations.length,
+      maxViolations: params.maxViolations,
+      samples: violations.slice(0, SAMPLE_SIZE),
+    };
+    results.push(result);
+    const status = result.passed ? 'pass' : result.severity === 'error' ? 'FAIL' : 'WARN';
+    console.log(`  [${status}] ${rule.key}: ${violations.length.toLocaleString()} violations`);
+    if (!result.passed) for (const s of result.samples) console.log(`      ${s}`);
+  }
+
+  const report: ValidationReport = {
+    generatedAt: new Date().toISOString(),
+    release: RELEASE_YEAR,
+    previousRelease: previousYear,
+    inputs,
+    passed: results.every((r) => r.passed || r.severity !== 'error'),
+    rules: results,
+  };
+  const jsonPath = path.join(DATA_DIR, 'validation-report.json');
+  const mdPath = path.join(DATA_DIR, 'validation-report.md');
+  writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+  writeFileSync(mdPath, markdownReport(report));
+  console.log(`\nReports written to ${path.relative(process.cwd(), jsonPath)} and ${path.relative(process.cwd(), mdPath)}`);
+
+  if (!report.passed) {
+    console.error('\nValidation failed: fix the data or adjust the rules before ingesting.');
+    process.exit(1);
+  }
+  console.log('\nValidation passed.');
+}
+
+main();
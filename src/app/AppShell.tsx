@@ -1,29 +1,43 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
-import type { ViewTab, MajorSummary, SchoolRanking } from '@/types';
+import type { ViewTab, MajorSummary, SchoolRanking, SchoolLocation } from '@/types';
 import { trackEvent } from '@/lib/analytics';
+import { DEFAULT_SCHOOL_FILTERS, type SchoolFilters } from '@/lib/school-filters';
+import type { ReleaseData } from '@/lib/releases';
 
-const VALID_TABS: ViewTab[] = ['majors', 'colleges'];
+const VALID_TABS: ViewTab[] = ['majors', 'colleges', 'map'];
 import PageNav from '@/components/PageNav';
 import MajorRankings from '@/components/MajorRankings';
 import CollegeRankings from '@/components/CollegeRankings';
+import SchoolMap from '@/components/SchoolMap';
 import GuidedTour from '@/components/GuidedTour';
 import ShareButton from '@/components/ShareButton';
 
 interface AppShellProps {
   majorsSummary: MajorSummary[];
   schoolRankings: SchoolRanking[];
+  schoolLocations: SchoolLocation[];
+  releaseYears: number[];
 }
 
-export default function AppShell({ majorsSummary, schoolRankings }: AppShellProps) {
+export default function AppShell({ majorsSummary, schoolRankings, schoolLocations, releaseYears }: AppShellProps) {
   const searchParams = useSearchParams();
   const initialTab = searchParams.get('tab') as ViewTab | null;
   const [activeTab, setActiveTab] = useState<ViewTab>(
     initialTab && VALID_TABS.includes(initialTab) ? initialTab : 'majors',
   );
+  const initialRelease = Number(searchParams.get('release'));
+  // null is the current release, which the page already rendered
+  const [release, setRelease] = useState<number | null>(
+    releaseYears.includes(initialRelease) ? initialRelease : null,
+  );
+  // The last fetch, keyed by its release so switching again never shows stale
+  // data; null data means the fetch failed
+  const [fetched, setFetched] = useState<{ release: number; data: ReleaseData | null } | null>(null);
+  const [schoolFilters, setSchoolFilters] = useState<SchoolFilters>(DEFAULT_SCHOOL_FILTERS);
   const [tourKey, setTourKey] = useState(0);
   const handleStartTour = useCallback(() => setTourKey((k) => k + 1), []);
 
@@ -35,6 +49,41 @@ export default function AppShell({ majorsSummary, schoolRankings }: AppShellProp
     window.history.replaceState({}, '', url.toString());
   }, []);
 
+  useEffect(() => {
+    if (release == null) return;
+    let cancelled = false;
+    fetch(`/api/releases/${release}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json() as Promise<{ data: ReleaseData }>;
+      })
+      .then(({ data }) => {
+        if (!cancelled) setFetched({ release, data });
+      })
+      .catch(() => {
+        if (!cancelled) setFetched({ release, data: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [release]);
+
+  const handleReleaseChange = useCallback((value: string) => {
+    const year = value ? Number(value) : null;
+    setRelease(year);
+    const url = new URL(window.location.href);
+    if (year == null) url.searchParams.delete('release');
+    else url.searchParams.set('release', String(year));
+    window.history.replaceState({}, '', url.toString());
+  }, []);
+
+  const current = release != null && fetched?.release === release ? fetched : null;
+  const releaseData = current?.data ?? null;
+  const releaseError = current != null && current.data == null;
+  const releaseLoading = release != null && current == null;
+  const shownMajors = releaseData?.majorsSummary ?? majorsSummary;
+  const shownSchools = releaseData?.schoolRankings ?? schoolRankings;
+
   return (
     <>
       <PageNav activeTab={activeTab} onTabChange={handleTabChange} onStartTour={handleStartTour} />
@@ -54,13 +103,50 @@ export default function AppShell({ majorsSummary, schoolRankings }: AppShellProp
           title="Higher Education Outcomes - College Earnings Explorer"
           text="Explore earnings outcomes by college major and school"
         />
+        {releaseYears.length > 0 && (
+          <label className="ml-auto flex items-center gap-1.5 text-xs text-text-secondary">
+            Data release
+            <select
+              value={release ?? ''}
+              onChange={(e) => handleReleaseChange(e.target.value)}
+              className="rounded-md border border-gray-200 bg-white px-2 py-1 text-xs text-text-primary focus:border-accent focus:outline-none"
+            >
+              <option value="">Latest</option>
+              {releaseYears.map((year) => (
+                <option key={year} value={year}>
+                  {year}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
       </div>
+      {releaseLoading && (
+        <p className="mt-2 text-xs text-text-secondary">Loading the {release} release&hellip;</p>
+      )}
+      {releaseError && (
+        <p className="mt-2 text-xs text-earn-below">
+          Could not load the {release} release. Showing the latest data instead.
+        </p>
+      )}
 
       {activeTab === 'majors' && (
-        <MajorRankings majorsSummary={majorsSummary} />
+        <MajorRankings majorsSummary={shownMajors} />
       )}
       {activeTab === 'colleges' && (
-        <CollegeRankings schoolRankings={schoolRankings} />
+        <CollegeRankings
+          schoolRankings={shownSchools}
+          filters={schoolFilters}
+          onFiltersChange={setSchoolFilters}
+        />
+      )}
+      {activeTab === 'map' && (
+        <SchoolMap
+          schoolRankings={shownSchools}
+          schoolLocations={schoolLocations}
+          filters={schoolFilters}
+          onFiltersChange={setSchoolFilters}
+        />
       )}
 
       <GuidedTour restartKey={tourKey} />
@@ -136,17 +136,42 @@ export default function AboutPage() {
           high-earning programs from dominating the rankings.
         </p>
         <p>
-          <strong>ROI (Return on Investment)</strong> is calculated as
-          first-year weighted average earnings divided by cost of attendance.
-          A higher ratio means graduates earn more relative to what they paid.
-          We use published cost of attendance rather than net price because net
-          price varies significantly by family income, financial aid package, and
-          scholarship awards &mdash; making it inconsistent across students.
+          <strong>ROI (Return on Investment)</strong> is modeled over the full
+          length of the degree and the first ten years of work. Total cost is
+          the school&rsquo;s average net price (after grants and scholarships)
+          multiplied by the typical length of the credential. Earnings for each year after
+          graduation are interpolated between the one-, four- and five-year
+          Scorecard figures and held flat afterwards. From these we report
+          cumulative earnings, net present value and the break-even year.
+          Choosing your family income on the college and major pages swaps in
+          the average net price Scorecard reports for that income bracket.
         </p>
         <p>
-          <strong>Major rankings</strong> use graduate-weighted average earnings
-          across all schools offering that major, with percentile ranges
-          (25th&ndash;75th) to show the spread of outcomes across institutions.
+          <strong>Value added</strong> compares graduates with what they would
+          likely have earned without a degree: the median earnings of workers
+          in the same state whose highest attainment is a high school diploma,
+          from the American Community Survey.
+        </p>
+        <p>
+          The <strong>ROI calculator</strong> starts from the average net price
+          families in the chosen income bracket paid after grant aid, as
+          reported by the school, plus the out-of-state tuition difference for
+          non-residents. Where the school does not report that bracket it
+          starts from the cost of attendance less an estimated Pell Grant.
+          Any other grants entered are subtracted and the rest is assumed to
+          be borrowed. Payback
+          is the number of years after graduation until earnings above the
+          high school baseline cover the full amount repaid.
+        </p>
+        <p>
+          <strong>Major rankings</strong> use the graduate-weighted median of
+          program earnings across all schools offering that major, with
+          graduate-weighted percentile ranges (10th&ndash;90th and
+          25th&ndash;75th) to show the spread of outcomes across institutions.
+          Each credential level &mdash; certificates, associate&rsquo;s,
+          bachelor&rsquo;s, master&rsquo;s, doctoral and professional degrees
+          &mdash; is ranked separately. College rankings compare bachelor&rsquo;s
+          programs only.
         </p>
         <p>
           Earnings reflect median values &mdash; half of graduates earn more and
@@ -161,17 +186,114 @@ export default function AboutPage() {
             graduates, then summed and divided by total graduates. Gives more
             weight to programs that produce more graduates.
           </MetricDef>
-          <MetricDef term="ROI (Return on Investment)">
-            First-year weighted average earnings divided by cost of attendance.
-            Displayed as a multiplier (e.g., 1.5x means graduates earn 1.5
-            times what they paid). Higher is better. Uses published cost of
-            attendance for consistency across schools.
+          <MetricDef term="Graduate-Weighted Percentiles">
+            Major medians and percentiles rank each school&rsquo;s program
+            by its median earnings and count it once per graduate, so the
+            25th percentile is the program earnings a quarter of the
+            major&rsquo;s graduates fall below. Values between programs are
+            interpolated. A major&rsquo;s earnings distribution shows the
+            10th, 25th, 50th, 75th and 90th of these percentiles.
+          </MetricDef>
+          <MetricDef term="Total Net Cost">
+            Average annual net price multiplied by the length of the credential:
+            one year for certificates, two for an associate&rsquo;s or
+            master&rsquo;s, four for a bachelor&rsquo;s or first professional
+            degree and five for a doctorate. Net price is cost of attendance
+            minus the average grant and scholarship aid.
+          </MetricDef>
+          <MetricDef term="Net Present Value (NPV)">
+            Ten years of projected earnings minus the total net cost, with
+            each year&rsquo;s cash flow discounted at 3% per year. A positive
+            NPV means the earnings outweigh the cost in today&rsquo;s dollars.
+          </MetricDef>
+          <MetricDef term="Break-even Year">
+            The number of years after graduation until cumulative earnings
+            first exceed the total net cost.
+          </MetricDef>
+          <MetricDef term="Value-Added Earnings">
+            First-year median earnings minus the median earnings of high school
+            graduates without a degree in the school&rsquo;s state.
+          </MetricDef>
+          <MetricDef term="Net Lifetime Premium">
+            Projected earnings above the high school baseline over a 40-year
+            career, minus the total net cost and the baseline earnings given up
+            while in school, discounted at 3% per year.
           </MetricDef>
           <MetricDef term="Earnings Growth Rate">
             The percentage change from first-year to fifth-year median earnings.
             Shows how quickly graduates&rsquo; earnings increase after entering
             the workforce.
           </MetricDef>
+          <MetricDef term="Year-over-Year Change">
+            The percentage change in a program&rsquo;s first-year median
+            earnings between the two most recent Scorecard releases that report
+            them. The trend line beside it plots every release we have loaded.
+          </MetricDef>
+          <MetricDef term="Graduate Degree Uplift">
+            The difference in first-year median earnings between a graduate
+            credential and a bachelor&rsquo;s in the same field, at the same
+            school or nationally. The incremental cost is the net price of the
+            extra years plus the bachelor&rsquo;s earnings given up while
+            studying; break-even is the number of years after finishing until
+            the higher earnings have covered it.
+          </MetricDef>
+          <MetricDef term="Debt-to-Earnings">
+            A program&rsquo;s median federal loan debt at graduation divided by
+            its first-year median earnings. The estimated monthly payment
+            retires that debt over 10 years at 6.5% interest. Programs are
+            flagged as high debt when the debt exceeds a year of earnings or
+            the payments take more than 8% of annual earnings.
+          </MetricDef>
+          <MetricDef term="Reliability">
+            How many graduates a program&rsquo;s median earnings were measured
+            over. Assuming earnings within a program spread like a typical
+            lognormal distribution, the 95% range around the median narrows
+            with the square root of the count: about &plusmn;35% for 12
+            graduates and &plusmn;4% for 1,000. Programs with at least 100
+            graduates are graded high, 30&ndash;99 moderate and fewer than 30
+            low. Charts draw the range as error bars, and the minimum
+            graduates filter hides programs below a chosen count.
+          </MetricDef>
+          <MetricDef term="Adjusted Earnings">
+            An empirical-Bayes estimate that pulls each program&rsquo;s median
+            toward the graduate-weighted average for the same field,
+            credential and selectivity tier (or the whole field when fewer
+            than three programs share the tier). The pull depends on the
+            graduate count: a program with a dozen graduates moves most of the
+            way toward the average, one with a thousand barely moves. How far
+            programs genuinely differ is estimated from the spread that
+            remains once sampling noise is accounted for. Program tables can
+            rank on reported or adjusted earnings; programs without a graduate
+            count keep their reported figure.
+          </MetricDef>
+          <MetricDef term="Accountability Tests">
+            Two tests modeled on federal rules, using earnings four years after
+            completion where reported and one year otherwise. The earnings
+            premium test compares undergraduate programs with the state&rsquo;s
+            high school baseline and graduate programs with the national
+            bachelor&rsquo;s median in the same field; earning no more fails,
+            and less than 10% more is a warning. The debt-to-earnings test
+            passes a program whose loan payments are at most 8% of earnings or
+            20% of discretionary income, and fails it when they exceed 12% and
+            30%. A program&rsquo;s status is its worst result.
+          </MetricDef>
+          <MetricDef term="Student Outcomes">
+            Institution-wide rates reported by the Scorecard: first-year
+            retention of full-time students, completion within 150% of normal
+            time (six years for a bachelor&rsquo;s), the share of borrowers who
+            have paid down any principal three years into repayment, and the
+            shares of undergraduates who receive Pell grants or are the first
+            in their family to attend college.
+          </MetricDef>
+          <MetricDef term="School Characteristics">
+            Federal designations as reported to the Scorecard: historically
+            Black colleges and universities, Hispanic-serving institutions,
+            tribal colleges and women&rsquo;s colleges. Locale is the
+            Department of Education&rsquo;s city, suburb, town or rural
+            classification of the campus; Carnegie class groups schools by the
+            highest degrees they award; affiliation marks schools with a
+            religious sponsor.
+          </MetricDef>
           <MetricDef term="Selectivity Tiers">
             Schools are grouped into tiers based on admission rate, SAT scores,
             and institutional characteristics: Ivy League, Ivy Adjacent, Top 40,
@@ -212,6 +334,22 @@ export default function AboutPage() {
                   completion rates
                 </td>
               </tr>
+              <tr className="border-t border-gray-100">
+                <td className="px-3 py-2.5 font-medium text-text-primary">
+                  <a
+                    href="https://www.census.gov/programs-surveys/acs"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-accent hover:underline"
+                  >
+                    American Community Survey
+                  </a>
+                </td>
+                <td className="px-3 py-2.5 text-text-secondary">
+                  Median earnings of high school graduates by state, used as
+                  the no-degree baseline
+                </td>
+              </tr>
               <tr className="border-t border-gray-100">
                 <td className="px-3 py-2.5 font-medium text-text-primary">
                   <a
@@ -228,6 +366,22 @@ export default function AboutPage() {
                   automated data ingestion
                 </td>
               </tr>
+              <tr className="border-t border-gray-100">
+                <td className="px-3 py-2.5 font-medium text-text-primary">
+                  <a
+                    href="https://www.census.gov/geographies/mapping-files/time-series/geo/carto-boundary-file.html"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-accent hover:underline"
+                  >
+                    Census Cartographic Boundaries
+                  </a>
+                </td>
+                <td className="px-3 py-2.5 text-text-secondary">
+                  State outlines for the college map, bundled with the site
+                  (via us-atlas) so no map tiles are loaded
+                </td>
+              </tr>
             </tbody>
           </table>
         </div>
@@ -246,11 +400,18 @@ export default function AboutPage() {
             student privacy. Some programs and schools may be missing.
           </li>
           <li>
-            <strong>Cost of attendance</strong> &mdash; ROI calculations use
-            published cost of attendance (sticker price) rather than net price
-            after financial aid. This provides a consistent baseline across
-            schools, though individual students may pay more or less depending
-            on their aid package.
+            <strong>Average net price</strong> &mdash; ROI calculations use the
+            average net price after grant aid. Individual students may pay
+            more or less depending on family income and their aid package.
+            Where a school reports no net price, cost of attendance is used.
+            Scorecard publishes net price for undergraduates only, so graduate
+            programs are costed at the same annual figure.
+          </li>
+          <li>
+            <strong>Gross earnings</strong> &mdash; ROI and net premium use
+            pre-tax earnings and do not subtract living expenses. The high
+            school baseline is a statewide median and does not account for
+            differences between students who do and do not enroll.
           </li>
           <li>
             <strong>No cost-of-living adjustment</strong> &mdash; Earnings are
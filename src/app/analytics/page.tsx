@@ -4,6 +4,8 @@ import { analyticsEvents } from '@/lib/db/schema';
 import { sql, countDistinct, count } from 'drizzle-orm';
 import PageNav from '@/components/PageNav';
 import StatCard from '@/components/StatCard';
+import SignOutButton from '@/components/SignOutButton';
+import { requirePageRole } from '@/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
@@ -28,18 +30,6 @@ interface CountRow {
 async function queryAnalytics() {
   const db = getDb();
 
-  // Ensure the analytics_events table exists
-  await db.run(sql`
-    CREATE TABLE IF NOT EXISTS analytics_events (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      session_id TEXT NOT NULL,
-      event_type TEXT NOT NULL,
-      event_data TEXT,
-      page TEXT,
-      timestamp INTEGER NOT NULL
-    )
-  `);
-
   const [
     overviewRows,
     dailyRows,
@@ -115,6 +105,7 @@ async function queryAnalytics() {
 }
 
 export default async function AnalyticsPage() {
+  const session = await requirePageRole('viewer', '/analytics');
   let data: Awaited<ReturnType<typeof queryAnalytics>> | null = null;
   let error: string | null = null;
 
@@ -150,12 +141,22 @@ export default async function AnalyticsPage() {
     <main className="mx-auto max-w-7xl px-4 py-8 sm:py-12">
       <PageNav />
 
-      <h1 className="text-2xl font-bold text-text-primary sm:text-3xl">
-        Analytics
-      </h1>
-      <p className="mt-2 text-sm text-text-secondary">
-        Usage data from the analytics_events table
-      </p>
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-text-primary sm:text-3xl">
+            Analytics
+          </h1>
+          <p className="mt-2 text-sm text-text-secondary">
+            Usage data from the analytics_events table
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-xs text-text-secondary">
+          <span>
+            {session.username} ({session.role})
+          </span>
+          <SignOutButton />
+        </div>
+      </div>
 
       {/* Overview */}
       <div className="mt-6 grid grid-cols-2 gap-3 sm:grid-cols-4">
@@ -0,0 +1,51 @@
+import { type NextRequest } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { getDb } from '@/lib/db';
+import { adminUsers } from '@/lib/db/schema';
+import { createRateLimiter, getClientIp } from '@/lib/rate-limit';
+import { createSessionToken, isRole, sessionCookie } from '@/lib/auth';
+import { rejectUnknownUser, verifyPassword } from '@/lib/password';
+
+const checkLimit = createRateLimiter('login', 15 * 60_000, 10);
+
+export async function POST(request: NextRequest) {
+  try {
+    const ip = getClientIp(request);
+    if (checkLimit(ip)) {
+      return Response.json({ error: 'Too many login attempts. Please try again later.' }, { status: 429 });
+    }
+
+    let body: { username?: unknown; password?: unknown };
+    try {
+      body = (await request.json()) ?? {};
+    } catch {
+      return Response.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    const username = typeof body.username === 'string' ? body.username.trim().toLowerCase() : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    if (!username || !password) {
+      return Response.json({ error: 'Username and password required' }, { status: 400 });
+    }
+
+    const [user] = await getDb()
+      .select()
+      .from(adminUsers)
+      .where(eq(adminUsers.username, username))
+      .limit(1);
+
+    const valid = user ? verifyPassword(password, user.passwordHash) : rejectUnknownUser(password);
+    if (!user || !valid || !isRole(user.role)) {
+      return Response.json({ error: 'Invalid username or password' }, { status: 401 });
+    }
+
+    const token = createSessionToken(user.username, user.role);
+    return Response.json(
+      { ok: true, role: user.role },
+      { headers: { 'Set-Cookie': sessionCookie(token) } },
+    );
+  } catch (err) {
+    console.error('Login error:', err);
+    return Response.json({ error: 'Internal error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,5 @@
+import { sessionCookie } from '@/lib/auth';
+
+export async function POST() {
+  return Response.json({ ok: true }, { headers: { 'Set-Cookie': sessionCookie(null) } });
+}
@@ -1,11 +1,30 @@
 import { getDb } from '@/lib/db';
 import { programs, schools } from '@/lib/db/schema';
-import { eq, and, desc, isNotNull } from 'drizzle-orm';
+import { eq, and, desc, gte, isNotNull } from 'drizzle-orm';
 import { type NextRequest } from 'next/server';
 import { createRateLimiter, getClientIp } from '@/lib/rate-limit';
+import { parseCredLevel } from '@/lib/credentials';
+import { ApiError, exportResponse, negotiateFormat } from '@/lib/api/v1';
+import { programRecordFields, toProgramRecord } from '@/lib/api/records';
+import { PROGRAM_COLUMNS, selectedColumns } from '@/lib/export-columns';
+import type { ExportFormat } from '@/lib/export';
 
 const checkLimit = createRateLimiter('programs', 60_000, 60);
 
+// Lightweight fields for the "All Programs" scatter chart — no JOIN
+const allFields = {
+  unitId: programs.unitId,
+  schoolName: programs.schoolName,
+  state: programs.state,
+  cipTitle: programs.cipTitle,
+  credLevel: programs.credLevel,
+  credTitle: programs.credTitle,
+  earn1yr: programs.earn1yr,
+  earn5yr: programs.earn5yr,
+  costAttendance: programs.costAttendance,
+  selectivityTier: programs.selectivityTier,
+};
+
 export async function GET(request: NextRequest) {
   const ip = getClientIp(request);
   if (checkLimit(ip)) {
@@ -20,6 +39,16 @@ export async function GET(request: NextRequest) {
   const cip = searchParams.get('cip');
   const schoolId = searchParams.get('school');
   const all = searchParams.get('all');
+  const credParam = searchParams.get('cred');
+
+  // Same ?format= and Accept negotiation as /api/v1
+  let format: ExportFormat;
+  try {
+    format = negotiateFormat(request, searchParams);
+  } catch (err) {
+    if (err instanceof ApiError) return Response.json({ error: err.message }, { status: err.status });
+    throw err;
+  }
 
   if (!cip && !schoolId && !all) {
     return Response.json(
@@ -28,79 +57,74 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  const selectFields = {
-    id: programs.id,
-    unitId: programs.unitId,
-    schoolName: programs.schoolName,
-    state: programs.state,
-    cipCode: programs.cipCode,
-    cipTitle: programs.cipTitle,
-    credLevel: programs.credLevel,
-    credTitle: programs.credTitle,
-    earn1yr: programs.earn1yr,
-    earn4yr: programs.earn4yr,
-    earn5yr: programs.earn5yr,
-    earn1yrCount: programs.earn1yrCount,
-    earn5yrCount: programs.earn5yrCount,
-    costAttendance: programs.costAttendance,
-    selectivityTier: programs.selectivityTier,
-    ownership: schools.ownership,
-    ownershipLabel: schools.ownershipLabel,
-    admissionRate: schools.admissionRate,
-    satMath75: schools.satMath75,
-    satRead75: schools.satRead75,
-    size: schools.size,
-    completionRate: schools.completionRate,
+  // Optional credential level filter (1-8); omitted means every level
+  const credLevel = parseCredLevel(credParam);
+  if (credParam != null && credLevel == null) {
+    return Response.json({ error: 'Invalid credential level' }, { status: 400 });
+  }
+
+  // Optional minimum graduates behind the first-year earnings, as in /api/v1
+  const minGraduatesParam = searchParams.get('minGraduates');
+  const minGraduates = minGraduatesParam != null ? Number(minGraduatesParam) : null;
+  if (minGraduates != null && !(Number.isInteger(minGraduates) && minGraduates >= 0)) {
+    return Response.json({ error: 'Invalid minimum graduates' }, { status: 400 });
+  }
+
+  const headers = {
+    'Cache-Control':
+      process.env.NODE_ENV === 'production'
+        ? 'public, s-maxage=86400, stale-while-revalidate=604800'
+        : 'no-store',
+    Vary: 'Accept',
   };
 
-  let rows;
   if (all) {
-    // Lightweight response for "All Programs" scatter chart — no JOIN, minimal fields
-    rows = await db
-      .select({
-        unitId: programs.unitId,
-        schoolName: programs.schoolName,
-        state: programs.state,
-        cipTitle: programs.cipTitle,
-        credTitle: programs.credTitle,
-        earn1yr: programs.earn1yr,
-        earn5yr: programs.earn5yr,
-        costAttendance: programs.costAttendance,
-        selectivityTier: programs.selectivityTier,
-      })
+    const rows = await db
+      .select(allFields)
       .from(programs)
-      .where(isNotNull(programs.earn1yr))
+      .where(
+        and(
+          isNotNull(programs.earn1yr),
+          credLevel != null ? eq(programs.credLevel, credLevel) : undefined,
+          minGraduates ? gte(programs.earn1yrCount, minGraduates) : undefined,
+        ),
+      )
       .orderBy(desc(programs.earn1yr))
       .limit(2000);
-  } else {
-    const conditions = [];
-    if (cip) conditions.push(eq(programs.cipCode, cip));
-    if (schoolId) {
-      const unitId = parseInt(schoolId, 10);
-      if (isNaN(unitId)) {
-        return Response.json({ error: 'Invalid school ID' }, { status: 400 });
-      }
-      conditions.push(eq(programs.unitId, unitId));
+    const cleaned = rows.map((r) => ({ ...r, cipTitle: (r.cipTitle ?? '').replace(/\.+$/, '') }));
+
+    if (format !== 'json') {
+      // The scatter chart rows carry only a few fields, so export just those columns
+      return exportResponse(cleaned, format, selectedColumns(PROGRAM_COLUMNS, allFields), 'programs', headers);
     }
-    rows = await db
-      .select(selectFields)
-      .from(programs)
-      .leftJoin(schools, eq(programs.unitId, schools.unitId))
-      .where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      .orderBy(desc(programs.earn1yr));
+    return Response.json({ data: cleaned }, { headers });
   }
 
-  const cacheControl =
-    process.env.NODE_ENV === 'production'
-      ? 'public, s-maxage=86400, stale-while-revalidate=604800'
-      : 'no-store';
+  const conditions = [];
+  if (cip) conditions.push(eq(programs.cipCode, cip));
+  if (schoolId) {
+    const unitId = parseInt(schoolId, 10);
+    if (isNaN(unitId)) {
+      return Response.json({ error: 'Invalid school ID' }, { status: 400 });
+    }
+    conditions.push(eq(programs.unitId, unitId));
+  }
+  if (credLevel != null) conditions.push(eq(programs.credLevel, credLevel));
+  if (minGraduates) conditions.push(gte(programs.earn1yrCount, minGraduates));
+  const rows = await db
+    .select(programRecordFields)
+    .from(programs)
+    .leftJoin(schools, eq(programs.unitId, schools.unitId))
+    .where(conditions.length === 1 ? conditions[0] : and(...conditions))
+    .orderBy(desc(programs.earn1yr));
+
+  if (format !== 'json') {
+    return exportResponse(rows.map(toProgramRecord), format, PROGRAM_COLUMNS, 'programs', headers);
+  }
 
   const cleaned = rows.map((r) => ({
     ...r,
     cipTitle: (r.cipTitle ?? '').replace(/\.+$/, ''),
   }));
-
-  return Response.json({ data: cleaned }, {
-    headers: { 'Cache-Control': cacheControl },
-  });
+  return Response.json({ data: cleaned }, { headers });
 }
@@ -0,0 +1,34 @@
+import { type NextRequest } from 'next/server';
+import { getReleaseData, getReleaseYears } from '@/lib/releases';
+import { createRateLimiter, getClientIp } from '@/lib/rate-limit';
+
+const checkLimit = createRateLimiter('releases', 60_000, 30);
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> },
+) {
+  const ip = getClientIp(request);
+  if (checkLimit(ip)) {
+    return Response.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 },
+    );
+  }
+
+  const { year: raw } = await params;
+  const year = /^\d{4}$/.test(raw) ? Number(raw) : NaN;
+  if (isNaN(year)) {
+    return Response.json({ error: 'Invalid release year' }, { status: 400 });
+  }
+  if (!(await getReleaseYears()).includes(year)) {
+    return Response.json({ error: 'Release not found' }, { status: 404 });
+  }
+
+  const data = await getReleaseData(year);
+  return Response.json({ data }, {
+    headers: {
+      'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800',
+    },
+  });
+}
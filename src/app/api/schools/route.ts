@@ -3,9 +3,26 @@ import { schools } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { type NextRequest } from 'next/server';
 import { createRateLimiter, getClientIp } from '@/lib/rate-limit';
+import { ApiError, exportResponse, negotiateFormat } from '@/lib/api/v1';
+import { toSchool } from '@/lib/api/records';
+import { SCHOOL_COLUMNS, selectedColumns } from '@/lib/export-columns';
+import type { ExportFormat } from '@/lib/export';
 
 const checkLimit = createRateLimiter('schools', 60_000, 60);
 
+const CACHE_HEADERS = {
+  'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800',
+  Vary: 'Accept',
+};
+
+// Fields the school search list needs
+const searchFields = {
+  unitId: schools.unitId,
+  name: schools.name,
+  city: schools.city,
+  state: schools.state,
+};
+
 export async function GET(request: NextRequest) {
   const ip = getClientIp(request);
   if (checkLimit(ip)) {
@@ -18,6 +35,15 @@ export async function GET(request: NextRequest) {
   const { searchParams } = request.nextUrl;
   const id = searchParams.get('id');
 
+  // Same ?format= and Accept negotiation as /api/v1
+  let format: ExportFormat;
+  try {
+    format = negotiateFormat(request, searchParams);
+  } catch (err) {
+    if (err instanceof ApiError) return Response.json({ error: err.message }, { status: err.status });
+    throw err;
+  }
+
   if (id) {
     const unitId = parseInt(id, 10);
     if (isNaN(unitId)) {
@@ -33,27 +59,21 @@ export async function GET(request: NextRequest) {
       return Response.json({ error: 'School not found' }, { status: 404 });
     }
 
-    return Response.json({ data: school }, {
-      headers: {
-        'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800',
-      },
-    });
+    if (format !== 'json') {
+      return exportResponse([toSchool(school)], format, SCHOOL_COLUMNS, `school-${unitId}`, CACHE_HEADERS);
+    }
+    return Response.json({ data: school }, { headers: CACHE_HEADERS });
   }
 
   // Return all schools (id, name, city, state for search)
   const rows = await db
-    .select({
-      unitId: schools.unitId,
-      name: schools.name,
-      city: schools.city,
-      state: schools.state,
-    })
+    .select(searchFields)
     .from(schools)
     .orderBy(schools.name);
 
-  return Response.json({ data: rows }, {
-    headers: {
-      'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800',
-    },
-  });
+  if (format !== 'json') {
+    const columns = selectedColumns(SCHOOL_COLUMNS, searchFields);
+    return exportResponse(rows, format, columns, 'schools', CACHE_HEADERS);
+  }
+  return Response.json({ data: rows }, { headers: CACHE_HEADERS });
 }
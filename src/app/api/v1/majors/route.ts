@@ -0,0 +1,57 @@
+import { type NextRequest } from 'next/server';
+import { getDb } from '@/lib/db';
+import { majorsSummary } from '@/lib/db/schema';
+import { credentialLabel } from '@/lib/credentials';
+import type { MajorSummary } from '@/types';
+import {
+  enforceRateLimit,
+  errorResponse,
+  listResponse,
+  negotiateFormat,
+  paginate,
+  parseListQuery,
+} from '@/lib/api/v1';
+import { majorsSpec } from '@/lib/api/resources';
+import { MAJOR_SUMMARY_COLUMNS } from '@/lib/export-columns';
+
+export async function GET(request: NextRequest) {
+  try {
+    enforceRateLimit(request);
+    const params = request.nextUrl.searchParams;
+    const format = negotiateFormat(request, params);
+    const query = parseListQuery(params, majorsSpec);
+
+    const rows = await getDb()
+      .select()
+      .from(majorsSummary)
+      .where(query.where)
+      .orderBy(...query.orderBy)
+      .limit(query.limit + 1);
+
+    const body = paginate(rows, query, (r): MajorSummary => ({
+      cipCode: r.cipCode,
+      cipTitle: r.cipTitle.replace(/\.+$/, ''),
+      credLevel: r.credLevel,
+      credTitle: r.credTitle ?? credentialLabel(r.credLevel),
+      schoolCount: r.schoolCount ?? 0,
+      medianEarn1yr: r.medianEarn1yr,
+      medianEarn4yr: r.medianEarn4yr,
+      medianEarn5yr: r.medianEarn5yr,
+      p10Earn1yr: r.p10Earn1yr,
+      p25Earn1yr: r.p25Earn1yr,
+      p75Earn1yr: r.p75Earn1yr,
+      p90Earn1yr: r.p90Earn1yr,
+      p10Earn5yr: r.p10Earn5yr,
+      p25Earn5yr: r.p25Earn5yr,
+      p75Earn5yr: r.p75Earn5yr,
+      p90Earn5yr: r.p90Earn5yr,
+      growthRate: r.growthRate,
+      valueAddedEarn1yr: r.valueAddedEarn1yr,
+      netPremium: r.netPremium,
+    }));
+
+    return listResponse(body, format, MAJOR_SUMMARY_COLUMNS, 'majors');
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
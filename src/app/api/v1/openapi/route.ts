@@ -0,0 +1,9 @@
+import { openApiDocument } from '@/lib/api/openapi';
+
+export function GET() {
+  return Response.json(openApiDocument, {
+    headers: {
+      'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800',
+    },
+  });
+}
@@ -0,0 +1,38 @@
+import { type NextRequest } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { getDb } from '@/lib/db';
+import { programs, schools } from '@/lib/db/schema';
+import {
+  enforceRateLimit,
+  errorResponse,
+  listResponse,
+  negotiateFormat,
+  paginate,
+  parseListQuery,
+} from '@/lib/api/v1';
+import { programsSpec } from '@/lib/api/resources';
+import { programRecordFields, toProgramRecord } from '@/lib/api/records';
+import { PROGRAM_COLUMNS } from '@/lib/export-columns';
+
+export async function GET(request: NextRequest) {
+  try {
+    enforceRateLimit(request);
+    const params = request.nextUrl.searchParams;
+    const format = negotiateFormat(request, params);
+    const query = parseListQuery(params, programsSpec);
+
+    const rows = await getDb()
+      .select(programRecordFields)
+      .from(programs)
+      .leftJoin(schools, eq(programs.unitId, schools.unitId))
+      .where(query.where)
+      .orderBy(...query.orderBy)
+      .limit(query.limit + 1);
+
+    const body = paginate(rows, query, toProgramRecord);
+
+    return listResponse(body, format, PROGRAM_COLUMNS, 'programs');
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
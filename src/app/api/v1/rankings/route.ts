@@ -0,0 +1,79 @@
+import { type NextRequest } from 'next/server';
+import { getDb } from '@/lib/db';
+import { schoolRankings } from '@/lib/db/schema';
+import type { SchoolRanking } from '@/types';
+import {
+  enforceRateLimit,
+  errorResponse,
+  listResponse,
+  negotiateFormat,
+  paginate,
+  parseListQuery,
+} from '@/lib/api/v1';
+import { rankingsSpec } from '@/lib/api/resources';
+import { SCHOOL_RANKING_COLUMNS } from '@/lib/export-columns';
+
+export async function GET(request: NextRequest) {
+  try {
+    enforceRateLimit(request);
+    const params = request.nextUrl.searchParams;
+    const format = negotiateFormat(request, params);
+    const query = parseListQuery(params, rankingsSpec);
+
+    const rows = await getDb()
+      .select()
+      .from(schoolRankings)
+      .where(query.where)
+      .orderBy(...query.orderBy)
+      .limit(query.limit + 1);
+
+    const body = paginate(rows, query, (r): SchoolRanking => ({
+      unitId: r.unitId,
+      name: r.name,
+      city: r.city,
+      state: r.state,
+      ownership: r.ownership,
+      ownershipLabel: r.ownershipLabel,
+      admissionRate: r.admissionRate,
+      satCombined: r.satCombined,
+      size: r.size,
+      costAttendance: r.costAttendance,
+      netPrice: r.netPrice,
+      netPrice0to30k: r.netPrice0to30k,
+      netPrice30to48k: r.netPrice30to48k,
+      netPrice48to75k: r.netPrice48to75k,
+      netPrice75to110k: r.netPrice75to110k,
+      netPrice110kPlus: r.netPrice110kPlus,
+      completionRate: r.completionRate,
+      retentionRate: r.retentionRate,
+      completionRate150: r.completionRate150,
+      repaymentRate3yr: r.repaymentRate3yr,
+      pellShare: r.pellShare,
+      firstGenShare: r.firstGenShare,
+      hbcu: r.hbcu,
+      hsi: r.hsi,
+      tribal: r.tribal,
+      womensCollege: r.womensCollege,
+      religiousAffiliation: r.religiousAffiliation,
+      locale: r.locale,
+      carnegieBasic: r.carnegieBasic,
+      selectivityTier: r.selectivityTier,
+      programCount: r.programCount,
+      medianEarn1yr: r.medianEarn1yr,
+      weightedEarn1yr: r.weightedEarn1yr,
+      weightedEarn5yr: r.weightedEarn5yr,
+      totalCost: r.totalCost,
+      cumulativeEarnings: r.cumulativeEarnings,
+      npv: r.npv,
+      breakEvenYear: r.breakEvenYear,
+      valueAddedEarn1yr: r.valueAddedEarn1yr,
+      netPremium: r.netPremium,
+      maxEarn1yr: r.maxEarn1yr,
+      topProgram: r.topProgram,
+    }));
+
+    return listResponse(body, format, SCHOOL_RANKING_COLUMNS, 'rankings');
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,36 @@
+import { type NextRequest } from 'next/server';
+import { getDb } from '@/lib/db';
+import { schools } from '@/lib/db/schema';
+import {
+  enforceRateLimit,
+  errorResponse,
+  listResponse,
+  negotiateFormat,
+  paginate,
+  parseListQuery,
+} from '@/lib/api/v1';
+import { schoolsSpec } from '@/lib/api/resources';
+import { toSchool } from '@/lib/api/records';
+import { SCHOOL_COLUMNS } from '@/lib/export-columns';
+
+export async function GET(request: NextRequest) {
+  try {
+    enforceRateLimit(request);
+    const params = request.nextUrl.searchParams;
+    const format = negotiateFormat(request, params);
+    const query = parseListQuery(params, schoolsSpec);
+
+    const rows = await getDb()
+      .select()
+      .from(schools)
+      .where(query.where)
+      .orderBy(...query.orderBy)
+      .limit(query.limit + 1);
+
+    const body = paginate(rows, query, toSchool);
+
+    return listResponse(body, format, SCHOOL_COLUMNS, 'schools');
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
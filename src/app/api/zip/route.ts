@@ -0,0 +1,42 @@
+import { lookup } from 'zipcodes';
+import { type NextRequest } from 'next/server';
+import { createRateLimiter, getClientIp } from '@/lib/rate-limit';
+import type { ZipLocation } from '@/types';
+
+const checkLimit = createRateLimiter('zip', 60_000, 60);
+
+// ZIP centroids come from the bundled zipcodes dataset, so radius search
+// works without calling an external geocoding service.
+export async function GET(request: NextRequest) {
+  const ip = getClientIp(request);
+  if (checkLimit(ip)) {
+    return Response.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 },
+    );
+  }
+
+  const code = request.nextUrl.searchParams.get('code')?.trim() ?? '';
+  if (!/^\d{5}$/.test(code)) {
+    return Response.json({ error: 'Invalid ZIP code' }, { status: 400 });
+  }
+
+  const match = lookup(code);
+  if (!match || match.country !== 'US') {
+    return Response.json({ error: 'ZIP code not found' }, { status: 404 });
+  }
+
+  const data: ZipLocation = {
+    zip: match.zip,
+    city: match.city,
+    state: match.state,
+    lat: match.latitude,
+    lon: match.longitude,
+  };
+
+  return Response.json({ data }, {
+    headers: {
+      'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800',
+    },
+  });
+}
@@ -0,0 +1,81 @@
+import type { Metadata } from 'next';
+import { getDb } from '@/lib/db';
+import { programs, schools } from '@/lib/db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { parseAccountabilityStatus } from '@/lib/accountability';
+import PageNav from '@/components/PageNav';
+import AtRiskPrograms, { type AtRiskProgram } from '@/components/AtRiskPrograms';
+
+export const revalidate = 3600;
+
+export const metadata: Metadata = {
+  title: 'At-Risk Programs',
+  description:
+    'Programs that fail or nearly fail earnings-premium and debt-to-earnings tests modeled on federal accountability rules.',
+  openGraph: {
+    title: 'At-Risk Programs - HEO',
+    description:
+      'Programs that fail or nearly fail earnings-premium and debt-to-earnings tests modeled on federal accountability rules.',
+  },
+};
+
+export default async function AtRiskPage() {
+  const db = getDb();
+
+  const rows = await db
+    .select({
+      unitId: programs.unitId,
+      schoolName: programs.schoolName,
+      state: programs.state,
+      cipCode: programs.cipCode,
+      cipTitle: programs.cipTitle,
+      credLevel: programs.credLevel,
+      credTitle: programs.credTitle,
+      earn1yr: programs.earn1yr,
+      earn4yr: programs.earn4yr,
+      earn5yr: programs.earn5yr,
+      earn1yrCount: programs.earn1yrCount,
+      earn5yrCount: programs.earn5yrCount,
+      adjustedEarn1yr: programs.adjustedEarn1yr,
+      medianDebt: programs.medianDebt,
+      debtToEarnings: programs.debtToEarnings,
+      monthlyPayment: programs.monthlyPayment,
+      accountabilityStatus: programs.accountabilityStatus,
+      accountabilityNotes: programs.accountabilityNotes,
+      ownership: schools.ownership,
+      ownershipLabel: schools.ownershipLabel,
+    })
+    .from(programs)
+    .innerJoin(schools, eq(programs.unitId, schools.unitId))
+    .where(inArray(programs.accountabilityStatus, ['warn', 'fail']));
+
+  const atRisk: AtRiskProgram[] = rows.map((r) => ({
+    unitId: r.unitId,
+    schoolName: r.schoolName ?? '',
+    state: r.state ?? '',
+    cipCode: r.cipCode,
+    cipTitle: r.cipTitle ?? '',
+    credLevel: r.credLevel ?? 0,
+    credTitle: r.credTitle ?? '',
+    earn1yr: r.earn1yr,
+    earn4yr: r.earn4yr,
+    earn5yr: r.earn5yr,
+    earn1yrCount: r.earn1yrCount,
+    earn5yrCount: r.earn5yrCount,
+    adjustedEarn1yr: r.adjustedEarn1yr,
+    medianDebt: r.medianDebt,
+    debtToEarnings: r.debtToEarnings,
+    monthlyPayment: r.monthlyPayment,
+    accountabilityStatus: parseAccountabilityStatus(r.accountabilityStatus) ?? 'warn',
+    accountabilityNotes: r.accountabilityNotes,
+    ownership: r.ownership,
+    ownershipLabel: r.ownershipLabel,
+  }));
+
+  return (
+    <main className="mx-auto max-w-7xl px-4 py-8 sm:py-12">
+      <PageNav />
+      <AtRiskPrograms programs={atRisk} />
+    </main>
+  );
+}
@@ -0,0 +1,69 @@
+import type { Metadata } from 'next';
+import { Suspense } from 'react';
+import { getDb } from '@/lib/db';
+import { schools, schoolRankings } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { CalculatorSchool } from '@/types';
+import PageNav from '@/components/PageNav';
+import RoiCalculator from '@/components/RoiCalculator';
+
+export const revalidate = 3600;
+
+export const metadata: Metadata = {
+  title: 'ROI Calculator',
+  description:
+    'Estimate your debt, monthly loan payment and payback year for a specific school and major.',
+  openGraph: {
+    title: 'ROI Calculator - HEO',
+    description:
+      'Estimate your debt, monthly loan payment and payback year for a specific school and major.',
+  },
+};
+
+export default async function CalculatorPage() {
+  const db = getDb();
+
+  // Only schools with ranked programs have earnings to project
+  const rows = await db
+    .select({
+      unitId: schools.unitId,
+      name: schools.name,
+      city: schools.city,
+      state: schools.state,
+      costAttendance: schools.costAttendance,
+      tuitionInState: schools.tuitionInState,
+      tuitionOutState: schools.tuitionOutState,
+      netPrice0to30k: schools.netPrice0to30k,
+      netPrice30to48k: schools.netPrice30to48k,
+      netPrice48to75k: schools.netPrice48to75k,
+      netPrice75to110k: schools.netPrice75to110k,
+      netPrice110kPlus: schools.netPrice110kPlus,
+    })
+    .from(schools)
+    .innerJoin(schoolRankings, eq(schools.unitId, schoolRankings.unitId))
+    .orderBy(schools.name);
+
+  const schoolData: CalculatorSchool[] = rows.map((r) => ({
+    unitId: r.unitId,
+    name: r.name,
+    city: r.city ?? '',
+    state: r.state ?? '',
+    costAttendance: r.costAttendance,
+    tuitionInState: r.tuitionInState,
+    tuitionOutState: r.tuitionOutState,
+    netPrice0to30k: r.netPrice0to30k,
+    netPrice30to48k: r.netPrice30to48k,
+    netPrice48to75k: r.netPrice48to75k,
+    netPrice75to110k: r.netPrice75to110k,
+    netPrice110kPlus: r.netPrice110kPlus,
+  }));
+
+  return (
+    <main className="mx-auto max-w-7xl px-4 py-8 sm:py-12">
+      <PageNav />
+      <Suspense>
+        <RoiCalculator schools={schoolData} />
+      </Suspense>
+    </main>
+  );
+}
@@ -0,0 +1,46 @@
+import type { Metadata } from 'next';
+import PageNav from '@/components/PageNav';
+import LoginForm from '@/components/LoginForm';
+
+export const metadata: Metadata = {
+  title: 'Sign in',
+  robots: { index: false, follow: false },
+};
+
+interface LoginPageProps {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}
+
+const DEFAULT_NEXT = '/analytics';
+
+// Only same-origin paths, so the login can't be used as an open redirect.
+// Browsers read `/\host` as `//host` and drop tabs and newlines, so any
+// backslash or control character is refused before resolving the path.
+function safeNext(next: string | undefined): string {
+  if (!next || !next.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(next)) return DEFAULT_NEXT;
+  const base = 'https://login.invalid';
+  const url = new URL(next, base);
+  return url.origin === base ? `${url.pathname}${url.search}${url.hash}` : DEFAULT_NEXT;
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { next, error } = await searchParams;
+
+  return (
+    <main className="mx-auto max-w-7xl px-4 py-8 sm:py-12">
+      <PageNav />
+      <div className="mx-auto mt-10 max-w-sm">
+        <h1 className="text-2xl font-bold text-text-primary">Sign in</h1>
+        <p className="mt-2 text-sm text-text-secondary">
+          Admin access for the analytics dashboard.
+        </p>
+        {error === 'forbidden' && (
+          <p className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+            Your account does not have access to that page.
+          </p>
+        )}
+        <LoginForm next={safeNext(next)} />
+      </div>
+    </main>
+  );
+}
@@ -1,30 +1,59 @@
 import type { Metadata } from 'next';
 import { getDb } from '@/lib/db';
-import { programs, schools, majorsSummary } from '@/lib/db/schema';
-import { eq, desc } from 'drizzle-orm';
-import type { MajorSummary, ProgramRecord } from '@/types';
+import {
+  programs,
+  schools,
+  majorsSummary,
+  programHistory,
+  graduateUplift,
+  graduateUpliftNational,
+} from '@/lib/db/schema';
+import { and, eq, desc, asc } from 'drizzle-orm';
+import { groupTrends } from '@/lib/trends';
+import { credentialLabel, DEFAULT_CRED_LEVEL, parseCredLevel } from '@/lib/credentials';
+import { parseAccountabilityStatus } from '@/lib/accountability';
+import type { GraduateUplift, MajorProgramRecord, MajorSummary } from '@/types';
 import MajorDetail from '@/components/MajorDetail';
+import GraduateUpliftPanel from '@/components/GraduateUpliftPanel';
 import PageNav from '@/components/PageNav';
 
 export const revalidate = 3600;
 
 interface PageProps {
   params: Promise<{ cipCode: string }>;
-  searchParams: Promise<{ from?: string }>;
+  searchParams: Promise<{ from?: string; cred?: string }>;
 }
 
-export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
-  const { cipCode } = await params;
-  const db = getDb();
-  const [row] = await db
-    .select({ cipTitle: majorsSummary.cipTitle, medianEarn1yr: majorsSummary.medianEarn1yr })
+type MajorRow = typeof majorsSummary.$inferSelect;
+
+// The requested credential level, else bachelor's, else the lowest level offered
+function pickLevel(rows: MajorRow[], cred: string | undefined): MajorRow | undefined {
+  const requested = parseCredLevel(cred);
+  return (
+    rows.find((r) => r.credLevel === requested) ??
+    rows.find((r) => r.credLevel === DEFAULT_CRED_LEVEL) ??
+    rows[0]
+  );
+}
+
+async function getMajorLevels(cipCode: string): Promise<MajorRow[]> {
+  return getDb()
+    .select()
     .from(majorsSummary)
     .where(eq(majorsSummary.cipCode, cipCode))
-    .limit(1);
+    .orderBy(asc(majorsSummary.credLevel));
+}
+
+export async function generateMetadata({ params, searchParams }: PageProps): Promise<Metadata> {
+  const { cipCode } = await params;
+  const { cred } = await searchParams;
+  const row = pickLevel(await getMajorLevels(cipCode), cred);
 
   if (!row) return { title: 'Major Not Found' };
 
-  const cleanTitle = row.cipTitle.replace(/\.+$/, '');
+  const majorTitle = row.cipTitle.replace(/\.+$/, '');
+  const cleanTitle =
+    row.credLevel === DEFAULT_CRED_LEVEL ? majorTitle : `${majorTitle} (${credentialLabel(row.credLevel)})`;
   const description = row.medianEarn1yr
     ? `${cleanTitle} graduates earn a median of $${Math.round(row.medianEarn1yr).toLocaleString()} in their first year.`
     : `Explore earnings data for ${cleanTitle} across all schools.`;
@@ -38,15 +67,12 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
 
 export default async function MajorPage({ params, searchParams }: PageProps) {
   const { cipCode } = await params;
-  const { from: fromTab } = await searchParams;
+  const { from: fromTab, cred } = await searchParams;
   const db = getDb();
 
-  // Fetch major summary
-  const [majorRow] = await db
-    .select()
-    .from(majorsSummary)
-    .where(eq(majorsSummary.cipCode, cipCode))
-    .limit(1);
+  // Fetch the major summary at each credential level it is offered
+  const levelRows = await getMajorLevels(cipCode);
+  const majorRow = pickLevel(levelRows, cred);
 
   if (!majorRow) {
     return (
@@ -62,18 +88,26 @@ export default async function MajorPage({ params, searchParams }: PageProps) {
   const major: MajorSummary = {
     cipCode: majorRow.cipCode,
     cipTitle: majorRow.cipTitle.replace(/\.+$/, ''),
+    credLevel: majorRow.credLevel,
+    credTitle: majorRow.credTitle ?? credentialLabel(majorRow.credLevel),
     schoolCount: majorRow.schoolCount ?? 0,
     medianEarn1yr: majorRow.medianEarn1yr,
     medianEarn4yr: majorRow.medianEarn4yr,
     medianEarn5yr: majorRow.medianEarn5yr,
+    p10Earn1yr: majorRow.p10Earn1yr,
     p25Earn1yr: majorRow.p25Earn1yr,
     p75Earn1yr: majorRow.p75Earn1yr,
+    p90Earn1yr: majorRow.p90Earn1yr,
+    p10Earn5yr: majorRow.p10Earn5yr,
     p25Earn5yr: majorRow.p25Earn5yr,
     p75Earn5yr: majorRow.p75Earn5yr,
+    p90Earn5yr: majorRow.p90Earn5yr,
     growthRate: majorRow.growthRate,
+    valueAddedEarn1yr: majorRow.valueAddedEarn1yr,
+    netPremium: majorRow.netPremium,
   };
 
-  // Fetch all programs for this major with school data
+  // Fetch all programs for this major and credential level with school data
   const rows = await db
     .select({
       unitId: programs.unitId,
@@ -88,7 +122,21 @@ export default async function MajorPage({ params, searchParams }: PageProps) {
       earn5yr: programs.earn5yr,
       earn1yrCount: programs.earn1yrCount,
       earn5yrCount: programs.earn5yrCount,
+      adjustedEarn1yr: programs.adjustedEarn1yr,
+      adjustedEarn5yr: programs.adjustedEarn5yr,
       costAttendance: programs.costAttendance,
+      netPrice: programs.netPrice,
+      totalCost: programs.totalCost,
+      cumulativeEarnings: programs.cumulativeEarnings,
+      npv: programs.npv,
+      breakEvenYear: programs.breakEvenYear,
+      valueAddedEarn1yr: programs.valueAddedEarn1yr,
+      netPremium: programs.netPremium,
+      medianDebt: programs.medianDebt,
+      debtToEarnings: programs.debtToEarnings,
+      monthlyPayment: programs.monthlyPayment,
+      accountabilityStatus: programs.accountabilityStatus,
+      accountabilityNotes: programs.accountabilityNotes,
       selectivityTier: programs.selectivityTier,
       ownership: schools.ownership,
       ownershipLabel: schools.ownershipLabel,
@@ -97,13 +145,25 @@ export default async function MajorPage({ params, searchParams }: PageProps) {
       satRead75: schools.satRead75,
       size: schools.size,
       completionRate: schools.completionRate,
+      hbcu: schools.hbcu,
+      hsi: schools.hsi,
+      tribal: schools.tribal,
+      womensCollege: schools.womensCollege,
+      religiousAffiliation: schools.religiousAffiliation,
+      locale: schools.locale,
+      carnegieBasic: schools.carnegieBasic,
+      netPrice0to30k: schools.netPrice0to30k,
+      netPrice30to48k: schools.netPrice30to48k,
+      netPrice48to75k: schools.netPrice48to75k,
+      netPrice75to110k: schools.netPrice75to110k,
+      netPrice110kPlus: schools.netPrice110kPlus,
     })
     .from(programs)
     .leftJoin(schools, eq(programs.unitId, schools.unitId))
-    .where(eq(programs.cipCode, cipCode))
+    .where(and(eq(programs.cipCode, cipCode), eq(programs.credLevel, major.credLevel)))
     .orderBy(desc(programs.earn1yr));
 
-  const programData: ProgramRecord[] = rows.map((r) => ({
+  const programData: MajorProgramRecord[] = rows.map((r) => ({
     unitId: r.unitId,
     schoolName: r.schoolName ?? '',
     state: r.state ?? '',
@@ -116,7 +176,21 @@ export default async function MajorPage({ params, searchParams }: PageProps) {
     earn5yr: r.earn5yr,
     earn1yrCount: r.earn1yrCount,
     earn5yrCount: r.earn5yrCount,
+    adjustedEarn1yr: r.adjustedEarn1yr,
+    adjustedEarn5yr: r.adjustedEarn5yr,
     costAttendance: r.costAttendance,
+    netPrice: r.netPrice,
+    totalCost: r.totalCost,
+    cumulativeEarnings: r.cumulativeEarnings,
+    npv: r.npv,
+    breakEvenYear: r.breakEvenYear,
+    valueAddedEarn1yr: r.valueAddedEarn1yr,
+    netPremium: r.netPremium,
+    medianDebt: r.medianDebt,
+    debtToEarnings: r.debtToEarnings,
+    monthlyPayment: r.monthlyPayment,
+    accountabilityStatus: parseAccountabilityStatus(r.accountabilityStatus),
+    accountabilityNotes: r.accountabilityNotes,
     selectivityTier: r.selectivityTier ?? '',
     ownership: r.ownership,
     ownershipLabel: r.ownershipLabel,
@@ -125,12 +199,67 @@ export default async function MajorPage({ params, searchParams }: PageProps) {
     satRead75: r.satRead75,
     size: r.size,
     completionRate: r.completionRate,
+    hbcu: r.hbcu,
+    hsi: r.hsi,
+    tribal: r.tribal,
+    womensCollege: r.womensCollege,
+    religiousAffiliation: r.religiousAffiliation,
+    locale: r.locale,
+    carnegieBasic: r.carnegieBasic,
+    netPrice0to30k: r.netPrice0to30k,
+    netPrice30to48k: r.netPrice30to48k,
+    netPrice48to75k: r.netPrice48to75k,
+    netPrice75to110k: r.netPrice75to110k,
+    netPrice110kPlus: r.netPrice110kPlus,
   }));
 
+  // First-year earnings across Scorecard releases, for the trend columns
+  const historyRows = await db
+    .select({
+      unitId: programHistory.unitId,
+      credLevel: programHistory.credLevel,
+      releaseYear: programHistory.releaseYear,
+      earn1yr: programHistory.earn1yr,
+    })
+    .from(programHistory)
+    .where(and(eq(programHistory.cipCode, cipCode), eq(programHistory.credLevel, major.credLevel)));
+
+  const trends = groupTrends(
+    historyRows,
+    (r) => `${r.unitId}-${r.credLevel}`,
+    (r) => ({ year: r.releaseYear, earn1yr: r.earn1yr }),
+  );
+
+  // Bachelor's vs. graduate earnings in this field, nationally and per school
+  const [nationalRows, schoolUpliftRows] = await Promise.all([
+    db.select().from(graduateUpliftNational).where(eq(graduateUpliftNational.cipCode, cipCode)),
+    db.select().from(graduateUplift).where(eq(graduateUplift.cipCode, cipCode)),
+  ]);
+  const toUplift = (
+    r: typeof graduateUpliftNational.$inferSelect,
+    unitId: number | null = null,
+    schoolName: string | null = null,
+  ): GraduateUplift => ({
+    ...r,
+    credTitle: r.credTitle ?? credentialLabel(r.credLevel),
+    unitId,
+    schoolName,
+  });
+
   return (
     <main className="mx-auto max-w-7xl px-4 py-8 sm:py-12">
       <PageNav />
-      <MajorDetail major={major} programs={programData} fromTab={fromTab} />
+      <MajorDetail
+        major={major}
+        programs={programData}
+        trends={trends}
+        credLevels={levelRows.map((r) => r.credLevel)}
+        fromTab={fromTab}
+      />
+      <GraduateUpliftPanel
+        national={nationalRows.map((r) => toUplift(r))}
+        schools={schoolUpliftRows.map((r) => toUplift(r, r.unitId, r.schoolName))}
+      />
     </main>
   );
 }
@@ -1,8 +1,10 @@
 import type { Metadata } from 'next';
 import { getDb } from '@/lib/db';
-import { programs, schools } from '@/lib/db/schema';
+import { programs, schools, schoolRankings, programHistory } from '@/lib/db/schema';
 import { eq, desc } from 'drizzle-orm';
-import type { School, ProgramRecord } from '@/types';
+import { groupTrends } from '@/lib/trends';
+import { parseAccountabilityStatus } from '@/lib/accountability';
+import type { School, ProgramRecord, SchoolRoi } from '@/types';
 import SchoolDetail from '@/components/SchoolDetail';
 import PageNav from '@/components/PageNav';
 
@@ -86,12 +88,44 @@ export default async function SchoolPage({ params, searchParams }: PageProps) {
     tuitionOutState: schoolRow.tuitionOutState,
     netPricePublic: schoolRow.netPricePublic,
     netPricePrivate: schoolRow.netPricePrivate,
+    netPrice0to30k: schoolRow.netPrice0to30k,
+    netPrice30to48k: schoolRow.netPrice30to48k,
+    netPrice48to75k: schoolRow.netPrice48to75k,
+    netPrice75to110k: schoolRow.netPrice75to110k,
+    netPrice110kPlus: schoolRow.netPrice110kPlus,
     completionRate: schoolRow.completionRate,
+    retentionRate: schoolRow.retentionRate,
+    completionRate150: schoolRow.completionRate150,
+    repaymentRate3yr: schoolRow.repaymentRate3yr,
+    pellShare: schoolRow.pellShare,
+    firstGenShare: schoolRow.firstGenShare,
+    hbcu: schoolRow.hbcu,
+    hsi: schoolRow.hsi,
+    tribal: schoolRow.tribal,
+    womensCollege: schoolRow.womensCollege,
+    religiousAffiliation: schoolRow.religiousAffiliation,
+    locale: schoolRow.locale,
+    carnegieBasic: schoolRow.carnegieBasic,
     selectivityTier: schoolRow.selectivityTier ?? '',
     lat: schoolRow.lat,
     lon: schoolRow.lon,
   };
 
+  const [roiRow] = await db
+    .select({
+      weightedEarn1yr: schoolRankings.weightedEarn1yr,
+      weightedEarn5yr: schoolRankings.weightedEarn5yr,
+      netPrice: schoolRankings.netPrice,
+      totalCost: schoolRankings.totalCost,
+      cumulativeEarnings: schoolRankings.cumulativeEarnings,
+      npv: schoolRankings.npv,
+      breakEvenYear: schoolRankings.breakEvenYear,
+    })
+    .from(schoolRankings)
+    .where(eq(schoolRankings.unitId, unitId))
+    .limit(1);
+  const roi: SchoolRoi | null = roiRow ?? null;
+
   const rows = await db
     .select({
       id: programs.id,
@@ -107,7 +141,21 @@ export default async function SchoolPage({ params, searchParams }: PageProps) {
       earn5yr: programs.earn5yr,
       earn1yrCount: programs.earn1yrCount,
       earn5yrCount: programs.earn5yrCount,
+      adjustedEarn1yr: programs.adjustedEarn1yr,
+      adjustedEarn5yr: programs.adjustedEarn5yr,
       costAttendance: programs.costAttendance,
+      netPrice: programs.netPrice,
+      totalCost: programs.totalCost,
+      cumulativeEarnings: programs.cumulativeEarnings,
+      npv: programs.npv,
+      breakEvenYear: programs.breakEvenYear,
+      valueAddedEarn1yr: programs.valueAddedEarn1yr,
+      netPremium: programs.netPremium,
+      medianDebt: programs.medianDebt,
+      debtToEarnings: programs.debtToEarnings,
+      monthlyPayment: programs.monthlyPayment,
+      accountabilityStatus: programs.accountabilityStatus,
+      accountabilityNotes: programs.accountabilityNotes,
       selectivityTier: programs.selectivityTier,
     })
     .from(programs)
@@ -127,7 +175,21 @@ export default async function SchoolPage({ params, searchParams }: PageProps) {
     earn5yr: r.earn5yr,
     earn1yrCount: r.earn1yrCount,
     earn5yrCount: r.earn5yrCount,
+    adjustedEarn1yr: r.adjustedEarn1yr,
+    adjustedEarn5yr: r.adjustedEarn5yr,
     costAttendance: r.costAttendance,
+    netPrice: r.netPrice,
+    totalCost: r.totalCost,
+    cumulativeEarnings: r.cumulativeEarnings,
+    npv: r.npv,
+    breakEvenYear: r.breakEvenYear,
+    valueAddedEarn1yr: r.valueAddedEarn1yr,
+    netPremium: r.netPremium,
+    medianDebt: r.medianDebt,
+    debtToEarnings: r.debtToEarnings,
+    monthlyPayment: r.monthlyPayment,
+    accountabilityStatus: parseAccountabilityStatus(r.accountabilityStatus),
+    accountabilityNotes: r.accountabilityNotes,
     selectivityTier: r.selectivityTier ?? '',
     ownership: school.ownership,
     ownershipLabel: school.ownershipLabel,
@@ -136,12 +198,36 @@ export default async function SchoolPage({ params, searchParams }: PageProps) {
     satRead75: school.satRead75,
     size: school.size,
     completionRate: school.completionRate,
+    hbcu: school.hbcu,
+    hsi: school.hsi,
+    tribal: school.tribal,
+    womensCollege: school.womensCollege,
+    religiousAffiliation: school.religiousAffiliation,
+    locale: school.locale,
+    carnegieBasic: school.carnegieBasic,
   }));
 
+  // First-year earnings across Scorecard releases, for the trend columns
+  const historyRows = await db
+    .select({
+      cipCode: programHistory.cipCode,
+      credLevel: programHistory.credLevel,
+      releaseYear: programHistory.releaseYear,
+      earn1yr: programHistory.earn1yr,
+    })
+    .from(programHistory)
+    .where(eq(programHistory.unitId, unitId));
+
+  const trends = groupTrends(
+    historyRows,
+    (r) => `${r.cipCode}-${r.credLevel}`,
+    (r) => ({ year: r.releaseYear, earn1yr: r.earn1yr }),
+  );
+
   return (
     <main className="mx-auto max-w-7xl px-4 py-8 sm:py-12">
       <PageNav />
-      <SchoolDetail school={school} programs={programData} fromTab={fromTab} />
+      <SchoolDetail school={school} programs={programData} roi={roi} trends={trends} fromTab={fromTab} />
     </main>
   );
 }
@@ -0,0 +1,27 @@
+import type { AccountabilityStatus } from '@/types';
+import { ACCOUNTABILITY_STATUSES } from '@/lib/accountability';
+
+const STATUS_CLASSES: Record<AccountabilityStatus, string> = {
+  pass: 'bg-earn-above/10 text-earn-above',
+  warn: 'bg-amber-100 text-amber-700',
+  fail: 'bg-earn-below/10 text-earn-below',
+};
+
+interface AccountabilityBadgeProps {
+  status: AccountabilityStatus | null;
+  notes: string | null;
+}
+
+// Pill for a program's accountability result; the notes explain it on hover
+export default function AccountabilityBadge({ status, notes }: AccountabilityBadgeProps) {
+  if (!status) return <span className="text-text-secondary">&mdash;</span>;
+  const label = ACCOUNTABILITY_STATUSES.find((s) => s.key === status)?.label ?? status;
+  return (
+    <span
+      className={`inline-block rounded-full px-1.5 py-0.5 text-[10px] font-medium ${STATUS_CLASSES[status]}`}
+      title={notes ?? undefined}
+    >
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,490 @@
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import Link from 'next/link';
+import type { AccountabilityStatus, ProgramRecord, SortDir } from '@/types';
+import { formatCurrency, formatNumber, formatRatio } from '@/lib/formatters';
+import { ACCOUNTABILITY_STATUSES } from '@/lib/accountability';
+import { getCredential } from '@/lib/credentials';
+import type { ExportColumn } from '@/lib/export';
+import { headlineEarnings, reliability } from '@/lib/confidence';
+import StatCard from './StatCard';
+import SortableHeader from './SortableHeader';
+import ExportButton from './ExportButton';
+import AccountabilityBadge from './AccountabilityBadge';
+import ReliabilityBadge from './ReliabilityBadge';
+import MinGraduatesSelect from './MinGraduatesSelect';
+import EarningsBasisSelect, { useEarningsBasis } from './EarningsBasisSelect';
+
+export type AtRiskProgram = Pick<
+  ProgramRecord,
+  | 'unitId' | 'schoolName' | 'state' | 'cipCode' | 'cipTitle' | 'credLevel' | 'credTitle'
+  | 'earn1yr' | 'earn4yr' | 'earn5yr' | 'earn1yrCount' | 'earn5yrCount' | 'adjustedEarn1yr'
+  | 'medianDebt' | 'debtToEarnings' | 'monthlyPayment'
+  | 'accountabilityNotes' | 'ownership' | 'ownershipLabel'
+> & { accountabilityStatus: AccountabilityStatus };
+
+type SortField = 'schoolName' | 'cipTitle' | 'status' | 'earnings' | 'graduates' | 'debtToEarnings';
+
+const PAGE_SIZE = 25;
+
+const SEVERITY: Record<AccountabilityStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+// Passing programs never reach this page
+const STATUS_FILTERS: [AccountabilityStatus | null, string][] = [
+  [null, 'All'],
+  ...ACCOUNTABILITY_STATUSES.filter((s) => s.key !== 'pass').map((s): [AccountabilityStatus, string] => [s.key, s.label]),
+];
+
+interface Row extends AtRiskProgram {
+  status: number; // severity, so failing programs sort ahead of warnings
+  earnings: number | null; // the figure the tests use: 4-year, else 1-year; adjusted 1-year when chosen
+  earningsLabel: string;
+  graduates: number | null; // graduates behind the headline earnings figure
+}
+
+const EXPORT_COLUMNS: ExportColumn<Row>[] = [
+  { key: 'unitId', header: 'Unit ID', value: (r) => r.unitId },
+  { key: 'schoolName', header: 'School', value: (r) => r.schoolName },
+  { key: 'state', header: 'State', value: (r) => r.state },
+  { key: 'ownershipLabel', header: 'Ownership', value: (r) => r.ownershipLabel },
+  { key: 'cipCode', header: 'CIP Code', value: (r) => r.cipCode },
+  { key: 'cipTitle', header: 'Major', value: (r) => r.cipTitle },
+  { key: 'credTitle', header: 'Credential', value: (r) => r.credTitle },
+  { key: 'accountabilityStatus', header: 'Accountability', value: (r) => r.accountabilityStatus },
+  { key: 'earn1yr', header: 'Earnings (1yr)', value: (r) => r.earn1yr },
+  { key: 'earn4yr', header: 'Earnings (4yr)', value: (r) => r.earn4yr },
+  { key: 'adjustedEarn1yr', header: 'Adjusted Earnings (1yr)', value: (r) => r.adjustedEarn1yr },
+  { key: 'earn1yrCount', header: 'Graduates Reported (1yr)', value: (r) => r.earn1yrCount },
+  { key: 'reliability', header: 'Reliability', value: (r) => reliability(r.graduates) },
+  { key: 'medianDebt', header: 'Median Debt', value: (r) => r.medianDebt },
+  { key: 'debtToEarnings', header: 'Debt-to-Earnings', value: (r) => r.debtToEarnings },
+  { key: 'monthlyPayment', header: 'Monthly Payment (est.)', value: (r) => r.monthlyPayment },
+  { key: 'accountabilityNotes', header: 'Accountability Notes', value: (r) => r.accountabilityNotes },
+];
+
+interface AtRiskProgramsProps {
+  programs: AtRiskProgram[];
+}
+
+export default function AtRiskPrograms({ programs }: AtRiskProgramsProps) {
+  const [sortField, setSortField] = useState<SortField>('status');
+  const [sortDir, setSortDir] = useState<SortDir>('desc');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<AccountabilityStatus | null>(null);
+  const [credFilter, setCredFilter] = useState<number | null>(null);
+  const [ownershipFilter, setOwnershipFilter] = useState<number | null>(null);
+  const [stateFilter, setStateFilter] = useState('');
+  const [minGraduates, setMinGraduates] = useState(0);
+  const [earningsBasis, setEarningsBasis] = useEarningsBasis();
+  const [page, setPage] = useState(1);
+
+  // No graduate count is published for 4-year earnings, so adjusted rankings
+  // use the adjusted first-year figure
+  const allRows = useMemo<Row[]>(
+    () =>
+      programs.map((p) => {
+        const adjusted = earningsBasis === 'adjusted' ? p.adjustedEarn1yr : null;
+        return {
+          ...p,
+          status: SEVERITY[p.accountabilityStatus],
+          earnings: adjusted ?? p.earn4yr ?? p.earn1yr,
+          earningsLabel: adjusted != null ? '1-year, adjusted' : p.earn4yr != null ? '4-year' : '1-year',
+          graduates: headlineEarnings(p).count,
+        };
+      }),
+    [programs, earningsBasis],
+  );
+
+  const states = useMemo(
+    () => Array.from(new Set(programs.map((p) => p.state).filter(Boolean))).sort(),
+    [programs],
+  );
+  const credLevels = useMemo(
+    () => Array.from(new Set(programs.map((p) => p.credLevel))).sort((a, b) => a - b),
+    [programs],
+  );
+
+  const filtered = useMemo(() => {
+    let rows = allRows;
+    if (searchQuery.trim()) {
+      const q = searchQuery.toLowerCase();
+      rows = rows.filter(
+        (r) => r.schoolName.toLowerCase().includes(q) || r.cipTitle.toLowerCase().includes(q),
+      );
+    }
+    if (statusFilter) rows = rows.filter((r) => r.accountabilityStatus === statusFilter);
+    if (credFilter != null) rows = rows.filter((r) => r.credLevel === credFilter);
+    if (ownershipFilter != null) rows = rows.filter((r) => r.ownership === ownershipFilter);
+    if (stateFilter) rows = rows.filter((r) => r.state === stateFilter);
+    if (minGraduates > 0) rows = rows.filter((r) => r.graduates != null && r.graduates >= minGraduates);
+    return rows;
+  }, [allRows, searchQuery, statusFilter, credFilter, ownershipFilter, stateFilter, minGraduates]);
+
+  const stats = useMemo(() => {
+    const failing = filtered.filter((r) => r.accountabilityStatus === 'fail').length;
+    return {
+      failing,
+      warning: filtered.length - failing,
+      schools: new Set(filtered.map((r) => r.unitId)).size,
+    };
+  }, [filtered]);
+
+  const sorted = useMemo(() => {
+    const rows = [...filtered];
+    rows.sort((a, b) => {
+      const av = a[sortField];
+      const bv = b[sortField];
+      if (av == null && bv == null) return 0;
+      if (av == null) return 1;
+      if (bv == null) return -1;
+      if (typeof av === 'string' && typeof bv === 'string') {
+        return sortDir === 'asc' ? av.localeCompare(bv) : bv.localeCompare(av);
+      }
+      return sortDir === 'asc'
+        ? (av as number) - (bv as number)
+        : (bv as number) - (av as number);
+    });
+    return rows;
+  }, [filtered, sortField, sortDir]);
+
+  const totalPages = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  const currentPage = Math.min(page, totalPages);
+  const paginated = sorted.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  const handleSort = useCallback((field: SortField) => {
+    if (field === sortField) {
+      setSortDir((d) => (d === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortField(field);
+      setSortDir(field === 'schoolName' || field === 'cipTitle' || field === 'earnings' ? 'asc' : 'desc');
+    }
+    setPage(1);
+  }, [sortField]);
+
+  const filtersActive = !!(
+    searchQuery || statusFilter || credFilter != null || ownershipFilter != null || stateFilter || minGraduates > 0
+  );
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold text-text-primary sm:text-3xl">At-Risk Programs</h1>
+      <p className="mt-3 max-w-3xl text-sm leading-relaxed text-text-secondary">
+        Programs that fail or come close to failing tests modeled on the federal earnings-premium
+        and debt-to-earnings rules. Hover a status to see why the program was flagged; the{' '}
+        <Link href="/about" className="text-accent hover:underline">
+          methodology
+        </Link>{' '}
+        explains the thresholds.
+      </p>
+
+      {/* Stat cards */}
+      <div className="mt-6 grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <StatCard label="Failing" value={formatNumber(stats.failing)} />
+        <StatCard label="Warnings" value={formatNumber(stats.warning)} />
+        <StatCard label="Schools" value={formatNumber(stats.schools)} />
+        <StatCard label="Programs Shown" value={formatNumber(filtered.length)} detail={`of ${formatNumber(allRows.length)} flagged`} />
+      </div>
+
+      {/* Filters */}
+      <div className="mt-6 flex flex-wrap items-end gap-3 rounded-lg border border-gray-100 bg-gray-50 p-3">
+        <div className="flex-1 sm:flex-none">
+          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+            Search
+          </label>
+          <div className="relative">
+            <input
+              type="text"
+              placeholder="School or major..."
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                setPage(1);
+              }}
+              className="w-full rounded-lg border border-gray-200 bg-white px-3 py-1.5 pr-7 text-xs text-text-primary outline-none placeholder:text-text-secondary/50 focus:border-accent sm:w-48"
+            />
+            {searchQuery && (
+              <button
+                onClick={() => {
+                  setSearchQuery('');
+                  setPage(1);
+                }}
+                className="absolute right-2 top-1/2 -translate-y-1/2 text-sm text-text-secondary hover:text-text-primary"
+              >
+                &times;
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+            Status
+          </label>
+          <div className="flex rounded-lg border border-gray-200 bg-white text-xs">
+            {STATUS_FILTERS.map(([val, label]) => (
+              <button
+                key={String(val)}
+                onClick={() => {
+                  setStatusFilter(val);
+                  setPage(1);
+                }}
+                className={`px-2.5 py-1.5 transition-colors first:rounded-l-lg last:rounded-r-lg ${
+                  statusFilter === val
+                    ? 'bg-accent text-white'
+                    : 'text-text-secondary hover:text-text-primary'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+            Credential
+          </label>
+          <select
+            value={credFilter ?? ''}
+            onChange={(e) => {
+              setCredFilter(e.target.value ? Number(e.target.value) : null);
+              setPage(1);
+            }}
+            className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+          >
+            <option value="">All Credentials</option>
+            {credLevels.map((level) => (
+              <option key={level} value={level}>
+                {getCredential(level)?.label ?? `Level ${level}`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+            School Type
+          </label>
+          <div className="flex rounded-lg border border-gray-200 bg-white text-xs">
+            {([
+              [null, 'All'],
+              [1, 'Public'],
+              [2, 'Private'],
+              [3, 'For-Profit'],
+            ] as const).map(([val, label]) => (
+              <button
+                key={String(val)}
+                onClick={() => {
+                  setOwnershipFilter(val);
+                  setPage(1);
+                }}
+                className={`px-2.5 py-1.5 transition-colors first:rounded-l-lg last:rounded-r-lg ${
+                  ownershipFilter === val
+                    ? 'bg-accent text-white'
+                    : 'text-text-secondary hover:text-text-primary'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {states.length > 1 && (
+          <div>
+            <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+              State
+            </label>
+            <select
+              value={stateFilter}
+              onChange={(e) => {
+                setStateFilter(e.target.value);
+                setPage(1);
+              }}
+              className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+            >
+              <option value="">All States</option>
+              {states.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <EarningsBasisSelect
+          value={earningsBasis}
+          onChange={(basis) => {
+            setEarningsBasis(basis);
+            setPage(1);
+          }}
+        />
+
+        <MinGraduatesSelect
+          value={minGraduates}
+          onChange={(value) => {
+            setMinGraduates(value);
+            setPage(1);
+          }}
+        />
+
+        {filtersActive && (
+          <button
+            onClick={() => {
+              setSearchQuery('');
+              setStatusFilter(null);
+              setCredFilter(null);
+              setOwnershipFilter(null);
+              setStateFilter('');
+              setMinGraduates(0);
+              setPage(1);
+            }}
+            className="rounded-lg px-2 py-1.5 text-xs text-accent hover:bg-accent/10"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {/* Count */}
+      <div className="mt-2 flex items-center justify-between">
+        <p className="text-xs text-text-secondary">
+          Showing {sorted.length} of {allRows.length} programs
+        </p>
+        <ExportButton rows={sorted} columns={EXPORT_COLUMNS} filename="at-risk-programs" />
+      </div>
+
+      {/* Table */}
+      <div className="mt-3 overflow-x-auto rounded-lg border border-gray-100 bg-white shadow-sm">
+        <table className="w-full text-xs">
+          <thead className="border-b border-gray-100 bg-gray-50 text-left">
+            <tr>
+              <SortableHeader<SortField>
+                label="School"
+                sortKey="schoolName"
+                currentSortKey={sortField}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+              />
+              <SortableHeader<SortField>
+                label="Program"
+                sortKey="cipTitle"
+                currentSortKey={sortField}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+              />
+              <SortableHeader<SortField>
+                label="Status"
+                sortKey="status"
+                currentSortKey={sortField}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+              />
+              <SortableHeader<SortField>
+                label="Earnings"
+                sortKey="earnings"
+                currentSortKey={sortField}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+                className="text-right"
+              />
+              <SortableHeader<SortField>
+                label="Reliability"
+                sortKey="graduates"
+                currentSortKey={sortField}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+                className="hidden md:table-cell"
+              />
+              <SortableHeader<SortField>
+                label="Debt/Earnings"
+                sortKey="debtToEarnings"
+                currentSortKey={sortField}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+                className="hidden text-right sm:table-cell"
+              />
+              <th className="hidden px-3 py-2 font-medium text-text-secondary lg:table-cell">Why</th>
+            </tr>
+          </thead>
+          <tbody>
+            {paginated.map((r) => (
+              <tr key={`${r.unitId}-${r.cipCode}-${r.credLevel}`} className="border-t border-gray-50 align-top hover:bg-gray-50">
+                <td className="px-3 py-2">
+                  <Link
+                    href={`/schools/${r.unitId}`}
+                    className="font-medium text-accent hover:underline"
+                  >
+                    {r.schoolName}
+                  </Link>
+                  <span className="ml-1.5 text-text-secondary">{r.state}</span>
+                </td>
+                <td className="px-3 py-2">
+                  <Link
+                    href={`/majors/${encodeURIComponent(r.cipCode)}?cred=${r.credLevel}`}
+                    className="text-text-primary hover:text-accent hover:underline"
+                  >
+                    {r.cipTitle.replace(/\.+$/, '')}
+                  </Link>
+                  <span className="block text-[10px] text-text-secondary">{r.credTitle}</span>
+                </td>
+                <td className="px-3 py-2">
+                  <AccountabilityBadge status={r.accountabilityStatus} notes={r.accountabilityNotes} />
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {formatCurrency(r.earnings)}
+                  <span className="block text-[10px] text-text-secondary">
+                    {r.earningsLabel}
+                  </span>
+                </td>
+                <td className="hidden px-3 py-2 md:table-cell">
+                  <ReliabilityBadge program={r} />
+                </td>
+                <td className="hidden px-3 py-2 text-right text-text-secondary sm:table-cell">
+                  {formatRatio(r.debtToEarnings)}
+                </td>
+                <td className="hidden max-w-md px-3 py-2 text-text-secondary lg:table-cell">
+                  {r.accountabilityNotes}
+                </td>
+              </tr>
+            ))}
+            {paginated.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-3 py-8 text-center text-sm text-text-secondary">
+                  No programs match your filters
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="mt-3 flex items-center justify-between">
+          <p className="text-xs text-text-secondary">
+            Page {currentPage} of {totalPages}
+          </p>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={currentPage <= 1}
+              className="rounded-md px-2.5 py-1 text-xs text-text-secondary transition-colors hover:bg-gray-100 disabled:opacity-40"
+            >
+              Prev
+            </button>
+            <button
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={currentPage >= totalPages}
+              className="rounded-md px-2.5 py-1 text-xs text-text-secondary transition-colors hover:bg-gray-100 disabled:opacity-40"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
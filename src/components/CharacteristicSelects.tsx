@@ -0,0 +1,53 @@
+'use client';
+
+import {
+  AFFILIATIONS,
+  CARNEGIE_GROUPS,
+  DESIGNATIONS,
+  LOCALE_TYPES,
+  type CharacteristicFilters,
+} from '@/lib/characteristics';
+
+interface CharacteristicSelectsProps {
+  value: CharacteristicFilters;
+  onChange: (patch: Partial<CharacteristicFilters>) => void;
+}
+
+const FACETS: {
+  key: keyof CharacteristicFilters;
+  label: string;
+  anyLabel: string;
+  options: { key: string; label: string }[];
+}[] = [
+  { key: 'designation', label: 'Designation', anyLabel: 'Any', options: DESIGNATIONS },
+  { key: 'locale', label: 'Locale', anyLabel: 'Any Locale', options: LOCALE_TYPES },
+  { key: 'affiliation', label: 'Affiliation', anyLabel: 'Any', options: AFFILIATIONS },
+  { key: 'carnegie', label: 'Carnegie Class', anyLabel: 'Any Class', options: CARNEGIE_GROUPS },
+];
+
+// Institution characteristic facets, rendered as filter-bar selects
+export default function CharacteristicSelects({ value, onChange }: CharacteristicSelectsProps) {
+  return (
+    <>
+      {FACETS.map((facet) => (
+        <div key={facet.key}>
+          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+            {facet.label}
+          </label>
+          <select
+            value={value[facet.key] ?? ''}
+            onChange={(e) => onChange({ [facet.key]: e.target.value || null })}
+            className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+          >
+            <option value="">{facet.anyLabel}</option>
+            {facet.options.map((o) => (
+              <option key={o.key} value={o.key}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </>
+  );
+}
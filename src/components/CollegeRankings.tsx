@@ -7,11 +7,18 @@ import {
   CartesianGrid, ResponsiveContainer, ReferenceLine,
 } from 'recharts';
 import type { SchoolRanking, SortDir } from '@/types';
-import { formatCurrency, formatCompact, formatRate, formatNumber } from '@/lib/formatters';
+import { formatCurrency, formatCompact, formatRate, formatNumber, formatPayback } from '@/lib/formatters';
 import { getDisplayTier, TIER_COLORS, TIER_ORDER } from '@/lib/tiers';
+import { filterSchoolRankings, hasSchoolFilters, type SchoolFilters } from '@/lib/school-filters';
+import { outcomeField, type OutcomeKey } from '@/lib/outcomes';
 import { trackEvent } from '@/lib/analytics';
 import StatCard from './StatCard';
 import SortableHeader from './SortableHeader';
+import ExportButton from './ExportButton';
+import SchoolFilterBar from './SchoolFilterBar';
+import IncomeSelect, { useIncomeBracket } from './IncomeSelect';
+import { roiAtIncome } from '@/lib/net-price';
+import { SCHOOL_RANKING_COLUMNS } from '@/lib/export-columns';
 
 interface ScatterDatum {
   x: number;
@@ -24,7 +31,8 @@ interface ScatterDatum {
   earnings: number;
   costAttendance: number;
   programCount: number;
-  roi: number | null;
+  npv: number | null;
+  breakEvenYear: number | null;
   topProgram: string | null;
 }
 
@@ -39,8 +47,8 @@ function ChartTooltip({ active, payload }: { active?: boolean; payload?: Array<{
         <span>Earnings: <strong className="text-earn-above">{formatCurrency(d.earnings)}</strong></span>
         <span>Cost: <strong>{formatCurrency(d.costAttendance)}</strong></span>
         <span>Programs: <strong>{d.programCount}</strong></span>
-        {d.roi != null && (
-          <span>ROI: <strong>{d.roi.toFixed(1)}x</strong></span>
+        {d.npv != null && (
+          <span>NPV: <strong>{formatCurrency(d.npv)}</strong></span>
         )}
       </div>
       {d.admissionRate != null && (
@@ -63,34 +71,53 @@ type SortField =
   | 'name'
   | 'weightedEarn1yr'
   | 'weightedEarn5yr'
-  | 'roi'
+  | 'npv'
+  | 'breakEvenYear'
+  | 'valueAddedEarn1yr'
+  | 'netPremium'
   | 'programCount'
   | 'admissionRate'
-  | 'costAttendance';
+  | 'costAttendance'
+  | OutcomeKey;
 
 const PAGE_SIZE = 25;
 
 interface CollegeRankingsProps {
   schoolRankings: SchoolRanking[];
+  filters: SchoolFilters;
+  onFiltersChange: (filters: SchoolFilters) => void;
 }
 
 export default function CollegeRankings({
-  schoolRankings,
+  schoolRankings: averageRankings,
+  filters,
+  onFiltersChange,
 }: CollegeRankingsProps) {
   const [sortField, setSortField] = useState<SortField>('weightedEarn1yr');
   const [sortDir, setSortDir] = useState<SortDir>('desc');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [ownershipFilter, setOwnershipFilter] = useState<number | null>(null);
-  const [stateFilter, setStateFilter] = useState('');
-  const [tierFilter, setTierFilter] = useState<Set<string>>(new Set());
-  const [minPrograms, setMinPrograms] = useState(5);
   const [page, setPage] = useState(1);
   const [compareSet, setCompareSet] = useState<Set<number>>(new Set());
   const [chartEarnings, setChartEarnings] = useState<'earn1yr' | 'earn5yr'>('earn5yr');
   const [selectedSchool, setSelectedSchool] = useState<number | null>(null);
+  const [incomeBracket, setIncomeBracket] = useIncomeBracket();
   const chartRef = useRef<HTMLDivElement>(null);
   const dotClickedRef = useRef(false);
 
+  // Cost and ROI at the net price paid by families in the chosen income bracket
+  const schoolRankings = useMemo(() => {
+    if (!incomeBracket) return averageRankings;
+    return averageRankings.map((r) => ({
+      ...r,
+      ...roiAtIncome(
+        r.netPrice,
+        r,
+        incomeBracket,
+        { earn1yr: r.weightedEarn1yr, earn4yr: null, earn5yr: r.weightedEarn5yr },
+        r.state,
+      ),
+    }));
+  }, [averageRankings, incomeBracket]);
+
   // Close detail card on Escape
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -106,23 +133,10 @@ export default function CollegeRankings({
   }, [schoolRankings]);
 
   // Filter
-  const filtered = useMemo(() => {
-    let rows = schoolRankings.filter((r) => r.programCount >= minPrograms);
-    if (searchQuery.trim()) {
-      const q = searchQuery.toLowerCase();
-      rows = rows.filter((r) => r.name.toLowerCase().includes(q));
-    }
-    if (ownershipFilter != null) {
-      rows = rows.filter((r) => r.ownership === ownershipFilter);
-    }
-    if (stateFilter) {
-      rows = rows.filter((r) => r.state === stateFilter);
-    }
-    if (tierFilter.size > 0) {
-      rows = rows.filter((r) => tierFilter.has(getDisplayTier(r.name, r.selectivityTier, r.admissionRate, r.size)));
-    }
-    return rows;
-  }, [schoolRankings, searchQuery, ownershipFilter, stateFilter, tierFilter, minPrograms]);
+  const filtered = useMemo(
+    () => filterSchoolRankings(schoolRankings, filters),
+    [schoolRankings, filters],
+  );
 
   // Sort
   const sorted = useMemo(() => {
@@ -156,15 +170,19 @@ export default function CollegeRankings({
       setSortDir((d) => (d === 'asc' ? 'desc' : 'asc'));
     } else {
       setSortField(field);
-      setSortDir(field === 'name' ? 'asc' : 'desc');
+      setSortDir(field === 'name' || field === 'breakEvenYear' ? 'asc' : 'desc');
     }
     setPage(1);
   }, [sortField]);
 
-  const handleSearchChange = useCallback((value: string) => {
-    setSearchQuery(value);
+  const handleFiltersChange = useCallback((next: SchoolFilters) => {
+    // Keep sorting by the outcome column when a different outcome is picked
+    if (sortField === filters.outcome && next.outcome !== filters.outcome) {
+      setSortField(next.outcome);
+    }
+    onFiltersChange(next);
     setPage(1);
-  }, []);
+  }, [onFiltersChange, sortField, filters.outcome]);
 
   const pageNumbers = useMemo(() => {
     const pages: number[] = [];
@@ -185,14 +203,14 @@ export default function CollegeRankings({
           withEarn[0],
         )
       : null;
-    const withROI = filtered.filter((r) => r.roi != null);
-    const bestROI = withROI.length
-      ? withROI.reduce((best, r) =>
-          (r.roi ?? 0) > (best.roi ?? 0) ? r : best,
-          withROI[0],
+    const withNpv = filtered.filter((r) => r.npv != null);
+    const bestNpv = withNpv.length
+      ? withNpv.reduce((best, r) =>
+          (r.npv ?? 0) > (best.npv ?? 0) ? r : best,
+          withNpv[0],
         )
       : null;
-    return { total: filtered.length, highest, bestROI };
+    return { total: filtered.length, highest, bestNpv };
   }, [filtered]);
 
   // Comparison
@@ -219,7 +237,7 @@ export default function CollegeRankings({
   const allChartData = useMemo(() => {
     const all: ScatterDatum[] = [];
     for (const r of schoolRankings) {
-      if (r.programCount < minPrograms) continue;
+      if (r.programCount < filters.minPrograms) continue;
       if (r.costAttendance == null || r[earningsKey] == null) continue;
       const tier = getDisplayTier(r.name, r.selectivityTier, r.admissionRate, r.size);
       all.push({
@@ -233,12 +251,13 @@ export default function CollegeRankings({
         earnings: r[earningsKey]!,
         costAttendance: r.costAttendance,
         programCount: r.programCount,
-        roi: r.roi,
+        npv: r.npv,
+        breakEvenYear: r.breakEvenYear,
         topProgram: r.topProgram,
       });
     }
     return all;
-  }, [schoolRankings, minPrograms, earningsKey]);
+  }, [schoolRankings, filters.minPrograms, earningsKey]);
 
   // Axis domains
   const { xDomain, yDomain } = useMemo(() => {
@@ -256,7 +275,7 @@ export default function CollegeRankings({
   }, [allChartData]);
 
   // Dim/highlight split
-  const hasActiveFilter = !!(searchQuery.trim() || ownershipFilter != null || stateFilter || tierFilter.size > 0 || compareSet.size > 0);
+  const hasActiveFilter = hasSchoolFilters(filters) || compareSet.size > 0;
 
   const { dimmedData, highlightedByTier } = useMemo(() => {
     if (!hasActiveFilter) {
@@ -324,13 +343,6 @@ export default function CollegeRankings({
     chartRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
   }, []);
 
-  const filtersActive = !!(
-    searchQuery ||
-    ownershipFilter != null ||
-    stateFilter ||
-    tierFilter.size > 0
-  );
-
   return (
     <div className="mt-6">
       {/* Stat cards */}
@@ -346,9 +358,9 @@ export default function CollegeRankings({
           detail={stats.highest?.name}
         />
         <StatCard
-          label="Best ROI"
-          value={stats.bestROI?.roi != null ? stats.bestROI.roi.toFixed(1) + 'x' : '\u2014'}
-          detail={stats.bestROI?.name}
+          label="Best Net Present Value"
+          value={formatCurrency(stats.bestNpv?.npv ?? null)}
+          detail={stats.bestNpv?.name}
         />
       </div>
 
@@ -525,8 +537,8 @@ export default function CollegeRankings({
                   <p className="text-sm font-semibold">{formatCurrency(selectedSchoolData.costAttendance)}</p>
                 </div>
                 <div>
-                  <p className="text-[10px] font-medium uppercase tracking-wide text-text-secondary">ROI</p>
-                  <p className="text-sm font-semibold">{selectedSchoolData.roi != null ? selectedSchoolData.roi.toFixed(1) + 'x' : '\u2014'}</p>
+                  <p className="text-[10px] font-medium uppercase tracking-wide text-text-secondary">NPV</p>
+                  <p className="text-sm font-semibold">{formatCurrency(selectedSchoolData.npv)}</p>
                 </div>
                 <div>
                   <p className="text-[10px] font-medium uppercase tracking-wide text-text-secondary">Admit Rate</p>
@@ -534,6 +546,11 @@ export default function CollegeRankings({
                 </div>
               </div>
 
+              {selectedSchoolData.breakEvenYear != null && (
+                <p className="mt-2 text-xs text-text-secondary">
+                  Breaks even <span className="font-medium text-text-primary">{formatPayback(selectedSchoolData.breakEvenYear)}</span> after graduation
+                </p>
+              )}
               {selectedSchoolData.topProgram && (
                 <p className="mt-2 text-xs text-text-secondary">
                   Top program: <span className="font-medium text-text-primary">{selectedSchoolData.topProgram}</span>
@@ -605,8 +622,16 @@ export default function CollegeRankings({
                       <span className="font-medium">{formatCurrency(r.costAttendance)}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-text-secondary">ROI</span>
-                      <span className="font-semibold">{r.roi != null ? r.roi.toFixed(1) + 'x' : '\u2014'}</span>
+                      <span className="text-text-secondary">Net Price</span>
+                      <span className="font-medium">{formatCurrency(r.netPrice)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-text-secondary">NPV</span>
+                      <span className="font-semibold">{formatCurrency(r.npv)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-text-secondary">Break-even</span>
+                      <span className="font-medium">{formatPayback(r.breakEvenYear)}</span>
                     </div>
                     <hr className="border-gray-100" />
                     <div className="flex justify-between">
@@ -632,166 +657,22 @@ export default function CollegeRankings({
       )}
 
       {/* Filters */}
-      <div className="mb-3 flex flex-wrap items-end gap-3 rounded-lg border border-gray-100 bg-gray-50 p-3">
-        <div className="flex-1 sm:flex-none">
-          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
-            Search Schools
-          </label>
-          <div className="relative">
-            <input
-              type="text"
-              placeholder="School name..."
-              value={searchQuery}
-              onChange={(e) => handleSearchChange(e.target.value)}
-              className="w-full rounded-lg border border-gray-200 bg-white px-3 py-1.5 pr-7 text-xs text-text-primary outline-none placeholder:text-text-secondary/50 focus:border-accent sm:w-48"
-            />
-            {searchQuery && (
-              <button
-                onClick={() => handleSearchChange('')}
-                className="absolute right-2 top-1/2 -translate-y-1/2 text-sm text-text-secondary hover:text-text-primary"
-              >
-                &times;
-              </button>
-            )}
-          </div>
-        </div>
-
-        <div>
-          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
-            Min Programs
-          </label>
-          <select
-            value={minPrograms}
-            onChange={(e) => {
-              setMinPrograms(Number(e.target.value));
-              setPage(1);
-            }}
-            className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
-          >
-            {[1, 3, 5, 10, 25].map((n) => (
-              <option key={n} value={n}>
-                {n}+
-              </option>
-            ))}
-          </select>
-        </div>
-
-        <div>
-          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
-            School Type
-          </label>
-          <div className="flex rounded-lg border border-gray-200 bg-white text-xs">
-            {(
-              [
-                [null, 'All'],
-                [1, 'Public'],
-                [2, 'Private'],
-                [3, 'For-Profit'],
-              ] as const
-            ).map(([val, label]) => (
-              <button
-                key={String(val)}
-                onClick={() => {
-                  setOwnershipFilter(val);
-                  setPage(1);
-                }}
-                className={`px-2.5 py-1.5 transition-colors first:rounded-l-lg last:rounded-r-lg ${
-                  ownershipFilter === val
-                    ? 'bg-accent text-white'
-                    : 'text-text-secondary hover:text-text-primary'
-                }`}
-              >
-                {label}
-              </button>
-            ))}
-          </div>
-        </div>
-
-        {states.length > 1 && (
-          <div>
-            <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
-              State
-            </label>
-            <select
-              value={stateFilter}
-              onChange={(e) => {
-                setStateFilter(e.target.value);
-                setPage(1);
-              }}
-              className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
-            >
-              <option value="">All States</option>
-              {states.map((s) => (
-                <option key={s} value={s}>
-                  {s}
-                </option>
-              ))}
-            </select>
-          </div>
-        )}
-
-        <div>
-          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
-            Tier
-          </label>
-          <div className="flex flex-wrap gap-1">
-            {TIER_ORDER.map((t) => (
-              <button
-                key={t}
-                onClick={() => {
-                  setTierFilter((prev) => {
-                    const next = new Set(prev);
-                    if (next.has(t)) next.delete(t);
-                    else next.add(t);
-                    return next;
-                  });
-                  setPage(1);
-                }}
-                className={`rounded-full px-2.5 py-1 text-xs transition-colors ${
-                  tierFilter.has(t)
-                    ? 'bg-accent text-white'
-                    : 'border border-gray-200 bg-white text-text-secondary hover:text-text-primary'
-                }`}
-              >
-                {t}
-              </button>
-            ))}
-            {tierFilter.size > 0 && (
-              <button
-                onClick={() => { setTierFilter(new Set()); setPage(1); }}
-                className="rounded-full px-2 py-1 text-xs text-accent hover:bg-accent/10"
-              >
-                Clear
-              </button>
-            )}
-          </div>
-        </div>
-
-        {filtersActive && (
-          <button
-            onClick={() => {
-              setSearchQuery('');
-              setOwnershipFilter(null);
-              setStateFilter('');
-              setTierFilter(new Set());
-              setPage(1);
-            }}
-            className="rounded-lg px-2 py-1.5 text-xs text-accent hover:bg-accent/10"
-          >
-            Clear filters
-          </button>
-        )}
-      </div>
+      <SchoolFilterBar filters={filters} onChange={handleFiltersChange} states={states}>
+        <IncomeSelect value={incomeBracket} onChange={setIncomeBracket} />
+      </SchoolFilterBar>
 
       {/* Count */}
-      <p className="mb-2 text-xs text-text-secondary">
-        {filtered.length} of {schoolRankings.length} colleges
-        {compareSet.size > 0 && (
-          <span className="ml-2 rounded-full bg-accent/10 px-2 py-0.5 text-accent">
-            {compareSet.size}/4 selected
-          </span>
-        )}
-      </p>
+      <div className="mb-2 flex items-center justify-between">
+        <p className="text-xs text-text-secondary">
+          {filtered.length} of {schoolRankings.length} colleges
+          {compareSet.size > 0 && (
+            <span className="ml-2 rounded-full bg-accent/10 px-2 py-0.5 text-accent">
+              {compareSet.size}/4 selected
+            </span>
+          )}
+        </p>
+        <ExportButton rows={sorted} columns={SCHOOL_RANKING_COLUMNS} filename="college-rankings" />
+      </div>
 
       {/* Table */}
       <div className="overflow-x-auto rounded-lg border border-gray-100">
@@ -834,13 +715,37 @@ export default function CollegeRankings({
                 className="hidden text-right sm:table-cell"
               />
               <SortableHeader<SortField>
-                label="ROI"
-                sortKey="roi"
+                label="NPV"
+                sortKey="npv"
                 currentSortKey={sortField}
                 currentSortDir={sortDir}
                 onClick={handleSort}
                 className="text-right"
               />
+              <SortableHeader<SortField>
+                label="Break-even"
+                sortKey="breakEvenYear"
+                currentSortKey={sortField}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+                className="hidden text-right lg:table-cell"
+              />
+              <SortableHeader<SortField>
+                label="Value Added"
+                sortKey="valueAddedEarn1yr"
+                currentSortKey={sortField}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+                className="hidden text-right lg:table-cell"
+              />
+              <SortableHeader<SortField>
+                label="Net Premium"
+                sortKey="netPremium"
+                currentSortKey={sortField}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+                className="hidden text-right lg:table-cell"
+              />
               <SortableHeader<SortField>
                 label="Admit"
                 sortKey="admissionRate"
@@ -849,6 +754,14 @@ export default function CollegeRankings({
                 onClick={handleSort}
                 className="hidden text-right md:table-cell"
               />
+              <SortableHeader<SortField>
+                label={outcomeField(filters.outcome).shortLabel}
+                sortKey={filters.outcome}
+                currentSortKey={sortField}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+                className="hidden text-right md:table-cell"
+              />
               <th className="hidden px-3 py-2 text-xs font-medium text-text-secondary sm:table-cell">
                 Top Program
               </th>
@@ -921,11 +834,31 @@ export default function CollegeRankings({
                     {formatCurrency(r.costAttendance)}
                   </td>
                   <td className="px-3 py-2.5 text-right text-sm tabular-nums font-semibold text-text-primary">
-                    {r.roi != null ? r.roi.toFixed(1) + 'x' : '\u2014'}
+                    {formatCurrency(r.npv)}
+                  </td>
+                  <td className="hidden px-3 py-2.5 text-right text-sm tabular-nums text-text-secondary lg:table-cell">
+                    {formatPayback(r.breakEvenYear)}
+                  </td>
+                  <td
+                    className={`hidden px-3 py-2.5 text-right text-sm tabular-nums lg:table-cell ${
+                      (r.valueAddedEarn1yr ?? 0) < 0 ? 'text-earn-below' : 'text-text-secondary'
+                    }`}
+                  >
+                    {formatCurrency(r.valueAddedEarn1yr)}
+                  </td>
+                  <td
+                    className={`hidden px-3 py-2.5 text-right text-sm tabular-nums lg:table-cell ${
+                      (r.netPremium ?? 0) < 0 ? 'text-earn-below' : 'text-text-secondary'
+                    }`}
+                  >
+                    {formatCurrency(r.netPremium)}
                   </td>
                   <td className="hidden px-3 py-2.5 text-right text-sm tabular-nums text-text-secondary md:table-cell">
                     {formatRate(r.admissionRate)}
                   </td>
+                  <td className="hidden px-3 py-2.5 text-right text-sm tabular-nums text-text-secondary md:table-cell">
+                    {formatRate(r[filters.outcome])}
+                  </td>
                   <td className="hidden max-w-[200px] truncate px-3 py-2.5 text-xs text-text-secondary sm:table-cell">
                     {r.topProgram ?? '\u2014'}
                   </td>
@@ -938,7 +871,7 @@ export default function CollegeRankings({
             {paginated.length === 0 && (
               <tr>
                 <td
-                  colSpan={10}
+                  colSpan={14}
                   className="px-3 py-8 text-center text-sm text-text-secondary"
                 >
                   No colleges match your filters
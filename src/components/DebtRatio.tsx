@@ -0,0 +1,25 @@
+import { formatCurrency, formatRatio } from '@/lib/formatters';
+
+interface DebtRatioProps {
+  debtToEarnings: number | null;
+  medianDebt: number | null;
+  monthlyPayment: number | null;
+  warning: string | null; // from debtWarning; flags the program when set
+}
+
+// Debt-to-earnings with a "High debt" flag when the program fails an affordability limit
+export default function DebtRatio({ debtToEarnings, medianDebt, monthlyPayment, warning }: DebtRatioProps) {
+  const title = medianDebt != null
+    ? `Median debt ${formatCurrency(medianDebt)} · about ${formatCurrency(monthlyPayment)}/mo${warning ? ` · ${warning}` : ''}`
+    : undefined;
+  return (
+    <span className="inline-flex items-center gap-1.5" title={title}>
+      <span className={warning ? 'font-medium text-earn-below' : undefined}>{formatRatio(debtToEarnings)}</span>
+      {warning && (
+        <span className="rounded-full bg-earn-below/10 px-1.5 py-0.5 text-[10px] font-medium text-earn-below">
+          High debt
+        </span>
+      )}
+    </span>
+  );
+}
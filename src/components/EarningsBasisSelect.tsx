@@ -0,0 +1,67 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { EarningsBasis } from '@/types';
+import { EARNINGS_BASES } from '@/lib/shrinkage';
+
+const STORAGE_KEY = 'heo_earnings_basis';
+const CHANGE_EVENT = 'heo-earnings-basis';
+
+function readStored(): EarningsBasis {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  return EARNINGS_BASES.find((b) => b.key === raw)?.key ?? 'raw';
+}
+
+/**
+ * Whether program tables show and rank on reported or sample-size adjusted
+ * earnings, remembered across pages.
+ */
+export function useEarningsBasis(): [EarningsBasis, (basis: EarningsBasis) => void] {
+  const [basis, setBasis] = useState<EarningsBasis>('raw');
+
+  useEffect(() => {
+    const sync = () => setBasis(readStored());
+    sync();
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  const update = useCallback((next: EarningsBasis) => {
+    if (next === 'raw') localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, next);
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  return [basis, update];
+}
+
+interface EarningsBasisSelectProps {
+  value: EarningsBasis;
+  onChange: (basis: EarningsBasis) => void;
+}
+
+export default function EarningsBasisSelect({ value, onChange }: EarningsBasisSelectProps) {
+  return (
+    <div>
+      <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+        Rank By Earnings
+      </label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as EarningsBasis)}
+        title="Adjusted earnings pull programs with few graduates toward the average for their field and tier"
+        className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+      >
+        {EARNINGS_BASES.map((b) => (
+          <option key={b.key} value={b.key}>
+            {b.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
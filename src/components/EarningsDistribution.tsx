@@ -0,0 +1,105 @@
+import type { MajorSummary } from '@/types';
+import { formatCompact, formatCurrency } from '@/lib/formatters';
+
+interface DistributionRow {
+  key: 'earn1yr' | 'earn5yr';
+  label: string;
+  p10: number | null;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number | null;
+}
+
+interface EarningsDistributionProps {
+  major: MajorSummary;
+  active: 'earn1yr' | 'earn5yr'; // the horizon the rest of the page shows; the other row is dimmed
+}
+
+function distributionRows(major: MajorSummary): DistributionRow[] {
+  const candidates = [
+    { key: 'earn1yr' as const, label: '1-Year', p10: major.p10Earn1yr, p25: major.p25Earn1yr, median: major.medianEarn1yr, p75: major.p75Earn1yr, p90: major.p90Earn1yr },
+    { key: 'earn5yr' as const, label: '5-Year', p10: major.p10Earn5yr, p25: major.p25Earn5yr, median: major.medianEarn5yr, p75: major.p75Earn5yr, p90: major.p90Earn5yr },
+  ];
+  return candidates.filter(
+    (r): r is DistributionRow => r.p25 != null && r.median != null && r.p75 != null,
+  );
+}
+
+// Round the axis out to a step that gives at most five intervals
+function axisTicks(min: number, max: number): number[] {
+  const steps = [5000, 10000, 20000, 25000, 50000, 100000];
+  const step = steps.find((s) => Math.ceil(max / s) - Math.floor(min / s) <= 5) ?? steps[steps.length - 1];
+  const ticks: number[] = [];
+  for (let t = Math.floor(min / step) * step; t <= Math.ceil(max / step) * step; t += step) ticks.push(t);
+  return ticks;
+}
+
+// Box plot of program earnings across schools, weighted by graduate count:
+// whiskers span the 10th to 90th percentile, the box the 25th to 75th, with a
+// line at the median. Releases processed before the outer percentiles were
+// kept draw the box alone.
+export default function EarningsDistribution({ major, active }: EarningsDistributionProps) {
+  const rows = distributionRows(major);
+  if (rows.length === 0) return null;
+
+  const values = rows.flatMap((r) => [r.p10 ?? r.p25, r.p90 ?? r.p75]);
+  const ticks = axisTicks(Math.min(...values), Math.max(...values));
+  const lo = ticks[0];
+  const span = ticks[ticks.length - 1] - lo || 1;
+  const pct = (v: number) => `${((v - lo) / span) * 100}%`;
+  const width = (from: number, to: number) => `${((to - from) / span) * 100}%`;
+
+  return (
+    <div className="mt-6 space-y-3">
+      <h2 className="text-sm font-semibold text-text-primary">Earnings Distribution</h2>
+      <div className="rounded-lg border border-gray-100 bg-white p-3 shadow-sm sm:p-4">
+        <div className="space-y-3">
+          {rows.map((r) => (
+            <div
+              key={r.key}
+              className={`flex items-center gap-3 ${r.key === active ? '' : 'opacity-40'}`}
+              title={[
+                r.p10 != null ? `10th: ${formatCurrency(r.p10)}` : null,
+                `25th: ${formatCurrency(r.p25)}`,
+                `Median: ${formatCurrency(r.median)}`,
+                `75th: ${formatCurrency(r.p75)}`,
+                r.p90 != null ? `90th: ${formatCurrency(r.p90)}` : null,
+              ].filter(Boolean).join('\n')}
+            >
+              <span className="w-12 shrink-0 text-xs text-text-secondary">{r.label}</span>
+              <div className="relative h-7 flex-1">
+                {r.p10 != null && r.p90 != null && (
+                  <>
+                    <span
+                      className="absolute top-1/2 h-px bg-gray-400"
+                      style={{ left: pct(r.p10), width: width(r.p10, r.p90) }}
+                    />
+                    <span className="absolute inset-y-1.5 w-px bg-gray-400" style={{ left: pct(r.p10) }} />
+                    <span className="absolute inset-y-1.5 w-px bg-gray-400" style={{ left: pct(r.p90) }} />
+                  </>
+                )}
+                <span
+                  className="absolute inset-y-0 rounded-sm border border-accent bg-accent/15"
+                  style={{ left: pct(r.p25), width: width(r.p25, r.p75) }}
+                />
+                <span className="absolute inset-y-0 w-0.5 -translate-x-1/2 bg-accent" style={{ left: pct(r.median) }} />
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="relative ml-[3.75rem] mt-1 h-4 text-[10px] text-text-secondary">
+          {ticks.map((t) => (
+            <span key={t} className="absolute -translate-x-1/2" style={{ left: pct(t) }}>
+              {formatCompact(t)}
+            </span>
+          ))}
+        </div>
+        <p className="mt-2 text-center text-xs text-text-secondary">
+          Box: 25th&ndash;75th percentile &middot; whiskers: 10th&ndash;90th &middot; line: median.
+          Programs are weighted by their number of graduates.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { EXPORT_FORMATS, EXPORT_MIME, serializeExport, type ExportColumn, type ExportFormat } from '@/lib/export';
+
+interface ExportButtonProps<T> {
+  rows: T[];
+  columns: ExportColumn<T>[];
+  filename: string;
+  className?: string;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  xlsx: 'Excel (.xlsx)',
+};
+
+export default function ExportButton<T>({ rows, columns, filename, className }: ExportButtonProps<T>) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleExport = useCallback(
+    (format: ExportFormat) => {
+      const content = serializeExport(rows, columns, format, filename);
+      const blob = new Blob([content as BlobPart], { type: EXPORT_MIME[format] });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${filename}.${format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+      setOpen(false);
+    },
+    [rows, columns, filename],
+  );
+
+  return (
+    <div ref={ref} className={`relative inline-block ${className ?? ''}`}>
+      <button
+        onClick={() => setOpen((o) => !o)}
+        disabled={rows.length === 0}
+        className="inline-flex items-center gap-1.5 rounded-lg border border-gray-200 px-2.5 py-1.5 text-xs text-text-secondary transition-colors hover:border-accent hover:text-accent disabled:opacity-50"
+      >
+        <svg
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+          <polyline points="7 10 12 15 17 10" />
+          <line x1="12" y1="15" x2="12" y2="3" />
+        </svg>
+        Export
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-36 rounded-lg border border-gray-200 bg-white py-1 shadow-lg">
+          {EXPORT_FORMATS.map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="block w-full px-3 py-1.5 text-left text-xs text-text-primary hover:bg-gray-50"
+            >
+              {FORMAT_LABELS[format]}
+            </button>
+          ))}
+          <p className="border-t border-gray-100 px-3 pt-1.5 pb-1 text-[10px] text-text-secondary">
+            {rows.length.toLocaleString()} rows
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import Link from 'next/link';
+import type { GraduateUplift } from '@/types';
+import { formatCurrency, formatPercent, formatPayback } from '@/lib/formatters';
+import { getCredential } from '@/lib/credentials';
+import StatCard from './StatCard';
+
+const COLLAPSED_ROWS = 10;
+
+interface GraduateUpliftPanelProps {
+  national: GraduateUplift[];
+  schools: GraduateUplift[];
+}
+
+function upliftColor(value: number): string {
+  if (value > 0) return 'text-earn-above';
+  if (value < 0) return 'text-earn-below';
+  return 'text-earn-neutral';
+}
+
+export default function GraduateUpliftPanel({ national, schools }: GraduateUpliftPanelProps) {
+  const levels = useMemo(
+    () => [...new Set([...national, ...schools].map((u) => u.credLevel))].sort((a, b) => a - b),
+    [national, schools],
+  );
+  const [credLevel, setCredLevel] = useState(levels.includes(5) ? 5 : levels[0]);
+  const [expanded, setExpanded] = useState(false);
+
+  const nationalRow = national.find((u) => u.credLevel === credLevel) ?? null;
+  const schoolRows = useMemo(
+    () =>
+      schools
+        .filter((u) => u.credLevel === credLevel)
+        .sort((a, b) => b.upliftEarn1yr - a.upliftEarn1yr),
+    [schools, credLevel],
+  );
+  const shownRows = expanded ? schoolRows : schoolRows.slice(0, COLLAPSED_ROWS);
+  const label = getCredential(credLevel)?.shortLabel ?? 'Graduate';
+
+  if (levels.length === 0) return null;
+
+  return (
+    <section className="mt-10">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-text-primary">Is a Graduate Degree Worth It?</h2>
+          <p className="mt-1 text-sm text-text-secondary">
+            First-year earnings after a graduate credential compared with a bachelor&rsquo;s in
+            the same field, and how long the extra years take to pay for themselves.
+          </p>
+        </div>
+        {levels.length > 1 && (
+          <div className="flex flex-wrap gap-1.5 text-xs">
+            {levels.map((level) => (
+              <button
+                key={level}
+                onClick={() => {
+                  setCredLevel(level);
+                  setExpanded(false);
+                }}
+                className={`rounded-full border px-3 py-1 transition-colors ${
+                  level === credLevel
+                    ? 'border-accent bg-accent text-white'
+                    : 'border-gray-200 text-text-secondary hover:text-text-primary'
+                }`}
+              >
+                {getCredential(level)?.shortLabel ?? `Level ${level}`}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {nationalRow && (
+        <div className="mt-4 grid grid-cols-2 gap-3 sm:grid-cols-4">
+          <StatCard label="Bachelor's (1yr)" value={formatCurrency(nationalRow.bachelorEarn1yr)} detail="National average" />
+          <StatCard
+            label={`${label} (1yr)`}
+            value={formatCurrency(nationalRow.graduateEarn1yr)}
+            detail={`${formatCurrency(nationalRow.upliftEarn1yr)} (${formatPercent(nationalRow.upliftPct)})`}
+            detailColor={upliftColor(nationalRow.upliftEarn1yr)}
+          />
+          <StatCard
+            label="Incremental Cost"
+            value={formatCurrency(nationalRow.incrementalCost)}
+            detail={`${nationalRow.extraYears} yr${nationalRow.extraYears === 1 ? '' : 's'} of net price and earnings`}
+          />
+          <StatCard
+            label="Break-even"
+            value={formatPayback(nationalRow.breakEvenYear)}
+            detail={nationalRow.breakEvenYear != null ? 'after finishing' : 'Not within a career'}
+          />
+        </div>
+      )}
+
+      {schoolRows.length > 0 && (
+        <>
+          <p className="mt-4 text-xs text-text-secondary">
+            {schoolRows.length} school{schoolRows.length === 1 ? '' : 's'} offer both the
+            bachelor&rsquo;s and the {label.toLowerCase()} in this field
+          </p>
+          <div className="mt-2 overflow-x-auto rounded-lg border border-gray-100 bg-white shadow-sm">
+            <table className="w-full text-xs">
+              <thead className="border-b border-gray-100 bg-gray-50 text-left">
+                <tr>
+                  <th className="px-3 py-2 font-medium text-text-secondary">School</th>
+                  <th className="px-3 py-2 text-right font-medium text-text-secondary">Bachelor&rsquo;s (1yr)</th>
+                  <th className="px-3 py-2 text-right font-medium text-text-secondary">{label} (1yr)</th>
+                  <th className="px-3 py-2 text-right font-medium text-text-secondary">Uplift</th>
+                  <th className="hidden px-3 py-2 text-right font-medium text-text-secondary sm:table-cell">
+                    Incremental Cost
+                  </th>
+                  <th className="hidden px-3 py-2 text-right font-medium text-text-secondary sm:table-cell">
+                    Break-even
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {shownRows.map((u) => (
+                  <tr key={u.unitId} className="border-t border-gray-50">
+                    <td className="px-3 py-2">
+                      <Link
+                        href={`/schools/${u.unitId}?from=majors`}
+                        className="font-medium text-accent hover:underline"
+                      >
+                        {u.schoolName}
+                      </Link>
+                    </td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(u.bachelorEarn1yr)}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(u.graduateEarn1yr)}</td>
+                    <td className={`px-3 py-2 text-right font-medium ${upliftColor(u.upliftEarn1yr)}`}>
+                      {formatCurrency(u.upliftEarn1yr)}{' '}
+                      <span className="font-normal text-text-secondary">({formatPercent(u.upliftPct)})</span>
+                    </td>
+                    <td className="hidden px-3 py-2 text-right sm:table-cell">{formatCurrency(u.incrementalCost)}</td>
+                    <td className="hidden px-3 py-2 text-right sm:table-cell">{formatPayback(u.breakEvenYear)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {schoolRows.length > COLLAPSED_ROWS && (
+            <button
+              onClick={() => setExpanded((e) => !e)}
+              className="mt-2 text-xs text-accent hover:underline"
+            >
+              {expanded ? 'Show fewer' : `Show all ${schoolRows.length} schools`}
+            </button>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
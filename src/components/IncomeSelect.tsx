@@ -0,0 +1,66 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { INCOME_BRACKETS, type IncomeBracket } from '@/lib/calculator';
+
+const STORAGE_KEY = 'heo_income_bracket';
+const CHANGE_EVENT = 'heo-income-bracket';
+
+function readStored(): IncomeBracket | null {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  return INCOME_BRACKETS.find((b) => b.key === raw)?.key ?? null;
+}
+
+/**
+ * The visitor's family income bracket, remembered across pages. Null means
+ * the overall average net price.
+ */
+export function useIncomeBracket(): [IncomeBracket | null, (bracket: IncomeBracket | null) => void] {
+  const [bracket, setBracket] = useState<IncomeBracket | null>(null);
+
+  useEffect(() => {
+    const sync = () => setBracket(readStored());
+    sync();
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  const update = useCallback((next: IncomeBracket | null) => {
+    if (next) localStorage.setItem(STORAGE_KEY, next);
+    else localStorage.removeItem(STORAGE_KEY);
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  return [bracket, update];
+}
+
+interface IncomeSelectProps {
+  value: IncomeBracket | null;
+  onChange: (bracket: IncomeBracket | null) => void;
+}
+
+export default function IncomeSelect({ value, onChange }: IncomeSelectProps) {
+  return (
+    <div>
+      <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+        My Family Income
+      </label>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange((e.target.value || null) as IncomeBracket | null)}
+        className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+      >
+        <option value="">All incomes (average)</option>
+        {INCOME_BRACKETS.map((b) => (
+          <option key={b.key} value={b.key}>
+            {b.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
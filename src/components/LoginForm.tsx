@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+
+interface LoginFormProps {
+  next: string;
+}
+
+export default function LoginForm({ next }: LoginFormProps) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        setError(json.error ?? 'Sign in failed');
+        return;
+      }
+      // Full navigation so the proxy sees the new session cookie
+      window.location.assign(next);
+    } catch {
+      setError('Sign in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 space-y-3">
+      <div>
+        <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+          Username
+        </label>
+        <input
+          type="text"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          required
+          className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-text-primary outline-none focus:border-accent"
+        />
+      </div>
+      <div>
+        <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+          Password
+        </label>
+        <input
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-text-primary outline-none focus:border-accent"
+        />
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full rounded-lg bg-accent px-3 py-2 text-sm font-medium text-white transition-opacity hover:opacity-90 disabled:opacity-50"
+      >
+        {submitting ? 'Signing in...' : 'Sign in'}
+      </button>
+    </form>
+  );
+}
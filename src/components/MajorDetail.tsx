@@ -10,18 +10,46 @@ import {
   CartesianGrid,
   ReferenceLine,
   ResponsiveContainer,
+  ErrorBar,
 } from 'recharts';
 import Link from 'next/link';
-import type { MajorSummary, ProgramRecord, SortDir } from '@/types';
-import { formatCurrency, formatCompact, formatRate, formatNumber, formatPercent } from '@/lib/formatters';
+import type { EarningsTrendPoint, MajorProgramRecord, MajorSummary, SortDir } from '@/types';
+import { formatCurrency, formatCompact, formatRate, formatNumber, formatPercent, formatPayback, formatRatio } from '@/lib/formatters';
 import { getDisplayTier, TIER_COLORS, TIER_ORDER } from '@/lib/tiers';
+import { getCipCategory } from '@/lib/cip-categories';
+import type { ExportColumn } from '@/lib/export';
+import { yearOverYear } from '@/lib/trends';
 import { generateMajorDescription } from '@/lib/descriptions';
+import { getCredential } from '@/lib/credentials';
+import { debtWarning, DEBT_TO_EARNINGS_LIMIT } from '@/lib/loans';
+import { errorBar, headlineEarnings, reliability, reliabilityNote } from '@/lib/confidence';
+import { rankedEarnings } from '@/lib/shrinkage';
+import { roiAtIncome } from '@/lib/net-price';
+import {
+  DEFAULT_CHARACTERISTIC_FILTERS,
+  hasCharacteristicFilters,
+  matchesCharacteristics,
+  type CharacteristicFilters,
+} from '@/lib/characteristics';
 import StatCard from './StatCard';
 import ShareButton from './ShareButton';
 import SortableHeader from './SortableHeader';
+import RepaymentChart from './RepaymentChart';
+import ExportButton from './ExportButton';
+import Sparkline from './Sparkline';
+import DebtRatio from './DebtRatio';
+import CharacteristicSelects from './CharacteristicSelects';
+import ReliabilityBadge from './ReliabilityBadge';
+import MinGraduatesSelect from './MinGraduatesSelect';
+import EarningsBasisSelect, { useEarningsBasis } from './EarningsBasisSelect';
+import EarningsDistribution from './EarningsDistribution';
+import IncomeSelect, { useIncomeBracket } from './IncomeSelect';
 
 type EarningsKey = 'earn1yr' | 'earn5yr';
-type SortField = 'schoolName' | 'earn1yr' | 'earn5yr' | 'cost' | 'multiple' | 'admissionRate';
+type XAxisKey = 'cost' | 'debtToEarnings';
+type SortField =
+  | 'schoolName' | 'earn1yr' | 'earn5yr' | 'yoyChange' | 'cost' | 'npv' | 'breakEvenYear'
+  | 'debtToEarnings' | 'admissionRate' | 'graduates';
 
 const PAGE_SIZE = 25;
 
@@ -35,6 +63,9 @@ interface DotDatum {
   credTitle: string;
   costAttendance: number;
   earnings: number;
+  earningsCount: number | null; // graduates behind `earnings`
+  earningsError: [number, number] | null; // 95% interval, as distances below and above
+  debtToEarnings: number | null;
   admissionRate: number | null;
 }
 
@@ -48,7 +79,13 @@ function ChartTooltip({ active, payload }: { active?: boolean; payload?: Array<{
       <div className="mt-1.5 flex gap-4 text-xs">
         <span>Earnings: <strong className="text-earn-above">{formatCurrency(d.earnings)}</strong></span>
         <span>Cost: <strong>{formatCurrency(d.costAttendance)}</strong></span>
+        {d.debtToEarnings != null && (
+          <span>Debt: <strong>{formatRatio(d.debtToEarnings)}</strong></span>
+        )}
       </div>
+      {d.earningsCount != null && (
+        <p className="mt-1 text-[10px] text-text-secondary">{reliabilityNote(d.earnings, d.earningsCount)}</p>
+      )}
       {d.admissionRate != null && (
         <p className="mt-1 text-[10px] text-text-secondary">
           Acceptance: {formatRate(d.admissionRate)}
@@ -67,7 +104,9 @@ function ChartTooltip({ active, payload }: { active?: boolean; payload?: Array<{
 
 interface MajorDetailProps {
   major: MajorSummary;
-  programs: ProgramRecord[];
+  programs: MajorProgramRecord[];
+  trends: Record<string, EarningsTrendPoint[]>; // by `${unitId}-${credLevel}`, across releases
+  credLevels: number[]; // every credential level with a summary for this major
   fromTab?: string;
 }
 
@@ -79,22 +118,73 @@ interface RankedRow {
   tier: string;
   credTitle: string;
   earn1yr: number | null;
+  earn4yr: number | null;
   earn5yr: number | null;
+  earn1yrCount: number | null;
+  earn5yrCount: number | null;
+  graduates: number | null; // graduates behind the headline earnings figure
+  adjustedEarn1yr: number | null;
+  adjustedEarn5yr: number | null;
+  trend: EarningsTrendPoint[];
+  yoyChange: number | null;
+  yoyLabel: string | null;
   cost: number;
-  multiple: number;
+  totalCost: number | null;
+  npv: number | null;
+  breakEvenYear: number | null;
+  valueAddedEarn1yr: number | null;
+  netPremium: number | null;
+  medianDebt: number | null;
+  debtToEarnings: number | null;
+  monthlyPayment: number | null;
+  debtWarning: string | null;
   admissionRate: number | null;
   satCombined: number | null;
 }
 
-export default function MajorDetail({ major, programs, fromTab }: MajorDetailProps) {
+const EXPORT_COLUMNS: ExportColumn<RankedRow>[] = [
+  { key: 'rank', header: 'Rank', value: (r) => r.rank },
+  { key: 'unitId', header: 'Unit ID', value: (r) => r.unitId },
+  { key: 'schoolName', header: 'School', value: (r) => r.schoolName },
+  { key: 'state', header: 'State', value: (r) => r.state },
+  { key: 'tier', header: 'Tier', value: (r) => r.tier },
+  { key: 'credTitle', header: 'Credential', value: (r) => r.credTitle },
+  { key: 'earn1yr', header: 'Earnings (1yr)', value: (r) => r.earn1yr },
+  { key: 'earn4yr', header: 'Earnings (4yr)', value: (r) => r.earn4yr },
+  { key: 'earn5yr', header: 'Earnings (5yr)', value: (r) => r.earn5yr },
+  { key: 'adjustedEarn1yr', header: 'Adjusted Earnings (1yr)', value: (r) => r.adjustedEarn1yr },
+  { key: 'adjustedEarn5yr', header: 'Adjusted Earnings (5yr)', value: (r) => r.adjustedEarn5yr },
+  { key: 'yoyChange', header: 'YoY Change (1yr, %)', value: (r) => r.yoyChange },
+  { key: 'earn1yrCount', header: 'Graduates Reported (1yr)', value: (r) => r.earn1yrCount },
+  { key: 'earn5yrCount', header: 'Graduates Reported (5yr)', value: (r) => r.earn5yrCount },
+  { key: 'reliability', header: 'Reliability', value: (r) => reliability(r.graduates) },
+  { key: 'costAttendance', header: 'Cost of Attendance', value: (r) => r.cost || null },
+  { key: 'totalCost', header: 'Total Net Cost', value: (r) => r.totalCost },
+  { key: 'npv', header: 'NPV', value: (r) => r.npv },
+  { key: 'breakEvenYear', header: 'Break-even (yrs)', value: (r) => r.breakEvenYear },
+  { key: 'valueAddedEarn1yr', header: 'Value Added (1yr)', value: (r) => r.valueAddedEarn1yr },
+  { key: 'netPremium', header: 'Net Lifetime Premium', value: (r) => r.netPremium },
+  { key: 'medianDebt', header: 'Median Debt', value: (r) => r.medianDebt },
+  { key: 'debtToEarnings', header: 'Debt-to-Earnings', value: (r) => r.debtToEarnings },
+  { key: 'monthlyPayment', header: 'Monthly Payment (est.)', value: (r) => r.monthlyPayment },
+  { key: 'admissionRate', header: 'Admission Rate', value: (r) => r.admissionRate },
+  { key: 'satCombined', header: 'SAT (75th pct)', value: (r) => r.satCombined },
+];
+
+export default function MajorDetail({ major, programs, trends, credLevels, fromTab }: MajorDetailProps) {
   const [sortField, setSortField] = useState<SortField>('earn1yr');
   const [sortDir, setSortDir] = useState<SortDir>('desc');
   const [searchQuery, setSearchQuery] = useState('');
   const [ownershipFilter, setOwnershipFilter] = useState<number | null>(null);
   const [stateFilter, setStateFilter] = useState('');
   const [tierFilter, setTierFilter] = useState<Set<string>>(new Set());
+  const [characteristicFilters, setCharacteristicFilters] = useState<CharacteristicFilters>(DEFAULT_CHARACTERISTIC_FILTERS);
+  const [minGraduates, setMinGraduates] = useState(0);
+  const [earningsBasis, setEarningsBasis] = useEarningsBasis();
+  const [incomeBracket, setIncomeBracket] = useIncomeBracket();
   const [page, setPage] = useState(1);
   const [earningsKey, setEarningsKey] = useState<EarningsKey>('earn1yr');
+  const [xAxisKey, setXAxisKey] = useState<XAxisKey>('cost');
   const [selectedSchool, setSelectedSchool] = useState<number | null>(null);
   const [compareSet, setCompareSet] = useState<Set<number>>(new Set());
   const chartRef = useRef<HTMLDivElement>(null);
@@ -118,27 +208,52 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
   const allRows = useMemo(() => {
     return programs
       .filter((p) => p.earn1yr != null || p.earn5yr != null)
-      .map((p) => ({
-        rank: 0,
-        unitId: p.unitId,
-        schoolName: p.schoolName,
-        state: p.state,
-        tier: getDisplayTier(p.schoolName, p.selectivityTier || '', p.admissionRate, p.size),
-        credTitle: p.credTitle,
-        earn1yr: p.earn1yr,
-        earn5yr: p.earn5yr,
-        cost: p.costAttendance ?? 0,
-        multiple:
-          p.costAttendance && p.earn1yr
-            ? p.earn1yr / p.costAttendance
-            : 0,
-        admissionRate: p.admissionRate,
-        satCombined:
-          p.satMath75 != null && p.satRead75 != null
-            ? p.satMath75 + p.satRead75
-            : null,
-      }));
-  }, [programs]);
+      .map((p) => {
+        const trend = trends[`${p.unitId}-${p.credLevel}`] ?? [];
+        const yoy = yearOverYear(trend);
+        // Cost and ROI at the net price paid by families in the chosen income bracket
+        const cost = incomeBracket
+          ? roiAtIncome(p.netPrice, p, incomeBracket, p, p.state, getCredential(p.credLevel)?.years)
+          : p;
+        return {
+          rank: 0,
+          unitId: p.unitId,
+          schoolName: p.schoolName,
+          state: p.state,
+          tier: getDisplayTier(p.schoolName, p.selectivityTier || '', p.admissionRate, p.size),
+          credTitle: p.credTitle,
+          earn1yr: p.earn1yr,
+          earn4yr: p.earn4yr,
+          earn5yr: p.earn5yr,
+          earn1yrCount: p.earn1yrCount,
+          earn5yrCount: p.earn5yrCount,
+          graduates: headlineEarnings(p).count,
+          adjustedEarn1yr: p.adjustedEarn1yr,
+          adjustedEarn5yr: p.adjustedEarn5yr,
+          trend,
+          yoyChange: yoy?.change ?? null,
+          yoyLabel: yoy ? `${yoy.fromYear} \u2192 ${yoy.toYear}` : null,
+          cost: p.costAttendance ?? 0,
+          totalCost: cost.totalCost,
+          npv: cost.npv,
+          breakEvenYear: cost.breakEvenYear,
+          valueAddedEarn1yr: p.valueAddedEarn1yr,
+          netPremium: cost.netPremium,
+          medianDebt: p.medianDebt,
+          debtToEarnings: p.debtToEarnings,
+          monthlyPayment: p.monthlyPayment,
+          debtWarning: debtWarning(p, p.earn1yr),
+          admissionRate: p.admissionRate,
+          satCombined:
+            p.satMath75 != null && p.satRead75 != null
+              ? p.satMath75 + p.satRead75
+              : null,
+        };
+      });
+  }, [programs, trends, incomeBracket]);
+
+  const hasTrends = Object.keys(trends).length > 0;
+  const hasDebt = allRows.some((r) => r.debtToEarnings != null);
 
   // Apply filters
   const filtered = useMemo(() => {
@@ -161,35 +276,51 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
     if (tierFilter.size > 0) {
       rows = rows.filter((r) => tierFilter.has(r.tier));
     }
+    if (hasCharacteristicFilters(characteristicFilters)) {
+      const matching = new Set(
+        programs
+          .filter((p) => matchesCharacteristics(p, characteristicFilters))
+          .map((p) => p.unitId),
+      );
+      rows = rows.filter((r) => matching.has(r.unitId));
+    }
+    if (minGraduates > 0) {
+      rows = rows.filter((r) => r.graduates != null && r.graduates >= minGraduates);
+    }
     return rows;
-  }, [allRows, searchQuery, ownershipFilter, stateFilter, tierFilter, programs]);
+  }, [allRows, searchQuery, ownershipFilter, stateFilter, tierFilter, characteristicFilters, minGraduates, programs]);
 
   // Static axes — computed from max of BOTH earn1yr and earn5yr so toggle doesn't rescale
   const { xDomain, yDomain, yTicks } = useMemo(() => {
     let maxX = 0, maxY = 0;
     for (const r of allRows) {
-      if (r.cost <= 0) continue;
-      if (r.cost > maxX) maxX = r.cost;
+      const x = xAxisKey === 'cost' ? r.cost : r.debtToEarnings;
+      if (x == null || x <= 0) continue;
+      if (x > maxX) maxX = x;
       if (r.earn1yr != null && r.earn1yr > maxY) maxY = r.earn1yr;
       if (r.earn5yr != null && r.earn5yr > maxY) maxY = r.earn5yr;
     }
     const yMax = Math.max(100000, Math.ceil(maxY / 25000) * 25000);
-    const xMax = Math.max(80000, Math.ceil(maxX / 10000) * 10000);
+    const xMax = xAxisKey === 'cost'
+      ? Math.max(80000, Math.ceil(maxX / 10000) * 10000)
+      : Math.max(2, Math.ceil(maxX * 2) / 2);
     const ticks = Array.from({ length: yMax / 25000 + 1 }, (_, i) => i * 25000);
     return {
       xDomain: [0, xMax] as [number, number],
       yDomain: [0, yMax] as [number, number],
       yTicks: ticks,
     };
-  }, [allRows]);
+  }, [allRows, xAxisKey]);
 
   // Chart data points — recomputed on toggle but axes stay fixed
   const allChartData = useMemo(() => {
     const all: DotDatum[] = [];
     for (const r of allRows) {
-      if (r.cost <= 0 || r[earningsKey] == null) continue;
+      const x = xAxisKey === 'cost' ? r.cost : r.debtToEarnings;
+      if (x == null || x <= 0 || r[earningsKey] == null) continue;
+      const earningsCount = earningsKey === 'earn1yr' ? r.earn1yrCount : r.earn5yrCount;
       all.push({
-        x: r.cost,
+        x,
         y: r[earningsKey]!,
         unitId: r.unitId,
         schoolName: r.schoolName,
@@ -198,14 +329,20 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
         credTitle: r.credTitle,
         costAttendance: r.cost,
         earnings: r[earningsKey]!,
+        earningsCount,
+        earningsError: errorBar(r[earningsKey], earningsCount),
+        debtToEarnings: r.debtToEarnings,
         admissionRate: r.admissionRate,
       });
     }
     return all;
-  }, [allRows, earningsKey]);
+  }, [allRows, earningsKey, xAxisKey]);
 
   // Dim/highlight: when filters active, dim non-matching points
-  const hasActiveFilter = !!(searchQuery.trim() || ownershipFilter != null || stateFilter || tierFilter.size > 0 || compareSet.size > 0);
+  const hasActiveFilter = !!(
+    searchQuery.trim() || ownershipFilter != null || stateFilter || tierFilter.size > 0 ||
+    hasCharacteristicFilters(characteristicFilters) || minGraduates > 0 || compareSet.size > 0
+  );
 
   const { dimmedData, highlightedByTier } = useMemo(() => {
     if (!hasActiveFilter) {
@@ -264,16 +401,17 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
   }, []);
 
   const stats = useMemo(() => {
-    const earnKey = earningsKey === 'earn1yr' ? 'earn1yr' : 'earn5yr';
-    const withEarn = allRows.filter((r) => r[earnKey] != null);
+    const years = earningsKey === 'earn1yr' ? 1 : 5;
+    const earnings = (r: RankedRow) => rankedEarnings(r, years, earningsBasis);
+    const withEarn = allRows.filter((r) => earnings(r) != null);
     const highest = withEarn.length
       ? withEarn.reduce((best, r) =>
-          (r[earnKey] ?? 0) > (best[earnKey] ?? 0) ? r : best,
+          (earnings(r) ?? 0) > (earnings(best) ?? 0) ? r : best,
           withEarn[0],
         )
       : null;
-    return { highest, highestEarnKey: earnKey as 'earn1yr' | 'earn5yr' };
-  }, [allRows, earningsKey]);
+    return { highest, highestEarnings: highest ? earnings(highest) : null };
+  }, [allRows, earningsKey, earningsBasis]);
 
   const comparedSchools = useMemo(() => {
     if (compareSet.size === 0) return [];
@@ -307,10 +445,14 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
 
   // Sort
   const sorted = useMemo(() => {
+    const value = (r: RankedRow) =>
+      sortField === 'earn1yr' || sortField === 'earn5yr'
+        ? rankedEarnings(r, sortField === 'earn1yr' ? 1 : 5, earningsBasis)
+        : r[sortField];
     const rows = [...filtered];
     rows.sort((a, b) => {
-      const av = a[sortField];
-      const bv = b[sortField];
+      const av = value(a);
+      const bv = value(b);
       if (av == null && bv == null) return 0;
       if (av == null) return 1;
       if (bv == null) return -1;
@@ -323,7 +465,19 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
     });
     rows.forEach((r, i) => (r.rank = i + 1));
     return rows;
-  }, [filtered, sortField, sortDir]);
+  }, [filtered, sortField, sortDir, earningsBasis]);
+
+  // Every row shares this major, so its code, title and category are constant columns
+  const exportColumns = useMemo<ExportColumn<RankedRow>[]>(() => {
+    const category = getCipCategory(major.cipCode);
+    return [
+      ...EXPORT_COLUMNS.slice(0, 4),
+      { key: 'cipCode', header: 'CIP Code', value: () => major.cipCode },
+      { key: 'cipTitle', header: 'Major', value: () => major.cipTitle },
+      { key: 'category', header: 'Category', value: () => category },
+      ...EXPORT_COLUMNS.slice(4),
+    ];
+  }, [major.cipCode, major.cipTitle]);
 
   // Pagination
   const totalPages = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
@@ -338,7 +492,7 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
       setSortDir((d) => (d === 'asc' ? 'desc' : 'asc'));
     } else {
       setSortField(field);
-      setSortDir(field === 'schoolName' ? 'asc' : 'desc');
+      setSortDir(field === 'schoolName' || field === 'breakEvenYear' || field === 'debtToEarnings' ? 'asc' : 'desc');
     }
     setPage(1);
   }, [sortField]);
@@ -359,7 +513,10 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
     return pages;
   }, [currentPage, totalPages]);
 
-  const filtersActive = !!(searchQuery || ownershipFilter != null || stateFilter || tierFilter.size > 0);
+  const filtersActive = !!(
+    searchQuery || ownershipFilter != null || stateFilter || tierFilter.size > 0 ||
+    hasCharacteristicFilters(characteristicFilters) || minGraduates > 0
+  );
 
   return (
     <div>
@@ -376,11 +533,33 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
             {major.cipTitle.replace(/\.+$/, '')}
           </h1>
           <p className="mt-1 text-sm text-text-secondary">
-            CIP {major.cipCode} &middot; {major.schoolCount} schools
+            CIP {major.cipCode} &middot; {major.credTitle} &middot; {major.schoolCount} schools
           </p>
         </div>
-        <ShareButton title={`${major.cipTitle.replace(/\.+$/, '')} - Earnings Data`} text={`Earnings data for ${major.cipTitle.replace(/\.+$/, '')} across ${major.schoolCount} schools`} />
+        <ShareButton title={`${major.cipTitle.replace(/\.+$/, '')} - Earnings Data`} text={`Earnings data for ${major.cipTitle.replace(/\.+$/, '')} (${major.credTitle}) across ${major.schoolCount} schools`} />
       </div>
+      {credLevels.length > 1 && (
+        <nav aria-label="Credential level" className="mt-3 flex flex-wrap gap-1.5 text-xs">
+          {credLevels.map((level) => {
+            const params = new URLSearchParams({ cred: String(level) });
+            if (fromTab) params.set('from', fromTab);
+            return (
+              <Link
+                key={level}
+                href={`/majors/${encodeURIComponent(major.cipCode)}?${params}`}
+                aria-current={level === major.credLevel ? 'page' : undefined}
+                className={`rounded-full border px-3 py-1 transition-colors ${
+                  level === major.credLevel
+                    ? 'border-accent bg-accent text-white'
+                    : 'border-gray-200 text-text-secondary hover:text-text-primary'
+                }`}
+              >
+                {getCredential(level)?.shortLabel ?? `Level ${level}`}
+              </Link>
+            );
+          })}
+        </nav>
+      )}
       <p className="mt-3 text-sm leading-relaxed text-text-secondary">
         {generateMajorDescription(major)}
       </p>
@@ -390,7 +569,7 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
         <StatCard label="Schools" value={formatNumber(major.schoolCount)} />
         <StatCard
           label={`Highest Earning (${earningsKey === 'earn1yr' ? '1yr' : '5yr'})`}
-          value={stats.highest ? formatCurrency(stats.highest[stats.highestEarnKey]) : '\u2014'}
+          value={stats.highest ? formatCurrency(stats.highestEarnings) : '\u2014'}
           detail={stats.highest?.schoolName}
         />
         <StatCard
@@ -403,34 +582,62 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
         />
       </div>
 
+      <EarningsDistribution major={major} active={earningsKey} />
+
       {/* Scatter chart */}
       {hasScatterData && (
         <div className="mt-6 space-y-3">
           <div className="flex items-center justify-between">
             <h2 className="text-sm font-semibold text-text-primary">
-              Earnings vs. Cost &mdash; {allChartData.length} Schools
+              Earnings vs. {xAxisKey === 'cost' ? 'Cost' : 'Debt'} &mdash; {allChartData.length} Schools
             </h2>
-            <div className="flex rounded-lg border border-gray-200 text-xs">
-              <button
-                onClick={() => setEarningsKey('earn1yr')}
-                className={`px-3 py-1.5 transition-colors rounded-l-lg ${
-                  earningsKey === 'earn1yr'
-                    ? 'bg-accent text-white'
-                    : 'text-text-secondary hover:text-text-primary'
-                }`}
-              >
-                1-Year
-              </button>
-              <button
-                onClick={() => setEarningsKey('earn5yr')}
-                className={`px-3 py-1.5 transition-colors rounded-r-lg ${
-                  earningsKey === 'earn5yr'
-                    ? 'bg-accent text-white'
-                    : 'text-text-secondary hover:text-text-primary'
-                }`}
-              >
-                5-Year
-              </button>
+            <div className="flex gap-2">
+              {hasDebt && (
+                <div className="flex rounded-lg border border-gray-200 text-xs">
+                  <button
+                    onClick={() => setXAxisKey('cost')}
+                    className={`px-3 py-1.5 transition-colors rounded-l-lg ${
+                      xAxisKey === 'cost'
+                        ? 'bg-accent text-white'
+                        : 'text-text-secondary hover:text-text-primary'
+                    }`}
+                  >
+                    Cost
+                  </button>
+                  <button
+                    onClick={() => setXAxisKey('debtToEarnings')}
+                    className={`px-3 py-1.5 transition-colors rounded-r-lg ${
+                      xAxisKey === 'debtToEarnings'
+                        ? 'bg-accent text-white'
+                        : 'text-text-secondary hover:text-text-primary'
+                    }`}
+                  >
+                    Debt/Earnings
+                  </button>
+                </div>
+              )}
+              <div className="flex rounded-lg border border-gray-200 text-xs">
+                <button
+                  onClick={() => setEarningsKey('earn1yr')}
+                  className={`px-3 py-1.5 transition-colors rounded-l-lg ${
+                    earningsKey === 'earn1yr'
+                      ? 'bg-accent text-white'
+                      : 'text-text-secondary hover:text-text-primary'
+                  }`}
+                >
+                  1-Year
+                </button>
+                <button
+                  onClick={() => setEarningsKey('earn5yr')}
+                  className={`px-3 py-1.5 transition-colors rounded-r-lg ${
+                    earningsKey === 'earn5yr'
+                      ? 'bg-accent text-white'
+                      : 'text-text-secondary hover:text-text-primary'
+                  }`}
+                >
+                  5-Year
+                </button>
+              </div>
             </div>
           </div>
 
@@ -452,12 +659,12 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
                 <XAxis
                   dataKey="x"
                   type="number"
-                  name="Cost"
+                  name={xAxisKey === 'cost' ? 'Cost' : 'Debt-to-Earnings'}
                   domain={xDomain}
-                  tickFormatter={(v: number) => formatCompact(v)}
+                  tickFormatter={(v: number) => (xAxisKey === 'cost' ? formatCompact(v) : `${v}x`)}
                   tick={{ fontSize: 11, fill: '#6b7280' }}
                   label={{
-                    value: 'Cost of Attendance',
+                    value: xAxisKey === 'cost' ? 'Cost of Attendance' : 'Median Debt / 1-Year Earnings',
                     position: 'insideBottom',
                     offset: -10,
                     fontSize: 12,
@@ -483,13 +690,23 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
                   }}
                 />
                 <Tooltip content={<ChartTooltip />} cursor={false} />
-                <ReferenceLine
-                  segment={[{ x: 0, y: 0 }, { x: xDomain[1], y: xDomain[1] }]}
-                  stroke="#ef4444"
-                  strokeDasharray="6 4"
-                  strokeWidth={1.5}
-                  strokeOpacity={0.6}
-                />
+                {xAxisKey === 'cost' ? (
+                  <ReferenceLine
+                    segment={[{ x: 0, y: 0 }, { x: xDomain[1], y: xDomain[1] }]}
+                    stroke="#ef4444"
+                    strokeDasharray="6 4"
+                    strokeWidth={1.5}
+                    strokeOpacity={0.6}
+                  />
+                ) : (
+                  <ReferenceLine
+                    x={DEBT_TO_EARNINGS_LIMIT}
+                    stroke="#ef4444"
+                    strokeDasharray="6 4"
+                    strokeWidth={1.5}
+                    strokeOpacity={0.6}
+                  />
+                )}
                 {medianLine && (
                   <ReferenceLine
                     y={medianLine}
@@ -507,7 +724,9 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
                     shape={renderDot}
                     onClick={handleDotClick}
                     isAnimationActive={false}
-                  />
+                  >
+                    <ErrorBar dataKey="earningsError" direction="y" width={0} stroke="#d1d5db" strokeOpacity={0.3} />
+                  </Scatter>
                 )}
                 {/* Highlighted points by tier — reverse so top tiers render last (on top) */}
                 {[...TIER_ORDER].reverse().map(
@@ -520,7 +739,9 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
                         fill={TIER_COLORS[tier]}
                         shape={renderDot}
                         onClick={handleDotClick}
-                      />
+                      >
+                        <ErrorBar dataKey="earningsError" direction="y" width={0} stroke={TIER_COLORS[tier]} strokeOpacity={0.35} />
+                      </Scatter>
                     ),
                 )}
               </ScatterChart>
@@ -547,7 +768,7 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
               })}
               <span className="flex items-center gap-1.5 text-xs text-text-secondary">
                 <span className="inline-block h-0 w-4 border-t-[1.5px] border-dashed" style={{ borderColor: '#ef4444', opacity: 0.6 }} />
-                Break Even
+                {xAxisKey === 'cost' ? 'Break Even' : 'Debt = 1yr Earnings'}
               </span>
               {medianLine && (
                 <span className="flex items-center gap-1.5 text-xs text-text-secondary">
@@ -555,6 +776,10 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
                   Median ({formatCompact(medianLine)})
                 </span>
               )}
+              <span className="flex items-center gap-1.5 text-xs text-text-secondary">
+                <span className="inline-block h-3 w-0 border-l-[1.5px] border-gray-400" />
+                95% range from graduate count
+              </span>
             </div>
           </div>
 
@@ -600,11 +825,32 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
                   <p className="text-sm font-semibold">{selectedRow.cost > 0 ? formatCurrency(selectedRow.cost) : '\u2014'}</p>
                 </div>
                 <div>
-                  <p className="text-[10px] font-medium uppercase tracking-wide text-text-secondary">ROI</p>
-                  <p className="text-sm font-semibold">{selectedRow.multiple > 0 ? selectedRow.multiple.toFixed(1) + 'x' : '\u2014'}</p>
+                  <p className="text-[10px] font-medium uppercase tracking-wide text-text-secondary">NPV</p>
+                  <p className="text-sm font-semibold">{formatCurrency(selectedRow.npv)}</p>
                 </div>
               </div>
 
+              {selectedRow.breakEvenYear != null && (
+                <p className="mt-2 text-xs text-text-secondary">
+                  Breaks even <span className="font-medium text-text-primary">{formatPayback(selectedRow.breakEvenYear)}</span> after graduation
+                </p>
+              )}
+
+              {selectedRow.medianDebt != null && (
+                <p className={`mt-1 text-xs ${selectedRow.debtWarning ? 'text-earn-below' : 'text-text-secondary'}`}>
+                  Median debt <span className="font-medium">{formatCurrency(selectedRow.medianDebt)}</span>
+                  {' '}(about {formatCurrency(selectedRow.monthlyPayment)}/mo)
+                  {selectedRow.debtWarning && <> &middot; {selectedRow.debtWarning}</>}
+                </p>
+              )}
+
+              {/* Repayment assumes the full net cost of the degree is borrowed */}
+              <RepaymentChart
+                key={selectedRow.unitId}
+                earnings={selectedRow}
+                defaultDebt={selectedRow.totalCost}
+              />
+
               <Link
                 href={`/schools/${selectedRow.unitId}?from=majors`}
                 className="mt-3 inline-block text-xs font-medium text-accent hover:underline"
@@ -659,8 +905,18 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
                     <span className="font-medium">{r.cost > 0 ? formatCurrency(r.cost) : '\u2014'}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-text-secondary">ROI</span>
-                    <span className="font-semibold">{r.multiple > 0 ? r.multiple.toFixed(1) + 'x' : '\u2014'}</span>
+                    <span className="text-text-secondary">NPV</span>
+                    <span className="font-semibold">{formatCurrency(r.npv)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-text-secondary">Break-even</span>
+                    <span className="font-medium">{formatPayback(r.breakEvenYear)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-text-secondary">Debt/Earnings</span>
+                    <span className={`font-medium ${r.debtWarning ? 'text-earn-below' : ''}`}>
+                      {formatRatio(r.debtToEarnings)}
+                    </span>
                   </div>
                 </div>
               </div>
@@ -783,6 +1039,32 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
           </div>
         </div>
 
+        <CharacteristicSelects
+          value={characteristicFilters}
+          onChange={(patch) => {
+            setCharacteristicFilters((prev) => ({ ...prev, ...patch }));
+            setPage(1);
+          }}
+        />
+
+        <EarningsBasisSelect
+          value={earningsBasis}
+          onChange={(basis) => {
+            setEarningsBasis(basis);
+            setPage(1);
+          }}
+        />
+
+        <IncomeSelect value={incomeBracket} onChange={setIncomeBracket} />
+
+        <MinGraduatesSelect
+          value={minGraduates}
+          onChange={(value) => {
+            setMinGraduates(value);
+            setPage(1);
+          }}
+        />
+
         {filtersActive && (
           <button
             onClick={() => {
@@ -790,6 +1072,8 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
               setOwnershipFilter(null);
               setStateFilter('');
               setTierFilter(new Set());
+              setCharacteristicFilters(DEFAULT_CHARACTERISTIC_FILTERS);
+              setMinGraduates(0);
               setPage(1);
             }}
             className="rounded-lg px-2 py-1.5 text-xs text-accent hover:bg-accent/10"
@@ -800,9 +1084,12 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
       </div>
 
       {/* Count */}
-      <p className="mt-2 text-xs text-text-secondary">
-        Showing {sorted.length} of {allRows.length} programs
-      </p>
+      <div className="mt-2 flex items-center justify-between">
+        <p className="text-xs text-text-secondary">
+          Showing {sorted.length} of {allRows.length} programs
+        </p>
+        <ExportButton rows={sorted} columns={exportColumns} filename={`${major.cipCode}-programs`} />
+      </div>
 
       {/* Table */}
       <div className="mt-3 overflow-x-auto rounded-lg border border-gray-100 bg-white shadow-sm">
@@ -821,7 +1108,7 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
                 onClick={handleSort}
               />
               <SortableHeader<SortField>
-                label="1yr Earnings"
+                label={earningsBasis === 'adjusted' ? '1yr Earnings (adj.)' : '1yr Earnings'}
                 sortKey="earn1yr"
                 currentSortKey={sortField}
                 currentSortDir={sortDir}
@@ -829,13 +1116,36 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
                 className="text-right"
               />
               <SortableHeader<SortField>
-                label="5yr Earnings"
+                label={earningsBasis === 'adjusted' ? '5yr Earnings (adj.)' : '5yr Earnings'}
                 sortKey="earn5yr"
                 currentSortKey={sortField}
                 currentSortDir={sortDir}
                 onClick={handleSort}
                 className="hidden text-right sm:table-cell"
               />
+              <SortableHeader<SortField>
+                label="Reliability"
+                sortKey="graduates"
+                currentSortKey={sortField}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+                className="hidden md:table-cell"
+              />
+              {hasTrends && (
+                <>
+                  <th className="hidden px-3 py-2 font-medium text-text-secondary md:table-cell">
+                    Trend
+                  </th>
+                  <SortableHeader<SortField>
+                    label="YoY"
+                    sortKey="yoyChange"
+                    currentSortKey={sortField}
+                    currentSortDir={sortDir}
+                    onClick={handleSort}
+                    className="hidden text-right md:table-cell"
+                  />
+                </>
+              )}
               <SortableHeader<SortField>
                 label="Cost"
                 sortKey="cost"
@@ -845,13 +1155,31 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
                 className="hidden text-right sm:table-cell"
               />
               <SortableHeader<SortField>
-                label="ROI"
-                sortKey="multiple"
+                label="NPV"
+                sortKey="npv"
                 currentSortKey={sortField}
                 currentSortDir={sortDir}
                 onClick={handleSort}
                 className="text-right"
               />
+              <SortableHeader<SortField>
+                label="Break-even"
+                sortKey="breakEvenYear"
+                currentSortKey={sortField}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+                className="hidden text-right lg:table-cell"
+              />
+              {hasDebt && (
+                <SortableHeader<SortField>
+                  label="Debt/Earnings"
+                  sortKey="debtToEarnings"
+                  currentSortKey={sortField}
+                  currentSortDir={sortDir}
+                  onClick={handleSort}
+                  className="hidden text-right md:table-cell"
+                />
+              )}
               <SortableHeader<SortField>
                 label="Admit"
                 sortKey="admissionRate"
@@ -906,18 +1234,59 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
                     <span className="text-text-secondary">{r.state}</span>
                   </span>
                 </td>
-                <td className="px-3 py-2 text-right font-medium text-earn-above">
-                  {formatCurrency(r.earn1yr)}
+                <td
+                  className="px-3 py-2 text-right font-medium text-earn-above"
+                  title={earningsBasis === 'adjusted' ? `Reported: ${formatCurrency(r.earn1yr)}` : undefined}
+                >
+                  {formatCurrency(rankedEarnings(r, 1, earningsBasis))}
+                </td>
+                <td
+                  className="hidden px-3 py-2 text-right font-medium text-earn-above sm:table-cell"
+                  title={earningsBasis === 'adjusted' && r.earn5yr != null ? `Reported: ${formatCurrency(r.earn5yr)}` : undefined}
+                >
+                  {r.earn5yr != null ? formatCurrency(rankedEarnings(r, 5, earningsBasis)) : '\u2014'}
                 </td>
-                <td className="hidden px-3 py-2 text-right font-medium text-earn-above sm:table-cell">
-                  {r.earn5yr != null ? formatCurrency(r.earn5yr) : '\u2014'}
+                <td className="hidden px-3 py-2 md:table-cell">
+                  <ReliabilityBadge program={r} />
                 </td>
+                {hasTrends && (
+                  <>
+                    <td className="hidden px-3 py-2 md:table-cell">
+                      <Sparkline points={r.trend} />
+                    </td>
+                    <td
+                      className={`hidden px-3 py-2 text-right md:table-cell ${
+                        r.yoyChange == null
+                          ? 'text-text-secondary'
+                          : r.yoyChange >= 0
+                            ? 'text-earn-above'
+                            : 'text-earn-below'
+                      }`}
+                      title={r.yoyLabel ?? undefined}
+                    >
+                      {formatPercent(r.yoyChange)}
+                    </td>
+                  </>
+                )}
                 <td className="hidden px-3 py-2 text-right text-text-secondary sm:table-cell">
                   {r.cost > 0 ? formatCurrency(r.cost) : '\u2014'}
                 </td>
                 <td className="px-3 py-2 text-right font-semibold text-text-primary">
-                  {r.multiple > 0 ? r.multiple.toFixed(1) + 'x' : '\u2014'}
+                  {formatCurrency(r.npv)}
+                </td>
+                <td className="hidden px-3 py-2 text-right text-text-secondary lg:table-cell">
+                  {formatPayback(r.breakEvenYear)}
                 </td>
+                {hasDebt && (
+                  <td className="hidden px-3 py-2 text-right text-text-secondary md:table-cell">
+                    <DebtRatio
+                      debtToEarnings={r.debtToEarnings}
+                      medianDebt={r.medianDebt}
+                      monthlyPayment={r.monthlyPayment}
+                      warning={r.debtWarning}
+                    />
+                  </td>
+                )}
                 <td className="hidden px-3 py-2 text-right text-text-secondary md:table-cell">
                   {formatRate(r.admissionRate)}
                 </td>
@@ -929,7 +1298,7 @@ export default function MajorDetail({ major, programs, fromTab }: MajorDetailPro
             {paginated.length === 0 && (
               <tr>
                 <td
-                  colSpan={9}
+                  colSpan={(hasTrends ? 13 : 11) + (hasDebt ? 1 : 0)}
                   className="px-3 py-8 text-center text-sm text-text-secondary"
                 >
                   No programs match your filters
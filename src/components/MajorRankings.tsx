@@ -9,9 +9,12 @@ import {
 import type { MajorSummary, SortDir } from '@/types';
 import StatCard from './StatCard';
 import SortableHeader from './SortableHeader';
+import ExportButton from './ExportButton';
 import { formatCurrency, formatCompact, formatPercent, formatNumber } from '@/lib/formatters';
 import { getCipCategory, CIP_CATEGORY_COLORS, CIP_CATEGORY_ORDER } from '@/lib/cip-categories';
 import { trackEvent } from '@/lib/analytics';
+import { MAJOR_SUMMARY_COLUMNS } from '@/lib/export-columns';
+import { credentialLabel, DEFAULT_CRED_LEVEL } from '@/lib/credentials';
 
 interface MajorScatterDatum {
   x: number;
@@ -48,7 +51,14 @@ function MajorChartTooltip({ active, payload }: { active?: boolean; payload?: Ar
   );
 }
 
-type SortKey = 'cipTitle' | 'medianEarn1yr' | 'medianEarn5yr' | 'growthRate' | 'schoolCount';
+type SortKey =
+  | 'cipTitle'
+  | 'medianEarn1yr'
+  | 'medianEarn5yr'
+  | 'growthRate'
+  | 'valueAddedEarn1yr'
+  | 'netPremium'
+  | 'schoolCount';
 
 const PAGE_SIZE = 25;
 
@@ -56,7 +66,8 @@ interface MajorRankingsProps {
   majorsSummary: MajorSummary[];
 }
 
-export default function MajorRankings({ majorsSummary }: MajorRankingsProps) {
+export default function MajorRankings({ majorsSummary: allMajors }: MajorRankingsProps) {
+  const [credLevel, setCredLevel] = useState(DEFAULT_CRED_LEVEL);
   const [sortKey, setSortKey] = useState<SortKey>('medianEarn1yr');
   const [sortDir, setSortDir] = useState<SortDir>('desc');
   const [minSchools, setMinSchools] = useState(10);
@@ -69,6 +80,23 @@ export default function MajorRankings({ majorsSummary }: MajorRankingsProps) {
   const chartRef = useRef<HTMLDivElement>(null);
   const dotClickedRef = useRef(false);
 
+  // Majors are ranked within one credential level at a time
+  const credOptions = useMemo(
+    () => [...new Set(allMajors.map((m) => m.credLevel))].sort((a, b) => a - b),
+    [allMajors],
+  );
+  const majorsSummary = useMemo(
+    () => allMajors.filter((m) => m.credLevel === credLevel),
+    [allMajors, credLevel],
+  );
+
+  const handleCredLevelChange = useCallback((level: number) => {
+    setCredLevel(level);
+    setCompareSet(new Set());
+    setSelectedMajor(null);
+    setPage(1);
+  }, []);
+
   // Close detail card on Escape
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -496,7 +524,7 @@ export default function MajorRankings({ majorsSummary }: MajorRankingsProps) {
               </div>
 
               <Link
-                href={`/majors/${encodeURIComponent(selectedMajorData.cipCode)}?from=majors`}
+                href={`/majors/${encodeURIComponent(selectedMajorData.cipCode)}?from=majors&cred=${credLevel}`}
                 className="mt-3 inline-block text-xs font-medium text-accent hover:underline"
               >
                 View major details &rarr;
@@ -539,7 +567,7 @@ export default function MajorRankings({ majorsSummary }: MajorRankingsProps) {
                       style={{ backgroundColor: CIP_CATEGORY_COLORS[category] ?? '#475569' }}
                     />
                     <Link
-                      href={`/majors/${encodeURIComponent(m.cipCode)}?from=majors`}
+                      href={`/majors/${encodeURIComponent(m.cipCode)}?from=majors&cred=${credLevel}`}
                       className="truncate text-sm font-semibold text-accent hover:underline"
                     >
                       {m.cipTitle.replace(/\.+$/, '')}
@@ -636,6 +664,23 @@ export default function MajorRankings({ majorsSummary }: MajorRankingsProps) {
           </div>
         </div>
 
+        <div>
+          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+            Credential
+          </label>
+          <select
+            value={credLevel}
+            onChange={(e) => handleCredLevelChange(Number(e.target.value))}
+            className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+          >
+            {credOptions.map((level) => (
+              <option key={level} value={level}>
+                {credentialLabel(level)}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div>
           <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
             Min Schools
@@ -668,14 +713,17 @@ export default function MajorRankings({ majorsSummary }: MajorRankingsProps) {
       </div>
 
       {/* Count */}
-      <p className="mb-2 text-xs text-text-secondary">
-        {filtered.length} of {majorsSummary.length} majors
-        {compareSet.size > 0 && (
-          <span className="ml-2 rounded-full bg-accent/10 px-2 py-0.5 text-accent">
-            {compareSet.size}/4 selected
-          </span>
-        )}
-      </p>
+      <div className="mb-2 flex items-center justify-between">
+        <p className="text-xs text-text-secondary">
+          {filtered.length} of {majorsSummary.length} majors
+          {compareSet.size > 0 && (
+            <span className="ml-2 rounded-full bg-accent/10 px-2 py-0.5 text-accent">
+              {compareSet.size}/4 selected
+            </span>
+          )}
+        </p>
+        <ExportButton rows={sorted} columns={MAJOR_SUMMARY_COLUMNS} filename="major-rankings" />
+      </div>
 
       <div className="overflow-x-auto rounded-lg border border-gray-100">
         <table className="w-full text-left">
@@ -714,6 +762,22 @@ export default function MajorRankings({ majorsSummary }: MajorRankingsProps) {
                 onClick={handleSort}
                 className="hidden text-right sm:table-cell"
               />
+              <SortableHeader<SortKey>
+                label="Value Added"
+                sortKey="valueAddedEarn1yr"
+                currentSortKey={sortKey}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+                className="hidden text-right md:table-cell"
+              />
+              <SortableHeader<SortKey>
+                label="Net Premium"
+                sortKey="netPremium"
+                currentSortKey={sortKey}
+                currentSortDir={sortDir}
+                onClick={handleSort}
+                className="hidden text-right lg:table-cell"
+              />
               <SortableHeader<SortKey>
                 label="Schools"
                 sortKey="schoolCount"
@@ -757,7 +821,7 @@ export default function MajorRankings({ majorsSummary }: MajorRankingsProps) {
                       style={{ backgroundColor: CIP_CATEGORY_COLORS[getCipCategory(m.cipCode)] ?? '#475569' }}
                     />
                     <Link
-                      href={`/majors/${encodeURIComponent(m.cipCode)}?from=majors`}
+                      href={`/majors/${encodeURIComponent(m.cipCode)}?from=majors&cred=${credLevel}`}
                       className="font-medium text-accent hover:underline"
                       onClick={(e) => e.stopPropagation()}
                     >
@@ -780,6 +844,20 @@ export default function MajorRankings({ majorsSummary }: MajorRankingsProps) {
                 >
                   {formatPercent(m.growthRate)}
                 </td>
+                <td
+                  className={`hidden px-3 py-2.5 text-right text-sm tabular-nums md:table-cell ${
+                    (m.valueAddedEarn1yr ?? 0) < 0 ? 'text-earn-below' : 'text-text-primary'
+                  }`}
+                >
+                  {formatCurrency(m.valueAddedEarn1yr)}
+                </td>
+                <td
+                  className={`hidden px-3 py-2.5 text-right text-sm tabular-nums lg:table-cell ${
+                    (m.netPremium ?? 0) < 0 ? 'text-earn-below' : 'text-text-primary'
+                  }`}
+                >
+                  {formatCurrency(m.netPremium)}
+                </td>
                 <td className="hidden px-3 py-2.5 text-right text-sm tabular-nums text-text-secondary md:table-cell">
                   {formatNumber(m.schoolCount)}
                 </td>
@@ -788,7 +866,7 @@ export default function MajorRankings({ majorsSummary }: MajorRankingsProps) {
             {paginated.length === 0 && (
               <tr>
                 <td
-                  colSpan={7}
+                  colSpan={9}
                   className="px-3 py-8 text-center text-sm text-text-secondary"
                 >
                   No majors match your search
@@ -0,0 +1,30 @@
+'use client';
+
+import { MIN_GRADUATE_OPTIONS } from '@/lib/confidence';
+
+interface MinGraduatesSelectProps {
+  value: number;
+  onChange: (value: number) => void;
+}
+
+// Filter-bar select hiding programs whose earnings rest on too few graduates
+export default function MinGraduatesSelect({ value, onChange }: MinGraduatesSelectProps) {
+  return (
+    <div>
+      <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+        Min Graduates
+      </label>
+      <select
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+      >
+        {MIN_GRADUATE_OPTIONS.map((n) => (
+          <option key={n} value={n}>
+            {n === 0 ? 'Any' : `${n}+`}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import type { ViewTab } from '@/types';
 const TABS: { key: ViewTab; label: string }[] = [
   { key: 'majors', label: 'Majors' },
   { key: 'colleges', label: 'Colleges' },
+  { key: 'map', label: 'Map' },
 ];
 
 interface PageNavProps {
@@ -19,6 +20,8 @@ export default function PageNav({ activeTab, onTabChange, onStartTour }: PageNav
   const pathname = usePathname();
   const isHome = pathname === '/';
   const isAbout = pathname === '/about';
+  const isCalculator = pathname === '/calculator';
+  const isAtRisk = pathname === '/at-risk';
 
   return (
     <nav data-tour="nav-tabs" className="mb-6 flex items-center gap-1 sm:gap-3">
@@ -56,6 +59,26 @@ export default function PageNav({ activeTab, onTabChange, onStartTour }: PageNav
         );
       })}
       <div className="ml-auto" />
+      <Link
+        href="/calculator"
+        className={`flex-shrink-0 rounded-md px-1.5 py-2 text-xs transition-colors sm:px-2 sm:text-sm ${
+          isCalculator
+            ? 'bg-accent/10 font-semibold text-accent'
+            : 'text-text-secondary hover:text-text-primary'
+        }`}
+      >
+        Calculator
+      </Link>
+      <Link
+        href="/at-risk"
+        className={`flex-shrink-0 rounded-md px-1.5 py-2 text-xs transition-colors sm:px-2 sm:text-sm ${
+          isAtRisk
+            ? 'bg-accent/10 font-semibold text-accent'
+            : 'text-text-secondary hover:text-text-primary'
+        }`}
+      >
+        At-Risk
+      </Link>
       <Link
         href="/about"
         data-tour="about-link"
@@ -0,0 +1,29 @@
+import type { Reliability } from '@/types';
+import { headlineEarnings, reliability, reliabilityNote, RELIABILITY_LEVELS, type GraduateCounts } from '@/lib/confidence';
+
+const RELIABILITY_CLASSES: Record<Reliability, string> = {
+  high: 'bg-earn-above/10 text-earn-above',
+  moderate: 'bg-amber-100 text-amber-700',
+  low: 'bg-earn-below/10 text-earn-below',
+};
+
+interface ReliabilityBadgeProps {
+  program: GraduateCounts;
+}
+
+// Pill grading how many graduates a program's earnings rest on; the count and
+// confidence interval show on hover
+export default function ReliabilityBadge({ program }: ReliabilityBadgeProps) {
+  const { median, count } = headlineEarnings(program);
+  const level = reliability(count);
+  if (!level) return <span className="text-text-secondary">&mdash;</span>;
+  const label = RELIABILITY_LEVELS.find((l) => l.key === level)?.label ?? level;
+  return (
+    <span
+      className={`inline-block rounded-full px-1.5 py-0.5 text-[10px] font-medium ${RELIABILITY_CLASSES[level]}`}
+      title={reliabilityNote(median, count) ?? undefined}
+    >
+      {label}
+    </span>
+  );
+}
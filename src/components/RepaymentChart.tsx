@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  ResponsiveContainer,
+} from 'recharts';
+import { earningsTrajectory, type EarningsPoints } from '@/lib/roi';
+import { simulateAllPlans, DEFAULT_REPAYMENT_OPTIONS, type RepaymentPlanKey } from '@/lib/loans';
+import { formatCurrency, formatCompact, formatPayback } from '@/lib/formatters';
+
+const PLAN_COLORS: Record<RepaymentPlanKey, string> = {
+  standard: '#2563eb',
+  extended: '#f59e0b',
+  'income-driven': '#16a34a',
+};
+
+interface RepaymentChartProps {
+  earnings: EarningsPoints;
+  defaultDebt: number | null;
+}
+
+export default function RepaymentChart({ earnings, defaultDebt }: RepaymentChartProps) {
+  const [debt, setDebt] = useState(() => Math.max(0, Math.round(defaultDebt ?? 0)));
+
+  const results = useMemo(() => {
+    const years = Math.max(DEFAULT_REPAYMENT_OPTIONS.extendedYears, DEFAULT_REPAYMENT_OPTIONS.idrForgivenessYears);
+    const trajectory = earningsTrajectory(earnings, years);
+    if (!trajectory || debt <= 0) return null;
+    return simulateAllPlans(debt, trajectory);
+  }, [earnings, debt]);
+
+  // One row per year, one column per plan; plans stop once paid off
+  const chartData = useMemo(() => {
+    if (!results) return [];
+    const length = Math.max(...results.map((r) => r.balances.length));
+    return Array.from({ length }, (_, year) => {
+      const row: Record<string, number | null> = { year };
+      for (const r of results) row[r.plan] = r.balances[year] ?? null;
+      return row;
+    });
+  }, [results]);
+
+  return (
+    <div className="mt-3 rounded-lg border border-gray-100 bg-white p-3">
+      <div className="flex flex-wrap items-end justify-between gap-2">
+        <h4 className="text-xs font-semibold text-text-primary">How Long to Repay</h4>
+        <label className="flex items-center gap-2 text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+          Debt
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={debt}
+            onChange={(e) => setDebt(Math.max(0, Number(e.target.value) || 0))}
+            className="w-24 rounded-lg border border-gray-200 bg-white px-2 py-1 text-xs text-text-primary outline-none focus:border-accent"
+          />
+        </label>
+      </div>
+
+      {results ? (
+        <>
+          <ResponsiveContainer width="100%" height={180}>
+            <LineChart data={chartData} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis
+                dataKey="year"
+                type="number"
+                tick={{ fontSize: 10, fill: '#475569' }}
+                tickFormatter={(v: number) => `${v}y`}
+              />
+              <YAxis
+                tick={{ fontSize: 10, fill: '#475569' }}
+                tickFormatter={(v: number) => formatCompact(v)}
+                width={50}
+              />
+              <Tooltip
+                formatter={(v, name) => [
+                  formatCurrency(Number(v)),
+                  results.find((r) => r.plan === name)?.label ?? name,
+                ]}
+                labelFormatter={(v) => `Year ${v}`}
+                contentStyle={{ fontSize: 11 }}
+              />
+              {results.map((r) => (
+                <Line
+                  key={r.plan}
+                  dataKey={r.plan}
+                  stroke={PLAN_COLORS[r.plan]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+
+          <table className="mt-2 w-full text-left text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wide text-text-secondary">
+                <th className="py-1 font-medium">Plan</th>
+                <th className="py-1 text-right font-medium">Monthly</th>
+                <th className="py-1 text-right font-medium">Total Paid</th>
+                <th className="py-1 text-right font-medium">Paid Off</th>
+                <th className="hidden py-1 text-right font-medium sm:table-cell">Forgiven</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((r) => (
+                <tr key={r.plan} className="border-t border-gray-50">
+                  <td className="py-1">
+                    <span className="flex items-center gap-1.5">
+                      <span
+                        className="inline-block h-2 w-2 rounded-full"
+                        style={{ backgroundColor: PLAN_COLORS[r.plan] }}
+                      />
+                      {r.label}
+                    </span>
+                  </td>
+                  <td className="py-1 text-right tabular-nums">{formatCurrency(r.firstPayment)}</td>
+                  <td className="py-1 text-right tabular-nums">{formatCurrency(r.totalPaid)}</td>
+                  <td className="py-1 text-right tabular-nums">{formatPayback(r.yearsToRepay)}</td>
+                  <td className="hidden py-1 text-right tabular-nums sm:table-cell">
+                    {r.forgiven > 0 ? formatCurrency(r.forgiven) : '\u2014'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-[10px] text-text-secondary">
+            {DEFAULT_REPAYMENT_OPTIONS.annualRate * 100}% interest. Income-driven pays{' '}
+            {DEFAULT_REPAYMENT_OPTIONS.idrIncomeShare * 100}% of earnings above{' '}
+            {DEFAULT_REPAYMENT_OPTIONS.idrPovertyMultiple * 100}% of the poverty line, with the
+            remainder forgiven after {DEFAULT_REPAYMENT_OPTIONS.idrForgivenessYears} years.
+          </p>
+        </>
+      ) : (
+        <p className="mt-2 text-xs text-text-secondary">Enter a debt amount to compare plans.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import type { CalculatorSchool, ProgramRecord } from '@/types';
+import SearchInput, { type SearchOption } from './SearchInput';
+import StatCard from './StatCard';
+import ShareButton from './ShareButton';
+import { formatCurrency, formatNumber, formatPayback } from '@/lib/formatters';
+import { getBaselineEarnings } from '@/lib/baseline-earnings';
+import { DEFAULT_CRED_LEVEL } from '@/lib/credentials';
+import {
+  computePersonalRoi,
+  INCOME_BRACKETS,
+  type IncomeBracket,
+  type Residency,
+} from '@/lib/calculator';
+
+const DEFAULT_LOAN_RATE = 6.5; // percent, matches recent federal undergraduate rate
+const DEFAULT_LOAN_YEARS = 10;
+const LOAN_TERMS = [10, 15, 20, 25];
+
+function parseNumber(value: string | null, fallback: number): number {
+  if (value == null) return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+interface RoiCalculatorProps {
+  schools: CalculatorSchool[];
+}
+
+export default function RoiCalculator({ schools }: RoiCalculatorProps) {
+  const searchParams = useSearchParams();
+
+  const [unitId, setUnitId] = useState<number | null>(() => {
+    const id = parseInt(searchParams.get('school') ?? '', 10);
+    return isNaN(id) ? null : id;
+  });
+  const [cipCode, setCipCode] = useState<string | null>(searchParams.get('cip'));
+  const [incomeBracket, setIncomeBracket] = useState<IncomeBracket>(() => {
+    const raw = searchParams.get('income');
+    return INCOME_BRACKETS.find((b) => b.key === raw)?.key ?? '48-75k';
+  });
+  const [residency, setResidency] = useState<Residency>(
+    searchParams.get('res') === 'out' ? 'out' : 'in',
+  );
+  const [grants, setGrants] = useState(() => parseNumber(searchParams.get('grants'), 0));
+  const [loanRate, setLoanRate] = useState(() => parseNumber(searchParams.get('rate'), DEFAULT_LOAN_RATE));
+  const [loanYears, setLoanYears] = useState(() => {
+    const term = parseNumber(searchParams.get('term'), DEFAULT_LOAN_YEARS);
+    return LOAN_TERMS.includes(term) ? term : DEFAULT_LOAN_YEARS;
+  });
+
+  // Programs with the school they were loaded for, so a stale list is never shown
+  const [loaded, setLoaded] = useState<{ unitId: number; programs: ProgramRecord[] } | null>(null);
+
+  const school = useMemo(
+    () => schools.find((s) => s.unitId === unitId) ?? null,
+    [schools, unitId],
+  );
+
+  // Load the selected school's programs
+  useEffect(() => {
+    if (unitId == null) return;
+    let cancelled = false;
+    // Pell grants and four years of attendance assume a bachelor's degree
+    fetch(`/api/programs?school=${unitId}&cred=${DEFAULT_CRED_LEVEL}`)
+      .then((res) => (res.ok ? res.json() : { data: [] }))
+      .then((json: { data: ProgramRecord[] }) => {
+        if (!cancelled) {
+          setLoaded({ unitId, programs: json.data.filter((p) => p.earn1yr != null || p.earn5yr != null) });
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setLoaded({ unitId, programs: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [unitId]);
+
+  const programs = useMemo(
+    () => (loaded != null && loaded.unitId === unitId ? loaded.programs : []),
+    [loaded, unitId],
+  );
+  const loading = unitId != null && loaded?.unitId !== unitId;
+
+  const program = useMemo(
+    () => programs.find((p) => p.cipCode === cipCode) ?? null,
+    [programs, cipCode],
+  );
+
+  // Keep the URL in sync so the result can be shared
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const params: Record<string, string | null> = {
+      school: unitId != null ? String(unitId) : null,
+      cip: cipCode,
+      income: incomeBracket,
+      res: residency,
+      grants: grants ? String(grants) : null,
+      rate: String(loanRate),
+      term: String(loanYears),
+    };
+    for (const [key, value] of Object.entries(params)) {
+      if (value == null) url.searchParams.delete(key);
+      else url.searchParams.set(key, value);
+    }
+    window.history.replaceState({}, '', url.toString());
+  }, [unitId, cipCode, incomeBracket, residency, grants, loanRate, loanYears]);
+
+  const schoolOptions: SearchOption[] = useMemo(
+    () =>
+      schools.map((s) => ({
+        id: String(s.unitId),
+        label: s.name,
+        sublabel: `${s.city}, ${s.state}`,
+      })),
+    [schools],
+  );
+
+  const programOptions: SearchOption[] = useMemo(
+    () =>
+      programs.map((p) => ({
+        id: p.cipCode,
+        label: p.cipTitle,
+        sublabel: p.credTitle,
+      })),
+    [programs],
+  );
+
+  const schoolValue = schoolOptions.find((o) => o.id === String(unitId)) ?? null;
+  const programValue = programOptions.find((o) => o.id === cipCode) ?? null;
+
+  const result = useMemo(() => {
+    if (!school || !program) return null;
+    return computePersonalRoi(school, program, getBaselineEarnings(school.state), {
+      incomeBracket,
+      residency,
+      grants,
+      loanRate: loanRate / 100,
+      loanYears,
+    });
+  }, [school, program, incomeBracket, residency, grants, loanRate, loanYears]);
+
+  const monthlyIncome = program?.earn1yr != null ? program.earn1yr / 12 : null;
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-text-primary sm:text-3xl">
+            ROI Calculator
+          </h1>
+          <p className="mt-1 text-sm text-text-secondary">
+            Estimate your debt, monthly payment and payback year for a specific
+            school and major
+          </p>
+        </div>
+        <ShareButton
+          title={school && program ? `${program.cipTitle} at ${school.name} - ROI Calculator` : 'ROI Calculator'}
+          text="Estimate the return on a college degree"
+        />
+      </div>
+
+      {/* Inputs */}
+      <div className="mt-6 grid gap-3 rounded-lg border border-gray-100 bg-gray-50 p-3 sm:grid-cols-2">
+        <div>
+          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+            School
+          </label>
+          <SearchInput
+            options={schoolOptions}
+            value={schoolValue}
+            onChange={(option) => {
+              setUnitId(option ? parseInt(option.id, 10) : null);
+              setCipCode(null);
+            }}
+            placeholder="Search schools..."
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+            Major
+          </label>
+          <SearchInput
+            options={programOptions}
+            value={programValue}
+            onChange={(option) => setCipCode(option?.id ?? null)}
+            placeholder={
+              unitId == null ? 'Pick a school first' : loading ? 'Loading programs...' : 'Search majors...'
+            }
+          />
+        </div>
+
+        <div>
+          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+            Household Income
+          </label>
+          <select
+            value={incomeBracket}
+            onChange={(e) => setIncomeBracket(e.target.value as IncomeBracket)}
+            className="w-full rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+          >
+            {INCOME_BRACKETS.map((b) => (
+              <option key={b.key} value={b.key}>
+                {b.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+            Residency
+          </label>
+          <div className="flex rounded-lg border border-gray-200 bg-white text-xs">
+            {(
+              [
+                ['in', 'In-State'],
+                ['out', 'Out-of-State'],
+              ] as const
+            ).map(([val, label]) => (
+              <button
+                key={val}
+                onClick={() => setResidency(val)}
+                className={`flex-1 px-2.5 py-1.5 transition-colors first:rounded-l-lg last:rounded-r-lg ${
+                  residency === val
+                    ? 'bg-accent text-white'
+                    : 'text-text-secondary hover:text-text-primary'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+            Other Grants &amp; Scholarships / Year
+          </label>
+          <input
+            type="number"
+            min={0}
+            step={500}
+            value={grants}
+            onChange={(e) => setGrants(Math.max(0, Number(e.target.value) || 0))}
+            className="w-full rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+          />
+        </div>
+        <div className="flex gap-3">
+          <div className="flex-1">
+            <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+              Loan Rate (%)
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={20}
+              step={0.1}
+              value={loanRate}
+              onChange={(e) => setLoanRate(Math.max(0, Number(e.target.value) || 0))}
+              className="w-full rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+            />
+          </div>
+          <div className="flex-1">
+            <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+              Loan Term
+            </label>
+            <select
+              value={loanYears}
+              onChange={(e) => setLoanYears(Number(e.target.value))}
+              className="w-full rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+            >
+              {LOAN_TERMS.map((n) => (
+                <option key={n} value={n}>
+                  {n} years
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Results */}
+      {school && program && result ? (
+        <>
+          <div className="mt-6 grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <StatCard
+              label="Projected Debt"
+              value={formatCurrency(result.debt)}
+              detail={`${formatCurrency(result.annualNetCost)} / yr after grants`}
+            />
+            <StatCard
+              label="Monthly Payment"
+              value={formatCurrency(result.monthlyPayment)}
+              detail={
+                monthlyIncome
+                  ? `${Math.round((result.monthlyPayment / monthlyIncome) * 100)}% of first-year pay`
+                  : undefined
+              }
+            />
+            <StatCard
+              label="Debt-to-Income"
+              value={result.debtToIncome != null ? `${result.debtToIncome.toFixed(2)}x` : '\u2014'}
+              detail="debt / first-year earnings"
+              detailColor={
+                result.debtToIncome != null && result.debtToIncome > 1 ? 'text-earn-below' : undefined
+              }
+            />
+            <StatCard
+              label="Payback Year"
+              value={formatPayback(result.paybackYear)}
+              detail="after graduation"
+            />
+          </div>
+
+          <div className="mt-4 rounded-lg border border-gray-100 bg-white p-4 text-sm text-text-secondary shadow-sm">
+            <p>
+              <Link href={`/schools/${school.unitId}`} className="font-medium text-accent hover:underline">
+                {school.name}
+              </Link>{' '}
+              &middot; {program.cipTitle}
+            </p>
+            <div className="mt-3 grid grid-cols-2 gap-x-6 gap-y-1.5 sm:grid-cols-3">
+              <span>Cost of attendance: <strong className="text-text-primary">{formatCurrency(result.annualCost)}</strong></span>
+              {result.netPrice != null ? (
+                <span>Net price at this income: <strong className="text-text-primary">{formatCurrency(result.netPrice)}</strong></span>
+              ) : (
+                <span>Est. Pell Grant: <strong className="text-text-primary">{formatCurrency(result.pellGrant)}</strong></span>
+              )}
+              <span>Other grants: <strong className="text-text-primary">{formatCurrency(grants)}</strong></span>
+              <span>1yr earnings: <strong className="text-earn-above">{formatCurrency(program.earn1yr)}</strong></span>
+              <span>5yr earnings: <strong className="text-earn-above">{formatCurrency(program.earn5yr)}</strong></span>
+              <span>Total repaid: <strong className="text-text-primary">{formatCurrency(result.totalRepaid)}</strong></span>
+            </div>
+            <p className="mt-3 text-xs">
+              Assumes four years of study with any cost not covered by grants
+              borrowed at {formatNumber(loanRate)}% over {loanYears} years.
+              Payback counts earnings above a high school graduate in{' '}
+              {school.state} ({formatCurrency(getBaselineEarnings(school.state))}
+              /yr). See the{' '}
+              <Link href="/about" className="text-accent hover:underline">
+                methodology
+              </Link>
+              .
+            </p>
+          </div>
+        </>
+      ) : (
+        <p className="mt-6 text-sm text-text-secondary">
+          {school && program
+            ? 'This school does not report cost data, so ROI cannot be estimated.'
+            : 'Pick a school and a major to see your projected debt and payback.'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -11,16 +11,38 @@ import {
   CartesianGrid,
   ResponsiveContainer,
   ReferenceLine,
+  ErrorBar,
 } from 'recharts';
-import type { School, ProgramRecord, SortDir } from '@/types';
-import { formatCurrency, formatRate, formatNumber, formatCompact } from '@/lib/formatters';
+import type { AccountabilityStatus, EarningsTrendPoint, School, ProgramRecord, SchoolRoi, SortDir } from '@/types';
+import { formatCurrency, formatRate, formatNumber, formatCompact, formatPayback, formatPercent, formatRatio } from '@/lib/formatters';
 import { getDisplayTier, TIER_COLORS } from '@/lib/tiers';
 import { generateSchoolDescription } from '@/lib/descriptions';
 import { getCipCategory, CIP_CATEGORY_COLORS, CIP_CATEGORY_ORDER } from '@/lib/cip-categories';
+import type { ExportColumn } from '@/lib/export';
+import { yearOverYear } from '@/lib/trends';
 import StatCard from './StatCard';
 import ShareButton from './ShareButton';
+import RepaymentChart from './RepaymentChart';
+import ExportButton from './ExportButton';
+import Sparkline from './Sparkline';
+import DebtRatio from './DebtRatio';
+import AccountabilityBadge from './AccountabilityBadge';
+import IncomeSelect, { useIncomeBracket } from './IncomeSelect';
+import { roiAtIncome } from '@/lib/net-price';
+import { INCOME_BRACKETS } from '@/lib/calculator';
+import { getCredential } from '@/lib/credentials';
+import { debtWarning } from '@/lib/loans';
+import { OUTCOME_FIELDS } from '@/lib/outcomes';
+import { characteristicLabels } from '@/lib/characteristics';
+import { errorBar, headlineEarnings, reliability } from '@/lib/confidence';
+import { rankedEarnings } from '@/lib/shrinkage';
+import ReliabilityBadge from './ReliabilityBadge';
+import MinGraduatesSelect from './MinGraduatesSelect';
+import EarningsBasisSelect, { useEarningsBasis } from './EarningsBasisSelect';
 
-type SortField = 'cipTitle' | 'earn1yr' | 'earn5yr' | 'costAttendance' | 'multiple' | 'credTitle';
+type SortField =
+  | 'cipTitle' | 'earn1yr' | 'earn5yr' | 'yoyChange' | 'costAttendance' | 'npv' | 'breakEvenYear'
+  | 'debtToEarnings' | 'credTitle' | 'graduates';
 
 const PAGE_SIZE = 25;
 
@@ -34,6 +56,14 @@ interface DotDatum {
   category: string;
   earn1yr: number | null;
   earn5yr: number | null;
+  earn1yrCount: number | null;
+  earn5yrCount: number | null;
+  xError: [number, number] | null; // 95% intervals, as distances below and above
+  yError: [number, number] | null;
+}
+
+function countLabel(count: number | null): string {
+  return count != null ? `${formatNumber(count)} grads` : 'count n/a';
 }
 
 function ChartTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: DotDatum }> }) {
@@ -47,6 +77,11 @@ function ChartTooltip({ active, payload }: { active?: boolean; payload?: Array<{
         <span>1yr: <strong className="text-earn-above">{d.earn1yr != null ? formatCurrency(d.earn1yr) : '\u2014'}</strong></span>
         <span>5yr: <strong className="text-earn-above">{d.earn5yr != null ? formatCurrency(d.earn5yr) : '\u2014'}</strong></span>
       </div>
+      <p className="mt-1 text-[10px] text-text-secondary">
+        {d.earn1yr != null && <>1yr: {countLabel(d.earn1yrCount)}</>}
+        {d.earn1yr != null && d.earn5yr != null && <> &middot; </>}
+        {d.earn5yr != null && <>5yr: {countLabel(d.earn5yrCount)}</>}
+      </p>
       <span
         className="mt-1 inline-block rounded-full px-2 py-0.5 text-[10px] font-medium text-white"
         style={{ backgroundColor: CIP_CATEGORY_COLORS[d.category] ?? '#475569' }}
@@ -61,6 +96,8 @@ function ChartTooltip({ active, payload }: { active?: boolean; payload?: Array<{
 interface SchoolDetailProps {
   school: School;
   programs: ProgramRecord[];
+  roi?: SchoolRoi | null;
+  trends: Record<string, EarningsTrendPoint[]>; // by `${cipCode}-${credLevel}`, across releases
   fromTab?: string;
 }
 
@@ -73,20 +110,69 @@ interface ProgramRow {
   credTitle: string;
   category: string;
   earn1yr: number | null;
+  earn4yr: number | null;
   earn5yr: number | null;
+  trend: EarningsTrendPoint[];
+  yoyChange: number | null;
+  yoyLabel: string | null;
   costAttendance: number | null;
-  multiple: number;
+  totalCost: number | null;
+  npv: number | null;
+  breakEvenYear: number | null;
+  valueAddedEarn1yr: number | null;
+  netPremium: number | null;
+  medianDebt: number | null;
+  debtToEarnings: number | null;
+  monthlyPayment: number | null;
+  debtWarning: string | null;
+  accountabilityStatus: AccountabilityStatus | null;
+  accountabilityNotes: string | null;
   earn1yrCount: number | null;
+  earn5yrCount: number | null;
+  graduates: number | null; // graduates behind the headline earnings figure
+  adjustedEarn1yr: number | null;
+  adjustedEarn5yr: number | null;
 }
 
-export default function SchoolDetail({ school, programs, fromTab }: SchoolDetailProps) {
+const EXPORT_COLUMNS: ExportColumn<ProgramRow>[] = [
+  { key: 'rank', header: 'Rank', value: (r) => r.rank },
+  { key: 'cipCode', header: 'CIP Code', value: (r) => r.cipCode },
+  { key: 'cipTitle', header: 'Major', value: (r) => r.cipTitle },
+  { key: 'category', header: 'Category', value: (r) => r.category },
+  { key: 'credTitle', header: 'Credential', value: (r) => r.credTitle },
+  { key: 'earn1yr', header: 'Earnings (1yr)', value: (r) => r.earn1yr },
+  { key: 'earn4yr', header: 'Earnings (4yr)', value: (r) => r.earn4yr },
+  { key: 'earn5yr', header: 'Earnings (5yr)', value: (r) => r.earn5yr },
+  { key: 'adjustedEarn1yr', header: 'Adjusted Earnings (1yr)', value: (r) => r.adjustedEarn1yr },
+  { key: 'adjustedEarn5yr', header: 'Adjusted Earnings (5yr)', value: (r) => r.adjustedEarn5yr },
+  { key: 'yoyChange', header: 'YoY Change (1yr, %)', value: (r) => r.yoyChange },
+  { key: 'earn1yrCount', header: 'Graduates Reported (1yr)', value: (r) => r.earn1yrCount },
+  { key: 'earn5yrCount', header: 'Graduates Reported (5yr)', value: (r) => r.earn5yrCount },
+  { key: 'reliability', header: 'Reliability', value: (r) => reliability(r.graduates) },
+  { key: 'costAttendance', header: 'Cost of Attendance', value: (r) => r.costAttendance },
+  { key: 'totalCost', header: 'Total Net Cost', value: (r) => r.totalCost },
+  { key: 'npv', header: 'NPV', value: (r) => r.npv },
+  { key: 'breakEvenYear', header: 'Break-even (yrs)', value: (r) => r.breakEvenYear },
+  { key: 'valueAddedEarn1yr', header: 'Value Added (1yr)', value: (r) => r.valueAddedEarn1yr },
+  { key: 'netPremium', header: 'Net Lifetime Premium', value: (r) => r.netPremium },
+  { key: 'medianDebt', header: 'Median Debt', value: (r) => r.medianDebt },
+  { key: 'debtToEarnings', header: 'Debt-to-Earnings', value: (r) => r.debtToEarnings },
+  { key: 'monthlyPayment', header: 'Monthly Payment (est.)', value: (r) => r.monthlyPayment },
+  { key: 'accountabilityStatus', header: 'Accountability', value: (r) => r.accountabilityStatus },
+  { key: 'accountabilityNotes', header: 'Accountability Notes', value: (r) => r.accountabilityNotes },
+];
+
+export default function SchoolDetail({ school, programs, roi: averageRoi, trends, fromTab }: SchoolDetailProps) {
   const [sortField, setSortField] = useState<SortField>('earn1yr');
   const [sortDir, setSortDir] = useState<SortDir>('desc');
   const [searchQuery, setSearchQuery] = useState('');
   const [credFilter, setCredFilter] = useState<Set<string>>(new Set());
+  const [minGraduates, setMinGraduates] = useState(0);
+  const [earningsBasis, setEarningsBasis] = useEarningsBasis();
   const [page, setPage] = useState(1);
   const [selectedProgram, setSelectedProgram] = useState<string | null>(null);
   const [compareSet, setCompareSet] = useState<Set<string>>(new Set());
+  const [incomeBracket, setIncomeBracket] = useIncomeBracket();
   const chartRef = useRef<HTMLDivElement>(null);
   const dotClickedRef = useRef(false);
 
@@ -95,6 +181,8 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
     school.satMath75 != null && school.satRead75 != null
       ? school.satMath75 + school.satRead75
       : null;
+  const hasOutcomes = OUTCOME_FIELDS.some((f) => school[f.key] != null);
+  const characteristics = characteristicLabels(school);
 
   // Close detail card on Escape
   useEffect(() => {
@@ -105,26 +193,69 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
     return () => window.removeEventListener('keydown', handler);
   }, []);
 
+  // Cost and ROI at the net price paid by families in the chosen income bracket
+  const roi = useMemo(() => {
+    if (!averageRoi || !incomeBracket) return averageRoi;
+    return {
+      ...averageRoi,
+      ...roiAtIncome(
+        averageRoi.netPrice,
+        school,
+        incomeBracket,
+        { earn1yr: averageRoi.weightedEarn1yr, earn4yr: null, earn5yr: averageRoi.weightedEarn5yr },
+        school.state,
+      ),
+    };
+  }, [averageRoi, school, incomeBracket]);
+
   // Build rows from programs
   const allRows = useMemo(() => {
     return programs
       .filter((p) => p.earn1yr != null || p.earn5yr != null)
-      .map((p) => ({
-        rank: 0,
-        progKey: `${p.cipCode}-${p.credLevel}`,
-        cipCode: p.cipCode,
-        cipTitle: p.cipTitle,
-        credLevel: p.credLevel,
-        credTitle: p.credTitle,
-        category: getCipCategory(p.cipCode),
-        earn1yr: p.earn1yr,
-        earn5yr: p.earn5yr,
-        costAttendance: p.costAttendance,
-        multiple:
-          p.costAttendance && p.earn1yr ? p.earn1yr / p.costAttendance : 0,
-        earn1yrCount: p.earn1yrCount,
-      }));
-  }, [programs]);
+      .map((p) => {
+        const progKey = `${p.cipCode}-${p.credLevel}`;
+        const trend = trends[progKey] ?? [];
+        const yoy = yearOverYear(trend);
+        const cost = incomeBracket
+          ? roiAtIncome(p.netPrice, school, incomeBracket, p, school.state, getCredential(p.credLevel)?.years)
+          : p;
+        return {
+          rank: 0,
+          progKey,
+          cipCode: p.cipCode,
+          cipTitle: p.cipTitle,
+          credLevel: p.credLevel,
+          credTitle: p.credTitle,
+          category: getCipCategory(p.cipCode),
+          earn1yr: p.earn1yr,
+          earn4yr: p.earn4yr,
+          earn5yr: p.earn5yr,
+          trend,
+          yoyChange: yoy?.change ?? null,
+          yoyLabel: yoy ? `${yoy.fromYear} \u2192 ${yoy.toYear}` : null,
+          costAttendance: p.costAttendance,
+          totalCost: cost.totalCost,
+          npv: cost.npv,
+          breakEvenYear: cost.breakEvenYear,
+          valueAddedEarn1yr: p.valueAddedEarn1yr,
+          netPremium: cost.netPremium,
+          medianDebt: p.medianDebt,
+          debtToEarnings: p.debtToEarnings,
+          monthlyPayment: p.monthlyPayment,
+          debtWarning: debtWarning(p, p.earn1yr),
+          accountabilityStatus: p.accountabilityStatus,
+          accountabilityNotes: p.accountabilityNotes,
+          earn1yrCount: p.earn1yrCount,
+          earn5yrCount: p.earn5yrCount,
+          graduates: headlineEarnings(p).count,
+          adjustedEarn1yr: p.adjustedEarn1yr,
+          adjustedEarn5yr: p.adjustedEarn5yr,
+        };
+      });
+  }, [programs, trends, school, incomeBracket]);
+
+  const hasTrends = Object.keys(trends).length > 0;
+  const hasDebt = allRows.some((r) => r.debtToEarnings != null);
 
   // Unique credential levels for filter
   const credOptions = useMemo(() => {
@@ -147,8 +278,11 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
     if (credFilter.size > 0) {
       rows = rows.filter((r) => credFilter.has(r.credTitle));
     }
+    if (minGraduates > 0) {
+      rows = rows.filter((r) => r.graduates != null && r.graduates >= minGraduates);
+    }
     return rows;
-  }, [allRows, searchQuery, credFilter]);
+  }, [allRows, searchQuery, credFilter, minGraduates]);
 
   // Static axes — symmetric since both axes are earnings
   const { xDomain, yDomain, xTicks, yTicks } = useMemo(() => {
@@ -182,13 +316,17 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
         category: r.category,
         earn1yr: r.earn1yr,
         earn5yr: r.earn5yr,
+        earn1yrCount: r.earn1yrCount,
+        earn5yrCount: r.earn5yrCount,
+        xError: errorBar(r.earn1yr, r.earn1yrCount),
+        yError: errorBar(r.earn5yr, r.earn5yrCount),
       });
     }
     return data;
   }, [allRows]);
 
   // Dim/highlight based on filters
-  const hasActiveFilter = !!(searchQuery.trim() || credFilter.size > 0 || compareSet.size > 0);
+  const hasActiveFilter = !!(searchQuery.trim() || credFilter.size > 0 || minGraduates > 0 || compareSet.size > 0);
 
   const { dimmedData, highlightedByCategory } = useMemo(() => {
     if (!hasActiveFilter) {
@@ -273,10 +411,14 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
 
   // Sort
   const sorted = useMemo(() => {
+    const value = (r: ProgramRow) =>
+      sortField === 'earn1yr' || sortField === 'earn5yr'
+        ? rankedEarnings(r, sortField === 'earn1yr' ? 1 : 5, earningsBasis)
+        : r[sortField];
     const rows = [...filtered];
     rows.sort((a, b) => {
-      const av = a[sortField];
-      const bv = b[sortField];
+      const av = value(a);
+      const bv = value(b);
       if (av == null && bv == null) return 0;
       if (av == null) return 1;
       if (bv == null) return -1;
@@ -289,7 +431,20 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
     });
     rows.forEach((r, i) => (r.rank = i + 1));
     return rows;
-  }, [filtered, sortField, sortDir]);
+  }, [filtered, sortField, sortDir, earningsBasis]);
+
+  // Every row shares this school, so its identity and tier are constant columns
+  const exportColumns = useMemo<ExportColumn<ProgramRow>[]>(
+    () => [
+      EXPORT_COLUMNS[0],
+      { key: 'unitId', header: 'Unit ID', value: () => school.unitId },
+      { key: 'schoolName', header: 'School', value: () => school.name },
+      { key: 'state', header: 'State', value: () => school.state },
+      { key: 'tier', header: 'Tier', value: () => tier },
+      ...EXPORT_COLUMNS.slice(1),
+    ],
+    [school, tier],
+  );
 
   // Pagination
   const totalPages = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
@@ -304,7 +459,11 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
       setSortDir((d) => (d === 'asc' ? 'desc' : 'asc'));
     } else {
       setSortField(field);
-      setSortDir(field === 'cipTitle' || field === 'credTitle' ? 'asc' : 'desc');
+      setSortDir(
+        field === 'cipTitle' || field === 'credTitle' || field === 'breakEvenYear' || field === 'debtToEarnings'
+          ? 'asc'
+          : 'desc',
+      );
     }
     setPage(1);
   }, [sortField]);
@@ -330,7 +489,7 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
     return pages;
   }, [currentPage, totalPages]);
 
-  const filtersActive = !!(searchQuery || credFilter.size > 0);
+  const filtersActive = !!(searchQuery || credFilter.size > 0 || minGraduates > 0);
 
   return (
     <div>
@@ -353,6 +512,18 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
             />
             {school.city}, {school.state} &middot; {school.ownershipLabel || 'Unknown'} &middot; {tier}
           </p>
+          {characteristics.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {characteristics.map((label) => (
+                <span
+                  key={label}
+                  className="rounded-full border border-gray-200 bg-white px-2 py-0.5 text-[10px] font-medium text-text-secondary"
+                >
+                  {label}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
         <ShareButton title={`${school.name} - Earnings Data`} text={`Earnings data for ${school.name} programs`} />
       </div>
@@ -379,6 +550,13 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
           value={formatRate(school.completionRate)}
         />
       </div>
+      {hasOutcomes && (
+        <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-5">
+          {OUTCOME_FIELDS.map((f) => (
+            <StatCard key={f.key} label={f.label} value={formatRate(school[f.key])} />
+          ))}
+        </div>
+      )}
       <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-4">
         <StatCard
           label="Cost of Attendance"
@@ -397,6 +575,35 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
           value={formatNumber(programs.length)}
         />
       </div>
+      <div className="mt-3 flex justify-end">
+        <IncomeSelect value={incomeBracket} onChange={setIncomeBracket} />
+      </div>
+      {roi && (
+        <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-4">
+          <StatCard
+            label={
+              incomeBracket
+                ? `Net Price (${INCOME_BRACKETS.find((b) => b.key === incomeBracket)?.label})`
+                : 'Avg Net Price'
+            }
+            value={formatCurrency(roi.netPrice)}
+          />
+          <StatCard
+            label="Total Net Cost"
+            value={formatCurrency(roi.totalCost)}
+          />
+          <StatCard
+            label="Net Present Value"
+            value={formatCurrency(roi.npv)}
+            detail={roi.cumulativeEarnings != null ? `${formatCurrency(roi.cumulativeEarnings)} cumulative earnings` : undefined}
+          />
+          <StatCard
+            label="Break-even"
+            value={formatPayback(roi.breakEvenYear)}
+            detail="after graduation"
+          />
+        </div>
+      )}
 
       {/* Scatter chart: 1yr vs 5yr earnings */}
       {hasScatterData && (
@@ -481,7 +688,10 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
                   shape={renderDot}
                   onClick={handleDotClick}
                   isAnimationActive={false}
-                />
+                >
+                  <ErrorBar dataKey="xError" direction="x" width={0} stroke="#d1d5db" strokeOpacity={0.3} />
+                  <ErrorBar dataKey="yError" direction="y" width={0} stroke="#d1d5db" strokeOpacity={0.3} />
+                </Scatter>
               )}
               {/* Highlighted points by CIP category — reverse so top categories render last (on top) */}
               {[...CIP_CATEGORY_ORDER].reverse().map(
@@ -495,7 +705,10 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
                       fillOpacity={0.75}
                       shape={renderDot}
                       onClick={handleDotClick}
-                    />
+                    >
+                      <ErrorBar dataKey="xError" direction="x" width={0} stroke={CIP_CATEGORY_COLORS[cat]} strokeOpacity={0.35} />
+                      <ErrorBar dataKey="yError" direction="y" width={0} stroke={CIP_CATEGORY_COLORS[cat]} strokeOpacity={0.35} />
+                    </Scatter>
                   ),
               )}
             </ScatterChart>
@@ -526,6 +739,10 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
                 Cost ({formatCompact(school.costAttendance)})
               </span>
             )}
+            <span className="flex items-center gap-1.5 text-xs text-text-secondary">
+              <span className="inline-block h-3 w-0 border-l-[1.5px] border-gray-400" />
+              95% range from graduate count
+            </span>
           </div>
 
           {/* Detail card — shown when a program dot is selected */}
@@ -573,15 +790,41 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
                   </p>
                 </div>
                 <div>
-                  <p className="text-[10px] font-medium uppercase tracking-wide text-text-secondary">ROI</p>
-                  <p className="text-sm font-semibold">
-                    {selectedRow.multiple > 0 ? selectedRow.multiple.toFixed(1) + 'x' : '\u2014'}
-                  </p>
+                  <p className="text-[10px] font-medium uppercase tracking-wide text-text-secondary">NPV</p>
+                  <p className="text-sm font-semibold">{formatCurrency(selectedRow.npv)}</p>
                 </div>
               </div>
 
+              {selectedRow.breakEvenYear != null && (
+                <p className="mt-2 text-xs text-text-secondary">
+                  Breaks even <span className="font-medium text-text-primary">{formatPayback(selectedRow.breakEvenYear)}</span> after graduation
+                </p>
+              )}
+
+              {selectedRow.medianDebt != null && (
+                <p className={`mt-1 text-xs ${selectedRow.debtWarning ? 'text-earn-below' : 'text-text-secondary'}`}>
+                  Median debt <span className="font-medium">{formatCurrency(selectedRow.medianDebt)}</span>
+                  {' '}(about {formatCurrency(selectedRow.monthlyPayment)}/mo)
+                  {selectedRow.debtWarning && <> &middot; {selectedRow.debtWarning}</>}
+                </p>
+              )}
+
+              {selectedRow.accountabilityStatus && (
+                <div className="mt-2 flex items-start gap-2 text-xs text-text-secondary">
+                  <AccountabilityBadge status={selectedRow.accountabilityStatus} notes={null} />
+                  <span>{selectedRow.accountabilityNotes}</span>
+                </div>
+              )}
+
+              {/* Repayment assumes the full net cost of the degree is borrowed */}
+              <RepaymentChart
+                key={selectedRow.progKey}
+                earnings={selectedRow}
+                defaultDebt={selectedRow.totalCost}
+              />
+
               <Link
-                href={`/majors/${encodeURIComponent(selectedRow.cipCode)}?from=colleges`}
+                href={`/majors/${encodeURIComponent(selectedRow.cipCode)}?from=colleges&cred=${selectedRow.credLevel}`}
                 className="mt-3 inline-block text-xs font-medium text-accent hover:underline"
               >
                 View major details &rarr;
@@ -636,8 +879,18 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
                     </span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-text-secondary">ROI</span>
-                    <span className="font-semibold">{r.multiple > 0 ? r.multiple.toFixed(1) + 'x' : '\u2014'}</span>
+                    <span className="text-text-secondary">NPV</span>
+                    <span className="font-semibold">{formatCurrency(r.npv)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-text-secondary">Break-even</span>
+                    <span className="font-medium">{formatPayback(r.breakEvenYear)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-text-secondary">Debt/Earnings</span>
+                    <span className={`font-medium ${r.debtWarning ? 'text-earn-below' : ''}`}>
+                      {formatRatio(r.debtToEarnings)}
+                    </span>
                   </div>
                 </div>
               </div>
@@ -710,11 +963,28 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
           </div>
         )}
 
+        <EarningsBasisSelect
+          value={earningsBasis}
+          onChange={(basis) => {
+            setEarningsBasis(basis);
+            setPage(1);
+          }}
+        />
+
+        <MinGraduatesSelect
+          value={minGraduates}
+          onChange={(value) => {
+            setMinGraduates(value);
+            setPage(1);
+          }}
+        />
+
         {filtersActive && (
           <button
             onClick={() => {
               setSearchQuery('');
               setCredFilter(new Set());
+              setMinGraduates(0);
               setPage(1);
             }}
             className="rounded-lg px-2 py-1.5 text-xs text-accent hover:bg-accent/10"
@@ -725,9 +995,12 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
       </div>
 
       {/* Count */}
-      <p className="mt-2 text-xs text-text-secondary">
-        Showing {sorted.length} of {allRows.length} programs
-      </p>
+      <div className="mt-2 flex items-center justify-between">
+        <p className="text-xs text-text-secondary">
+          Showing {sorted.length} of {allRows.length} programs
+        </p>
+        <ExportButton rows={sorted} columns={exportColumns} filename={`${school.unitId}-programs`} />
+      </div>
 
       {/* Table */}
       <div className="mt-3 overflow-x-auto rounded-lg border border-gray-100 bg-white shadow-sm">
@@ -754,14 +1027,33 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
                 className="cursor-pointer px-3 py-2 text-right font-medium text-text-secondary hover:text-text-primary"
                 onClick={() => handleSort('earn1yr')}
               >
-                1yr Earnings{sortArrow('earn1yr')}
+                {earningsBasis === 'adjusted' ? '1yr Earnings (adj.)' : '1yr Earnings'}{sortArrow('earn1yr')}
               </th>
               <th
                 className="hidden cursor-pointer px-3 py-2 text-right font-medium text-text-secondary hover:text-text-primary sm:table-cell"
                 onClick={() => handleSort('earn5yr')}
               >
-                5yr Earnings{sortArrow('earn5yr')}
+                {earningsBasis === 'adjusted' ? '5yr Earnings (adj.)' : '5yr Earnings'}{sortArrow('earn5yr')}
+              </th>
+              <th
+                className="hidden cursor-pointer px-3 py-2 font-medium text-text-secondary hover:text-text-primary md:table-cell"
+                onClick={() => handleSort('graduates')}
+              >
+                Reliability{sortArrow('graduates')}
               </th>
+              {hasTrends && (
+                <>
+                  <th className="hidden px-3 py-2 font-medium text-text-secondary md:table-cell">
+                    Trend
+                  </th>
+                  <th
+                    className="hidden cursor-pointer px-3 py-2 text-right font-medium text-text-secondary hover:text-text-primary md:table-cell"
+                    onClick={() => handleSort('yoyChange')}
+                  >
+                    YoY{sortArrow('yoyChange')}
+                  </th>
+                </>
+              )}
               <th
                 className="hidden cursor-pointer px-3 py-2 text-right font-medium text-text-secondary hover:text-text-primary md:table-cell"
                 onClick={() => handleSort('costAttendance')}
@@ -770,10 +1062,24 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
               </th>
               <th
                 className="cursor-pointer px-3 py-2 text-right font-medium text-text-secondary hover:text-text-primary"
-                onClick={() => handleSort('multiple')}
+                onClick={() => handleSort('npv')}
               >
-                ROI{sortArrow('multiple')}
+                NPV{sortArrow('npv')}
               </th>
+              <th
+                className="hidden cursor-pointer px-3 py-2 text-right font-medium text-text-secondary hover:text-text-primary lg:table-cell"
+                onClick={() => handleSort('breakEvenYear')}
+              >
+                Break-even{sortArrow('breakEvenYear')}
+              </th>
+              {hasDebt && (
+                <th
+                  className="hidden cursor-pointer px-3 py-2 text-right font-medium text-text-secondary hover:text-text-primary lg:table-cell"
+                  onClick={() => handleSort('debtToEarnings')}
+                >
+                  Debt/Earnings{sortArrow('debtToEarnings')}
+                </th>
+              )}
             </tr>
           </thead>
           <tbody>
@@ -806,12 +1112,15 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
                       style={{ backgroundColor: CIP_CATEGORY_COLORS[r.category] ?? '#475569' }}
                     />
                     <Link
-                      href={`/majors/${encodeURIComponent(r.cipCode)}?from=colleges`}
+                      href={`/majors/${encodeURIComponent(r.cipCode)}?from=colleges&cred=${r.credLevel}`}
                       className="font-medium text-accent hover:underline"
                       onClick={(e) => e.stopPropagation()}
                     >
                       {r.cipTitle.replace(/\.+$/, '')}
                     </Link>
+                    {r.accountabilityStatus && r.accountabilityStatus !== 'pass' && (
+                      <AccountabilityBadge status={r.accountabilityStatus} notes={r.accountabilityNotes} />
+                    )}
                     <span className="text-text-secondary sm:hidden">
                       {r.credTitle}
                     </span>
@@ -820,26 +1129,67 @@ export default function SchoolDetail({ school, programs, fromTab }: SchoolDetail
                 <td className="hidden px-3 py-2 text-text-secondary sm:table-cell">
                   {r.credTitle}
                 </td>
-                <td className="px-3 py-2 text-right font-medium text-earn-above">
-                  {formatCurrency(r.earn1yr)}
+                <td
+                  className="px-3 py-2 text-right font-medium text-earn-above"
+                  title={earningsBasis === 'adjusted' && r.earn1yr != null ? `Reported: ${formatCurrency(r.earn1yr)}` : undefined}
+                >
+                  {formatCurrency(rankedEarnings(r, 1, earningsBasis))}
+                </td>
+                <td
+                  className="hidden px-3 py-2 text-right font-medium text-earn-above sm:table-cell"
+                  title={earningsBasis === 'adjusted' && r.earn5yr != null ? `Reported: ${formatCurrency(r.earn5yr)}` : undefined}
+                >
+                  {r.earn5yr != null ? formatCurrency(rankedEarnings(r, 5, earningsBasis)) : '\u2014'}
                 </td>
-                <td className="hidden px-3 py-2 text-right font-medium text-earn-above sm:table-cell">
-                  {r.earn5yr != null ? formatCurrency(r.earn5yr) : '\u2014'}
+                <td className="hidden px-3 py-2 md:table-cell">
+                  <ReliabilityBadge program={r} />
                 </td>
+                {hasTrends && (
+                  <>
+                    <td className="hidden px-3 py-2 md:table-cell">
+                      <Sparkline points={r.trend} />
+                    </td>
+                    <td
+                      className={`hidden px-3 py-2 text-right md:table-cell ${
+                        r.yoyChange == null
+                          ? 'text-text-secondary'
+                          : r.yoyChange >= 0
+                            ? 'text-earn-above'
+                            : 'text-earn-below'
+                      }`}
+                      title={r.yoyLabel ?? undefined}
+                    >
+                      {formatPercent(r.yoyChange)}
+                    </td>
+                  </>
+                )}
                 <td className="hidden px-3 py-2 text-right text-text-secondary md:table-cell">
                   {r.costAttendance != null && r.costAttendance > 0
                     ? formatCurrency(r.costAttendance)
                     : '\u2014'}
                 </td>
                 <td className="px-3 py-2 text-right font-semibold text-text-primary">
-                  {r.multiple > 0 ? r.multiple.toFixed(1) + 'x' : '\u2014'}
+                  {formatCurrency(r.npv)}
+                </td>
+                <td className="hidden px-3 py-2 text-right text-text-secondary lg:table-cell">
+                  {formatPayback(r.breakEvenYear)}
                 </td>
+                {hasDebt && (
+                  <td className="hidden px-3 py-2 text-right text-text-secondary lg:table-cell">
+                    <DebtRatio
+                      debtToEarnings={r.debtToEarnings}
+                      medianDebt={r.medianDebt}
+                      monthlyPayment={r.monthlyPayment}
+                      warning={r.debtWarning}
+                    />
+                  </td>
+                )}
               </tr>
             ))}
             {paginated.length === 0 && (
               <tr>
                 <td
-                  colSpan={8}
+                  colSpan={(hasTrends ? 12 : 10) + (hasDebt ? 1 : 0)}
                   className="px-3 py-8 text-center text-sm text-text-secondary"
                 >
                   No programs match your filters
@@ -0,0 +1,189 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { TIER_ORDER } from '@/lib/tiers';
+import { OUTCOME_FIELDS, type OutcomeKey } from '@/lib/outcomes';
+import CharacteristicSelects from './CharacteristicSelects';
+import { DEFAULT_SCHOOL_FILTERS, hasSchoolFilters, type SchoolFilters } from '@/lib/school-filters';
+
+interface SchoolFilterBarProps {
+  filters: SchoolFilters;
+  onChange: (filters: SchoolFilters) => void;
+  states: string[];
+  /** Extra controls rendered before the clear button */
+  children?: ReactNode;
+}
+
+export default function SchoolFilterBar({ filters, onChange, states, children }: SchoolFilterBarProps) {
+  const update = (patch: Partial<SchoolFilters>) => onChange({ ...filters, ...patch });
+
+  return (
+    <div className="mb-3 flex flex-wrap items-end gap-3 rounded-lg border border-gray-100 bg-gray-50 p-3">
+      <div className="flex-1 sm:flex-none">
+        <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+          Search Schools
+        </label>
+        <div className="relative">
+          <input
+            type="text"
+            placeholder="School name..."
+            value={filters.search}
+            onChange={(e) => update({ search: e.target.value })}
+            className="w-full rounded-lg border border-gray-200 bg-white px-3 py-1.5 pr-7 text-xs text-text-primary outline-none placeholder:text-text-secondary/50 focus:border-accent sm:w-48"
+          />
+          {filters.search && (
+            <button
+              onClick={() => update({ search: '' })}
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-sm text-text-secondary hover:text-text-primary"
+            >
+              &times;
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+          Min Programs
+        </label>
+        <select
+          value={filters.minPrograms}
+          onChange={(e) => update({ minPrograms: Number(e.target.value) })}
+          className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+        >
+          {[1, 3, 5, 10, 25].map((n) => (
+            <option key={n} value={n}>
+              {n}+
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+          School Type
+        </label>
+        <div className="flex rounded-lg border border-gray-200 bg-white text-xs">
+          {(
+            [
+              [null, 'All'],
+              [1, 'Public'],
+              [2, 'Private'],
+              [3, 'For-Profit'],
+            ] as const
+          ).map(([val, label]) => (
+            <button
+              key={String(val)}
+              onClick={() => update({ ownership: val })}
+              className={`px-2.5 py-1.5 transition-colors first:rounded-l-lg last:rounded-r-lg ${
+                filters.ownership === val
+                  ? 'bg-accent text-white'
+                  : 'text-text-secondary hover:text-text-primary'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {states.length > 1 && (
+        <div>
+          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+            State
+          </label>
+          <select
+            value={filters.state}
+            onChange={(e) => update({ state: e.target.value })}
+            className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+          >
+            <option value="">All States</option>
+            {states.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div>
+        <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+          Tier
+        </label>
+        <div className="flex flex-wrap gap-1">
+          {TIER_ORDER.map((t) => (
+            <button
+              key={t}
+              onClick={() => {
+                const next = new Set(filters.tiers);
+                if (next.has(t)) next.delete(t);
+                else next.add(t);
+                update({ tiers: next });
+              }}
+              className={`rounded-full px-2.5 py-1 text-xs transition-colors ${
+                filters.tiers.has(t)
+                  ? 'bg-accent text-white'
+                  : 'border border-gray-200 bg-white text-text-secondary hover:text-text-primary'
+              }`}
+            >
+              {t}
+            </button>
+          ))}
+          {filters.tiers.size > 0 && (
+            <button
+              onClick={() => update({ tiers: new Set() })}
+              className="rounded-full px-2 py-1 text-xs text-accent hover:bg-accent/10"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      <CharacteristicSelects value={filters} onChange={update} />
+
+      <div>
+        <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+          Outcome
+        </label>
+        <div className="flex gap-1">
+          <select
+            value={filters.outcome}
+            onChange={(e) => update({ outcome: e.target.value as OutcomeKey })}
+            className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+          >
+            {OUTCOME_FIELDS.map((f) => (
+              <option key={f.key} value={f.key}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.minOutcome ?? ''}
+            onChange={(e) => update({ minOutcome: e.target.value ? Number(e.target.value) : null })}
+            className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+          >
+            <option value="">Any</option>
+            {[0.25, 0.5, 0.75, 0.9].map((n) => (
+              <option key={n} value={n}>
+                {n * 100}%+
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {children}
+
+      {hasSchoolFilters(filters) && (
+        <button
+          onClick={() => onChange({ ...DEFAULT_SCHOOL_FILTERS, minPrograms: filters.minPrograms, outcome: filters.outcome })}
+          className="rounded-lg px-2 py-1.5 text-xs text-accent hover:bg-accent/10"
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
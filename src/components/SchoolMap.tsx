@@ -0,0 +1,401 @@
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { geoAlbersUsa, geoPath, geoCircle } from 'd3-geo';
+import type { FeatureCollection, Geometry } from 'geojson';
+import type { SchoolRanking, SchoolLocation, ZipLocation } from '@/types';
+import { formatCurrency, formatNumber } from '@/lib/formatters';
+import { getDisplayTier, TIER_COLORS, TIER_ORDER } from '@/lib/tiers';
+import { filterSchoolRankings, type SchoolFilters } from '@/lib/school-filters';
+import { distanceMiles, milesToDegrees } from '@/lib/geo';
+import { trackEvent } from '@/lib/analytics';
+import usStates from '@/lib/us-states.json';
+import SchoolFilterBar from './SchoolFilterBar';
+
+const WIDTH = 960;
+const HEIGHT = 600;
+const RADIUS_OPTIONS = [10, 25, 50, 100, 250];
+const NEARBY_LIMIT = 25;
+
+// Boundaries are bundled (see scripts/build-state-boundaries.ts), so the map
+// renders without any tile service.
+const STATES = usStates as unknown as FeatureCollection<Geometry, { name: string }>;
+const projection = geoAlbersUsa().fitSize([WIDTH, HEIGHT], STATES);
+const pathGenerator = geoPath(projection);
+const STATE_PATHS = STATES.features.map((f) => ({
+  id: String(f.id),
+  name: f.properties.name,
+  d: pathGenerator(f) ?? '',
+}));
+
+interface MapPoint {
+  unitId: number;
+  name: string;
+  city: string;
+  state: string;
+  tier: string;
+  size: number | null;
+  earnings: number | null;
+  lat: number;
+  lon: number;
+  x: number;
+  y: number;
+  r: number;
+}
+
+interface ViewBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const FULL_VIEW: ViewBox = { x: 0, y: 0, w: WIDTH, h: HEIGHT };
+
+// Dot area grows with enrollment, clamped so tiny and huge schools stay legible
+function dotRadius(size: number | null): number {
+  if (size == null || size <= 0) return 2;
+  return Math.min(9, Math.max(2, Math.sqrt(size) / 30));
+}
+
+// Fits the search circle into a view with the map's aspect ratio
+function viewBoxFor(bounds: [[number, number], [number, number]]): ViewBox {
+  const [[x0, y0], [x1, y1]] = bounds;
+  const pad = 1.3;
+  let w = Math.max(x1 - x0, 20) * pad;
+  let h = Math.max(y1 - y0, 20) * pad;
+  if (w / h > WIDTH / HEIGHT) h = (w * HEIGHT) / WIDTH;
+  else w = (h * WIDTH) / HEIGHT;
+  if (w >= WIDTH) return FULL_VIEW;
+  return { x: (x0 + x1) / 2 - w / 2, y: (y0 + y1) / 2 - h / 2, w, h };
+}
+
+interface SchoolMapProps {
+  schoolRankings: SchoolRanking[];
+  schoolLocations: SchoolLocation[];
+  filters: SchoolFilters;
+  onFiltersChange: (filters: SchoolFilters) => void;
+}
+
+export default function SchoolMap({
+  schoolRankings,
+  schoolLocations,
+  filters,
+  onFiltersChange,
+}: SchoolMapProps) {
+  const router = useRouter();
+  const [zipInput, setZipInput] = useState('');
+  const [radiusMiles, setRadiusMiles] = useState(50);
+  const [center, setCenter] = useState<ZipLocation | null>(null);
+  const [zipError, setZipError] = useState<string | null>(null);
+  const [zipLoading, setZipLoading] = useState(false);
+  const [hovered, setHovered] = useState<MapPoint | null>(null);
+
+  const states = useMemo(() => {
+    const s = new Set(schoolRankings.map((r) => r.state).filter(Boolean));
+    return Array.from(s).sort();
+  }, [schoolRankings]);
+
+  // Project every school once; filters only decide which dots are drawn
+  const allPoints = useMemo(() => {
+    const locations = new Map(schoolLocations.map((l) => [l.unitId, l]));
+    const points: MapPoint[] = [];
+    for (const r of schoolRankings) {
+      const loc = locations.get(r.unitId);
+      if (!loc) continue;
+      const xy = projection([loc.lon, loc.lat]);
+      if (!xy) continue;
+      points.push({
+        unitId: r.unitId,
+        name: r.name,
+        city: r.city,
+        state: r.state,
+        tier: getDisplayTier(r.name, r.selectivityTier, r.admissionRate, r.size),
+        size: r.size,
+        earnings: r.weightedEarn1yr,
+        lat: loc.lat,
+        lon: loc.lon,
+        x: xy[0],
+        y: xy[1],
+        r: dotRadius(r.size),
+      });
+    }
+    // Largest first so smaller schools render on top and stay clickable
+    return points.sort((a, b) => b.r - a.r);
+  }, [schoolRankings, schoolLocations]);
+
+  const filteredIds = useMemo(
+    () => new Set(filterSchoolRankings(schoolRankings, filters).map((r) => r.unitId)),
+    [schoolRankings, filters],
+  );
+
+  const visible = useMemo(() => {
+    const points = allPoints.filter((p) => filteredIds.has(p.unitId));
+    if (!center) return points;
+    return points.filter((p) => distanceMiles(center.lat, center.lon, p.lat, p.lon) <= radiusMiles);
+  }, [allPoints, filteredIds, center, radiusMiles]);
+
+  const nearby = useMemo(() => {
+    if (!center) return [];
+    return visible
+      .map((p) => ({ ...p, distance: distanceMiles(center.lat, center.lon, p.lat, p.lon) }))
+      .sort((a, b) => a.distance - b.distance);
+  }, [visible, center]);
+
+  const { circlePath, viewBox } = useMemo(() => {
+    if (!center) return { circlePath: null, viewBox: FULL_VIEW };
+    const circle = geoCircle().center([center.lon, center.lat]).radius(milesToDegrees(radiusMiles))();
+    const bounds = pathGenerator.bounds(circle);
+    const valid = bounds.every((pt) => pt.every(Number.isFinite));
+    return {
+      circlePath: pathGenerator(circle),
+      viewBox: valid ? viewBoxFor(bounds) : FULL_VIEW,
+    };
+  }, [center, radiusMiles]);
+
+  // Keep dots a constant on-screen size when zoomed into a radius search
+  const scale = viewBox.w / WIDTH;
+
+  const handleZipSearch = useCallback(async () => {
+    const code = zipInput.trim();
+    if (!/^\d{5}$/.test(code)) {
+      setZipError('Enter a 5-digit ZIP code');
+      return;
+    }
+    setZipLoading(true);
+    setZipError(null);
+    try {
+      const res = await fetch(`/api/zip?code=${code}`);
+      const json = await res.json();
+      if (!res.ok) {
+        setZipError(json.error ?? 'ZIP lookup failed');
+        setCenter(null);
+        return;
+      }
+      setCenter(json.data as ZipLocation);
+    } catch {
+      setZipError('ZIP lookup failed');
+    } finally {
+      setZipLoading(false);
+    }
+  }, [zipInput]);
+
+  const clearRadius = useCallback(() => {
+    setCenter(null);
+    setZipInput('');
+    setZipError(null);
+  }, []);
+
+  const handleDotClick = useCallback((unitId: number) => {
+    trackEvent('school_click', { unitId });
+    router.push(`/schools/${unitId}?from=map`);
+  }, [router]);
+
+  return (
+    <div className="mt-6">
+      <SchoolFilterBar filters={filters} onChange={onFiltersChange} states={states}>
+        <div>
+          <label className="mb-1 block text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+            Near ZIP
+          </label>
+          <form
+            className="flex gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleZipSearch();
+            }}
+          >
+            <input
+              type="text"
+              inputMode="numeric"
+              maxLength={5}
+              placeholder="ZIP"
+              value={zipInput}
+              onChange={(e) => setZipInput(e.target.value.replace(/\D/g, ''))}
+              className="w-16 rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none placeholder:text-text-secondary/50 focus:border-accent"
+            />
+            <select
+              value={radiusMiles}
+              onChange={(e) => setRadiusMiles(Number(e.target.value))}
+              className="rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent"
+            >
+              {RADIUS_OPTIONS.map((n) => (
+                <option key={n} value={n}>
+                  {n} mi
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={zipLoading}
+              className="rounded-lg bg-accent px-2.5 py-1.5 text-xs text-white transition-opacity hover:opacity-90 disabled:opacity-50"
+            >
+              {zipLoading ? '...' : 'Go'}
+            </button>
+            {center && (
+              <button
+                type="button"
+                onClick={clearRadius}
+                className="rounded-lg px-2 py-1.5 text-xs text-accent hover:bg-accent/10"
+              >
+                Clear
+              </button>
+            )}
+          </form>
+        </div>
+      </SchoolFilterBar>
+
+      {/* Count */}
+      <p className="mb-2 text-xs text-text-secondary">
+        {center
+          ? `${visible.length} colleges within ${radiusMiles} miles of ${center.zip} (${center.city}, ${center.state})`
+          : `${visible.length} of ${allPoints.length} mapped colleges`}
+        {zipError && <span className="ml-2 text-earn-below">{zipError}</span>}
+      </p>
+
+      {/* Map */}
+      <div className="relative rounded-lg border border-gray-100 bg-white p-2 shadow-sm sm:p-4">
+        <svg
+          viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.w} ${viewBox.h}`}
+          className="h-auto w-full"
+          role="img"
+          aria-label="Map of colleges by tier and enrollment"
+          onMouseLeave={() => setHovered(null)}
+        >
+          <g>
+            {STATE_PATHS.map((s) => (
+              <path
+                key={s.id}
+                d={s.d}
+                fill="#f8fafc"
+                stroke="#cbd5e1"
+                strokeWidth={0.75}
+                vectorEffect="non-scaling-stroke"
+              >
+                <title>{s.name}</title>
+              </path>
+            ))}
+          </g>
+          {circlePath && (
+            <path
+              d={circlePath}
+              fill="var(--color-accent)"
+              fillOpacity={0.06}
+              stroke="var(--color-accent)"
+              strokeDasharray="4 3"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          <g>
+            {visible.map((p) => (
+              <circle
+                key={p.unitId}
+                cx={p.x}
+                cy={p.y}
+                r={p.r * scale}
+                fill={TIER_COLORS[p.tier] ?? '#9ca3af'}
+                fillOpacity={0.7}
+                stroke="#fff"
+                strokeWidth={0.5}
+                vectorEffect="non-scaling-stroke"
+                className="cursor-pointer"
+                onMouseEnter={() => setHovered(p)}
+                onMouseLeave={() => setHovered(null)}
+                onClick={() => handleDotClick(p.unitId)}
+              />
+            ))}
+          </g>
+        </svg>
+
+        {hovered && (
+          <div
+            className="pointer-events-none absolute z-10 -translate-x-1/2 -translate-y-full rounded-lg border border-gray-200 bg-white px-3 py-2 shadow-lg"
+            style={{
+              left: `${((hovered.x - viewBox.x) / viewBox.w) * 100}%`,
+              top: `calc(${((hovered.y - viewBox.y) / viewBox.h) * 100}% - 8px)`,
+            }}
+          >
+            <p className="text-sm font-semibold text-text-primary">{hovered.name}</p>
+            <p className="text-xs text-text-secondary">
+              {hovered.city}, {hovered.state}
+            </p>
+            <div className="mt-1 flex gap-4 text-xs">
+              <span>Earnings: <strong className="text-earn-above">{formatCurrency(hovered.earnings)}</strong></span>
+              <span>Enrollment: <strong>{formatNumber(hovered.size)}</strong></span>
+            </div>
+            <span
+              className="mt-1 inline-block rounded-full px-2 py-0.5 text-[10px] font-medium text-white"
+              style={{ backgroundColor: TIER_COLORS[hovered.tier] ?? '#9ca3af' }}
+            >
+              {hovered.tier}
+            </span>
+            <p className="mt-1.5 text-[10px] text-text-secondary">Click to see details</p>
+          </div>
+        )}
+
+        {/* Legend */}
+        <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 px-2 text-[10px] text-text-secondary">
+          {TIER_ORDER.map((t) => (
+            <span key={t} className="inline-flex items-center gap-1">
+              <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: TIER_COLORS[t] }} />
+              {t}
+            </span>
+          ))}
+          <span className="ml-auto">Dot size reflects enrollment</span>
+        </div>
+      </div>
+
+      {/* Nearest schools */}
+      {center && nearby.length > 0 && (
+        <div className="mt-4 overflow-x-auto rounded-lg border border-gray-100">
+          <table className="w-full text-left">
+            <thead className="border-b border-gray-100 bg-gray-50/50">
+              <tr>
+                <th className="px-3 py-2 text-xs font-medium text-text-secondary">School</th>
+                <th className="px-3 py-2 text-xs font-medium text-text-secondary">Tier</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-text-secondary">Distance</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-text-secondary">Earnings (1yr)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {nearby.slice(0, NEARBY_LIMIT).map((p) => (
+                <tr key={p.unitId} className="border-b border-gray-50 hover:bg-gray-50/50">
+                  <td className="px-3 py-2 text-xs">
+                    <Link href={`/schools/${p.unitId}?from=map`} className="font-medium text-text-primary hover:text-accent">
+                      {p.name}
+                    </Link>
+                    <span className="ml-1 text-text-secondary">
+                      {p.city}, {p.state}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-xs">
+                    <span
+                      className="inline-block rounded-full px-2 py-0.5 text-[10px] font-medium text-white"
+                      style={{ backgroundColor: TIER_COLORS[p.tier] ?? '#9ca3af' }}
+                    >
+                      {p.tier}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-right text-xs text-text-secondary">
+                    {p.distance.toFixed(1)} mi
+                  </td>
+                  <td className="px-3 py-2 text-right text-xs font-medium text-text-primary">
+                    {formatCurrency(p.earnings)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {nearby.length > NEARBY_LIMIT && (
+            <p className="px-3 py-2 text-[10px] text-text-secondary">
+              Showing the {NEARBY_LIMIT} closest of {nearby.length} colleges
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
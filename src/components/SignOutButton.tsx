@@ -0,0 +1,26 @@
+'use client';
+
+import { useState } from 'react';
+
+export default function SignOutButton() {
+  const [pending, setPending] = useState(false);
+
+  const handleClick = async () => {
+    setPending(true);
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      window.location.assign('/login');
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={pending}
+      className="rounded-lg border border-gray-200 px-2.5 py-1.5 text-xs text-text-secondary transition-colors hover:border-accent hover:text-accent disabled:opacity-50"
+    >
+      Sign out
+    </button>
+  );
+}
@@ -0,0 +1,50 @@
+import type { EarningsTrendPoint } from '@/types';
+import { formatCurrency } from '@/lib/formatters';
+
+interface SparklineProps {
+  points: EarningsTrendPoint[];
+  width?: number;
+  height?: number;
+}
+
+// Inline SVG rather than a chart component: tables render one per row
+export default function Sparkline({ points, width = 64, height = 20 }: SparklineProps) {
+  const reported = points.filter((p) => p.earn1yr != null);
+  if (reported.length < 2) {
+    return <span className="text-text-secondary">&mdash;</span>;
+  }
+
+  const values = reported.map((p) => p.earn1yr!);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const firstYear = reported[0].year;
+  const span = reported[reported.length - 1].year - firstYear || 1;
+  const pad = 2;
+  const coords = reported.map((p) => [
+    pad + ((p.year - firstYear) / span) * (width - pad * 2),
+    pad + (1 - (p.earn1yr! - min) / range) * (height - pad * 2),
+  ]);
+  const [lastX, lastY] = coords[coords.length - 1];
+  const rising = values[values.length - 1] >= values[0];
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={`inline-block align-middle ${rising ? 'text-earn-above' : 'text-earn-below'}`}
+      role="img"
+      aria-label={reported.map((p) => `${p.year}: ${formatCurrency(p.earn1yr)}`).join(', ')}
+    >
+      <title>{reported.map((p) => `${p.year}: ${formatCurrency(p.earn1yr)}`).join('\n')}</title>
+      <polyline
+        points={coords.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ')}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+      />
+      <circle cx={lastX} cy={lastY} r={2} fill="currentColor" />
+    </svg>
+  );
+}
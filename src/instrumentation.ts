@@ -0,0 +1,16 @@
+// Runs once when the server starts. A database that is missing migrations
+// fails startup instead of serving queries against the wrong schema.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { createClient } = await import('@libsql/client');
+  const { databaseConfig } = await import('./lib/db/config');
+  const { assertSchemaCurrent } = await import('./lib/db/migrate');
+
+  const client = createClient(databaseConfig());
+  try {
+    await assertSchemaCurrent(client);
+  } finally {
+    client.close();
+  }
+}
@@ -0,0 +1,144 @@
+import { getBaselineEarnings } from './baseline-earnings';
+import { isGraduateLevel } from './credentials';
+import { DEFAULT_REPAYMENT_OPTIONS } from './loans';
+import { formatCurrency } from './formatters';
+import type { AccountabilityStatus } from '@/types';
+
+// Program accountability tests modeled on the federal earnings-premium test
+// (graduates must out-earn people without the credential) and the
+// gainful-employment debt-to-earnings rates. Each rule either passes, warns
+// or fails a program; the program's status is its worst result.
+
+export const ACCOUNTABILITY_STATUSES: { key: AccountabilityStatus; label: string }[] = [
+  { key: 'fail', label: 'Fail' },
+  { key: 'warn', label: 'Warning' },
+  { key: 'pass', label: 'Pass' },
+];
+
+export interface AccountabilityInput {
+  state: string;
+  credLevel: number;
+  earn1yr: number | null;
+  earn4yr: number | null;
+  monthlyPayment: number | null;
+}
+
+// Comparison earnings for graduate programs: the national bachelor's
+// median in the same field.
+export interface AccountabilityContext {
+  bachelorEarn1yr: number | null;
+  bachelorEarn4yr: number | null;
+}
+
+export interface RuleResult {
+  status: AccountabilityStatus;
+  explanation: string;
+}
+
+export interface AccountabilityRule {
+  key: string;
+  label: string;
+  // Null when the program lacks the data the rule needs
+  evaluate: (program: AccountabilityInput, context: AccountabilityContext) => RuleResult | null;
+}
+
+export const EARNINGS_PREMIUM_MARGIN = 0.1; // warn within 10% of the threshold
+export const ANNUAL_DTE_PASS = 0.08;
+export const ANNUAL_DTE_FAIL = 0.12;
+export const DISCRETIONARY_DTE_PASS = 0.2;
+export const DISCRETIONARY_DTE_FAIL = 0.3;
+
+// The federal tests measure earnings a few years after completion, so the
+// 4-year figure is preferred when Scorecard reports it
+function measuredEarnings(p: { earn1yr: number | null; earn4yr: number | null }): { value: number; years: number } | null {
+  if (p.earn4yr != null) return { value: p.earn4yr, years: 4 };
+  if (p.earn1yr != null) return { value: p.earn1yr, years: 1 };
+  return null;
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+const earningsPremiumRule: AccountabilityRule = {
+  key: 'earnings-premium',
+  label: 'Earnings premium',
+  evaluate(p, context) {
+    const earnings = measuredEarnings(p);
+    if (!earnings) return null;
+    let threshold: number | null;
+    let comparison: string;
+    if (isGraduateLevel(p.credLevel)) {
+      threshold = earnings.years === 4 ? context.bachelorEarn4yr : context.bachelorEarn1yr;
+      comparison = "bachelor's graduates in the same field";
+    } else {
+      threshold = getBaselineEarnings(p.state);
+      comparison = `high school graduates in ${p.state || 'the U.S.'}`;
+    }
+    if (threshold == null) return null;
+    const detail = `${earnings.years}-year median earnings of ${formatCurrency(earnings.value)} vs. ${formatCurrency(threshold)} for ${comparison}`;
+    if (earnings.value <= threshold) {
+      return { status: 'fail', explanation: `Earnings premium: fails, ${detail}.` };
+    }
+    if (earnings.value < threshold * (1 + EARNINGS_PREMIUM_MARGIN)) {
+      return { status: 'warn', explanation: `Earnings premium: within ${EARNINGS_PREMIUM_MARGIN * 100}% of the threshold, ${detail}.` };
+    }
+    return { status: 'pass', explanation: `Earnings premium: passes, ${detail}.` };
+  },
+};
+
+// A program passes if either rate is within its limit and fails only when
+// both exceed their upper limits; anything between is a warning.
+const debtToEarningsRule: AccountabilityRule = {
+  key: 'debt-to-earnings',
+  label: 'Debt-to-earnings',
+  evaluate(p) {
+    const earnings = measuredEarnings(p);
+    if (!earnings || earnings.value <= 0 || p.monthlyPayment == null) return null;
+    const opts = DEFAULT_REPAYMENT_OPTIONS;
+    const annualPayment = p.monthlyPayment * 12;
+    const annualRate = annualPayment / earnings.value;
+    const discretionary = earnings.value - opts.idrPovertyMultiple * opts.povertyLine;
+    const discretionaryRate = discretionary > 0 ? annualPayment / discretionary : Infinity;
+    const detail = `annual rate ${pct(annualRate)}, discretionary rate ${
+      Number.isFinite(discretionaryRate) ? pct(discretionaryRate) : 'n/a (no discretionary income)'
+    }`;
+    if (annualRate <= ANNUAL_DTE_PASS || discretionaryRate <= DISCRETIONARY_DTE_PASS) {
+      return { status: 'pass', explanation: `Debt-to-earnings: passes, ${detail}.` };
+    }
+    if (annualRate > ANNUAL_DTE_FAIL && discretionaryRate > DISCRETIONARY_DTE_FAIL) {
+      return { status: 'fail', explanation: `Debt-to-earnings: fails, ${detail}.` };
+    }
+    return { status: 'warn', explanation: `Debt-to-earnings: above the passing limits, ${detail}.` };
+  },
+};
+
+export const ACCOUNTABILITY_RULES: AccountabilityRule[] = [earningsPremiumRule, debtToEarningsRule];
+
+const SEVERITY: Record<AccountabilityStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+export interface AccountabilityResult {
+  accountabilityStatus: AccountabilityStatus | null;
+  accountabilityNotes: string | null;
+}
+
+export function evaluateAccountability(
+  program: AccountabilityInput,
+  context: AccountabilityContext,
+  rules: AccountabilityRule[] = ACCOUNTABILITY_RULES,
+): AccountabilityResult {
+  const results = rules
+    .map((rule) => rule.evaluate(program, context))
+    .filter((r): r is RuleResult => r != null);
+  if (results.length === 0) return { accountabilityStatus: null, accountabilityNotes: null };
+  // Worst first: it sets the status and leads the explanation
+  const ordered = [...results].sort((a, b) => SEVERITY[b.status] - SEVERITY[a.status]);
+  return {
+    accountabilityStatus: ordered[0].status,
+    accountabilityNotes: ordered.map((r) => r.explanation).join(' '),
+  };
+}
+
+export function parseAccountabilityStatus(raw: string | null | undefined): AccountabilityStatus | null {
+  return ACCOUNTABILITY_STATUSES.find((s) => s.key === raw)?.key ?? null;
+}
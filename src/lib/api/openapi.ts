@@ -0,0 +1,185 @@
+import schemas from './openapi-schemas.json';
+import { DEFAULT_LIMIT, MAX_LIMIT, type FilterKey, type ResourceSpec } from './v1';
+import { EXPORT_FORMATS, EXPORT_MIME } from '@/lib/export';
+import { schoolsSpec, programsSpec, majorsSpec, rankingsSpec } from './resources';
+
+// Component schemas are generated from src/types by scripts/generate-openapi.ts;
+// only the path descriptions live here.
+
+const FILTER_PARAMETERS: Record<FilterKey, object[]> = {
+  state: [
+    { name: 'state', in: 'query', description: 'Comma-separated two-letter state codes', schema: { type: 'string' } },
+  ],
+  ownership: [
+    {
+      name: 'ownership',
+      in: 'query',
+      description: 'Comma-separated ownership codes: 1=public, 2=private nonprofit, 3=for-profit',
+      schema: { type: 'string' },
+    },
+  ],
+  tier: [
+    { name: 'tier', in: 'query', description: 'Comma-separated selectivity tiers', schema: { type: 'string' } },
+  ],
+  cip: [
+    { name: 'cip', in: 'query', description: 'CIP code prefix, e.g. 11 or 1107', schema: { type: 'string' } },
+  ],
+  cred: [
+    {
+      name: 'cred',
+      in: 'query',
+      description: "Comma-separated Scorecard credential levels 1-8, e.g. 2=associate's, 3=bachelor's, 5=master's",
+      schema: { type: 'string' },
+    },
+  ],
+  accountability: [
+    {
+      name: 'accountability',
+      in: 'query',
+      description: 'Comma-separated accountability test results: pass, warn, fail',
+      schema: { type: 'string' },
+    },
+  ],
+  earnings: [
+    { name: 'minEarnings', in: 'query', description: 'Minimum first-year earnings', schema: { type: 'number' } },
+    { name: 'maxEarnings', in: 'query', description: 'Maximum first-year earnings', schema: { type: 'number' } },
+  ],
+  cost: [
+    { name: 'minCost', in: 'query', description: 'Minimum cost of attendance', schema: { type: 'number' } },
+    { name: 'maxCost', in: 'query', description: 'Maximum cost of attendance', schema: { type: 'number' } },
+  ],
+  graduates: [
+    {
+      name: 'minGraduates',
+      in: 'query',
+      description: 'Minimum number of graduates behind the first-year earnings figure',
+      schema: { type: 'integer' },
+    },
+  ],
+};
+
+const PAGINATION_PARAMETERS = [
+  {
+    name: 'limit',
+    in: 'query',
+    schema: { type: 'integer', minimum: 1, maximum: MAX_LIMIT, default: DEFAULT_LIMIT },
+  },
+  {
+    name: 'cursor',
+    in: 'query',
+    description: 'Opaque cursor from pagination.nextCursor of the previous page',
+    schema: { type: 'string' },
+  },
+];
+
+const FORMAT_PARAMETER = {
+  name: 'format',
+  in: 'query',
+  description: 'Response format; overrides the Accept header',
+  schema: { type: 'string', enum: EXPORT_FORMATS, default: 'json' },
+};
+
+// CSV and XLSX responses hold the rows only (plus derived tier and category
+// columns); the next-page cursor is returned in the X-Next-Cursor header.
+const FILE_CONTENT = {
+  'text/csv': { schema: { type: 'string' } },
+  [EXPORT_MIME.xlsx]: { schema: { type: 'string', format: 'binary' } },
+};
+
+const ERROR_RESPONSE = {
+  description: 'Error',
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+};
+
+function listPath(summary: string, schemaName: keyof typeof schemas, spec: ResourceSpec) {
+  const filters = Object.keys(spec.filters) as FilterKey[];
+  const sortFields = Object.keys(spec.sortFields);
+  return {
+    get: {
+      summary,
+      parameters: [
+        ...filters.flatMap((f) => FILTER_PARAMETERS[f]),
+        {
+          name: 'sort',
+          in: 'query',
+          description: 'Sort field; prefix with - for descending. Missing values sort last either way',
+          schema: { type: 'string', enum: sortFields.flatMap((f) => [f, `-${f}`]), default: spec.defaultSort },
+        },
+        ...PAGINATION_PARAMETERS,
+        FORMAT_PARAMETER,
+      ],
+      responses: {
+        200: {
+          description: 'A page of results',
+          headers: {
+            'X-Next-Cursor': {
+              description: 'Cursor for the next page (CSV and XLSX responses only)',
+              schema: { type: 'string' },
+            },
+          },
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  data: { type: 'array', items: { $ref: `#/components/schemas/${schemaName}` } },
+                  pagination: { $ref: '#/components/schemas/Pagination' },
+                },
+                required: ['data', 'pagination'],
+              },
+            },
+            ...FILE_CONTENT,
+          },
+        },
+        400: ERROR_RESPONSE,
+        406: ERROR_RESPONSE,
+        429: ERROR_RESPONSE,
+        500: ERROR_RESPONSE,
+      },
+    },
+  };
+}
+
+export const openApiDocument = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Higher Education Outcomes API',
+    version: '1.0.0',
+    description: 'College Scorecard earnings, cost and ROI data by school and program.',
+  },
+  servers: [{ url: '/api/v1' }],
+  paths: {
+    '/schools': listPath('List schools', 'School', schoolsSpec),
+    '/programs': listPath('List programs at every credential level', 'ProgramRecord', programsSpec),
+    '/majors': listPath('List major summaries by credential level', 'MajorSummary', majorsSpec),
+    '/rankings': listPath('List school rankings', 'SchoolRanking', rankingsSpec),
+  },
+  components: {
+    schemas: {
+      ...schemas,
+      Pagination: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer' },
+          nextCursor: { type: 'string', nullable: true },
+        },
+        required: ['limit', 'nextCursor'],
+      },
+      Error: {
+        type: 'object',
+        properties: {
+          error: {
+            type: 'object',
+            properties: {
+              status: { type: 'integer' },
+              code: { type: 'string' },
+              message: { type: 'string' },
+            },
+            required: ['status', 'code', 'message'],
+          },
+        },
+        required: ['error'],
+      },
+    },
+  },
+};
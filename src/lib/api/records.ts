@@ -0,0 +1,145 @@
+import type { SelectResultFields } from 'drizzle-orm/query-builders/select.types';
+import { programs, schools } from '@/lib/db/schema';
+import { parseAccountabilityStatus } from '@/lib/accountability';
+import type { ProgramRecord, School } from '@/types';
+
+// Database rows as the API and export records: nullable text columns become
+// '' so the shared column sets and client types can rely on them.
+
+/** Program columns joined with the school fields a ProgramRecord carries. */
+export const programRecordFields = {
+  id: programs.id,
+  unitId: programs.unitId,
+  schoolName: programs.schoolName,
+  state: programs.state,
+  cipCode: programs.cipCode,
+  cipTitle: programs.cipTitle,
+  credLevel: programs.credLevel,
+  credTitle: programs.credTitle,
+  earn1yr: programs.earn1yr,
+  earn4yr: programs.earn4yr,
+  earn5yr: programs.earn5yr,
+  earn1yrCount: programs.earn1yrCount,
+  earn5yrCount: programs.earn5yrCount,
+  adjustedEarn1yr: programs.adjustedEarn1yr,
+  adjustedEarn5yr: programs.adjustedEarn5yr,
+  costAttendance: programs.costAttendance,
+  netPrice: programs.netPrice,
+  totalCost: programs.totalCost,
+  cumulativeEarnings: programs.cumulativeEarnings,
+  npv: programs.npv,
+  breakEvenYear: programs.breakEvenYear,
+  valueAddedEarn1yr: programs.valueAddedEarn1yr,
+  netPremium: programs.netPremium,
+  medianDebt: programs.medianDebt,
+  debtToEarnings: programs.debtToEarnings,
+  monthlyPayment: programs.monthlyPayment,
+  accountabilityStatus: programs.accountabilityStatus,
+  accountabilityNotes: programs.accountabilityNotes,
+  selectivityTier: programs.selectivityTier,
+  ownership: schools.ownership,
+  ownershipLabel: schools.ownershipLabel,
+  admissionRate: schools.admissionRate,
+  satMath75: schools.satMath75,
+  satRead75: schools.satRead75,
+  size: schools.size,
+  completionRate: schools.completionRate,
+  hbcu: schools.hbcu,
+  hsi: schools.hsi,
+  tribal: schools.tribal,
+  womensCollege: schools.womensCollege,
+  religiousAffiliation: schools.religiousAffiliation,
+  locale: schools.locale,
+  carnegieBasic: schools.carnegieBasic,
+};
+
+// None of the school fields is NOT NULL, so this matches the LEFT JOIN rows
+type ProgramRow = SelectResultFields<typeof programRecordFields>;
+
+export function toProgramRecord(r: ProgramRow): ProgramRecord {
+  return {
+    unitId: r.unitId,
+    schoolName: r.schoolName ?? '',
+    state: r.state ?? '',
+    cipCode: r.cipCode,
+    cipTitle: (r.cipTitle ?? '').replace(/\.+$/, ''),
+    credLevel: r.credLevel ?? 0,
+    credTitle: r.credTitle ?? '',
+    earn1yr: r.earn1yr,
+    earn4yr: r.earn4yr,
+    earn5yr: r.earn5yr,
+    earn1yrCount: r.earn1yrCount,
+    earn5yrCount: r.earn5yrCount,
+    adjustedEarn1yr: r.adjustedEarn1yr,
+    adjustedEarn5yr: r.adjustedEarn5yr,
+    costAttendance: r.costAttendance,
+    netPrice: r.netPrice,
+    totalCost: r.totalCost,
+    cumulativeEarnings: r.cumulativeEarnings,
+    npv: r.npv,
+    breakEvenYear: r.breakEvenYear,
+    valueAddedEarn1yr: r.valueAddedEarn1yr,
+    netPremium: r.netPremium,
+    medianDebt: r.medianDebt,
+    debtToEarnings: r.debtToEarnings,
+    monthlyPayment: r.monthlyPayment,
+    accountabilityStatus: parseAccountabilityStatus(r.accountabilityStatus),
+    accountabilityNotes: r.accountabilityNotes,
+    selectivityTier: r.selectivityTier ?? '',
+    ownership: r.ownership,
+    ownershipLabel: r.ownershipLabel,
+    admissionRate: r.admissionRate,
+    satMath75: r.satMath75,
+    satRead75: r.satRead75,
+    size: r.size,
+    completionRate: r.completionRate,
+    hbcu: r.hbcu,
+    hsi: r.hsi,
+    tribal: r.tribal,
+    womensCollege: r.womensCollege,
+    religiousAffiliation: r.religiousAffiliation,
+    locale: r.locale,
+    carnegieBasic: r.carnegieBasic,
+  };
+}
+
+export function toSchool(r: typeof schools.$inferSelect): School {
+  return {
+    unitId: r.unitId,
+    name: r.name,
+    city: r.city ?? '',
+    state: r.state ?? '',
+    ownership: r.ownership ?? 0,
+    ownershipLabel: r.ownershipLabel ?? '',
+    admissionRate: r.admissionRate,
+    satRead75: r.satRead75,
+    satMath75: r.satMath75,
+    size: r.size,
+    costAttendance: r.costAttendance,
+    tuitionInState: r.tuitionInState,
+    tuitionOutState: r.tuitionOutState,
+    netPricePublic: r.netPricePublic,
+    netPricePrivate: r.netPricePrivate,
+    netPrice0to30k: r.netPrice0to30k,
+    netPrice30to48k: r.netPrice30to48k,
+    netPrice48to75k: r.netPrice48to75k,
+    netPrice75to110k: r.netPrice75to110k,
+    netPrice110kPlus: r.netPrice110kPlus,
+    completionRate: r.completionRate,
+    retentionRate: r.retentionRate,
+    completionRate150: r.completionRate150,
+    repaymentRate3yr: r.repaymentRate3yr,
+    pellShare: r.pellShare,
+    firstGenShare: r.firstGenShare,
+    hbcu: r.hbcu,
+    hsi: r.hsi,
+    tribal: r.tribal,
+    womensCollege: r.womensCollege,
+    religiousAffiliation: r.religiousAffiliation,
+    locale: r.locale,
+    carnegieBasic: r.carnegieBasic,
+    selectivityTier: r.selectivityTier ?? '',
+    lat: r.lat,
+    lon: r.lon,
+  };
+}
@@ -0,0 +1,111 @@
+import { programs, schools, majorsSummary, schoolRankings } from '@/lib/db/schema';
+import type { ResourceSpec } from './v1';
+
+// Sortable fields and supported filters for each /api/v1 list endpoint. Field
+// names match the response properties so cursors can be built from rows.
+
+export const schoolsSpec: ResourceSpec = {
+  key: schools.unitId,
+  keyField: 'unitId',
+  sortFields: {
+    name: { column: schools.name, type: 'text' },
+    state: { column: schools.state, type: 'text' },
+    admissionRate: { column: schools.admissionRate, type: 'number' },
+    size: { column: schools.size, type: 'number' },
+    costAttendance: { column: schools.costAttendance, type: 'number' },
+    completionRate: { column: schools.completionRate, type: 'number' },
+    retentionRate: { column: schools.retentionRate, type: 'number' },
+    completionRate150: { column: schools.completionRate150, type: 'number' },
+    repaymentRate3yr: { column: schools.repaymentRate3yr, type: 'number' },
+    pellShare: { column: schools.pellShare, type: 'number' },
+    firstGenShare: { column: schools.firstGenShare, type: 'number' },
+  },
+  defaultSort: 'name',
+  filters: {
+    state: schools.state,
+    ownership: schools.ownership,
+    tier: schools.selectivityTier,
+    cost: schools.costAttendance,
+  },
+};
+
+export const programsSpec: ResourceSpec = {
+  key: programs.id,
+  keyField: 'id',
+  sortFields: {
+    schoolName: { column: programs.schoolName, type: 'text' },
+    cipTitle: { column: programs.cipTitle, type: 'text' },
+    earn1yr: { column: programs.earn1yr, type: 'number' },
+    earn5yr: { column: programs.earn5yr, type: 'number' },
+    adjustedEarn1yr: { column: programs.adjustedEarn1yr, type: 'number' },
+    adjustedEarn5yr: { column: programs.adjustedEarn5yr, type: 'number' },
+    costAttendance: { column: programs.costAttendance, type: 'number' },
+    npv: { column: programs.npv, type: 'number' },
+    breakEvenYear: { column: programs.breakEvenYear, type: 'number' },
+    netPremium: { column: programs.netPremium, type: 'number' },
+    medianDebt: { column: programs.medianDebt, type: 'number' },
+    debtToEarnings: { column: programs.debtToEarnings, type: 'number' },
+  },
+  defaultSort: '-earn1yr',
+  filters: {
+    state: programs.state,
+    ownership: schools.ownership,
+    tier: programs.selectivityTier,
+    cip: programs.cipCode,
+    cred: programs.credLevel,
+    accountability: programs.accountabilityStatus,
+    earnings: programs.earn1yr,
+    cost: programs.costAttendance,
+    graduates: programs.earn1yrCount,
+  },
+};
+
+export const majorsSpec: ResourceSpec = {
+  key: majorsSummary.id,
+  keyField: 'id',
+  sortFields: {
+    cipTitle: { column: majorsSummary.cipTitle, type: 'text' },
+    schoolCount: { column: majorsSummary.schoolCount, type: 'number' },
+    medianEarn1yr: { column: majorsSummary.medianEarn1yr, type: 'number' },
+    medianEarn5yr: { column: majorsSummary.medianEarn5yr, type: 'number' },
+    growthRate: { column: majorsSummary.growthRate, type: 'number' },
+    valueAddedEarn1yr: { column: majorsSummary.valueAddedEarn1yr, type: 'number' },
+    netPremium: { column: majorsSummary.netPremium, type: 'number' },
+  },
+  defaultSort: '-medianEarn1yr',
+  filters: {
+    cip: majorsSummary.cipCode,
+    cred: majorsSummary.credLevel,
+    earnings: majorsSummary.medianEarn1yr,
+  },
+};
+
+export const rankingsSpec: ResourceSpec = {
+  key: schoolRankings.unitId,
+  keyField: 'unitId',
+  sortFields: {
+    name: { column: schoolRankings.name, type: 'text' },
+    weightedEarn1yr: { column: schoolRankings.weightedEarn1yr, type: 'number' },
+    weightedEarn5yr: { column: schoolRankings.weightedEarn5yr, type: 'number' },
+    costAttendance: { column: schoolRankings.costAttendance, type: 'number' },
+    netPrice: { column: schoolRankings.netPrice, type: 'number' },
+    npv: { column: schoolRankings.npv, type: 'number' },
+    breakEvenYear: { column: schoolRankings.breakEvenYear, type: 'number' },
+    netPremium: { column: schoolRankings.netPremium, type: 'number' },
+    admissionRate: { column: schoolRankings.admissionRate, type: 'number' },
+    retentionRate: { column: schoolRankings.retentionRate, type: 'number' },
+    completionRate150: { column: schoolRankings.completionRate150, type: 'number' },
+    repaymentRate3yr: { column: schoolRankings.repaymentRate3yr, type: 'number' },
+    pellShare: { column: schoolRankings.pellShare, type: 'number' },
+    firstGenShare: { column: schoolRankings.firstGenShare, type: 'number' },
+    programCount: { column: schoolRankings.programCount, type: 'number' },
+  },
+  defaultSort: '-weightedEarn1yr',
+  filters: {
+    state: schoolRankings.state,
+    ownership: schoolRankings.ownership,
+    tier: schoolRankings.selectivityTier,
+    earnings: schoolRankings.weightedEarn1yr,
+    cost: schoolRankings.costAttendance,
+  },
+};
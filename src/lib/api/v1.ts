@@ -0,0 +1,323 @@
+import { and, or, eq, gt, lt, gte, lte, inArray, like, sql, type SQL } from 'drizzle-orm';
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core';
+import { createRateLimiter, getClientIp } from '@/lib/rate-limit';
+import { parseCredLevel } from '@/lib/credentials';
+import { parseAccountabilityStatus } from '@/lib/accountability';
+import { EXPORT_FORMATS, EXPORT_MIME, serializeExport, type ExportColumn, type ExportFormat } from '@/lib/export';
+
+export const DEFAULT_LIMIT = 50;
+export const MAX_LIMIT = 500;
+
+// Sorting keeps nulls last in both directions
+const NULL_SORTS_HIGH = 1e15;
+const NULL_SORTS_LOW = -1e15;
+// The highest code point, above any name or title; '' sorts below them all
+const NULL_TEXT_SORTS_HIGH = '\u{10FFFF}';
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export function errorResponse(err: unknown): Response {
+  if (err instanceof ApiError) {
+    return Response.json(
+      { error: { status: err.status, code: err.code, message: err.message } },
+      { status: err.status },
+    );
+  }
+  console.error('API v1 error:', err);
+  return Response.json(
+    { error: { status: 500, code: 'internal_error', message: 'Internal server error' } },
+    { status: 500 },
+  );
+}
+
+const checkLimit = createRateLimiter('v1', 60_000, 120);
+
+export function enforceRateLimit(request: Request): void {
+  if (checkLimit(getClientIp(request))) {
+    throw new ApiError(429, 'rate_limited', 'Too many requests. Please try again later.');
+  }
+}
+
+export const CACHE_HEADERS = {
+  'Cache-Control':
+    process.env.NODE_ENV === 'production'
+      ? 'public, s-maxage=86400, stale-while-revalidate=604800'
+      : 'no-store',
+  Vary: 'Accept',
+};
+
+export type FilterKey =
+  | 'state' | 'ownership' | 'tier' | 'cip' | 'cred' | 'accountability' | 'earnings' | 'cost' | 'graduates';
+
+export interface ResourceSpec {
+  key: SQLiteColumn; // unique column used as the pagination tiebreaker
+  keyField: string; // selected row property holding the key
+  sortFields: Record<string, { column: SQLiteColumn; type: 'number' | 'text' }>;
+  defaultSort: string; // field name, prefixed with '-' for descending
+  filters: Partial<Record<FilterKey, SQLiteColumn>>;
+}
+
+export interface ListQuery {
+  where: SQL | undefined;
+  orderBy: SQL[];
+  limit: number;
+  /** Builds the opaque cursor that resumes after `row`. */
+  cursorFor: (row: object) => string;
+}
+
+const FILTER_PARAMS: Record<FilterKey, string[]> = {
+  state: ['state'],
+  ownership: ['ownership'],
+  tier: ['tier'],
+  cip: ['cip'],
+  cred: ['cred'],
+  accountability: ['accountability'],
+  earnings: ['minEarnings', 'maxEarnings'],
+  cost: ['minCost', 'maxCost'],
+  graduates: ['minGraduates'],
+};
+
+function invalid(name: string, message: string): ApiError {
+  return new ApiError(400, 'invalid_parameter', `Invalid '${name}': ${message}`);
+}
+
+function listParam(params: URLSearchParams, name: string): string[] {
+  return params
+    .getAll(name)
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function numberParam(params: URLSearchParams, name: string): number | null {
+  const raw = params.get(name);
+  if (raw == null || raw === '') return null;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) throw invalid(name, 'expected a number');
+  return n;
+}
+
+const ACCEPT_TYPES: Record<string, ExportFormat> = {
+  'application/json': 'json',
+  'text/csv': 'csv',
+  [EXPORT_MIME.xlsx]: 'xlsx',
+};
+
+/**
+ * Picks the response format from an explicit `format=` parameter, falling back
+ * to the first supported type in the Accept header, then JSON.
+ */
+export function negotiateFormat(request: Request, params: URLSearchParams): ExportFormat {
+  const format = params.get('format');
+  if (format != null) {
+    if (!(EXPORT_FORMATS as string[]).includes(format)) {
+      throw invalid('format', `expected one of ${EXPORT_FORMATS.join(', ')}`);
+    }
+    return format as ExportFormat;
+  }
+
+  const accept = request.headers.get('accept');
+  if (!accept) return 'json';
+  const types = accept.split(',').map((t) => t.split(';')[0].trim().toLowerCase());
+  for (const type of types) {
+    if (ACCEPT_TYPES[type]) return ACCEPT_TYPES[type];
+    if (type === '*/*' || type === 'application/*') return 'json';
+  }
+  throw new ApiError(
+    406,
+    'not_acceptable',
+    `Supported types: ${Object.keys(ACCEPT_TYPES).join(', ')}`,
+  );
+}
+
+function encodeCursor(value: string | number, key: string | number): string {
+  return Buffer.from(JSON.stringify([value, key])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [string | number, string | number] {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      parsed.every((v) => typeof v === 'string' || typeof v === 'number')
+    ) {
+      return parsed as [string | number, string | number];
+    }
+  } catch {
+    // fall through
+  }
+  throw invalid('cursor', 'malformed cursor');
+}
+
+/**
+ * Parses the query parameters shared by every /api/v1 list endpoint into SQL
+ * conditions, ordering and keyset pagination for the given resource.
+ */
+export function parseListQuery(params: URLSearchParams, spec: ResourceSpec): ListQuery {
+  // Reject filters the resource cannot honour rather than silently ignoring them
+  for (const [filter, names] of Object.entries(FILTER_PARAMS) as [FilterKey, string[]][]) {
+    if (spec.filters[filter]) continue;
+    for (const name of names) {
+      if (params.has(name)) {
+        throw new ApiError(400, 'unsupported_parameter', `'${name}' is not supported by this endpoint`);
+      }
+    }
+  }
+
+  const conditions: SQL[] = [];
+  const { filters } = spec;
+
+  if (filters.state) {
+    const states = listParam(params, 'state').map((s) => s.toUpperCase());
+    if (states.some((s) => !/^[A-Z]{2}$/.test(s))) throw invalid('state', 'expected two-letter codes');
+    if (states.length > 0) conditions.push(inArray(filters.state, states));
+  }
+
+  if (filters.ownership) {
+    const codes = listParam(params, 'ownership').map(Number);
+    if (codes.some((c) => ![1, 2, 3].includes(c))) throw invalid('ownership', 'expected 1, 2 or 3');
+    if (codes.length > 0) conditions.push(inArray(filters.ownership, codes));
+  }
+
+  if (filters.tier) {
+    const tiers = listParam(params, 'tier');
+    if (tiers.length > 0) conditions.push(inArray(filters.tier, tiers));
+  }
+
+  if (filters.cip) {
+    const prefix = params.get('cip');
+    if (prefix != null) {
+      if (!/^\d{1,4}$/.test(prefix)) throw invalid('cip', 'expected 1-4 digit CIP prefix');
+      conditions.push(like(filters.cip, `${prefix}%`));
+    }
+  }
+
+  if (filters.cred) {
+    const levels = listParam(params, 'cred').map(parseCredLevel);
+    if (levels.some((l) => l == null)) throw invalid('cred', 'expected credential levels 1-8');
+    if (levels.length > 0) conditions.push(inArray(filters.cred, levels as number[]));
+  }
+
+  if (filters.accountability) {
+    const statuses = listParam(params, 'accountability').map(parseAccountabilityStatus);
+    if (statuses.some((s) => s == null)) throw invalid('accountability', 'expected pass, warn or fail');
+    if (statuses.length > 0) conditions.push(inArray(filters.accountability, statuses as string[]));
+  }
+
+  for (const [filter, column] of [
+    ['earnings', filters.earnings],
+    ['cost', filters.cost],
+  ] as const) {
+    if (!column) continue;
+    const [minName, maxName] = FILTER_PARAMS[filter];
+    const min = numberParam(params, minName);
+    const max = numberParam(params, maxName);
+    if (min != null && max != null && min > max) throw invalid(minName, `greater than '${maxName}'`);
+    if (min != null) conditions.push(gte(column, min));
+    if (max != null) conditions.push(lte(column, max));
+  }
+
+  if (filters.graduates) {
+    const min = numberParam(params, 'minGraduates');
+    if (min != null) conditions.push(gte(filters.graduates, min));
+  }
+
+  // Sort
+  const sortParam = params.get('sort') ?? spec.defaultSort;
+  const desc = sortParam.startsWith('-');
+  const sortName = desc ? sortParam.slice(1) : sortParam;
+  const sortField = spec.sortFields[sortName];
+  if (!sortField) {
+    throw invalid('sort', `expected one of ${Object.keys(spec.sortFields).join(', ')}`);
+  }
+  const nullValue =
+    sortField.type === 'text'
+      ? desc ? '' : NULL_TEXT_SORTS_HIGH
+      : desc ? NULL_SORTS_LOW : NULL_SORTS_HIGH;
+  const sortExpr = sql`coalesce(${sortField.column}, ${nullValue})`;
+  const orderBy = [desc ? sql`${sortExpr} desc` : sql`${sortExpr} asc`, sql`${spec.key} asc`];
+
+  // Limit
+  const limit = numberParam(params, 'limit') ?? DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw invalid('limit', `expected an integer from 1 to ${MAX_LIMIT}`);
+  }
+
+  // Cursor: resume strictly after the last (sort value, key) pair returned
+  const cursor = params.get('cursor');
+  if (cursor) {
+    const [value, key] = decodeCursor(cursor);
+    const after = desc ? lt(sortExpr, value) : gt(sortExpr, value);
+    conditions.push(or(after, and(eq(sortExpr, value), gt(spec.key, key)))!);
+  }
+
+  return {
+    where: conditions.length > 0 ? and(...conditions) : undefined,
+    orderBy,
+    limit,
+    cursorFor: (row) => {
+      const values = row as Record<string, string | number | null>;
+      return encodeCursor(values[sortName] ?? nullValue, values[spec.keyField] as string | number);
+    },
+  };
+}
+
+/**
+ * Trims the look-ahead row and builds the paginated response body. The cursor
+ * is taken from the raw database row so it matches the SQL sort expression.
+ */
+export function paginate<R extends object, T>(rows: R[], query: ListQuery, toRecord: (row: R) => T) {
+  const hasMore = rows.length > query.limit;
+  const page = hasMore ? rows.slice(0, query.limit) : rows;
+  return {
+    data: page.map(toRecord),
+    pagination: {
+      limit: query.limit,
+      nextCursor: hasMore ? query.cursorFor(page[page.length - 1]) : null,
+    },
+  };
+}
+
+/**
+ * Sends a paginated body in the negotiated format. CSV and XLSX carry only the
+ * rows, so the next-page cursor moves to the X-Next-Cursor header.
+ */
+export function listResponse<T>(
+  body: { data: T[]; pagination: { limit: number; nextCursor: string | null } },
+  format: ExportFormat,
+  columns: ExportColumn<T>[],
+  filename: string,
+): Response {
+  if (format === 'json') return Response.json(body, { headers: CACHE_HEADERS });
+
+  const headers: Record<string, string> = { ...CACHE_HEADERS };
+  if (body.pagination.nextCursor) headers['X-Next-Cursor'] = body.pagination.nextCursor;
+  return exportResponse(body.data, format, columns, filename, headers);
+}
+
+/** Sends rows as a CSV or XLSX attachment named after `filename`. */
+export function exportResponse<T>(
+  rows: T[],
+  format: Exclude<ExportFormat, 'json'>,
+  columns: ExportColumn<T>[],
+  filename: string,
+  headers: Record<string, string>,
+): Response {
+  const content = serializeExport(rows, columns, format, filename);
+  return new Response(content as BodyInit, {
+    headers: {
+      ...headers,
+      'Content-Type': EXPORT_MIME[format],
+      'Content-Disposition': `attachment; filename="${filename}.${format}"`,
+    },
+  });
+}
@@ -0,0 +1,131 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+
+export type Role = 'viewer' | 'admin';
+
+export const ROLES: Role[] = ['viewer', 'admin'];
+
+const ROLE_RANK: Record<Role, number> = { viewer: 1, admin: 2 };
+
+export const SESSION_COOKIE = 'heo_session';
+export const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+export interface Session {
+  username: string;
+  role: Role;
+  expires: number; // unix seconds
+}
+
+// Paths behind the login, longest prefix first. Anything added under /admin
+// or /api/admin is protected without further configuration.
+export const PROTECTED_PATHS: { prefix: string; role: Role }[] = [
+  { prefix: '/api/admin', role: 'admin' },
+  { prefix: '/admin', role: 'admin' },
+  { prefix: '/analytics', role: 'viewer' },
+];
+
+export function requiredRole(pathname: string): Role | null {
+  const rule = PROTECTED_PATHS.find(
+    (r) => pathname === r.prefix || pathname.startsWith(`${r.prefix}/`),
+  );
+  return rule?.role ?? null;
+}
+
+export function hasRole(session: Session | null, role: Role): boolean {
+  return !!session && ROLE_RANK[session.role] >= ROLE_RANK[role];
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+// --- Session tokens ---
+// <payload>.<signature>, where payload is base64url JSON and the signature is
+// an HMAC-SHA256 over it keyed by AUTH_SECRET. With no secret configured no
+// token verifies, so protected routes fail closed.
+
+function getSecret(): string | null {
+  const secret = process.env.AUTH_SECRET;
+  return secret && secret.length >= 32 ? secret : null;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+export function createSessionToken(username: string, role: Role): string {
+  const secret = getSecret();
+  if (!secret) throw new Error('AUTH_SECRET must be set to at least 32 characters');
+  const session: Session = {
+    username,
+    role,
+    expires: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+  };
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+export function verifySessionToken(token: string | undefined): Session | null {
+  const secret = getSecret();
+  if (!secret || !token) return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    if (
+      typeof session.username !== 'string' ||
+      !isRole(session.role) ||
+      typeof session.expires !== 'number' ||
+      session.expires < Date.now() / 1000
+    ) {
+      return null;
+    }
+    return session as Session;
+  } catch {
+    return null;
+  }
+}
+
+export function sessionCookie(token: string | null): string {
+  const attrs = [
+    `${SESSION_COOKIE}=${token ?? ''}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${token ? SESSION_TTL_SECONDS : 0}`,
+  ];
+  if (process.env.NODE_ENV === 'production') attrs.push('Secure');
+  return attrs.join('; ');
+}
+
+// --- Server components and route handlers ---
+
+export async function getSession(): Promise<Session | null> {
+  const store = await cookies();
+  return verifySessionToken(store.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * Guards a server page. The proxy already enforces PROTECTED_PATHS; this is
+ * the second line of defence for pages rendered outside its matcher.
+ */
+export async function requirePageRole(role: Role, pathname: string): Promise<Session> {
+  const session = await getSession();
+  if (!session) redirect(`/login?next=${encodeURIComponent(pathname)}`);
+  if (!hasRole(session, role)) redirect('/login?error=forbidden');
+  return session;
+}
+
+/** Returns an error response when the request lacks the role, otherwise null. */
+export async function authorizeApi(role: Role): Promise<Response | null> {
+  const session = await getSession();
+  if (!session) return Response.json({ error: 'Authentication required' }, { status: 401 });
+  if (!hasRole(session, role)) return Response.json({ error: 'Forbidden' }, { status: 403 });
+  return null;
+}
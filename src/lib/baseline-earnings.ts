@@ -0,0 +1,64 @@
+// Approximate median annual earnings of workers aged 25+ whose highest
+// attainment is a high school diploma or equivalent, by state. Rounded to the
+// nearest $500 from American Community Survey estimates. Used as the
+// "no degree" counterfactual for value-added ROI.
+export const NATIONAL_HS_BASELINE = 36000;
+
+export const STATE_HS_BASELINE: Record<string, number> = {
+  AL: 32000,
+  AK: 42000,
+  AZ: 35500,
+  AR: 31000,
+  CA: 37000,
+  CO: 39000,
+  CT: 40500,
+  DE: 37500,
+  DC: 34000,
+  FL: 33500,
+  GA: 33500,
+  HI: 38500,
+  ID: 35000,
+  IL: 37000,
+  IN: 36000,
+  IA: 38000,
+  KS: 36000,
+  KY: 33000,
+  LA: 32000,
+  ME: 37000,
+  MD: 40000,
+  MA: 42000,
+  MI: 34500,
+  MN: 40500,
+  MS: 30500,
+  MO: 35000,
+  MT: 36000,
+  NE: 37500,
+  NV: 37000,
+  NH: 41500,
+  NJ: 40000,
+  NM: 31500,
+  NY: 37500,
+  NC: 33500,
+  ND: 42000,
+  OH: 35500,
+  OK: 33500,
+  OR: 37000,
+  PA: 37500,
+  RI: 38000,
+  SC: 33000,
+  SD: 37500,
+  TN: 33500,
+  TX: 35000,
+  UT: 39000,
+  VT: 37500,
+  VA: 36500,
+  WA: 41000,
+  WV: 32500,
+  WI: 38500,
+  WY: 40000,
+  PR: 20000,
+};
+
+export function getBaselineEarnings(state: string | null | undefined): number {
+  return (state && STATE_HS_BASELINE[state]) || NATIONAL_HS_BASELINE;
+}
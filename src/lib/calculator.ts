@@ -0,0 +1,110 @@
+import { earningsTrajectory, DEFAULT_ROI_OPTIONS, type EarningsPoints } from './roi';
+import { monthlyPayment } from './loans';
+import { INCOME_NET_PRICE_FIELDS, type NetPriceByIncome } from './net-price';
+
+export type IncomeBracket = '0-30k' | '30-48k' | '48-75k' | '75-110k' | '110k+';
+
+export type Residency = 'in' | 'out';
+
+// Approximate annual Pell Grant for a full-time student in each Scorecard
+// income bracket (2024-25 maximum award is $7,395). Only used for schools that
+// do not report a net price for the bracket.
+export const INCOME_BRACKETS: { key: IncomeBracket; label: string; pellGrant: number }[] = [
+  { key: '0-30k', label: '$0–30K', pellGrant: 7395 },
+  { key: '30-48k', label: '$30–48K', pellGrant: 5000 },
+  { key: '48-75k', label: '$48–75K', pellGrant: 1500 },
+  { key: '75-110k', label: '$75–110K', pellGrant: 0 },
+  { key: '110k+', label: '$110K+', pellGrant: 0 },
+];
+
+export interface SchoolCost extends Partial<NetPriceByIncome> {
+  costAttendance: number | null;
+  tuitionInState: number | null;
+  tuitionOutState: number | null;
+}
+
+export interface CalculatorInputs {
+  incomeBracket: IncomeBracket;
+  residency: Residency;
+  grants: number; // expected grants and scholarships per year, excluding Pell
+  loanRate: number; // annual interest rate, e.g. 0.065
+  loanYears: number;
+  degreeYears?: number;
+}
+
+export interface CalculatorResult {
+  annualCost: number;
+  netPrice: number | null; // Scorecard net price for the income bracket, when the school reports one
+  pellGrant: number; // estimated Pell Grant, 0 when starting from the bracket net price
+  annualNetCost: number;
+  debt: number;
+  monthlyPayment: number;
+  totalRepaid: number;
+  debtToIncome: number | null;
+  paybackYear: number | null; // years after graduation, fractional
+}
+
+// Cost of attendance includes in-state tuition for public schools; swap in
+// out-of-state tuition for non-residents.
+export function annualCostFor(school: SchoolCost, residency: Residency): number | null {
+  const { costAttendance, tuitionInState, tuitionOutState } = school;
+  if (costAttendance == null) return residency === 'in' ? tuitionInState : tuitionOutState;
+  if (residency === 'out' && tuitionInState != null && tuitionOutState != null) {
+    return costAttendance - tuitionInState + tuitionOutState;
+  }
+  return costAttendance;
+}
+
+// Start from what families in the income bracket actually paid after grant
+// aid when Scorecard reports it, otherwise from the sticker price less an
+// estimated Pell Grant. Whatever grants do not cover is assumed to be
+// borrowed. Payback is the point at which earnings above the high-school
+// baseline have covered everything paid for the degree, loan interest included.
+export function computePersonalRoi(
+  school: SchoolCost,
+  points: EarningsPoints,
+  baselineEarnings: number,
+  inputs: CalculatorInputs,
+): CalculatorResult | null {
+  const degreeYears = inputs.degreeYears ?? DEFAULT_ROI_OPTIONS.degreeYears;
+  const annualCost = annualCostFor(school, inputs.residency);
+  if (annualCost == null) return null;
+
+  const netPrice = school[INCOME_NET_PRICE_FIELDS[inputs.incomeBracket]] ?? null;
+  const pellGrant =
+    netPrice != null ? 0 : (INCOME_BRACKETS.find((b) => b.key === inputs.incomeBracket)?.pellGrant ?? 0);
+  // Net price is reported for in-state students, so non-residents pay the
+  // tuition difference on top
+  const outOfStateExtra = annualCost - (annualCostFor(school, 'in') ?? annualCost);
+  const startingCost = netPrice != null ? netPrice + outOfStateExtra : annualCost - pellGrant;
+  const annualNetCost = Math.max(0, startingCost - inputs.grants);
+  const debt = annualNetCost * degreeYears;
+  const payment = monthlyPayment(debt, inputs.loanRate, inputs.loanYears);
+  const totalRepaid = payment * inputs.loanYears * 12;
+
+  const trajectory = earningsTrajectory(points, DEFAULT_ROI_OPTIONS.careerYears);
+  let paybackYear: number | null = null;
+  if (trajectory) {
+    let cumulative = 0;
+    for (let i = 0; i < trajectory.length; i++) {
+      const premium = trajectory[i] - baselineEarnings;
+      if (premium > 0 && cumulative + premium >= totalRepaid) {
+        paybackYear = i + (totalRepaid - cumulative) / premium;
+        break;
+      }
+      cumulative += premium;
+    }
+  }
+
+  return {
+    annualCost: Math.round(annualCost),
+    netPrice: netPrice != null ? Math.round(netPrice) : null,
+    pellGrant,
+    annualNetCost: Math.round(annualNetCost),
+    debt: Math.round(debt),
+    monthlyPayment: Math.round(payment),
+    totalRepaid: Math.round(totalRepaid),
+    debtToIncome: points.earn1yr ? Math.round((debt / points.earn1yr) * 100) / 100 : null,
+    paybackYear: paybackYear != null ? Math.round(paybackYear * 10) / 10 : null,
+  };
+}
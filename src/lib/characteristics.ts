@@ -0,0 +1,113 @@
+// Institution characteristics from Scorecard: minority-serving and
+// single-sex designations, religious affiliation, NCES urban-centric locale
+// and Carnegie basic classification. Codes are stored as reported and
+// grouped here for filtering and display.
+export interface SchoolCharacteristics {
+  hbcu: boolean | null; // historically Black college or university
+  hsi: boolean | null; // Hispanic-serving institution
+  tribal: boolean | null; // tribal college or university
+  womensCollege: boolean | null;
+  religiousAffiliation: number | null; // IPEDS religious affiliation code, null when unaffiliated
+  locale: number | null; // NCES locale code, 11-43
+  carnegieBasic: number | null; // Carnegie basic classification code
+}
+
+export type Designation = 'hbcu' | 'hsi' | 'tribal' | 'womensCollege';
+
+export const DESIGNATIONS: { key: Designation; label: string }[] = [
+  { key: 'hbcu', label: 'HBCU' },
+  { key: 'hsi', label: 'Hispanic-Serving' },
+  { key: 'tribal', label: 'Tribal College' },
+  { key: 'womensCollege', label: "Women's College" },
+];
+
+export type LocaleType = 'city' | 'suburb' | 'town' | 'rural';
+
+export const LOCALE_TYPES: { key: LocaleType; label: string }[] = [
+  { key: 'city', label: 'City' },
+  { key: 'suburb', label: 'Suburb' },
+  { key: 'town', label: 'Town' },
+  { key: 'rural', label: 'Rural' },
+];
+
+// The tens digit of a locale code is the type; the units digit its size
+export function localeType(code: number | null): LocaleType | null {
+  if (code == null) return null;
+  return LOCALE_TYPES[Math.floor(code / 10) - 1]?.key ?? null;
+}
+
+export type Affiliation = 'religious' | 'catholic' | 'secular';
+
+export const AFFILIATIONS: { key: Affiliation; label: string }[] = [
+  { key: 'religious', label: 'Religious' },
+  { key: 'catholic', label: 'Catholic' },
+  { key: 'secular', label: 'Not Affiliated' },
+];
+
+const CATHOLIC_AFFILIATION = 30;
+
+export type CarnegieGroup = 'doctoral' | 'masters' | 'baccalaureate' | 'associates' | 'special';
+
+export const CARNEGIE_GROUPS: { key: CarnegieGroup; label: string }[] = [
+  { key: 'doctoral', label: 'Doctoral' },
+  { key: 'masters', label: "Master's" },
+  { key: 'baccalaureate', label: 'Baccalaureate' },
+  { key: 'associates', label: "Associate's" },
+  { key: 'special', label: 'Special Focus' },
+];
+
+// Carnegie 2018 basic classification ranges
+export function carnegieGroup(code: number | null): CarnegieGroup | null {
+  if (code == null || code < 1) return null;
+  if (code <= 9 || code === 14) return 'associates';
+  if (code <= 13) return 'special';
+  if (code <= 17) return 'doctoral';
+  if (code <= 20) return 'masters';
+  if (code <= 23) return 'baccalaureate';
+  if (code <= 32) return 'special';
+  return null;
+}
+
+/** Short labels for a school's designations, locale and Carnegie group. */
+export function characteristicLabels(s: SchoolCharacteristics): string[] {
+  const labels = DESIGNATIONS.filter((d) => s[d.key]).map((d) => d.label);
+  const locale = localeType(s.locale);
+  if (locale) labels.push(LOCALE_TYPES.find((l) => l.key === locale)!.label);
+  const carnegie = carnegieGroup(s.carnegieBasic);
+  if (carnegie) labels.push(CARNEGIE_GROUPS.find((g) => g.key === carnegie)!.label);
+  if (s.religiousAffiliation === CATHOLIC_AFFILIATION) labels.push('Catholic');
+  else if (s.religiousAffiliation != null) labels.push('Religious');
+  return labels;
+}
+
+export interface CharacteristicFilters {
+  designation: Designation | null;
+  locale: LocaleType | null;
+  affiliation: Affiliation | null;
+  carnegie: CarnegieGroup | null;
+}
+
+export const DEFAULT_CHARACTERISTIC_FILTERS: CharacteristicFilters = {
+  designation: null,
+  locale: null,
+  affiliation: null,
+  carnegie: null,
+};
+
+export function hasCharacteristicFilters(f: CharacteristicFilters): boolean {
+  return !!(f.designation || f.locale || f.affiliation || f.carnegie);
+}
+
+function matchesAffiliation(code: number | null, affiliation: Affiliation): boolean {
+  if (affiliation === 'secular') return code == null;
+  if (affiliation === 'catholic') return code === CATHOLIC_AFFILIATION;
+  return code != null;
+}
+
+export function matchesCharacteristics(s: SchoolCharacteristics, f: CharacteristicFilters): boolean {
+  if (f.designation && !s[f.designation]) return false;
+  if (f.locale && localeType(s.locale) !== f.locale) return false;
+  if (f.affiliation && !matchesAffiliation(s.religiousAffiliation, f.affiliation)) return false;
+  if (f.carnegie && carnegieGroup(s.carnegieBasic) !== f.carnegie) return false;
+  return true;
+}
@@ -0,0 +1,71 @@
+import { formatCurrency, formatNumber } from './formatters';
+import type { Reliability } from '@/types';
+
+// How far a program's median earnings can be trusted, from the number of
+// graduates Scorecard measured. Earnings within a program are roughly
+// lognormal, so the sampling error of the median is modeled on the log scale:
+// SE(log median) = sqrt(pi / 2) * sigma / sqrt(n). Scorecard does not publish
+// the spread within a program, so sigma is a typical value rather than a
+// per-program estimate.
+
+export const EARNINGS_LOG_SD = 0.5;
+export const MEDIAN_SE_FACTOR = Math.sqrt(Math.PI / 2);
+const Z_95 = 1.96;
+
+export const RELIABILITY_LEVELS: { key: Reliability; label: string; minGraduates: number }[] = [
+  { key: 'high', label: 'High', minGraduates: 100 },
+  { key: 'moderate', label: 'Moderate', minGraduates: 30 },
+  { key: 'low', label: 'Low', minGraduates: 0 },
+];
+
+// Choices for the "minimum graduates" filters; 0 shows every program
+export const MIN_GRADUATE_OPTIONS = [0, 10, 30, 100, 250];
+
+export interface EarningsInterval {
+  low: number;
+  high: number;
+  margin: number; // half-width relative to the median on the log scale, e.g. 0.12 for about ±12%
+}
+
+/** 95% confidence interval for a median earnings figure measured over `count` graduates. */
+export function earningsInterval(median: number | null, count: number | null): EarningsInterval | null {
+  if (median == null || median <= 0 || count == null || count <= 0) return null;
+  const margin = (Z_95 * MEDIAN_SE_FACTOR * EARNINGS_LOG_SD) / Math.sqrt(count);
+  return { low: median * Math.exp(-margin), high: median * Math.exp(margin), margin };
+}
+
+/** Distances from the median to each end of its interval, as chart error bars expect. */
+export function errorBar(median: number | null, count: number | null): [number, number] | null {
+  const interval = earningsInterval(median, count);
+  if (!interval || median == null) return null;
+  return [median - interval.low, interval.high - median];
+}
+
+export interface GraduateCounts {
+  earn1yr: number | null;
+  earn5yr: number | null;
+  earn1yrCount: number | null;
+  earn5yrCount: number | null;
+}
+
+// The figure a program is ranked on, first-year earnings or five-year
+// earnings for programs that report only those, with its graduate count
+export function headlineEarnings(p: GraduateCounts): { median: number | null; count: number | null } {
+  return p.earn1yr != null
+    ? { median: p.earn1yr, count: p.earn1yrCount }
+    : { median: p.earn5yr, count: p.earn5yrCount };
+}
+
+export function reliability(count: number | null): Reliability | null {
+  if (count == null || count <= 0) return null;
+  return RELIABILITY_LEVELS.find((l) => count >= l.minGraduates)!.key;
+}
+
+/** Hover text for a reliability badge: the count and the interval it implies. */
+export function reliabilityNote(median: number | null, count: number | null): string | null {
+  if (count == null || count <= 0) return null;
+  const graduates = `${formatNumber(count)} graduate${count === 1 ? '' : 's'} measured`;
+  const interval = earningsInterval(median, count);
+  if (!interval) return graduates;
+  return `${graduates}; 95% range ${formatCurrency(interval.low)}\u2013${formatCurrency(interval.high)} (about \u00b1${Math.round(interval.margin * 100)}%)`;
+}
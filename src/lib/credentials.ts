@@ -0,0 +1,43 @@
+// Scorecard field-of-study credential levels. `years` is the typical time to
+// complete, used as the degree length in ROI calculations.
+export interface CredentialLevel {
+  level: number;
+  label: string;
+  shortLabel: string;
+  years: number;
+}
+
+export const CREDENTIAL_LEVELS: CredentialLevel[] = [
+  { level: 1, label: 'Undergraduate Certificate', shortLabel: 'Certificate', years: 1 },
+  { level: 2, label: "Associate's Degree", shortLabel: "Associate's", years: 2 },
+  { level: 3, label: "Bachelor's Degree", shortLabel: "Bachelor's", years: 4 },
+  { level: 4, label: 'Post-baccalaureate Certificate', shortLabel: 'Post-bacc Cert.', years: 1 },
+  { level: 5, label: "Master's Degree", shortLabel: "Master's", years: 2 },
+  { level: 6, label: 'Doctoral Degree', shortLabel: 'Doctoral', years: 5 },
+  { level: 7, label: 'First Professional Degree', shortLabel: 'Professional', years: 4 },
+  { level: 8, label: 'Graduate Certificate', shortLabel: 'Grad Certificate', years: 1 },
+];
+
+export const DEFAULT_CRED_LEVEL = 3;
+
+/** Levels 4-8 all follow a bachelor's degree. */
+export function isGraduateLevel(level: number): boolean {
+  return level >= 4 && level <= 8;
+}
+
+const BY_LEVEL = new Map(CREDENTIAL_LEVELS.map((c) => [c.level, c]));
+
+export function getCredential(level: number): CredentialLevel | undefined {
+  return BY_LEVEL.get(level);
+}
+
+export function credentialLabel(level: number): string {
+  return BY_LEVEL.get(level)?.label ?? 'Other Credential';
+}
+
+/** Parses a `cred` query parameter; null when absent or not a known level. */
+export function parseCredLevel(raw: string | null | undefined): number | null {
+  if (raw == null || !/^\d$/.test(raw)) return null;
+  const level = Number(raw);
+  return BY_LEVEL.has(level) ? level : null;
+}
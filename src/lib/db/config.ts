@@ -0,0 +1,17 @@
+import path from 'path';
+import type { Config } from '@libsql/client';
+
+// Local SQLite file used when no TURSO_DATABASE_URL is configured;
+// scripts/seed-local.ts fills it with fixture data.
+export const LOCAL_DATABASE_PATH = path.join('data', 'local.db');
+
+/**
+ * Connection settings for the app and the data scripts. TURSO_DATABASE_URL
+ * takes any libsql URL: a Turso database, a file: path or :memory:. Without
+ * it everything runs against the local database, with no credentials needed.
+ */
+export function databaseConfig(): Config {
+  const url = process.env.TURSO_DATABASE_URL;
+  if (!url) return { url: `file:${path.resolve(LOCAL_DATABASE_PATH)}` };
+  return { url, authToken: process.env.TURSO_AUTH_TOKEN };
+}
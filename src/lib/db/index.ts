@@ -1,6 +1,7 @@
 import { drizzle } from 'drizzle-orm/libsql';
 import { createClient } from '@libsql/client';
 import * as schema from './schema';
+import { databaseConfig } from './config';
 
 type Database = ReturnType<typeof drizzle<typeof schema>>;
 
@@ -8,11 +9,7 @@ let _db: Database | undefined;
 
 export function getDb(): Database {
   if (!_db) {
-    const tursoClient = createClient({
-      url: process.env.TURSO_DATABASE_URL!,
-      authToken: process.env.TURSO_AUTH_TOKEN!,
-    });
-    _db = drizzle(tursoClient, { schema });
+    _db = drizzle(createClient(databaseConfig()), { schema });
   }
   return _db;
 }
@@ -0,0 +1,66 @@
+import type { Client } from '@libsql/client';
+import journal from './migrations/journal.json';
+
+// Versioned schema migrations, generated from schema.ts by scripts/migrate.ts.
+// Every id in the journal has <id>.up.sql and <id>.down.sql in ./migrations,
+// and the ledger table records which of them a database has applied.
+
+export const MIGRATIONS_DIR = 'src/lib/db/migrations';
+export const MIGRATIONS_TABLE = 'schema_migrations';
+// Separates statements in a migration file, as in drizzle-kit output
+export const STATEMENT_BREAKPOINT = '--> statement-breakpoint';
+
+/** Migration ids in the order they apply. */
+export const MIGRATION_IDS: string[] = journal.migrations;
+
+export interface AppliedMigration {
+  id: string;
+  checksum: string; // sha256 of the up SQL when it was applied
+  appliedAt: number; // unix seconds
+}
+
+export async function appliedMigrations(client: Client): Promise<AppliedMigration[]> {
+  const ledger = await client.execute({
+    sql: `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    args: [MIGRATIONS_TABLE],
+  });
+  if (ledger.rows.length === 0) return [];
+  const result = await client.execute(`SELECT id, checksum, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY id`);
+  return result.rows.map((r) => ({
+    id: String(r.id),
+    checksum: String(r.checksum),
+    appliedAt: Number(r.applied_at),
+  }));
+}
+
+/** Migrations in the journal that the database has not applied yet. */
+export async function pendingMigrations(client: Client): Promise<string[]> {
+  const applied = new Set((await appliedMigrations(client)).map((m) => m.id));
+  return MIGRATION_IDS.filter((id) => !applied.has(id));
+}
+
+/** True for a database with tables but no ledger, created before migrations existed. */
+export async function predatesMigrations(client: Client): Promise<boolean> {
+  if ((await appliedMigrations(client)).length > 0) return false;
+  const tables = await client.execute({
+    sql: `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != ? LIMIT 1`,
+    args: [MIGRATIONS_TABLE],
+  });
+  return tables.rows.length > 0;
+}
+
+/** Throws when the database is missing migrations this code depends on. */
+export async function assertSchemaCurrent(client: Client): Promise<void> {
+  if (await predatesMigrations(client)) {
+    throw new Error(
+      'Database predates versioned migrations. Run npx tsx scripts/migrate.ts baseline, then up, then re-ingest',
+    );
+  }
+  const pending = await pendingMigrations(client);
+  if (pending.length > 0) {
+    throw new Error(
+      `Database schema is behind: ${pending.length} pending migration${pending.length === 1 ? '' : 's'} ` +
+        `(${pending.join(', ')}). Run npx tsx scripts/migrate.ts up`,
+    );
+  }
+}
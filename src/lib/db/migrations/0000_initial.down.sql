@@ -0,0 +1,25 @@
+DROP TABLE `admin_users`;
+--> statement-breakpoint
+DROP TABLE `analytics_events`;
+--> statement-breakpoint
+DROP TABLE `baseline_earnings`;
+--> statement-breakpoint
+DROP TABLE `graduate_uplift`;
+--> statement-breakpoint
+DROP TABLE `graduate_uplift_national`;
+--> statement-breakpoint
+DROP TABLE `major_history`;
+--> statement-breakpoint
+DROP TABLE `majors_summary`;
+--> statement-breakpoint
+DROP TABLE `newsletter_signups`;
+--> statement-breakpoint
+DROP TABLE `program_history`;
+--> statement-breakpoint
+DROP TABLE `programs`;
+--> statement-breakpoint
+DROP TABLE `school_ranking_history`;
+--> statement-breakpoint
+DROP TABLE `school_rankings`;
+--> statement-breakpoint
+DROP TABLE `schools`;
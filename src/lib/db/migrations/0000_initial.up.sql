@@ -0,0 +1,319 @@
+CREATE TABLE `admin_users` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`username` text NOT NULL,
+	`password_hash` text NOT NULL,
+	`role` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX `admin_users_username_unique` ON `admin_users` (`username`);
+--> statement-breakpoint
+CREATE TABLE `analytics_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`session_id` text NOT NULL,
+	`event_type` text NOT NULL,
+	`event_data` text,
+	`page` text,
+	`timestamp` integer NOT NULL
+);
+
+--> statement-breakpoint
+CREATE INDEX `idx_analytics_session` ON `analytics_events` (`session_id`);
+--> statement-breakpoint
+CREATE INDEX `idx_analytics_type` ON `analytics_events` (`event_type`);
+--> statement-breakpoint
+CREATE INDEX `idx_analytics_timestamp` ON `analytics_events` (`timestamp`);
+--> statement-breakpoint
+CREATE TABLE `baseline_earnings` (
+	`state` text PRIMARY KEY NOT NULL,
+	`earnings` real NOT NULL
+);
+
+--> statement-breakpoint
+CREATE TABLE `graduate_uplift` (
+	`unit_id` integer NOT NULL,
+	`school_name` text,
+	`cip_code` text NOT NULL,
+	`cred_level` integer NOT NULL,
+	`cred_title` text,
+	`bachelor_earn_1yr` real NOT NULL,
+	`bachelor_earn_5yr` real,
+	`graduate_earn_1yr` real NOT NULL,
+	`graduate_earn_5yr` real,
+	`uplift_earn_1yr` real NOT NULL,
+	`uplift_pct` real NOT NULL,
+	`extra_years` integer NOT NULL,
+	`incremental_cost` real,
+	`break_even_year` real,
+	PRIMARY KEY(`unit_id`, `cip_code`, `cred_level`)
+);
+
+--> statement-breakpoint
+CREATE INDEX `idx_graduate_uplift_cip` ON `graduate_uplift` (`cip_code`);
+--> statement-breakpoint
+CREATE TABLE `graduate_uplift_national` (
+	`cip_code` text NOT NULL,
+	`cred_level` integer NOT NULL,
+	`cred_title` text,
+	`bachelor_earn_1yr` real NOT NULL,
+	`bachelor_earn_5yr` real,
+	`graduate_earn_1yr` real NOT NULL,
+	`graduate_earn_5yr` real,
+	`uplift_earn_1yr` real NOT NULL,
+	`uplift_pct` real NOT NULL,
+	`extra_years` integer NOT NULL,
+	`incremental_cost` real,
+	`break_even_year` real,
+	PRIMARY KEY(`cip_code`, `cred_level`)
+);
+
+--> statement-breakpoint
+CREATE TABLE `major_history` (
+	`release_year` integer NOT NULL,
+	`cip_code` text NOT NULL,
+	`cip_title` text NOT NULL,
+	`cred_level` integer NOT NULL,
+	`cred_title` text,
+	`school_count` integer,
+	`median_earn_1yr` real,
+	`median_earn_4yr` real,
+	`median_earn_5yr` real,
+	`p25_earn_1yr` real,
+	`p75_earn_1yr` real,
+	`p25_earn_5yr` real,
+	`p75_earn_5yr` real,
+	`growth_rate` real,
+	`value_added_earn_1yr` real,
+	`net_premium` real,
+	PRIMARY KEY(`release_year`, `cip_code`, `cred_level`)
+);
+
+--> statement-breakpoint
+CREATE TABLE `majors_summary` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`cip_code` text NOT NULL,
+	`cip_title` text NOT NULL,
+	`cred_level` integer NOT NULL,
+	`cred_title` text,
+	`school_count` integer,
+	`median_earn_1yr` real,
+	`median_earn_4yr` real,
+	`median_earn_5yr` real,
+	`p25_earn_1yr` real,
+	`p75_earn_1yr` real,
+	`p25_earn_5yr` real,
+	`p75_earn_5yr` real,
+	`growth_rate` real,
+	`value_added_earn_1yr` real,
+	`net_premium` real
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_majors_key` ON `majors_summary` (`cip_code`,`cred_level`);
+--> statement-breakpoint
+CREATE TABLE `newsletter_signups` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`email` text NOT NULL,
+	`source` text,
+	`created_at` integer NOT NULL
+);
+
+--> statement-breakpoint
+CREATE UNIQUE INDEX `newsletter_signups_email_unique` ON `newsletter_signups` (`email`);
+--> statement-breakpoint
+CREATE TABLE `program_history` (
+	`release_year` integer NOT NULL,
+	`unit_id` integer NOT NULL,
+	`cip_code` text NOT NULL,
+	`cred_level` integer NOT NULL,
+	`earn_1yr` real,
+	`earn_4yr` real,
+	`earn_5yr` real,
+	`earn_1yr_count` integer,
+	`earn_5yr_count` integer,
+	PRIMARY KEY(`release_year`, `unit_id`, `cip_code`, `cred_level`)
+);
+
+--> statement-breakpoint
+CREATE INDEX `idx_program_history_cip` ON `program_history` (`cip_code`);
+--> statement-breakpoint
+CREATE INDEX `idx_program_history_unit` ON `program_history` (`unit_id`);
+--> statement-breakpoint
+CREATE TABLE `programs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`unit_id` integer NOT NULL,
+	`school_name` text,
+	`state` text,
+	`cip_code` text NOT NULL,
+	`cip_title` text,
+	`cred_level` integer,
+	`cred_title` text,
+	`earn_1yr` real,
+	`earn_4yr` real,
+	`earn_5yr` real,
+	`earn_1yr_count` integer,
+	`earn_5yr_count` integer,
+	`cost_attendance` real,
+	`net_price` real,
+	`total_cost` real,
+	`cumulative_earnings` real,
+	`npv` real,
+	`break_even_year` real,
+	`value_added_earn_1yr` real,
+	`net_premium` real,
+	`median_debt` real,
+	`debt_to_earnings` real,
+	`monthly_payment` real,
+	`accountability_status` text,
+	`accountability_notes` text,
+	`selectivity_tier` text,
+	FOREIGN KEY (`unit_id`) REFERENCES `schools`(`unit_id`) ON UPDATE no action ON DELETE no action
+);
+
+--> statement-breakpoint
+CREATE INDEX `idx_programs_cip` ON `programs` (`cip_code`);
+--> statement-breakpoint
+CREATE INDEX `idx_programs_unit` ON `programs` (`unit_id`);
+--> statement-breakpoint
+CREATE INDEX `idx_programs_accountability` ON `programs` (`accountability_status`);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_programs_key` ON `programs` (`unit_id`,`cip_code`,`cred_level`);
+--> statement-breakpoint
+CREATE TABLE `school_ranking_history` (
+	`release_year` integer NOT NULL,
+	`unit_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`city` text NOT NULL,
+	`state` text NOT NULL,
+	`ownership` integer NOT NULL,
+	`ownership_label` text NOT NULL,
+	`admission_rate` real,
+	`sat_combined` real,
+	`size` integer,
+	`cost_attendance` real,
+	`net_price` real,
+	`net_price_0_30k` real,
+	`net_price_30_48k` real,
+	`net_price_48_75k` real,
+	`net_price_75_110k` real,
+	`net_price_110k_plus` real,
+	`completion_rate` real,
+	`retention_rate` real,
+	`completion_rate_150` real,
+	`repayment_rate_3yr` real,
+	`pell_share` real,
+	`first_gen_share` real,
+	`hbcu` integer,
+	`hsi` integer,
+	`tribal` integer,
+	`womens_college` integer,
+	`religious_affiliation` integer,
+	`locale` integer,
+	`carnegie_basic` integer,
+	`selectivity_tier` text NOT NULL,
+	`program_count` integer NOT NULL,
+	`median_earn_1yr` real,
+	`weighted_earn_1yr` real,
+	`weighted_earn_5yr` real,
+	`total_cost` real,
+	`cumulative_earnings` real,
+	`npv` real,
+	`break_even_year` real,
+	`value_added_earn_1yr` real,
+	`net_premium` real,
+	`max_earn_1yr` real,
+	`top_program` text,
+	PRIMARY KEY(`release_year`, `unit_id`)
+);
+
+--> statement-breakpoint
+CREATE TABLE `school_rankings` (
+	`unit_id` integer PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`city` text NOT NULL,
+	`state` text NOT NULL,
+	`ownership` integer NOT NULL,
+	`ownership_label` text NOT NULL,
+	`admission_rate` real,
+	`sat_combined` real,
+	`size` integer,
+	`cost_attendance` real,
+	`net_price` real,
+	`net_price_0_30k` real,
+	`net_price_30_48k` real,
+	`net_price_48_75k` real,
+	`net_price_75_110k` real,
+	`net_price_110k_plus` real,
+	`completion_rate` real,
+	`retention_rate` real,
+	`completion_rate_150` real,
+	`repayment_rate_3yr` real,
+	`pell_share` real,
+	`first_gen_share` real,
+	`hbcu` integer,
+	`hsi` integer,
+	`tribal` integer,
+	`womens_college` integer,
+	`religious_affiliation` integer,
+	`locale` integer,
+	`carnegie_basic` integer,
+	`selectivity_tier` text NOT NULL,
+	`program_count` integer NOT NULL,
+	`median_earn_1yr` real,
+	`weighted_earn_1yr` real,
+	`weighted_earn_5yr` real,
+	`total_cost` real,
+	`cumulative_earnings` real,
+	`npv` real,
+	`break_even_year` real,
+	`value_added_earn_1yr` real,
+	`net_premium` real,
+	`max_earn_1yr` real,
+	`top_program` text
+);
+
+--> statement-breakpoint
+CREATE TABLE `schools` (
+	`unit_id` integer PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`city` text,
+	`state` text,
+	`ownership` integer,
+	`ownership_label` text,
+	`admission_rate` real,
+	`sat_read_75` real,
+	`sat_math_75` real,
+	`size` integer,
+	`cost_attendance` real,
+	`tuition_in_state` real,
+	`tuition_out_state` real,
+	`net_price_public` real,
+	`net_price_private` real,
+	`net_price_0_30k` real,
+	`net_price_30_48k` real,
+	`net_price_48_75k` real,
+	`net_price_75_110k` real,
+	`net_price_110k_plus` real,
+	`completion_rate` real,
+	`retention_rate` real,
+	`completion_rate_150` real,
+	`repayment_rate_3yr` real,
+	`pell_share` real,
+	`first_gen_share` real,
+	`hbcu` integer,
+	`hsi` integer,
+	`tribal` integer,
+	`womens_college` integer,
+	`religious_affiliation` integer,
+	`locale` integer,
+	`carnegie_basic` integer,
+	`selectivity_tier` text,
+	`lat` real,
+	`lon` real
+);
+
+--> statement-breakpoint
+CREATE INDEX `idx_schools_name` ON `schools` (`name`);
+--> statement-breakpoint
+CREATE INDEX `idx_schools_state` ON `schools` (`state`);
@@ -0,0 +1,3 @@
+ALTER TABLE `programs` DROP COLUMN `adjusted_earn_1yr`;
+--> statement-breakpoint
+ALTER TABLE `programs` DROP COLUMN `adjusted_earn_5yr`;
@@ -0,0 +1,3 @@
+ALTER TABLE `programs` ADD `adjusted_earn_1yr` real;
+--> statement-breakpoint
+ALTER TABLE `programs` ADD `adjusted_earn_5yr` real;
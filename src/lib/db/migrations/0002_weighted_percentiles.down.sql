@@ -0,0 +1,15 @@
+ALTER TABLE `major_history` DROP COLUMN `p10_earn_1yr`;
+--> statement-breakpoint
+ALTER TABLE `major_history` DROP COLUMN `p90_earn_1yr`;
+--> statement-breakpoint
+ALTER TABLE `major_history` DROP COLUMN `p10_earn_5yr`;
+--> statement-breakpoint
+ALTER TABLE `major_history` DROP COLUMN `p90_earn_5yr`;
+--> statement-breakpoint
+ALTER TABLE `majors_summary` DROP COLUMN `p10_earn_1yr`;
+--> statement-breakpoint
+ALTER TABLE `majors_summary` DROP COLUMN `p90_earn_1yr`;
+--> statement-breakpoint
+ALTER TABLE `majors_summary` DROP COLUMN `p10_earn_5yr`;
+--> statement-breakpoint
+ALTER TABLE `majors_summary` DROP COLUMN `p90_earn_5yr`;
@@ -0,0 +1,15 @@
+ALTER TABLE `major_history` ADD `p10_earn_1yr` real;
+--> statement-breakpoint
+ALTER TABLE `major_history` ADD `p90_earn_1yr` real;
+--> statement-breakpoint
+ALTER TABLE `major_history` ADD `p10_earn_5yr` real;
+--> statement-breakpoint
+ALTER TABLE `major_history` ADD `p90_earn_5yr` real;
+--> statement-breakpoint
+ALTER TABLE `majors_summary` ADD `p10_earn_1yr` real;
+--> statement-breakpoint
+ALTER TABLE `majors_summary` ADD `p90_earn_1yr` real;
+--> statement-breakpoint
+ALTER TABLE `majors_summary` ADD `p10_earn_5yr` real;
+--> statement-breakpoint
+ALTER TABLE `majors_summary` ADD `p90_earn_5yr` real;
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real, index } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, index, uniqueIndex, primaryKey } from 'drizzle-orm/sqlite-core';
 
 export const schools = sqliteTable('schools', {
   unitId: integer('unit_id').primaryKey(),
@@ -16,7 +16,24 @@ export const schools = sqliteTable('schools', {
   tuitionOutState: real('tuition_out_state'),
   netPricePublic: real('net_price_public'),
   netPricePrivate: real('net_price_private'),
+  netPrice0to30k: real('net_price_0_30k'),
+  netPrice30to48k: real('net_price_30_48k'),
+  netPrice48to75k: real('net_price_48_75k'),
+  netPrice75to110k: real('net_price_75_110k'),
+  netPrice110kPlus: real('net_price_110k_plus'),
   completionRate: real('completion_rate'),
+  retentionRate: real('retention_rate'),
+  completionRate150: real('completion_rate_150'),
+  repaymentRate3yr: real('repayment_rate_3yr'),
+  pellShare: real('pell_share'),
+  firstGenShare: real('first_gen_share'),
+  hbcu: integer('hbcu', { mode: 'boolean' }),
+  hsi: integer('hsi', { mode: 'boolean' }),
+  tribal: integer('tribal', { mode: 'boolean' }),
+  womensCollege: integer('womens_college', { mode: 'boolean' }),
+  religiousAffiliation: integer('religious_affiliation'),
+  locale: integer('locale'),
+  carnegieBasic: integer('carnegie_basic'),
   selectivityTier: text('selectivity_tier'),
   lat: real('lat'),
   lon: real('lon'),
@@ -39,26 +56,53 @@ export const programs = sqliteTable('programs', {
   earn5yr: real('earn_5yr'),
   earn1yrCount: integer('earn_1yr_count'),
   earn5yrCount: integer('earn_5yr_count'),
+  adjustedEarn1yr: real('adjusted_earn_1yr'),
+  adjustedEarn5yr: real('adjusted_earn_5yr'),
   costAttendance: real('cost_attendance'),
+  netPrice: real('net_price'),
+  totalCost: real('total_cost'),
+  cumulativeEarnings: real('cumulative_earnings'),
+  npv: real('npv'),
+  breakEvenYear: real('break_even_year'),
+  valueAddedEarn1yr: real('value_added_earn_1yr'),
+  netPremium: real('net_premium'),
+  medianDebt: real('median_debt'),
+  debtToEarnings: real('debt_to_earnings'),
+  monthlyPayment: real('monthly_payment'),
+  accountabilityStatus: text('accountability_status'),
+  accountabilityNotes: text('accountability_notes'),
   selectivityTier: text('selectivity_tier'),
 }, (table) => [
   index('idx_programs_cip').on(table.cipCode),
   index('idx_programs_unit').on(table.unitId),
+  index('idx_programs_accountability').on(table.accountabilityStatus),
+  uniqueIndex('idx_programs_key').on(table.unitId, table.cipCode, table.credLevel),
 ]);
 
 export const majorsSummary = sqliteTable('majors_summary', {
-  cipCode: text('cip_code').primaryKey(),
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  cipCode: text('cip_code').notNull(),
   cipTitle: text('cip_title').notNull(),
+  credLevel: integer('cred_level').notNull(),
+  credTitle: text('cred_title'),
   schoolCount: integer('school_count'),
   medianEarn1yr: real('median_earn_1yr'),
   medianEarn4yr: real('median_earn_4yr'),
   medianEarn5yr: real('median_earn_5yr'),
+  p10Earn1yr: real('p10_earn_1yr'),
   p25Earn1yr: real('p25_earn_1yr'),
   p75Earn1yr: real('p75_earn_1yr'),
+  p90Earn1yr: real('p90_earn_1yr'),
+  p10Earn5yr: real('p10_earn_5yr'),
   p25Earn5yr: real('p25_earn_5yr'),
   p75Earn5yr: real('p75_earn_5yr'),
+  p90Earn5yr: real('p90_earn_5yr'),
   growthRate: real('growth_rate'),
-});
+  valueAddedEarn1yr: real('value_added_earn_1yr'),
+  netPremium: real('net_premium'),
+}, (table) => [
+  uniqueIndex('idx_majors_key').on(table.cipCode, table.credLevel),
+]);
 
 export const schoolRankings = sqliteTable('school_rankings', {
   unitId: integer('unit_id').primaryKey(),
@@ -72,17 +116,173 @@ export const schoolRankings = sqliteTable('school_rankings', {
   size: integer('size'),
   costAttendance: real('cost_attendance'),
   netPrice: real('net_price'),
+  netPrice0to30k: real('net_price_0_30k'),
+  netPrice30to48k: real('net_price_30_48k'),
+  netPrice48to75k: real('net_price_48_75k'),
+  netPrice75to110k: real('net_price_75_110k'),
+  netPrice110kPlus: real('net_price_110k_plus'),
   completionRate: real('completion_rate'),
+  retentionRate: real('retention_rate'),
+  completionRate150: real('completion_rate_150'),
+  repaymentRate3yr: real('repayment_rate_3yr'),
+  pellShare: real('pell_share'),
+  firstGenShare: real('first_gen_share'),
+  hbcu: integer('hbcu', { mode: 'boolean' }),
+  hsi: integer('hsi', { mode: 'boolean' }),
+  tribal: integer('tribal', { mode: 'boolean' }),
+  womensCollege: integer('womens_college', { mode: 'boolean' }),
+  religiousAffiliation: integer('religious_affiliation'),
+  locale: integer('locale'),
+  carnegieBasic: integer('carnegie_basic'),
   selectivityTier: text('selectivity_tier').notNull(),
   programCount: integer('program_count').notNull(),
   medianEarn1yr: real('median_earn_1yr'),
   weightedEarn1yr: real('weighted_earn_1yr'),
   weightedEarn5yr: real('weighted_earn_5yr'),
-  roi: real('roi'),
+  totalCost: real('total_cost'),
+  cumulativeEarnings: real('cumulative_earnings'),
+  npv: real('npv'),
+  breakEvenYear: real('break_even_year'),
+  valueAddedEarn1yr: real('value_added_earn_1yr'),
+  netPremium: real('net_premium'),
   maxEarn1yr: real('max_earn_1yr'),
   topProgram: text('top_program'),
 });
 
+export const baselineEarnings = sqliteTable('baseline_earnings', {
+  state: text('state').primaryKey(),
+  earnings: real('earnings').notNull(),
+});
+
+// --- Release history ---
+// One row per Scorecard release year; the tables above hold the current release.
+
+export const programHistory = sqliteTable('program_history', {
+  releaseYear: integer('release_year').notNull(),
+  unitId: integer('unit_id').notNull(),
+  cipCode: text('cip_code').notNull(),
+  credLevel: integer('cred_level').notNull(),
+  earn1yr: real('earn_1yr'),
+  earn4yr: real('earn_4yr'),
+  earn5yr: real('earn_5yr'),
+  earn1yrCount: integer('earn_1yr_count'),
+  earn5yrCount: integer('earn_5yr_count'),
+}, (table) => [
+  primaryKey({ columns: [table.releaseYear, table.unitId, table.cipCode, table.credLevel] }),
+  index('idx_program_history_cip').on(table.cipCode),
+  index('idx_program_history_unit').on(table.unitId),
+]);
+
+export const majorHistory = sqliteTable('major_history', {
+  releaseYear: integer('release_year').notNull(),
+  cipCode: text('cip_code').notNull(),
+  cipTitle: text('cip_title').notNull(),
+  credLevel: integer('cred_level').notNull(),
+  credTitle: text('cred_title'),
+  schoolCount: integer('school_count'),
+  medianEarn1yr: real('median_earn_1yr'),
+  medianEarn4yr: real('median_earn_4yr'),
+  medianEarn5yr: real('median_earn_5yr'),
+  p10Earn1yr: real('p10_earn_1yr'),
+  p25Earn1yr: real('p25_earn_1yr'),
+  p75Earn1yr: real('p75_earn_1yr'),
+  p90Earn1yr: real('p90_earn_1yr'),
+  p10Earn5yr: real('p10_earn_5yr'),
+  p25Earn5yr: real('p25_earn_5yr'),
+  p75Earn5yr: real('p75_earn_5yr'),
+  p90Earn5yr: real('p90_earn_5yr'),
+  growthRate: real('growth_rate'),
+  valueAddedEarn1yr: real('value_added_earn_1yr'),
+  netPremium: real('net_premium'),
+}, (table) => [
+  primaryKey({ columns: [table.releaseYear, table.cipCode, table.credLevel] }),
+]);
+
+export const schoolRankingHistory = sqliteTable('school_ranking_history', {
+  releaseYear: integer('release_year').notNull(),
+  unitId: integer('unit_id').notNull(),
+  name: text('name').notNull(),
+  city: text('city').notNull(),
+  state: text('state').notNull(),
+  ownership: integer('ownership').notNull(),
+  ownershipLabel: text('ownership_label').notNull(),
+  admissionRate: real('admission_rate'),
+  satCombined: real('sat_combined'),
+  size: integer('size'),
+  costAttendance: real('cost_attendance'),
+  netPrice: real('net_price'),
+  netPrice0to30k: real('net_price_0_30k'),
+  netPrice30to48k: real('net_price_30_48k'),
+  netPrice48to75k: real('net_price_48_75k'),
+  netPrice75to110k: real('net_price_75_110k'),
+  netPrice110kPlus: real('net_price_110k_plus'),
+  completionRate: real('completion_rate'),
+  retentionRate: real('retention_rate'),
+  completionRate150: real('completion_rate_150'),
+  repaymentRate3yr: real('repayment_rate_3yr'),
+  pellShare: real('pell_share'),
+  firstGenShare: real('first_gen_share'),
+  hbcu: integer('hbcu', { mode: 'boolean' }),
+  hsi: integer('hsi', { mode: 'boolean' }),
+  tribal: integer('tribal', { mode: 'boolean' }),
+  womensCollege: integer('womens_college', { mode: 'boolean' }),
+  religiousAffiliation: integer('religious_affiliation'),
+  locale: integer('locale'),
+  carnegieBasic: integer('carnegie_basic'),
+  selectivityTier: text('selectivity_tier').notNull(),
+  programCount: integer('program_count').notNull(),
+  medianEarn1yr: real('median_earn_1yr'),
+  weightedEarn1yr: real('weighted_earn_1yr'),
+  weightedEarn5yr: real('weighted_earn_5yr'),
+  totalCost: real('total_cost'),
+  cumulativeEarnings: real('cumulative_earnings'),
+  npv: real('npv'),
+  breakEvenYear: real('break_even_year'),
+  valueAddedEarn1yr: real('value_added_earn_1yr'),
+  netPremium: real('net_premium'),
+  maxEarn1yr: real('max_earn_1yr'),
+  topProgram: text('top_program'),
+}, (table) => [
+  primaryKey({ columns: [table.releaseYear, table.unitId] }),
+]);
+
+export const graduateUplift = sqliteTable('graduate_uplift', {
+  unitId: integer('unit_id').notNull(),
+  schoolName: text('school_name'),
+  cipCode: text('cip_code').notNull(),
+  credLevel: integer('cred_level').notNull(),
+  credTitle: text('cred_title'),
+  bachelorEarn1yr: real('bachelor_earn_1yr').notNull(),
+  bachelorEarn5yr: real('bachelor_earn_5yr'),
+  graduateEarn1yr: real('graduate_earn_1yr').notNull(),
+  graduateEarn5yr: real('graduate_earn_5yr'),
+  upliftEarn1yr: real('uplift_earn_1yr').notNull(),
+  upliftPct: real('uplift_pct').notNull(),
+  extraYears: integer('extra_years').notNull(),
+  incrementalCost: real('incremental_cost'),
+  breakEvenYear: real('break_even_year'),
+}, (table) => [
+  primaryKey({ columns: [table.unitId, table.cipCode, table.credLevel] }),
+  index('idx_graduate_uplift_cip').on(table.cipCode),
+]);
+
+export const graduateUpliftNational = sqliteTable('graduate_uplift_national', {
+  cipCode: text('cip_code').notNull(),
+  credLevel: integer('cred_level').notNull(),
+  credTitle: text('cred_title'),
+  bachelorEarn1yr: real('bachelor_earn_1yr').notNull(),
+  bachelorEarn5yr: real('bachelor_earn_5yr'),
+  graduateEarn1yr: real('graduate_earn_1yr').notNull(),
+  graduateEarn5yr: real('graduate_earn_5yr'),
+  upliftEarn1yr: real('uplift_earn_1yr').notNull(),
+  upliftPct: real('uplift_pct').notNull(),
+  extraYears: integer('extra_years').notNull(),
+  incrementalCost: real('incremental_cost'),
+  breakEvenYear: real('break_even_year'),
+}, (table) => [
+  primaryKey({ columns: [table.cipCode, table.credLevel] }),
+]);
+
 export const analyticsEvents = sqliteTable('analytics_events', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   sessionId: text('session_id').notNull(),
@@ -102,3 +302,11 @@ export const newsletterSignups = sqliteTable('newsletter_signups', {
   source: text('source'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
 });
+
+export const adminUsers = sqliteTable('admin_users', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  username: text('username').notNull().unique(),
+  passwordHash: text('password_hash').notNull(),
+  role: text('role', { enum: ['viewer', 'admin'] }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+});
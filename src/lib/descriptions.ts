@@ -5,7 +5,7 @@ export function generateMajorDescription(major: MajorSummary): string {
   const parts: string[] = [];
 
   parts.push(
-    `${major.cipTitle.replace(/\.+$/, '')} is offered at ${formatNumber(major.schoolCount)} school${major.schoolCount === 1 ? '' : 's'}.`,
+    `${major.cipTitle.replace(/\.+$/, '')} (${major.credTitle}) is offered at ${formatNumber(major.schoolCount)} school${major.schoolCount === 1 ? '' : 's'}.`,
   );
 
   if (major.medianEarn1yr != null) {
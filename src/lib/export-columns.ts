@@ -0,0 +1,178 @@
+import type { MajorSummary, ProgramRecord, School, SchoolRanking } from '@/types';
+import type { ExportColumn } from './export';
+import { getDisplayTier } from './tiers';
+import { getCipCategory } from './cip-categories';
+import { characteristicLabels, type SchoolCharacteristics } from './characteristics';
+import { headlineEarnings, reliability } from './confidence';
+
+// Column sets shared by the table export buttons and the API CSV/XLSX
+// responses, so a download from either carries the same fields.
+
+function characteristicsColumn<T extends SchoolCharacteristics>(): ExportColumn<T> {
+  return {
+    key: 'characteristics',
+    header: 'Characteristics',
+    value: (r) => characteristicLabels(r).join('; ') || null,
+  };
+}
+
+function field<T>(key: keyof T & string, header: string): ExportColumn<T> {
+  return {
+    key,
+    header,
+    value: (row) => {
+      const v = row[key];
+      return typeof v === 'number' || typeof v === 'string' ? v : null;
+    },
+  };
+}
+
+/**
+ * The plain field columns of a set that a narrower select carries, typed for
+ * its rows. Computed columns are keyed apart from the record fields, so they
+ * drop out with the fields they read.
+ */
+export function selectedColumns<F extends object>(
+  columns: ExportColumn<never>[],
+  fields: F,
+): ExportColumn<Record<keyof F & string, unknown>>[] {
+  const selected = (key: string): key is keyof F & string => key in fields;
+  return columns.flatMap((c) =>
+    selected(c.key) ? [field<Record<keyof F & string, unknown>>(c.key, c.header)] : [],
+  );
+}
+
+export const SCHOOL_RANKING_COLUMNS: ExportColumn<SchoolRanking>[] = [
+  field('unitId', 'Unit ID'),
+  field('name', 'School'),
+  field('city', 'City'),
+  field('state', 'State'),
+  field('ownershipLabel', 'Ownership'),
+  {
+    key: 'tier',
+    header: 'Tier',
+    value: (r) => getDisplayTier(r.name, r.selectivityTier, r.admissionRate, r.size),
+  },
+  characteristicsColumn(),
+  field('admissionRate', 'Admission Rate'),
+  field('satCombined', 'SAT (75th pct)'),
+  field('size', 'Enrollment'),
+  field('programCount', 'Programs'),
+  field('medianEarn1yr', 'Median Earnings (1yr)'),
+  field('weightedEarn1yr', 'Weighted Earnings (1yr)'),
+  field('weightedEarn5yr', 'Weighted Earnings (5yr)'),
+  field('maxEarn1yr', 'Top Program Earnings (1yr)'),
+  field('topProgram', 'Top Program'),
+  field('costAttendance', 'Cost of Attendance'),
+  field('netPrice', 'Net Price'),
+  field('totalCost', 'Total Net Cost'),
+  field('completionRate', 'Completion Rate'),
+  field('retentionRate', 'First-Year Retention'),
+  field('completionRate150', 'Completion (150% Time)'),
+  field('repaymentRate3yr', '3-Year Repayment Rate'),
+  field('pellShare', 'Pell Grant Recipients'),
+  field('firstGenShare', 'First-Generation Students'),
+  field('cumulativeEarnings', 'Cumulative Earnings'),
+  field('npv', 'NPV'),
+  field('breakEvenYear', 'Break-even (yrs)'),
+  field('valueAddedEarn1yr', 'Value Added (1yr)'),
+  field('netPremium', 'Net Lifetime Premium'),
+];
+
+export const MAJOR_SUMMARY_COLUMNS: ExportColumn<MajorSummary>[] = [
+  field('cipCode', 'CIP Code'),
+  field('cipTitle', 'Major'),
+  field('credLevel', 'Credential Level'),
+  field('credTitle', 'Credential'),
+  { key: 'category', header: 'Category', value: (r) => getCipCategory(r.cipCode) },
+  field('schoolCount', 'Schools'),
+  field('medianEarn1yr', 'Median Earnings (1yr)'),
+  field('p10Earn1yr', '10th Pct Earnings (1yr)'),
+  field('p25Earn1yr', '25th Pct Earnings (1yr)'),
+  field('p75Earn1yr', '75th Pct Earnings (1yr)'),
+  field('p90Earn1yr', '90th Pct Earnings (1yr)'),
+  field('medianEarn4yr', 'Median Earnings (4yr)'),
+  field('medianEarn5yr', 'Median Earnings (5yr)'),
+  field('p10Earn5yr', '10th Pct Earnings (5yr)'),
+  field('p25Earn5yr', '25th Pct Earnings (5yr)'),
+  field('p75Earn5yr', '75th Pct Earnings (5yr)'),
+  field('p90Earn5yr', '90th Pct Earnings (5yr)'),
+  field('growthRate', 'Growth (1yr to 5yr)'),
+  field('valueAddedEarn1yr', 'Value Added (1yr)'),
+  field('netPremium', 'Net Lifetime Premium'),
+];
+
+export const PROGRAM_COLUMNS: ExportColumn<ProgramRecord>[] = [
+  field('unitId', 'Unit ID'),
+  field('schoolName', 'School'),
+  field('state', 'State'),
+  field('ownershipLabel', 'Ownership'),
+  {
+    key: 'tier',
+    header: 'Tier',
+    value: (r) => getDisplayTier(r.schoolName, r.selectivityTier, r.admissionRate, r.size),
+  },
+  field('cipCode', 'CIP Code'),
+  field('cipTitle', 'Major'),
+  { key: 'category', header: 'Category', value: (r) => getCipCategory(r.cipCode) },
+  field('credTitle', 'Credential'),
+  field('earn1yr', 'Earnings (1yr)'),
+  field('earn4yr', 'Earnings (4yr)'),
+  field('earn5yr', 'Earnings (5yr)'),
+  field('earn1yrCount', 'Graduates Reported (1yr)'),
+  field('earn5yrCount', 'Graduates Reported (5yr)'),
+  field('adjustedEarn1yr', 'Adjusted Earnings (1yr)'),
+  field('adjustedEarn5yr', 'Adjusted Earnings (5yr)'),
+  { key: 'reliability', header: 'Reliability', value: (r) => reliability(headlineEarnings(r).count) },
+  field('costAttendance', 'Cost of Attendance'),
+  field('netPrice', 'Net Price'),
+  field('totalCost', 'Total Net Cost'),
+  field('cumulativeEarnings', 'Cumulative Earnings'),
+  field('npv', 'NPV'),
+  field('breakEvenYear', 'Break-even (yrs)'),
+  field('valueAddedEarn1yr', 'Value Added (1yr)'),
+  field('netPremium', 'Net Lifetime Premium'),
+  field('medianDebt', 'Median Debt'),
+  field('debtToEarnings', 'Debt-to-Earnings'),
+  field('monthlyPayment', 'Monthly Payment (est.)'),
+  field('accountabilityStatus', 'Accountability'),
+  field('accountabilityNotes', 'Accountability Notes'),
+  field('admissionRate', 'Admission Rate'),
+  field('completionRate', 'Completion Rate'),
+];
+
+export const SCHOOL_COLUMNS: ExportColumn<School>[] = [
+  field('unitId', 'Unit ID'),
+  field('name', 'School'),
+  field('city', 'City'),
+  field('state', 'State'),
+  field('ownershipLabel', 'Ownership'),
+  {
+    key: 'tier',
+    header: 'Tier',
+    value: (r) => getDisplayTier(r.name, r.selectivityTier, r.admissionRate, r.size),
+  },
+  characteristicsColumn(),
+  field('admissionRate', 'Admission Rate'),
+  field('satRead75', 'SAT Reading (75th pct)'),
+  field('satMath75', 'SAT Math (75th pct)'),
+  field('size', 'Enrollment'),
+  field('costAttendance', 'Cost of Attendance'),
+  field('tuitionInState', 'In-state Tuition'),
+  field('tuitionOutState', 'Out-of-state Tuition'),
+  field('netPricePublic', 'Net Price (public)'),
+  field('netPricePrivate', 'Net Price (private)'),
+  field('netPrice0to30k', 'Net Price (income $0-30K)'),
+  field('netPrice30to48k', 'Net Price (income $30-48K)'),
+  field('netPrice48to75k', 'Net Price (income $48-75K)'),
+  field('netPrice75to110k', 'Net Price (income $75-110K)'),
+  field('netPrice110kPlus', 'Net Price (income $110K+)'),
+  field('completionRate', 'Completion Rate'),
+  field('retentionRate', 'First-Year Retention'),
+  field('completionRate150', 'Completion (150% Time)'),
+  field('repaymentRate3yr', '3-Year Repayment Rate'),
+  field('pellShare', 'Pell Grant Recipients'),
+  field('firstGenShare', 'First-Generation Students'),
+  field('lat', 'Latitude'),
+  field('lon', 'Longitude'),
+];
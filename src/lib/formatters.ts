@@ -27,6 +27,11 @@ export function formatPayback(value: number | null): string {
   return value.toFixed(1) + ' yrs';
 }
 
+export function formatRatio(value: number | null): string {
+  if (value == null) return '\u2014';
+  return value.toFixed(2) + 'x';
+}
+
 export function formatCompact(value: number): string {
   if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
   if (value >= 1_000) return `$${(value / 1_000).toFixed(0)}K`;
@@ -0,0 +1,21 @@
+const EARTH_RADIUS_MILES = 3958.8;
+const MILES_PER_DEGREE = (Math.PI * EARTH_RADIUS_MILES) / 180;
+
+function toRadians(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
+
+/** Great-circle distance in miles between two lat/lon points. */
+export function distanceMiles(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** Converts a ground distance to the angular radius d3's geoCircle expects. */
+export function milesToDegrees(miles: number): number {
+  return miles / MILES_PER_DEGREE;
+}
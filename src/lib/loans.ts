@@ -0,0 +1,158 @@
+// Fixed monthly payment that retires `principal` over `years` at a fixed
+// annual interest rate (standard amortization).
+export function monthlyPayment(principal: number, annualRate: number, years: number): number {
+  if (principal <= 0 || years <= 0) return 0;
+  const months = years * 12;
+  const r = annualRate / 12;
+  if (r === 0) return principal / months;
+  return (principal * r) / (1 - (1 + r) ** -months);
+}
+
+export type RepaymentPlanKey = 'standard' | 'extended' | 'income-driven';
+
+export interface RepaymentOptions {
+  annualRate: number;
+  standardYears: number;
+  extendedYears: number;
+  idrIncomeShare: number; // share of discretionary income paid each year
+  idrPovertyMultiple: number; // income below this multiple of the poverty line is protected
+  povertyLine: number; // single-person federal poverty guideline
+  idrForgivenessYears: number;
+}
+
+export const DEFAULT_REPAYMENT_OPTIONS: RepaymentOptions = {
+  annualRate: 0.065,
+  standardYears: 10,
+  extendedYears: 25,
+  idrIncomeShare: 0.1,
+  idrPovertyMultiple: 1.5,
+  povertyLine: 15060,
+  idrForgivenessYears: 20,
+};
+
+export const REPAYMENT_PLANS: { key: RepaymentPlanKey; label: string }[] = [
+  { key: 'standard', label: 'Standard' },
+  { key: 'extended', label: 'Extended' },
+  { key: 'income-driven', label: 'Income-Driven' },
+];
+
+export interface ProgramDebt {
+  medianDebt: number | null;
+  debtToEarnings: number | null; // median debt over first-year earnings
+  monthlyPayment: number | null; // standard-plan payment on the median debt
+}
+
+export function programDebt(
+  medianDebt: number | null,
+  earn1yr: number | null,
+  options: Partial<RepaymentOptions> = {},
+): ProgramDebt {
+  const opts = { ...DEFAULT_REPAYMENT_OPTIONS, ...options };
+  if (medianDebt == null) return { medianDebt: null, debtToEarnings: null, monthlyPayment: null };
+  return {
+    medianDebt,
+    debtToEarnings: earn1yr != null && earn1yr > 0 ? Math.round((medianDebt / earn1yr) * 100) / 100 : null,
+    monthlyPayment: Math.round(monthlyPayment(medianDebt, opts.annualRate, opts.standardYears)),
+  };
+}
+
+// Affordability limits: median debt above a full year of first-year earnings,
+// or standard payments above 8% of annual earnings (the gainful-employment
+// debt-to-earnings standard).
+export const DEBT_TO_EARNINGS_LIMIT = 1;
+export const PAYMENT_SHARE_LIMIT = 0.08;
+
+// Why a program's debt looks unaffordable, or null when it is within both limits.
+export function debtWarning(debt: ProgramDebt, earn1yr: number | null): string | null {
+  if (debt.debtToEarnings != null && debt.debtToEarnings > DEBT_TO_EARNINGS_LIMIT) {
+    return 'Median debt exceeds first-year earnings';
+  }
+  if (debt.monthlyPayment != null && earn1yr != null && earn1yr > 0) {
+    const share = (debt.monthlyPayment * 12) / earn1yr;
+    if (share > PAYMENT_SHARE_LIMIT) {
+      return `Loan payments take ${Math.round(share * 100)}% of first-year earnings`;
+    }
+  }
+  return null;
+}
+
+export interface RepaymentResult {
+  plan: RepaymentPlanKey;
+  label: string;
+  firstPayment: number; // monthly payment in the first year
+  totalPaid: number;
+  yearsToRepay: number | null; // null when the balance is forgiven instead
+  forgiven: number;
+  balances: number[]; // balance at graduation, then at the end of each year
+}
+
+// Income-driven payments are recalculated once a year from that year's
+// earnings and never exceed the standard-plan payment. Any balance left after
+// the forgiveness period is written off.
+function idrMonthlyPayment(income: number, standardPayment: number, opts: RepaymentOptions): number {
+  const discretionary = Math.max(0, income - opts.idrPovertyMultiple * opts.povertyLine);
+  return Math.min((discretionary * opts.idrIncomeShare) / 12, standardPayment);
+}
+
+export function simulateRepayment(
+  principal: number,
+  earnings: number[],
+  plan: RepaymentPlanKey,
+  options: Partial<RepaymentOptions> = {},
+): RepaymentResult {
+  const opts = { ...DEFAULT_REPAYMENT_OPTIONS, ...options };
+  const label = REPAYMENT_PLANS.find((p) => p.key === plan)?.label ?? plan;
+  const r = opts.annualRate / 12;
+  const standardPayment = monthlyPayment(principal, opts.annualRate, opts.standardYears);
+  const termYears =
+    plan === 'standard' ? opts.standardYears
+      : plan === 'extended' ? opts.extendedYears
+        : opts.idrForgivenessYears;
+  const fixedPayment = plan === 'extended'
+    ? monthlyPayment(principal, opts.annualRate, opts.extendedYears)
+    : standardPayment;
+
+  let balance = principal;
+  let totalPaid = 0;
+  let firstPayment = 0;
+  let yearsToRepay: number | null = null;
+  const balances = [principal];
+
+  for (let year = 0; year < termYears && balance > 0; year++) {
+    const income = earnings[Math.min(year, earnings.length - 1)] ?? 0;
+    const payment = plan === 'income-driven'
+      ? idrMonthlyPayment(income, standardPayment, opts)
+      : fixedPayment;
+    if (year === 0) firstPayment = payment;
+
+    for (let month = 0; month < 12 && balance > 0; month++) {
+      balance += balance * r;
+      const paid = Math.min(payment, balance);
+      balance -= paid;
+      totalPaid += paid;
+      if (balance <= 0.005) {
+        balance = 0;
+        yearsToRepay = year + (month + 1) / 12;
+      }
+    }
+    balances.push(Math.round(balance));
+  }
+
+  return {
+    plan,
+    label,
+    firstPayment: Math.round(firstPayment),
+    totalPaid: Math.round(totalPaid),
+    yearsToRepay: yearsToRepay != null ? Math.round(yearsToRepay * 10) / 10 : null,
+    forgiven: Math.round(balance),
+    balances,
+  };
+}
+
+export function simulateAllPlans(
+  principal: number,
+  earnings: number[],
+  options: Partial<RepaymentOptions> = {},
+): RepaymentResult[] {
+  return REPAYMENT_PLANS.map(({ key }) => simulateRepayment(principal, earnings, key, options));
+}
@@ -0,0 +1,55 @@
+import { computeNetPremium, computeRoi, DEFAULT_ROI_OPTIONS, type EarningsPoints } from './roi';
+import { getBaselineEarnings } from './baseline-earnings';
+import type { IncomeBracket } from './calculator';
+
+// Average net price paid by federal aid recipients in each family income
+// bracket. Scorecard splits these by public and private control; processing
+// keeps whichever matches the school.
+export interface NetPriceByIncome {
+  netPrice0to30k: number | null;
+  netPrice30to48k: number | null;
+  netPrice48to75k: number | null;
+  netPrice75to110k: number | null;
+  netPrice110kPlus: number | null;
+}
+
+export const INCOME_NET_PRICE_FIELDS: Record<IncomeBracket, keyof NetPriceByIncome> = {
+  '0-30k': 'netPrice0to30k',
+  '30-48k': 'netPrice30to48k',
+  '48-75k': 'netPrice48to75k',
+  '75-110k': 'netPrice75to110k',
+  '110k+': 'netPrice110kPlus',
+};
+
+export interface IncomeRoi {
+  netPrice: number | null;
+  totalCost: number | null;
+  cumulativeEarnings: number | null;
+  npv: number | null;
+  breakEvenYear: number | null;
+  netPremium: number | null;
+}
+
+/**
+ * Cost and ROI at the net price a family in `bracket` pays, falling back to
+ * the overall average when the school does not report that bracket.
+ */
+export function roiAtIncome(
+  averageNetPrice: number | null,
+  prices: NetPriceByIncome,
+  bracket: IncomeBracket,
+  points: EarningsPoints,
+  state: string,
+  degreeYears = DEFAULT_ROI_OPTIONS.degreeYears,
+): IncomeRoi {
+  const netPrice = prices[INCOME_NET_PRICE_FIELDS[bracket]] ?? averageNetPrice;
+  const roi = computeRoi(netPrice, points, { degreeYears });
+  return {
+    netPrice,
+    totalCost: roi?.totalCost ?? null,
+    cumulativeEarnings: roi?.cumulativeEarnings ?? null,
+    npv: roi?.npv ?? null,
+    breakEvenYear: roi?.breakEvenYear ?? null,
+    netPremium: computeNetPremium(netPrice, points, getBaselineEarnings(state), { degreeYears }),
+  };
+}
@@ -0,0 +1,25 @@
+// Institution-level student outcomes from Scorecard, each a share between 0
+// and 1. Scorecard reports retention and 150%-time completion separately for
+// four-year and less-than-four-year schools; processing keeps whichever the
+// school reports.
+export interface SchoolOutcomes {
+  retentionRate: number | null; // full-time students returning for a second year
+  completionRate150: number | null; // completing within 150% of normal time
+  repaymentRate3yr: number | null; // borrowers who paid down principal within 3 years
+  pellShare: number | null; // undergraduates receiving a Pell grant
+  firstGenShare: number | null; // first-generation college students
+}
+
+export type OutcomeKey = keyof SchoolOutcomes;
+
+export const OUTCOME_FIELDS: { key: OutcomeKey; label: string; shortLabel: string }[] = [
+  { key: 'retentionRate', label: 'First-Year Retention', shortLabel: 'Retention' },
+  { key: 'completionRate150', label: 'Completion (150% Time)', shortLabel: 'Completion' },
+  { key: 'repaymentRate3yr', label: '3-Year Repayment Rate', shortLabel: 'Repayment' },
+  { key: 'pellShare', label: 'Pell Grant Recipients', shortLabel: 'Pell' },
+  { key: 'firstGenShare', label: 'First-Generation Students', shortLabel: 'First-Gen' },
+];
+
+export function outcomeField(key: OutcomeKey) {
+  return OUTCOME_FIELDS.find((f) => f.key === key)!;
+}
@@ -0,0 +1,29 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+// Hashes are stored as scrypt$<salt>$<hash>, both base64url.
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, 64);
+  return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = scryptSync(password, Buffer.from(salt, 'base64url'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Stands in for a stored hash when the username does not exist
+const DUMMY_HASH = hashPassword(randomBytes(16).toString('base64url'));
+
+/**
+ * Does the same scrypt work as a real check and fails, so an unknown username
+ * takes as long to reject as a wrong password.
+ */
+export function rejectUnknownUser(password: string): false {
+  verifyPassword(password, DUMMY_HASH);
+  return false;
+}
@@ -0,0 +1,126 @@
+import { desc, eq } from 'drizzle-orm';
+import { getDb } from '@/lib/db';
+import { majorsSummary, schoolRankings, majorHistory, schoolRankingHistory } from '@/lib/db/schema';
+import { credentialLabel } from '@/lib/credentials';
+import type { MajorSummary, SchoolRanking } from '@/types';
+
+// The live tables hold the current Scorecard release; the *_history tables
+// keep every ingested release year with the same columns.
+
+export interface ReleaseData {
+  majorsSummary: MajorSummary[];
+  schoolRankings: SchoolRanking[];
+}
+
+/** Ingested release years, newest first. */
+export async function getReleaseYears(): Promise<number[]> {
+  const rows = await getDb()
+    .selectDistinct({ year: majorHistory.releaseYear })
+    .from(majorHistory)
+    .orderBy(desc(majorHistory.releaseYear));
+  return rows.map((r) => r.year);
+}
+
+function toMajorSummary(r: Omit<typeof majorsSummary.$inferSelect, 'id'>): MajorSummary {
+  return {
+    cipCode: r.cipCode,
+    cipTitle: r.cipTitle.replace(/\.+$/, ''),
+    credLevel: r.credLevel,
+    credTitle: r.credTitle ?? credentialLabel(r.credLevel),
+    schoolCount: r.schoolCount ?? 0,
+    medianEarn1yr: r.medianEarn1yr,
+    medianEarn4yr: r.medianEarn4yr,
+    medianEarn5yr: r.medianEarn5yr,
+    p10Earn1yr: r.p10Earn1yr,
+    p25Earn1yr: r.p25Earn1yr,
+    p75Earn1yr: r.p75Earn1yr,
+    p90Earn1yr: r.p90Earn1yr,
+    p10Earn5yr: r.p10Earn5yr,
+    p25Earn5yr: r.p25Earn5yr,
+    p75Earn5yr: r.p75Earn5yr,
+    p90Earn5yr: r.p90Earn5yr,
+    growthRate: r.growthRate,
+    valueAddedEarn1yr: r.valueAddedEarn1yr,
+    netPremium: r.netPremium,
+  };
+}
+
+function toSchoolRanking(r: typeof schoolRankings.$inferSelect): SchoolRanking {
+  return {
+    unitId: r.unitId,
+    name: r.name,
+    city: r.city,
+    state: r.state,
+    ownership: r.ownership,
+    ownershipLabel: r.ownershipLabel,
+    admissionRate: r.admissionRate,
+    satCombined: r.satCombined,
+    size: r.size,
+    costAttendance: r.costAttendance,
+    netPrice: r.netPrice,
+    netPrice0to30k: r.netPrice0to30k,
+    netPrice30to48k: r.netPrice30to48k,
+    netPrice48to75k: r.netPrice48to75k,
+    netPrice75to110k: r.netPrice75to110k,
+    netPrice110kPlus: r.netPrice110kPlus,
+    completionRate: r.completionRate,
+    retentionRate: r.retentionRate,
+    completionRate150: r.completionRate150,
+    repaymentRate3yr: r.repaymentRate3yr,
+    pellShare: r.pellShare,
+    firstGenShare: r.firstGenShare,
+    hbcu: r.hbcu,
+    hsi: r.hsi,
+    tribal: r.tribal,
+    womensCollege: r.womensCollege,
+    religiousAffiliation: r.religiousAffiliation,
+    locale: r.locale,
+    carnegieBasic: r.carnegieBasic,
+    selectivityTier: r.selectivityTier,
+    programCount: r.programCount,
+    medianEarn1yr: r.medianEarn1yr,
+    weightedEarn1yr: r.weightedEarn1yr,
+    weightedEarn5yr: r.weightedEarn5yr,
+    totalCost: r.totalCost,
+    cumulativeEarnings: r.cumulativeEarnings,
+    npv: r.npv,
+    breakEvenYear: r.breakEvenYear,
+    valueAddedEarn1yr: r.valueAddedEarn1yr,
+    netPremium: r.netPremium,
+    maxEarn1yr: r.maxEarn1yr,
+    topProgram: r.topProgram,
+  };
+}
+
+/** Majors summary and school rankings for a release year, or the current release when null. */
+export async function getReleaseData(year: number | null): Promise<ReleaseData> {
+  const db = getDb();
+
+  if (year == null) {
+    const [majorRows, schoolRows] = await Promise.all([
+      db.select().from(majorsSummary).orderBy(desc(majorsSummary.medianEarn1yr)),
+      db.select().from(schoolRankings).orderBy(desc(schoolRankings.weightedEarn1yr)),
+    ]);
+    return {
+      majorsSummary: majorRows.map(toMajorSummary),
+      schoolRankings: schoolRows.map(toSchoolRanking),
+    };
+  }
+
+  const [majorRows, schoolRows] = await Promise.all([
+    db
+      .select()
+      .from(majorHistory)
+      .where(eq(majorHistory.releaseYear, year))
+      .orderBy(desc(majorHistory.medianEarn1yr)),
+    db
+      .select()
+      .from(schoolRankingHistory)
+      .where(eq(schoolRankingHistory.releaseYear, year))
+      .orderBy(desc(schoolRankingHistory.weightedEarn1yr)),
+  ]);
+  return {
+    majorsSummary: majorRows.map(toMajorSummary),
+    schoolRankings: schoolRows.map(toSchoolRanking),
+  };
+}
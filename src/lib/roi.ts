@@ -0,0 +1,154 @@
+export interface RoiOptions {
+  degreeYears: number;
+  horizonYears: number; // years of earnings counted after graduation
+  careerYears: number; // working years used for the lifetime premium
+  discountRate: number;
+}
+
+export const DEFAULT_ROI_OPTIONS: RoiOptions = {
+  degreeYears: 4,
+  horizonYears: 10,
+  careerYears: 40,
+  discountRate: 0.03,
+};
+
+export interface EarningsPoints {
+  earn1yr: number | null;
+  earn4yr: number | null;
+  earn5yr: number | null;
+}
+
+export interface RoiResult {
+  totalCost: number;
+  cumulativeEarnings: number;
+  npv: number;
+  breakEvenYear: number | null; // years after graduation, fractional
+}
+
+// Scorecard reports earnings 1, 4 and 5 years after completion. Between known
+// points we interpolate linearly; before the first and after the last known
+// point earnings are held flat.
+export function interpolateEarnings(points: EarningsPoints, year: number): number | null {
+  const known: [number, number][] = [];
+  if (points.earn1yr != null) known.push([1, points.earn1yr]);
+  if (points.earn4yr != null) known.push([4, points.earn4yr]);
+  if (points.earn5yr != null) known.push([5, points.earn5yr]);
+  if (known.length === 0) return null;
+
+  if (year <= known[0][0]) return known[0][1];
+  for (let i = 1; i < known.length; i++) {
+    const [x0, y0] = known[i - 1];
+    const [x1, y1] = known[i];
+    if (year <= x1) return y0 + ((y1 - y0) * (year - x0)) / (x1 - x0);
+  }
+  return known[known.length - 1][1];
+}
+
+export function earningsTrajectory(points: EarningsPoints, years: number): number[] | null {
+  if (interpolateEarnings(points, 1) == null) return null;
+  return Array.from({ length: years }, (_, i) => interpolateEarnings(points, i + 1)!);
+}
+
+export function computeRoi(
+  netPrice: number | null,
+  points: EarningsPoints,
+  options: Partial<RoiOptions> = {},
+): RoiResult | null {
+  const { degreeYears, horizonYears, discountRate } = { ...DEFAULT_ROI_OPTIONS, ...options };
+  if (netPrice == null || netPrice <= 0) return null;
+  const trajectory = earningsTrajectory(points, horizonYears);
+  if (!trajectory) return null;
+
+  // Net price is paid at the start of each year of study
+  const totalCost = netPrice * degreeYears;
+  let npv = 0;
+  for (let t = 0; t < degreeYears; t++) {
+    npv -= netPrice / (1 + discountRate) ** t;
+  }
+
+  // Earnings for year y after graduation arrive at the end of that year
+  let cumulative = 0;
+  let breakEvenYear: number | null = null;
+  for (let i = 0; i < trajectory.length; i++) {
+    const earn = trajectory[i];
+    if (breakEvenYear == null && earn > 0 && cumulative + earn >= totalCost) {
+      breakEvenYear = i + (totalCost - cumulative) / earn;
+    }
+    cumulative += earn;
+    npv += earn / (1 + discountRate) ** (degreeYears + i + 1);
+  }
+
+  return {
+    totalCost: Math.round(totalCost),
+    cumulativeEarnings: Math.round(cumulative),
+    npv: Math.round(npv),
+    breakEvenYear: breakEvenYear != null ? Math.round(breakEvenYear * 10) / 10 : null,
+  };
+}
+
+// Discounted lifetime earnings over a high-school-only worker in the same
+// state, net of the degree's cost and of the baseline earnings forgone while
+// studying.
+export function computeNetPremium(
+  netPrice: number | null,
+  points: EarningsPoints,
+  baselineEarnings: number,
+  options: Partial<RoiOptions> = {},
+): number | null {
+  const { degreeYears, careerYears, discountRate } = { ...DEFAULT_ROI_OPTIONS, ...options };
+  if (netPrice == null || netPrice <= 0) return null;
+  const trajectory = earningsTrajectory(points, careerYears);
+  if (!trajectory) return null;
+
+  let premium = 0;
+  for (let t = 0; t < degreeYears; t++) {
+    premium -= netPrice / (1 + discountRate) ** t;
+    premium -= baselineEarnings / (1 + discountRate) ** (t + 1);
+  }
+  for (let i = 0; i < trajectory.length; i++) {
+    premium += (trajectory[i] - baselineEarnings) / (1 + discountRate) ** (degreeYears + i + 1);
+  }
+  return Math.round(premium);
+}
+
+export interface UpliftResult {
+  incrementalCost: number; // net price of the extra years plus bachelor's earnings forgone
+  breakEvenYear: number | null; // years after finishing the graduate credential, fractional
+}
+
+// Compares working on with a bachelor's against spending `extraYears` on a
+// graduate credential. While studying, the bachelor's earnings for those years
+// are forgone; afterwards each year's gain is the graduate's earnings minus
+// what the bachelor's holder earns at the same point in their career.
+export function computeGraduateUplift(
+  netPrice: number | null,
+  bachelor: EarningsPoints,
+  graduate: EarningsPoints,
+  extraYears: number,
+  options: Partial<RoiOptions> = {},
+): UpliftResult | null {
+  const { careerYears } = { ...DEFAULT_ROI_OPTIONS, ...options };
+  if (netPrice == null || netPrice <= 0) return null;
+  const bachelorPath = earningsTrajectory(bachelor, extraYears + careerYears);
+  const graduatePath = earningsTrajectory(graduate, careerYears);
+  if (!bachelorPath || !graduatePath) return null;
+
+  const forgone = bachelorPath.slice(0, extraYears).reduce((sum, earn) => sum + earn, 0);
+  const incrementalCost = netPrice * extraYears + forgone;
+
+  let cumulative = 0;
+  let breakEvenYear: number | null = null;
+  for (let i = 0; i < graduatePath.length; i++) {
+    const gain = graduatePath[i] - bachelorPath[extraYears + i];
+    if (gain > 0 && cumulative + gain >= incrementalCost) {
+      breakEvenYear = i + (incrementalCost - cumulative) / gain;
+      break;
+    }
+    cumulative += gain;
+  }
+
+  return {
+    incrementalCost: Math.round(incrementalCost),
+    breakEvenYear: breakEvenYear != null ? Math.round(breakEvenYear * 10) / 10 : null,
+  };
+}
@@ -0,0 +1,71 @@
+import type { SchoolRanking } from '@/types';
+import { getDisplayTier } from './tiers';
+import type { OutcomeKey } from './outcomes';
+import {
+  DEFAULT_CHARACTERISTIC_FILTERS,
+  hasCharacteristicFilters,
+  matchesCharacteristics,
+  type CharacteristicFilters,
+} from './characteristics';
+
+// Filters shared by the Colleges table and the Map tab. AppShell owns the
+// state so switching tabs keeps the current selection.
+export interface SchoolFilters extends CharacteristicFilters {
+  search: string;
+  ownership: number | null;
+  state: string;
+  tiers: Set<string>;
+  minPrograms: number;
+  outcome: OutcomeKey; // outcome shown in the Colleges table and used by minOutcome
+  minOutcome: number | null;
+}
+
+export const DEFAULT_SCHOOL_FILTERS: SchoolFilters = {
+  search: '',
+  ownership: null,
+  state: '',
+  tiers: new Set(),
+  minPrograms: 5,
+  outcome: 'completionRate150',
+  minOutcome: null,
+  ...DEFAULT_CHARACTERISTIC_FILTERS,
+};
+
+/** True when any filter beyond the minimum-programs and outcome-column baseline is set. */
+export function hasSchoolFilters(filters: SchoolFilters): boolean {
+  return !!(
+    filters.search.trim() ||
+    filters.ownership != null ||
+    filters.state ||
+    filters.tiers.size > 0 ||
+    filters.minOutcome != null ||
+    hasCharacteristicFilters(filters)
+  );
+}
+
+export function filterSchoolRankings(rows: SchoolRanking[], filters: SchoolFilters): SchoolRanking[] {
+  let result = rows.filter((r) => r.programCount >= filters.minPrograms);
+  if (filters.search.trim()) {
+    const q = filters.search.toLowerCase();
+    result = result.filter((r) => r.name.toLowerCase().includes(q));
+  }
+  if (filters.ownership != null) {
+    result = result.filter((r) => r.ownership === filters.ownership);
+  }
+  if (filters.state) {
+    result = result.filter((r) => r.state === filters.state);
+  }
+  if (filters.tiers.size > 0) {
+    result = result.filter((r) =>
+      filters.tiers.has(getDisplayTier(r.name, r.selectivityTier, r.admissionRate, r.size)),
+    );
+  }
+  if (hasCharacteristicFilters(filters)) {
+    result = result.filter((r) => matchesCharacteristics(r, filters));
+  }
+  if (filters.minOutcome != null) {
+    const { outcome, minOutcome } = filters;
+    result = result.filter((r) => r[outcome] != null && r[outcome] >= minOutcome);
+  }
+  return result;
+}
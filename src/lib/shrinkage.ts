@@ -0,0 +1,117 @@
+import { EARNINGS_LOG_SD, MEDIAN_SE_FACTOR } from './confidence';
+import type { EarningsBasis } from '@/types';
+
+// Empirical-Bayes adjusted earnings. A program's median is a noisy estimate
+// whose sampling variance on the log scale is (MEDIAN_SE_FACTOR * sigma)^2 / n,
+// the same model as the confidence intervals. Programs in the same field,
+// credential level and selectivity tier share a prior centred on their
+// count-weighted mean; the spread of true program earnings around that mean is
+// estimated from the data. Each median is pulled toward the prior by
+// variance / (variance + spread), so a program with a dozen graduates moves
+// most of the way and one with thousands barely moves.
+
+// Field and tier groups smaller than this borrow the whole field's mean instead
+export const MIN_TIER_GROUP = 3;
+// Floor on the between-program spread, so a level with few programs is not
+// collapsed onto its group means
+const MIN_PRIOR_LOG_SD = 0.1;
+
+export interface ShrinkageInput {
+  cipCode: string;
+  credLevel: number;
+  selectivityTier: string;
+  earnings: number | null;
+  count: number | null; // graduates the earnings were measured over
+}
+
+interface GroupMean {
+  sum: number; // count-weighted sum of log earnings
+  weight: number;
+  programs: number;
+}
+
+function addTo(groups: Map<string, GroupMean>, key: string, logEarnings: number, count: number) {
+  const group = groups.get(key) ?? { sum: 0, weight: 0, programs: 0 };
+  group.sum += logEarnings * count;
+  group.weight += count;
+  group.programs++;
+  groups.set(key, group);
+}
+
+/**
+ * Adjusted earnings for each input, in the same order. Programs without a
+ * graduate count keep their reported figure, since there is nothing to say how
+ * noisy it is; programs without earnings stay null.
+ */
+export function shrinkEarnings(items: ShrinkageInput[]): (number | null)[] {
+  const sampleVariance = (count: number) => (MEDIAN_SE_FACTOR * EARNINGS_LOG_SD) ** 2 / count;
+  const fieldKey = (p: ShrinkageInput) => `${p.cipCode}-${p.credLevel}`;
+  const tierKey = (p: ShrinkageInput) => `${fieldKey(p)}-${p.selectivityTier}`;
+  const measured = (p: ShrinkageInput): p is ShrinkageInput & { earnings: number; count: number } =>
+    p.earnings != null && p.earnings > 0 && p.count != null && p.count > 0;
+
+  const fields = new Map<string, GroupMean>();
+  const tiers = new Map<string, GroupMean>();
+  for (const p of items) {
+    if (!measured(p)) continue;
+    addTo(fields, fieldKey(p), Math.log(p.earnings), p.count);
+    addTo(tiers, tierKey(p), Math.log(p.earnings), p.count);
+  }
+
+  const priorGroup = (p: ShrinkageInput): GroupMean => {
+    const tier = tiers.get(tierKey(p))!;
+    return tier.programs >= MIN_TIER_GROUP ? tier : fields.get(fieldKey(p))!;
+  };
+
+  // Method of moments per credential level: the variance of programs around
+  // their prior mean, less the part explained by sampling noise. Programs
+  // alone in their group carry no information about the spread.
+  const moments = new Map<number, { squared: number; noise: number; programs: number }>();
+  for (const p of items) {
+    if (!measured(p)) continue;
+    const group = priorGroup(p);
+    if (group.programs < 2) continue;
+    const m = moments.get(p.credLevel) ?? { squared: 0, noise: 0, programs: 0 };
+    m.squared += (Math.log(p.earnings) - group.sum / group.weight) ** 2;
+    m.noise += sampleVariance(p.count);
+    m.programs++;
+    moments.set(p.credLevel, m);
+  }
+  const priorVariance = new Map<number, number>();
+  for (const [level, m] of moments) {
+    priorVariance.set(level, Math.max(MIN_PRIOR_LOG_SD ** 2, (m.squared - m.noise) / m.programs));
+  }
+
+  return items.map((p) => {
+    if (!measured(p)) return p.earnings;
+    const group = priorGroup(p);
+    const spread = priorVariance.get(p.credLevel) ?? MIN_PRIOR_LOG_SD ** 2;
+    const variance = sampleVariance(p.count);
+    const weight = variance / (variance + spread);
+    const prior = group.sum / group.weight;
+    return Math.round(Math.exp(prior + (1 - weight) * (Math.log(p.earnings) - prior)));
+  });
+}
+
+export const EARNINGS_BASES: { key: EarningsBasis; label: string }[] = [
+  { key: 'raw', label: 'Reported' },
+  { key: 'adjusted', label: 'Adjusted for sample size' },
+];
+
+export interface RankedEarnings {
+  earn1yr: number | null;
+  earn5yr: number | null;
+  adjustedEarn1yr: number | null;
+  adjustedEarn5yr: number | null;
+}
+
+/**
+ * The 1- or 5-year figure a table shows and ranks on for the chosen basis.
+ * Programs loaded from releases processed before adjustment fall back to the
+ * reported figure.
+ */
+export function rankedEarnings(p: RankedEarnings, years: 1 | 5, basis: EarningsBasis): number | null {
+  const reported = years === 1 ? p.earn1yr : p.earn5yr;
+  if (basis === 'raw') return reported;
+  return (years === 1 ? p.adjustedEarn1yr : p.adjustedEarn5yr) ?? reported;
+}
@@ -0,0 +1,38 @@
+import type { EarningsTrendPoint } from '@/types';
+
+export interface YearOverYear {
+  fromYear: number;
+  toYear: number;
+  change: number; // percent, rounded
+}
+
+/** Groups release-history rows into per-key series, oldest release first. */
+export function groupTrends<T>(
+  rows: T[],
+  keyOf: (row: T) => string | number,
+  pointOf: (row: T) => EarningsTrendPoint,
+): Record<string, EarningsTrendPoint[]> {
+  const trends: Record<string, EarningsTrendPoint[]> = {};
+  for (const row of rows) {
+    const key = String(keyOf(row));
+    (trends[key] ??= []).push(pointOf(row));
+  }
+  for (const points of Object.values(trends)) points.sort((a, b) => a.year - b.year);
+  return trends;
+}
+
+/**
+ * Change in first-year earnings between the two most recent releases that
+ * report them. Releases can be skipped when earnings were suppressed.
+ */
+export function yearOverYear(points: EarningsTrendPoint[] | undefined): YearOverYear | null {
+  const reported = (points ?? []).filter((p) => p.earn1yr != null && p.earn1yr > 0);
+  if (reported.length < 2) return null;
+  const from = reported[reported.length - 2];
+  const to = reported[reported.length - 1];
+  return {
+    fromYear: from.year,
+    toYear: to.year,
+    change: Math.round(((to.earn1yr! - from.earn1yr!) / from.earn1yr!) * 100),
+  };
+}
@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE, hasRole, requiredRole, verifySessionToken } from '@/lib/auth';
+
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const role = requiredRole(pathname);
+  if (!role) return NextResponse.next();
+
+  const session = verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  const isApi = pathname.startsWith('/api/');
+
+  if (!session) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    const login = new URL('/login', request.url);
+    login.searchParams.set('next', pathname + search);
+    return NextResponse.redirect(login);
+  }
+
+  if (!hasRole(session, role)) {
+    if (isApi) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    return NextResponse.redirect(new URL('/login?error=forbidden', request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/analytics/:path*', '/admin/:path*', '/api/admin/:path*'],
+};
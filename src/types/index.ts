@@ -1,15 +1,23 @@
 export interface MajorSummary {
   cipCode: string;
   cipTitle: string;
+  credLevel: number;
+  credTitle: string;
   schoolCount: number;
   medianEarn1yr: number | null;
   medianEarn4yr: number | null;
   medianEarn5yr: number | null;
+  p10Earn1yr: number | null;
   p25Earn1yr: number | null;
   p75Earn1yr: number | null;
+  p90Earn1yr: number | null;
+  p10Earn5yr: number | null;
   p25Earn5yr: number | null;
   p75Earn5yr: number | null;
+  p90Earn5yr: number | null;
   growthRate: number | null;
+  valueAddedEarn1yr: number | null;
+  netPremium: number | null;
 }
 
 export interface ProgramRecord {
@@ -25,7 +33,21 @@ export interface ProgramRecord {
   earn5yr: number | null;
   earn1yrCount: number | null;
   earn5yrCount: number | null;
+  adjustedEarn1yr: number | null; // earn1yr shrunk toward the field and tier mean by graduate count
+  adjustedEarn5yr: number | null; // earn5yr shrunk toward the field and tier mean by graduate count
   costAttendance: number | null;
+  netPrice: number | null;
+  totalCost: number | null;
+  cumulativeEarnings: number | null;
+  npv: number | null;
+  breakEvenYear: number | null;
+  valueAddedEarn1yr: number | null;
+  netPremium: number | null;
+  medianDebt: number | null;
+  debtToEarnings: number | null; // median debt over first-year earnings
+  monthlyPayment: number | null; // standard 10-year plan on the median debt
+  accountabilityStatus: AccountabilityStatus | null; // null when no test could be applied
+  accountabilityNotes: string | null;
   selectivityTier: string;
   ownership: number | null;
   ownershipLabel: string | null;
@@ -34,6 +56,22 @@ export interface ProgramRecord {
   satRead75: number | null;
   size: number | null;
   completionRate: number | null;
+  hbcu: boolean | null; // historically Black college or university
+  hsi: boolean | null; // Hispanic-serving institution
+  tribal: boolean | null; // tribal college or university
+  womensCollege: boolean | null;
+  religiousAffiliation: number | null; // IPEDS code, null when unaffiliated
+  locale: number | null; // NCES urban-centric locale code
+  carnegieBasic: number | null; // Carnegie basic classification code
+}
+
+// A program with its school's net price by family income, for the major page
+export interface MajorProgramRecord extends ProgramRecord {
+  netPrice0to30k: number | null;
+  netPrice30to48k: number | null;
+  netPrice48to75k: number | null;
+  netPrice75to110k: number | null;
+  netPrice110kPlus: number | null;
 }
 
 export interface School {
@@ -52,7 +90,24 @@ export interface School {
   tuitionOutState: number | null;
   netPricePublic: number | null;
   netPricePrivate: number | null;
+  netPrice0to30k: number | null; // net price by family income bracket
+  netPrice30to48k: number | null;
+  netPrice48to75k: number | null;
+  netPrice75to110k: number | null;
+  netPrice110kPlus: number | null;
   completionRate: number | null;
+  retentionRate: number | null; // institution outcomes, each a 0-1 share
+  completionRate150: number | null;
+  repaymentRate3yr: number | null;
+  pellShare: number | null;
+  firstGenShare: number | null;
+  hbcu: boolean | null; // historically Black college or university
+  hsi: boolean | null; // Hispanic-serving institution
+  tribal: boolean | null; // tribal college or university
+  womensCollege: boolean | null;
+  religiousAffiliation: number | null; // IPEDS code, null when unaffiliated
+  locale: number | null; // NCES urban-centric locale code
+  carnegieBasic: number | null; // Carnegie basic classification code
   selectivityTier: string;
   lat: number | null;
   lon: number | null;
@@ -70,21 +125,112 @@ export interface SchoolRanking {
   size: number | null;
   costAttendance: number | null;
   netPrice: number | null;
+  netPrice0to30k: number | null; // net price by family income bracket
+  netPrice30to48k: number | null;
+  netPrice48to75k: number | null;
+  netPrice75to110k: number | null;
+  netPrice110kPlus: number | null;
   completionRate: number | null;
+  retentionRate: number | null; // institution outcomes, each a 0-1 share
+  completionRate150: number | null;
+  repaymentRate3yr: number | null;
+  pellShare: number | null;
+  firstGenShare: number | null;
+  hbcu: boolean | null; // historically Black college or university
+  hsi: boolean | null; // Hispanic-serving institution
+  tribal: boolean | null; // tribal college or university
+  womensCollege: boolean | null;
+  religiousAffiliation: number | null; // IPEDS code, null when unaffiliated
+  locale: number | null; // NCES urban-centric locale code
+  carnegieBasic: number | null; // Carnegie basic classification code
   selectivityTier: string;
   programCount: number;
   medianEarn1yr: number | null;
   weightedEarn1yr: number | null;
   weightedEarn5yr: number | null;
-  roi: number | null;
+  totalCost: number | null;
+  cumulativeEarnings: number | null;
+  npv: number | null;
+  breakEvenYear: number | null;
+  valueAddedEarn1yr: number | null;
+  netPremium: number | null;
   maxEarn1yr: number | null;
   topProgram: string | null;
 }
 
-export type ViewTab = 'majors' | 'colleges';
+export interface SchoolRoi {
+  weightedEarn1yr: number | null;
+  weightedEarn5yr: number | null;
+  netPrice: number | null;
+  totalCost: number | null;
+  cumulativeEarnings: number | null;
+  npv: number | null;
+  breakEvenYear: number | null;
+}
+
+export interface CalculatorSchool {
+  unitId: number;
+  name: string;
+  city: string;
+  state: string;
+  costAttendance: number | null;
+  tuitionInState: number | null;
+  tuitionOutState: number | null;
+  netPrice0to30k: number | null; // net price by family income bracket
+  netPrice30to48k: number | null;
+  netPrice48to75k: number | null;
+  netPrice75to110k: number | null;
+  netPrice110kPlus: number | null;
+}
+
+export interface SchoolLocation {
+  unitId: number;
+  lat: number;
+  lon: number;
+}
+
+export interface ZipLocation {
+  zip: string;
+  city: string;
+  state: string;
+  lat: number;
+  lon: number;
+}
+
+// One Scorecard release's first-year earnings for a program
+export interface EarningsTrendPoint {
+  year: number;
+  earn1yr: number | null;
+}
+
+// Bachelor's vs. graduate earnings in one field, at a school or nationally
+export interface GraduateUplift {
+  cipCode: string;
+  credLevel: number; // the graduate credential
+  credTitle: string;
+  unitId: number | null; // null for the national comparison
+  schoolName: string | null;
+  bachelorEarn1yr: number;
+  bachelorEarn5yr: number | null;
+  graduateEarn1yr: number;
+  graduateEarn5yr: number | null;
+  upliftEarn1yr: number;
+  upliftPct: number; // percentage over the bachelor's first-year earnings
+  extraYears: number;
+  incrementalCost: number | null;
+  breakEvenYear: number | null; // years after completing the graduate credential
+}
+
+export type ViewTab = 'majors' | 'colleges' | 'map';
 
 export type SortDir = 'asc' | 'desc';
 
+export type AccountabilityStatus = 'pass' | 'warn' | 'fail';
+
+export type Reliability = 'high' | 'moderate' | 'low';
+
+export type EarningsBasis = 'raw' | 'adjusted';
+
 export type AnalyticsEventType =
   | 'page_view'
   | 'page_exit'